@@ -149,6 +149,66 @@ contract MockReserveConfiguration {
     return configuration.getUnbackedMintCap();
   }
 
+  function setActive(bool active) external {
+    DataTypes.ReserveConfigurationMap memory config = configuration;
+    config.setActive(active);
+    configuration = config;
+  }
+
+  function getActive() external view returns (bool) {
+    return configuration.getActive();
+  }
+
+  function setPaused(bool paused) external {
+    DataTypes.ReserveConfigurationMap memory config = configuration;
+    config.setPaused(paused);
+    configuration = config;
+  }
+
+  function getPaused() external view returns (bool) {
+    return configuration.getPaused();
+  }
+
+  function setBorrowableInIsolation(bool borrowable) external {
+    DataTypes.ReserveConfigurationMap memory config = configuration;
+    config.setBorrowableInIsolation(borrowable);
+    configuration = config;
+  }
+
+  function getBorrowableInIsolation() external view returns (bool) {
+    return configuration.getBorrowableInIsolation();
+  }
+
+  function setSiloedBorrowing(bool siloed) external {
+    DataTypes.ReserveConfigurationMap memory config = configuration;
+    config.setSiloedBorrowing(siloed);
+    configuration = config;
+  }
+
+  function getSiloedBorrowing() external view returns (bool) {
+    return configuration.getSiloedBorrowing();
+  }
+
+  function setDebtCeiling(uint256 ceiling) external {
+    DataTypes.ReserveConfigurationMap memory config = configuration;
+    config.setDebtCeiling(ceiling);
+    configuration = config;
+  }
+
+  function getDebtCeiling() external view returns (uint256) {
+    return configuration.getDebtCeiling();
+  }
+
+  function setIsForcedLiquidationEnabled(bool enabled) external {
+    DataTypes.ReserveConfigurationMap memory config = configuration;
+    config.setIsForcedLiquidationEnabled(enabled);
+    configuration = config;
+  }
+
+  function getIsForcedLiquidationEnabled() external view returns (bool) {
+    return configuration.getIsForcedLiquidationEnabled();
+  }
+
   function getFlags() external view returns (bool, bool, bool, bool, bool) {
     return configuration.getFlags();
   }
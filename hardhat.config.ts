@@ -37,6 +37,12 @@ const hardhatConfig = {
         runs: 100000,
       },
       evmVersion: 'london',
+      // Read by scripts/storage-layout.ts
+      outputSelection: {
+        '*': {
+          '*': ['storageLayout'],
+        },
+      },
     },
   },
   typechain: {
@@ -0,0 +1,346 @@
+import { BigNumber, BigNumberish } from 'ethers';
+import { getContract } from '@aave/deploy-v3';
+import { MAX_UINT_AMOUNT, ZERO_ADDRESS } from './constants';
+import { calcCompoundedInterest, calcLinearInterest } from './math-utils';
+import { decodeReserveConfiguration } from './reserve-configuration';
+import { tEthereumAddress } from './types';
+import { isBorrowing, isUsingAsCollateral, MAX_RESERVES_COUNT } from './user-configuration';
+import { Pool } from '../types';
+
+export interface AccountDataReserveState {
+  id: number;
+  asset: tEthereumAddress;
+  configuration: BigNumberish;
+  liquidityIndex: BigNumberish;
+  currentLiquidityRate: BigNumberish;
+  variableBorrowIndex: BigNumberish;
+  currentVariableBorrowRate: BigNumberish;
+  lastUpdateTimestamp: BigNumberish;
+}
+
+export interface AccountDataUserBalances {
+  scaledATokenBalance: BigNumberish;
+  scaledVariableDebt: BigNumberish;
+  principalStableDebt: BigNumberish;
+  stableBorrowRate: BigNumberish;
+  stableRateLastUpdated: BigNumberish;
+}
+
+export interface AccountDataEModeCategory {
+  ltv: BigNumberish;
+  liquidationThreshold: BigNumberish;
+  liquidationBonus: BigNumberish;
+  priceSource: tEthereumAddress;
+}
+
+export interface AccountDataParams {
+  reserves: AccountDataReserveState[];
+  prices: { [asset: string]: BigNumberish };
+  userConfiguration: BigNumberish;
+  userBalances: { [asset: string]: AccountDataUserBalances };
+  userEModeCategory: BigNumberish;
+  eModeCategory?: AccountDataEModeCategory;
+  currentTimestamp: BigNumberish;
+}
+
+export interface AccountData {
+  totalCollateralBase: BigNumber;
+  totalDebtBase: BigNumber;
+  availableBorrowsBase: BigNumber;
+  currentLiquidationThreshold: BigNumber;
+  ltv: BigNumber;
+  healthFactor: BigNumber;
+  hasZeroLtvCollateral: boolean;
+}
+
+export const findByAsset = <T>(
+  map: { [asset: string]: T },
+  asset: tEthereumAddress
+): T | undefined => {
+  const key = Object.keys(map).find((x) => x.toLowerCase() === asset.toLowerCase());
+  return key !== undefined ? map[key] : undefined;
+};
+
+export const getPrice = (prices: { [asset: string]: BigNumberish }, asset: tEthereumAddress) => {
+  const price = findByAsset(prices, asset);
+  if (price === undefined) {
+    throw new Error(`Missing price of asset ${asset}`);
+  }
+  return BigNumber.from(price);
+};
+
+/**
+ * Mirrors `ReserveLogic.getNormalizedIncome()` at the given timestamp
+ */
+export const getNormalizedIncome = (
+  reserve: AccountDataReserveState,
+  currentTimestamp: BigNumberish
+) =>
+  BigNumber.from(reserve.lastUpdateTimestamp).eq(currentTimestamp)
+    ? BigNumber.from(reserve.liquidityIndex)
+    : calcLinearInterest(
+        BigNumber.from(reserve.currentLiquidityRate),
+        BigNumber.from(currentTimestamp),
+        BigNumber.from(reserve.lastUpdateTimestamp)
+      ).rayMul(BigNumber.from(reserve.liquidityIndex));
+
+/**
+ * Mirrors `ReserveLogic.getNormalizedDebt()` at the given timestamp
+ */
+export const getNormalizedDebt = (
+  reserve: AccountDataReserveState,
+  currentTimestamp: BigNumberish
+) =>
+  BigNumber.from(reserve.lastUpdateTimestamp).eq(currentTimestamp)
+    ? BigNumber.from(reserve.variableBorrowIndex)
+    : calcCompoundedInterest(
+        BigNumber.from(reserve.currentVariableBorrowRate),
+        BigNumber.from(currentTimestamp),
+        BigNumber.from(reserve.lastUpdateTimestamp)
+      ).rayMul(BigNumber.from(reserve.variableBorrowIndex));
+
+/**
+ * Mirrors `StableDebtToken.balanceOf()` at the given timestamp
+ */
+export const getStableDebtBalance = (
+  balances: AccountDataUserBalances,
+  currentTimestamp: BigNumberish
+) =>
+  BigNumber.from(balances.principalStableDebt).isZero()
+    ? BigNumber.from(0)
+    : BigNumber.from(balances.principalStableDebt).rayMul(
+        calcCompoundedInterest(
+          BigNumber.from(balances.stableBorrowRate),
+          BigNumber.from(currentTimestamp),
+          BigNumber.from(balances.stableRateLastUpdated)
+        )
+      );
+
+/**
+ * Mirrors `GenericLogic.calculateAvailableBorrows()`
+ */
+export const calculateAvailableBorrows = (
+  totalCollateralBase: BigNumberish,
+  totalDebtBase: BigNumberish,
+  ltv: BigNumberish
+) => {
+  const availableBorrowsBase = BigNumber.from(totalCollateralBase).percentMul(ltv);
+  return availableBorrowsBase.lt(totalDebtBase)
+    ? BigNumber.from(0)
+    : availableBorrowsBase.sub(totalDebtBase);
+};
+
+/**
+ * Off-chain replica of `GenericLogic.calculateUserAccountData()`, extended with the available borrows as
+ * returned by `pool.getUserAccountData()`. Every intermediate value is rounded the same way the contracts do,
+ * so the result matches the on-chain one to the wei when the inputs are read at `currentTimestamp`.
+ * @param params.reserves The state of the reserves, as stored in `pool.getReserveData()`
+ * @param params.prices The oracle prices in base currency, including the eMode price source if any
+ * @param params.userConfiguration The raw `UserConfigurationMap.data` of the user
+ * @param params.userBalances The scaled balances and stable debt data of the user, keyed by asset
+ * @param params.userEModeCategory The eMode category of the user
+ * @param params.eModeCategory The parameters of the eMode category of the user, required if it is not 0
+ * @param params.currentTimestamp The timestamp the interest is accrued to
+ */
+export const calculateUserAccountData = (params: AccountDataParams): AccountData => {
+  const userConfiguration = BigNumber.from(params.userConfiguration);
+
+  if (userConfiguration.isZero()) {
+    return {
+      totalCollateralBase: BigNumber.from(0),
+      totalDebtBase: BigNumber.from(0),
+      availableBorrowsBase: BigNumber.from(0),
+      currentLiquidationThreshold: BigNumber.from(0),
+      ltv: BigNumber.from(0),
+      healthFactor: BigNumber.from(MAX_UINT_AMOUNT),
+      hasZeroLtvCollateral: false,
+    };
+  }
+
+  const userEModeCategory = BigNumber.from(params.userEModeCategory);
+  let eModeLtv = BigNumber.from(0);
+  let eModeLiqThreshold = BigNumber.from(0);
+  let eModeAssetPrice = BigNumber.from(0);
+
+  if (!userEModeCategory.isZero()) {
+    if (!params.eModeCategory) {
+      throw new Error(`Missing parameters of eMode category ${userEModeCategory}`);
+    }
+    eModeLtv = BigNumber.from(params.eModeCategory.ltv);
+    eModeLiqThreshold = BigNumber.from(params.eModeCategory.liquidationThreshold);
+    if (params.eModeCategory.priceSource !== ZERO_ADDRESS) {
+      eModeAssetPrice = getPrice(params.prices, params.eModeCategory.priceSource);
+    }
+  }
+
+  let totalCollateralBase = BigNumber.from(0);
+  let totalDebtBase = BigNumber.from(0);
+  let avgLtv = BigNumber.from(0);
+  let avgLiquidationThreshold = BigNumber.from(0);
+  let hasZeroLtvCollateral = false;
+
+  for (const reserve of params.reserves) {
+    const usingAsCollateral = isUsingAsCollateral(userConfiguration, reserve.id);
+    const borrowing = isBorrowing(userConfiguration, reserve.id);
+
+    if ((!usingAsCollateral && !borrowing) || reserve.asset === ZERO_ADDRESS) {
+      continue;
+    }
+
+    const { ltv, liquidationThreshold, decimals, eModeCategory } = decodeReserveConfiguration(
+      reserve.configuration
+    );
+    const assetUnit = BigNumber.from(10).pow(decimals);
+    const isInEModeCategory = !userEModeCategory.isZero() && eModeCategory.eq(userEModeCategory);
+
+    const assetPrice =
+      !eModeAssetPrice.isZero() && eModeCategory.eq(userEModeCategory)
+        ? eModeAssetPrice
+        : getPrice(params.prices, reserve.asset);
+
+    const balances = findByAsset(params.userBalances, reserve.asset);
+    if (!balances) {
+      throw new Error(`Missing user balances of asset ${reserve.asset}`);
+    }
+
+    if (!liquidationThreshold.isZero() && usingAsCollateral) {
+      const userBalanceBase = BigNumber.from(balances.scaledATokenBalance)
+        .rayMul(getNormalizedIncome(reserve, params.currentTimestamp))
+        .mul(assetPrice)
+        .div(assetUnit);
+
+      totalCollateralBase = totalCollateralBase.add(userBalanceBase);
+
+      if (!ltv.isZero()) {
+        avgLtv = avgLtv.add(userBalanceBase.mul(isInEModeCategory ? eModeLtv : ltv));
+      } else {
+        hasZeroLtvCollateral = true;
+      }
+
+      avgLiquidationThreshold = avgLiquidationThreshold.add(
+        userBalanceBase.mul(isInEModeCategory ? eModeLiqThreshold : liquidationThreshold)
+      );
+    }
+
+    if (borrowing) {
+      let userDebt = BigNumber.from(balances.scaledVariableDebt);
+      if (!userDebt.isZero()) {
+        userDebt = userDebt.rayMul(getNormalizedDebt(reserve, params.currentTimestamp));
+      }
+      userDebt = userDebt.add(getStableDebtBalance(balances, params.currentTimestamp));
+
+      totalDebtBase = totalDebtBase.add(userDebt.mul(assetPrice).div(assetUnit));
+    }
+  }
+
+  if (!totalCollateralBase.isZero()) {
+    avgLtv = avgLtv.div(totalCollateralBase);
+    avgLiquidationThreshold = avgLiquidationThreshold.div(totalCollateralBase);
+  } else {
+    avgLtv = BigNumber.from(0);
+    avgLiquidationThreshold = BigNumber.from(0);
+  }
+
+  const healthFactor = totalDebtBase.isZero()
+    ? BigNumber.from(MAX_UINT_AMOUNT)
+    : totalCollateralBase.percentMul(avgLiquidationThreshold).wadDiv(totalDebtBase);
+
+  return {
+    totalCollateralBase,
+    totalDebtBase,
+    availableBorrowsBase: calculateAvailableBorrows(totalCollateralBase, totalDebtBase, avgLtv),
+    currentLiquidationThreshold: avgLiquidationThreshold,
+    ltv: avgLtv,
+    healthFactor,
+    hasZeroLtvCollateral,
+  };
+};
+
+/**
+ * Reads from the chain every input needed by `calculateUserAccountData()` for a user. Only the reserves
+ * flagged in the user configuration are fetched.
+ * @param pool The Pool
+ * @param user The address of the user
+ * @param blockTag The block to read the state at, latest by default. The interest is accrued to its timestamp
+ */
+export const getAccountDataParams = async (
+  pool: Pool,
+  user: tEthereumAddress,
+  blockTag: number | string = 'latest'
+): Promise<AccountDataParams> => {
+  const overrides = { blockTag };
+  const { timestamp } = await pool.provider.getBlock(blockTag);
+
+  const addressesProvider = await getContract(
+    'IPoolAddressesProvider',
+    await pool.ADDRESSES_PROVIDER(overrides)
+  );
+  const oracle = await getContract(
+    'IPriceOracleGetter',
+    await addressesProvider.getPriceOracle(overrides)
+  );
+
+  const { data: userConfiguration } = await pool.getUserConfiguration(user, overrides);
+  const userEModeCategory = await pool.getUserEMode(user, overrides);
+
+  const params: AccountDataParams = {
+    reserves: [],
+    prices: {},
+    userConfiguration,
+    userBalances: {},
+    userEModeCategory,
+    currentTimestamp: timestamp,
+  };
+
+  if (!userEModeCategory.isZero()) {
+    const { ltv, liquidationThreshold, liquidationBonus, priceSource } =
+      await pool.getEModeCategoryData(userEModeCategory, overrides);
+    params.eModeCategory = { ltv, liquidationThreshold, liquidationBonus, priceSource };
+    if (priceSource !== ZERO_ADDRESS) {
+      params.prices[priceSource] = await oracle.getAssetPrice(priceSource, overrides);
+    }
+  }
+
+  for (let id = 0; id < MAX_RESERVES_COUNT; id++) {
+    if (userConfiguration.shr(id * 2).isZero()) break;
+    if (!isBorrowing(userConfiguration, id) && !isUsingAsCollateral(userConfiguration, id)) {
+      continue;
+    }
+
+    const asset = await pool.getReserveAddressById(id, overrides);
+    if (asset === ZERO_ADDRESS) continue;
+
+    const reserveData = await pool.getReserveData(asset, overrides);
+    params.reserves.push({
+      id,
+      asset,
+      configuration: reserveData.configuration.data,
+      liquidityIndex: reserveData.liquidityIndex,
+      currentLiquidityRate: reserveData.currentLiquidityRate,
+      variableBorrowIndex: reserveData.variableBorrowIndex,
+      currentVariableBorrowRate: reserveData.currentVariableBorrowRate,
+      lastUpdateTimestamp: reserveData.lastUpdateTimestamp,
+    });
+    params.prices[asset] = await oracle.getAssetPrice(asset, overrides);
+
+    const aToken = await getContract('IScaledBalanceToken', reserveData.aTokenAddress);
+    const variableDebtToken = await getContract(
+      'IScaledBalanceToken',
+      reserveData.variableDebtTokenAddress
+    );
+    const stableDebtToken = await getContract(
+      'IStableDebtToken',
+      reserveData.stableDebtTokenAddress
+    );
+
+    params.userBalances[asset] = {
+      scaledATokenBalance: await aToken.scaledBalanceOf(user, overrides),
+      scaledVariableDebt: await variableDebtToken.scaledBalanceOf(user, overrides),
+      principalStableDebt: await stableDebtToken.principalBalanceOf(user, overrides),
+      stableBorrowRate: await stableDebtToken.getUserStableRate(user, overrides),
+      stableRateLastUpdated: await stableDebtToken.getUserLastUpdated(user, overrides),
+    };
+  }
+
+  return params;
+};
@@ -1,4 +1,4 @@
-import { ethers } from 'ethers';
+import { BigNumberish, ethers, Signer } from 'ethers';
 import { signTypedData_v4 } from 'eth-sig-util';
 import { fromRpcSig, ECDSASignature } from 'ethereumjs-util';
 import { tEthereumAddress, tStringTokenSmallUnits } from './types';
@@ -107,6 +107,209 @@ export const buildDelegationWithSigParams = (
   },
 });
 
+// Subset of the ABI shared by the tokens implementing EIP-712 signatures (aTokens, debt tokens and the
+// testnet MintableERC20)
+const EIP712_TOKEN_ABI = [
+  'function name() view returns (string)',
+  'function nonces(address owner) view returns (uint256)',
+  'function EIP712_REVISION() view returns (bytes)',
+  'function DOMAIN_SEPARATOR() view returns (bytes32)',
+];
+
+// Signers able to sign typed data, e.g. JSON-RPC signers and wallets
+type TypedDataSigner = Signer & Pick<ethers.Wallet, '_signTypedData'>;
+type SignatureLike = Parameters<typeof ethers.utils.verifyTypedData>[3];
+
+const asTypedDataSigner = (signer: Signer) => {
+  if (typeof (signer as TypedDataSigner)._signTypedData !== 'function') {
+    throw new Error('Signer does not support EIP-712 typed data signing');
+  }
+  return signer as TypedDataSigner;
+};
+
+export interface EIP712TypedData {
+  types: { [type: string]: { name: string; type: string }[] };
+  primaryType: string;
+  domain: ethers.TypedDataDomain;
+  message: Record<string, any>;
+}
+
+/**
+ * Reads the EIP-712 domain of a token (name, revision and chainId), checking it against the
+ * `DOMAIN_SEPARATOR()` of the token
+ * @param token The address of the token
+ * @param provider The provider to read the token and the chainId with
+ */
+export const getTokenEIP712Domain = async (
+  token: tEthereumAddress,
+  provider: ethers.providers.Provider
+) => {
+  const tokenContract = new ethers.Contract(token, EIP712_TOKEN_ABI, provider);
+  const { chainId } = await provider.getNetwork();
+  const domain = {
+    name: (await tokenContract.name()) as string,
+    revision: ethers.utils.toUtf8String(await tokenContract.EIP712_REVISION()),
+    chainId,
+  };
+
+  const domainSeparator = ethers.utils._TypedDataEncoder.hashDomain({
+    name: domain.name,
+    version: domain.revision,
+    chainId,
+    verifyingContract: token,
+  });
+  if (domainSeparator !== (await tokenContract.DOMAIN_SEPARATOR())) {
+    throw new Error(`Unexpected EIP-712 domain separator for token ${token}`);
+  }
+
+  return domain;
+};
+
+const getTokenNonce = async (
+  token: tEthereumAddress,
+  owner: tEthereumAddress,
+  provider: ethers.providers.Provider
+) => (await new ethers.Contract(token, EIP712_TOKEN_ABI, provider).nonces(owner)).toNumber();
+
+/**
+ * Same as `buildPermitParams()`, with the domain and the nonce of the owner read from the token
+ */
+export const buildPermitParamsFromToken = async (
+  provider: ethers.providers.Provider,
+  token: tEthereumAddress,
+  owner: tEthereumAddress,
+  spender: tEthereumAddress,
+  deadline: string,
+  value: tStringTokenSmallUnits
+) => {
+  const { name, revision, chainId } = await getTokenEIP712Domain(token, provider);
+  const nonce = await getTokenNonce(token, owner, provider);
+
+  return buildPermitParams(chainId, token, revision, name, owner, spender, nonce, deadline, value);
+};
+
+/**
+ * Same as `buildDelegationWithSigParams()`, with the domain and the nonce of the delegator read from
+ * the debt token
+ */
+export const buildDelegationWithSigParamsFromToken = async (
+  provider: ethers.providers.Provider,
+  debtToken: tEthereumAddress,
+  delegator: tEthereumAddress,
+  delegatee: tEthereumAddress,
+  deadline: string,
+  value: tStringTokenSmallUnits
+) => {
+  const { name, revision, chainId } = await getTokenEIP712Domain(debtToken, provider);
+  const nonce = await getTokenNonce(debtToken, delegator, provider);
+
+  return buildDelegationWithSigParams(
+    chainId,
+    debtToken,
+    revision,
+    name,
+    delegatee,
+    nonce,
+    deadline,
+    value
+  );
+};
+
+// ethers derives the domain type from the domain itself and rejects an explicit `EIP712Domain`
+const withoutDomainType = (types: EIP712TypedData['types']) => {
+  const { EIP712Domain, ...messageTypes } = types;
+  return messageTypes;
+};
+
+/**
+ * Signs typed data with an ethers `Signer`, the counterpart of `getSignatureFromTypedData()` for
+ * JSON-RPC signers, wallets or any signer without an exposed private key
+ * @param signer The signer
+ * @param typedData The typed data, as built by `buildPermitParams()` or `buildDelegationWithSigParams()`
+ */
+export const signTypedDataWithSigner = async (
+  signer: Signer,
+  typedData: EIP712TypedData
+): Promise<ethers.Signature> =>
+  ethers.utils.splitSignature(
+    await asTypedDataSigner(signer)._signTypedData(
+      typedData.domain,
+      withoutDomainType(typedData.types),
+      typedData.message
+    )
+  );
+
+/**
+ * Recovers the address that signed typed data
+ * @param typedData The typed data, as built by `buildPermitParams()` or `buildDelegationWithSigParams()`
+ * @param signature The signature, as a hex string or as its v, r and s components
+ */
+export const recoverTypedDataSigner = (typedData: EIP712TypedData, signature: SignatureLike) =>
+  ethers.utils.verifyTypedData(
+    typedData.domain,
+    withoutDomainType(typedData.types),
+    typedData.message,
+    signature
+  );
+
+/**
+ * Checks off-chain that typed data was signed by the expected signer
+ */
+export const verifyTypedDataSignature = (
+  typedData: EIP712TypedData,
+  signature: SignatureLike,
+  expectedSigner: tEthereumAddress
+) => recoverTypedDataSigner(typedData, signature).toLowerCase() === expectedSigner.toLowerCase();
+
+/**
+ * Signs an EIP-2612 permit of `token` from the signer to `spender`. Works for aTokens and for the
+ * underlying assets used in `supplyWithPermit` and `repayWithPermit`
+ * @returns The signature, with the typed data that was signed
+ */
+export const signPermit = async (
+  signer: Signer,
+  token: tEthereumAddress,
+  spender: tEthereumAddress,
+  value: BigNumberish,
+  deadline: BigNumberish
+) => {
+  if (!signer.provider) throw new Error('Signer is not connected to a provider');
+
+  const typedData = await buildPermitParamsFromToken(
+    signer.provider,
+    token,
+    await signer.getAddress(),
+    spender,
+    deadline.toString(),
+    value.toString()
+  );
+  return { ...(await signTypedDataWithSigner(signer, typedData)), typedData };
+};
+
+/**
+ * Signs a credit delegation of `debtToken` from the signer to `delegatee`, for `delegationWithSig`
+ * @returns The signature, with the typed data that was signed
+ */
+export const signDelegationWithSig = async (
+  signer: Signer,
+  debtToken: tEthereumAddress,
+  delegatee: tEthereumAddress,
+  value: BigNumberish,
+  deadline: BigNumberish
+) => {
+  if (!signer.provider) throw new Error('Signer is not connected to a provider');
+
+  const typedData = await buildDelegationWithSigParamsFromToken(
+    signer.provider,
+    debtToken,
+    await signer.getAddress(),
+    delegatee,
+    deadline.toString(),
+    value.toString()
+  );
+  return { ...(await signTypedDataWithSigner(signer, typedData)), typedData };
+};
+
 export const getProxyImplementation = async (proxyAdminAddress: string, proxyAddress: string) => {
   // Impersonate proxy admin
   await impersonateAccountsHardhat([proxyAdminAddress]);
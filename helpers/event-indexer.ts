@@ -0,0 +1,622 @@
+import { BigNumber, providers, utils } from 'ethers';
+import { tEthereumAddress } from './types';
+import {
+  ACLManager__factory,
+  AToken__factory,
+  PoolAddressesProvider,
+  PoolConfigurator__factory,
+  Pool__factory,
+  StableDebtToken__factory,
+  VariableDebtToken__factory,
+} from '../types';
+
+export type IndexedContract =
+  | 'Pool'
+  | 'PoolConfigurator'
+  | 'ACLManager'
+  | 'AToken'
+  | 'StableDebtToken'
+  | 'VariableDebtToken';
+
+const INTERFACES: { [contract in IndexedContract]: utils.Interface } = {
+  Pool: Pool__factory.createInterface(),
+  PoolConfigurator: PoolConfigurator__factory.createInterface(),
+  ACLManager: ACLManager__factory.createInterface(),
+  AToken: AToken__factory.createInterface(),
+  StableDebtToken: StableDebtToken__factory.createInterface(),
+  VariableDebtToken: VariableDebtToken__factory.createInterface(),
+};
+
+// ----------------
+// Decoded events
+// ----------------
+
+/**
+ * Arguments of the events the entities are built from, keyed by `<contract>.<event>`
+ */
+export interface IndexedEventArgs {
+  'Pool.Supply': {
+    reserve: tEthereumAddress;
+    user: tEthereumAddress;
+    onBehalfOf: tEthereumAddress;
+    amount: BigNumber;
+    referralCode: number;
+  };
+  'Pool.Withdraw': {
+    reserve: tEthereumAddress;
+    user: tEthereumAddress;
+    to: tEthereumAddress;
+    amount: BigNumber;
+  };
+  'Pool.Borrow': {
+    reserve: tEthereumAddress;
+    user: tEthereumAddress;
+    onBehalfOf: tEthereumAddress;
+    amount: BigNumber;
+    interestRateMode: number;
+    borrowRate: BigNumber;
+    referralCode: number;
+  };
+  'Pool.Repay': {
+    reserve: tEthereumAddress;
+    user: tEthereumAddress;
+    repayer: tEthereumAddress;
+    amount: BigNumber;
+    useATokens: boolean;
+  };
+  'Pool.LiquidationCall': {
+    collateralAsset: tEthereumAddress;
+    debtAsset: tEthereumAddress;
+    user: tEthereumAddress;
+    debtToCover: BigNumber;
+    liquidatedCollateralAmount: BigNumber;
+    liquidator: tEthereumAddress;
+    receiveAToken: boolean;
+  };
+  'Pool.ForcedLiquidationCall': IndexedEventArgs['Pool.LiquidationCall'];
+  'Pool.ReserveUsedAsCollateralEnabled': { reserve: tEthereumAddress; user: tEthereumAddress };
+  'Pool.ReserveUsedAsCollateralDisabled': { reserve: tEthereumAddress; user: tEthereumAddress };
+  'Pool.UserEModeSet': { user: tEthereumAddress; categoryId: number };
+  'Pool.IsolationModeTotalDebtUpdated': { asset: tEthereumAddress; totalDebt: BigNumber };
+  'Pool.ReserveDataUpdated': {
+    reserve: tEthereumAddress;
+    liquidityRate: BigNumber;
+    stableBorrowRate: BigNumber;
+    variableBorrowRate: BigNumber;
+    liquidityIndex: BigNumber;
+    variableBorrowIndex: BigNumber;
+  };
+  'Pool.MintedToTreasury': { reserve: tEthereumAddress; amountMinted: BigNumber };
+  'PoolConfigurator.ReserveInitialized': {
+    asset: tEthereumAddress;
+    aToken: tEthereumAddress;
+    stableDebtToken: tEthereumAddress;
+    variableDebtToken: tEthereumAddress;
+    interestRateStrategyAddress: tEthereumAddress;
+  };
+  'PoolConfigurator.CollateralConfigurationChanged': {
+    asset: tEthereumAddress;
+    ltv: BigNumber;
+    liquidationThreshold: BigNumber;
+    liquidationBonus: BigNumber;
+  };
+  'PoolConfigurator.EModeCategoryAdded': {
+    categoryId: number;
+    ltv: BigNumber;
+    liquidationThreshold: BigNumber;
+    liquidationBonus: BigNumber;
+    oracle: tEthereumAddress;
+    label: string;
+  };
+  'AToken.Mint': ScaledBalanceMintArgs;
+  'AToken.Burn': ScaledBalanceBurnArgs;
+  'AToken.BalanceTransfer': {
+    from: tEthereumAddress;
+    to: tEthereumAddress;
+    value: BigNumber;
+    index: BigNumber;
+  };
+  'VariableDebtToken.Mint': ScaledBalanceMintArgs;
+  'VariableDebtToken.Burn': ScaledBalanceBurnArgs;
+  'StableDebtToken.Mint': {
+    user: tEthereumAddress;
+    onBehalfOf: tEthereumAddress;
+    amount: BigNumber;
+    currentBalance: BigNumber;
+    balanceIncrease: BigNumber;
+    newRate: BigNumber;
+    avgStableRate: BigNumber;
+    newTotalSupply: BigNumber;
+  };
+  'StableDebtToken.Burn': {
+    from: tEthereumAddress;
+    amount: BigNumber;
+    currentBalance: BigNumber;
+    balanceIncrease: BigNumber;
+    avgStableRate: BigNumber;
+    newTotalSupply: BigNumber;
+  };
+  'ACLManager.RoleGranted': { role: string; account: tEthereumAddress; sender: tEthereumAddress };
+  'ACLManager.RoleRevoked': { role: string; account: tEthereumAddress; sender: tEthereumAddress };
+}
+
+interface ScaledBalanceMintArgs {
+  caller: tEthereumAddress;
+  onBehalfOf: tEthereumAddress;
+  value: BigNumber;
+  balanceIncrease: BigNumber;
+  index: BigNumber;
+}
+
+interface ScaledBalanceBurnArgs {
+  from: tEthereumAddress;
+  target: tEthereumAddress;
+  value: BigNumber;
+  balanceIncrease: BigNumber;
+  index: BigNumber;
+}
+
+export type IndexedEventKey = keyof IndexedEventArgs;
+
+export interface IndexedEvent<TArgs = { [name: string]: any }> {
+  contract: IndexedContract;
+  /** `<contract>.<event>`, e.g. `Pool.Supply` */
+  key: string;
+  name: string;
+  address: tEthereumAddress;
+  /** The reserve of the token, for the events of aTokens and debt tokens */
+  asset?: tEthereumAddress;
+  args: TArgs;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+// ----------------
+// Entities
+// ----------------
+
+export interface ReserveEntity {
+  asset: tEthereumAddress;
+  aTokenAddress: tEthereumAddress;
+  stableDebtTokenAddress: tEthereumAddress;
+  variableDebtTokenAddress: tEthereumAddress;
+  interestRateStrategyAddress?: tEthereumAddress;
+  liquidityIndex?: BigNumber;
+  variableBorrowIndex?: BigNumber;
+  liquidityRate?: BigNumber;
+  stableBorrowRate?: BigNumber;
+  variableBorrowRate?: BigNumber;
+  isolationModeTotalDebt?: BigNumber;
+  mintedToTreasury: BigNumber;
+  /** Configuration from the PoolConfigurator events, unset until an event sets it */
+  isActive?: boolean;
+  isFrozen?: boolean;
+  isPaused?: boolean;
+  isDropped?: boolean;
+  borrowingEnabled?: boolean;
+  stableBorrowRateEnabled?: boolean;
+  flashLoanEnabled?: boolean;
+  ltv?: BigNumber;
+  liquidationThreshold?: BigNumber;
+  liquidationBonus?: BigNumber;
+  reserveFactor?: BigNumber;
+  borrowCap?: BigNumber;
+  supplyCap?: BigNumber;
+  liquidationProtocolFee?: BigNumber;
+  unbackedMintCap?: BigNumber;
+  debtCeiling?: BigNumber;
+  eModeCategory?: number;
+  siloedBorrowing?: boolean;
+  borrowableInIsolation?: boolean;
+  forcedLiquidationEnabled?: boolean;
+  lastUpdateBlock: number;
+}
+
+export interface UserReserveEntity {
+  asset: tEthereumAddress;
+  usageAsCollateralEnabled: boolean;
+  supplied: BigNumber;
+  withdrawn: BigNumber;
+  borrowed: BigNumber;
+  repaid: BigNumber;
+  liquidatedCollateral: BigNumber;
+  liquidatedDebt: BigNumber;
+  lastUpdateBlock: number;
+}
+
+export interface UserEntity {
+  address: tEthereumAddress;
+  eModeCategory: number;
+  reserves: { [asset: string]: UserReserveEntity };
+  /** Liquidations of the user made through the forced liquidation of the debt reserve */
+  forcedLiquidations: number;
+  lastUpdateBlock: number;
+}
+
+export interface EModeCategoryEntity {
+  id: number;
+  ltv: BigNumber;
+  liquidationThreshold: BigNumber;
+  liquidationBonus: BigNumber;
+  oracle: tEthereumAddress;
+  label: string;
+}
+
+export interface EventIndexerState {
+  /** Last block included in the state, the next sync starts right after it */
+  lastIndexedBlock: number;
+  events: IndexedEvent[];
+  reserves: { [asset: string]: ReserveEntity };
+  users: { [address: string]: UserEntity };
+  eModeCategories: { [id: number]: EModeCategoryEntity };
+  /** Holders of each ACLManager role, keyed by role hash */
+  roles: { [role: string]: tEthereumAddress[] };
+  forcedLiquidationWhitelist: tEthereumAddress[];
+}
+
+export interface EventIndexer {
+  state: EventIndexerState;
+  /**
+   * Indexes the blocks after the last indexed one
+   * @param toBlock The last block to index, the latest one by default
+   * @returns The events indexed by this sync
+   */
+  sync: (toBlock?: number) => Promise<IndexedEvent[]>;
+  getEvents: <K extends IndexedEventKey>(key: K) => IndexedEvent<IndexedEventArgs[K]>[];
+  getReserve: (asset: tEthereumAddress) => ReserveEntity | undefined;
+  getUser: (user: tEthereumAddress) => UserEntity | undefined;
+}
+
+const decodeArgs = (event: utils.EventFragment, result: utils.Result) =>
+  event.inputs.reduce<{ [name: string]: any }>(
+    (args, input, i) => ({ ...args, [input.name]: result[i] }),
+    {}
+  );
+
+const getOrCreateUserReserve = (user: UserEntity, asset: tEthereumAddress, block: number) => {
+  const userReserve = user.reserves[asset] || {
+    asset,
+    usageAsCollateralEnabled: false,
+    supplied: BigNumber.from(0),
+    withdrawn: BigNumber.from(0),
+    borrowed: BigNumber.from(0),
+    repaid: BigNumber.from(0),
+    liquidatedCollateral: BigNumber.from(0),
+    liquidatedDebt: BigNumber.from(0),
+    lastUpdateBlock: block,
+  };
+  userReserve.lastUpdateBlock = block;
+  user.reserves[asset] = userReserve;
+  return userReserve;
+};
+
+// Configurator events that only set one field of the reserve, with the event arg holding the value
+const RESERVE_CONFIG_EVENTS: { [event: string]: [keyof ReserveEntity, string] } = {
+  ReserveBorrowing: ['borrowingEnabled', 'enabled'],
+  ReserveFlashLoaning: ['flashLoanEnabled', 'enabled'],
+  ReserveStableRateBorrowing: ['stableBorrowRateEnabled', 'enabled'],
+  ReserveActive: ['isActive', 'active'],
+  ReserveFrozen: ['isFrozen', 'frozen'],
+  ReservePaused: ['isPaused', 'paused'],
+  ReserveFactorChanged: ['reserveFactor', 'newReserveFactor'],
+  BorrowCapChanged: ['borrowCap', 'newBorrowCap'],
+  SupplyCapChanged: ['supplyCap', 'newSupplyCap'],
+  LiquidationProtocolFeeChanged: ['liquidationProtocolFee', 'newFee'],
+  UnbackedMintCapChanged: ['unbackedMintCap', 'newUnbackedMintCap'],
+  EModeAssetCategoryChanged: ['eModeCategory', 'newCategoryId'],
+  DebtCeilingChanged: ['debtCeiling', 'newDebtCeiling'],
+  SiloedBorrowingChanged: ['siloedBorrowing', 'newState'],
+  ForcedLiquidationEnabledChanged: ['forcedLiquidationEnabled', 'newEnabled'],
+  BorrowableInIsolationChanged: ['borrowableInIsolation', 'borrowable'],
+  ReserveInterestRateStrategyChanged: ['interestRateStrategyAddress', 'newStrategy'],
+};
+
+/**
+ * Creates an indexer that follows a node and decodes the events of the Pool, the PoolConfigurator,
+ * the ACLManager and the tokens of every reserve, keeping the users and reserves in memory
+ * @param addressesProvider The PoolAddressesProvider of the market
+ * @param fromBlock The first block to index. The tokens of the reserves listed before it are read
+ * from the Pool, so the indexer can resume from any block
+ * @param blockRange The maximum number of blocks fetched by a single `eth_getLogs`
+ */
+export const createEventIndexer = (
+  addressesProvider: PoolAddressesProvider,
+  { fromBlock = 0, blockRange = 2000 }: { fromBlock?: number; blockRange?: number } = {}
+): EventIndexer => {
+  const provider: providers.Provider = addressesProvider.provider;
+  const state: EventIndexerState = {
+    lastIndexedBlock: fromBlock - 1,
+    events: [],
+    reserves: {},
+    users: {},
+    eModeCategories: {},
+    roles: {},
+    forcedLiquidationWhitelist: [],
+  };
+  const contracts = new Map<tEthereumAddress, { contract: IndexedContract; asset?: string }>();
+
+  const registerReserve = (
+    asset: tEthereumAddress,
+    aToken: tEthereumAddress,
+    stableDebtToken: tEthereumAddress,
+    variableDebtToken: tEthereumAddress,
+    block: number
+  ) => {
+    contracts.set(aToken, { contract: 'AToken', asset });
+    contracts.set(stableDebtToken, { contract: 'StableDebtToken', asset });
+    contracts.set(variableDebtToken, { contract: 'VariableDebtToken', asset });
+    state.reserves[asset] = state.reserves[asset] || {
+      asset,
+      aTokenAddress: aToken,
+      stableDebtTokenAddress: stableDebtToken,
+      variableDebtTokenAddress: variableDebtToken,
+      mintedToTreasury: BigNumber.from(0),
+      lastUpdateBlock: block,
+    };
+    return state.reserves[asset];
+  };
+
+  // The core contracts can be replaced in the PoolAddressesProvider, so they are read at every sync
+  const discoverContracts = async () => {
+    const poolAddress = await addressesProvider.getPool();
+    contracts.set(poolAddress, { contract: 'Pool' });
+    contracts.set(await addressesProvider.getPoolConfigurator(), { contract: 'PoolConfigurator' });
+    contracts.set(await addressesProvider.getACLManager(), { contract: 'ACLManager' });
+
+    const pool = Pool__factory.connect(poolAddress, provider);
+    for (const asset of await pool.getReservesList()) {
+      if (!state.reserves[asset]) {
+        const reserveData = await pool.getReserveData(asset);
+        registerReserve(
+          asset,
+          reserveData.aTokenAddress,
+          reserveData.stableDebtTokenAddress,
+          reserveData.variableDebtTokenAddress,
+          state.lastIndexedBlock
+        );
+      }
+    }
+  };
+
+  const getOrCreateUser = (address: tEthereumAddress, block: number) => {
+    const user = state.users[address] || {
+      address,
+      eModeCategory: 0,
+      reserves: {},
+      forcedLiquidations: 0,
+      lastUpdateBlock: block,
+    };
+    user.lastUpdateBlock = block;
+    state.users[address] = user;
+    return user;
+  };
+
+  // Every reserve is registered by `discoverContracts` or by its `ReserveInitialized` event
+  const updateReserve = (
+    asset: tEthereumAddress,
+    block: number,
+    update: (reserve: ReserveEntity) => Partial<ReserveEntity>
+  ) => {
+    const reserve = state.reserves[asset];
+    if (reserve) {
+      Object.assign(reserve, update(reserve), { lastUpdateBlock: block });
+    }
+  };
+
+  const handlePoolEvent = ({ name, args, blockNumber: block }: IndexedEvent) => {
+    switch (name) {
+      case 'Supply': {
+        const userReserve = getOrCreateUserReserve(
+          getOrCreateUser(args.onBehalfOf, block),
+          args.reserve,
+          block
+        );
+        userReserve.supplied = userReserve.supplied.add(args.amount);
+        break;
+      }
+      case 'Withdraw': {
+        const userReserve = getOrCreateUserReserve(
+          getOrCreateUser(args.user, block),
+          args.reserve,
+          block
+        );
+        userReserve.withdrawn = userReserve.withdrawn.add(args.amount);
+        break;
+      }
+      case 'Borrow': {
+        const userReserve = getOrCreateUserReserve(
+          getOrCreateUser(args.onBehalfOf, block),
+          args.reserve,
+          block
+        );
+        userReserve.borrowed = userReserve.borrowed.add(args.amount);
+        break;
+      }
+      case 'Repay': {
+        const userReserve = getOrCreateUserReserve(
+          getOrCreateUser(args.user, block),
+          args.reserve,
+          block
+        );
+        userReserve.repaid = userReserve.repaid.add(args.amount);
+        break;
+      }
+      // A forced liquidation also emits `LiquidationCall`, which holds the amounts
+      case 'ForcedLiquidationCall':
+        getOrCreateUser(args.user, block).forcedLiquidations += 1;
+        break;
+      case 'LiquidationCall': {
+        const user = getOrCreateUser(args.user, block);
+        const collateral = getOrCreateUserReserve(user, args.collateralAsset, block);
+        collateral.liquidatedCollateral = collateral.liquidatedCollateral.add(
+          args.liquidatedCollateralAmount
+        );
+        const debt = getOrCreateUserReserve(user, args.debtAsset, block);
+        debt.liquidatedDebt = debt.liquidatedDebt.add(args.debtToCover);
+        break;
+      }
+      case 'ReserveUsedAsCollateralEnabled':
+      case 'ReserveUsedAsCollateralDisabled':
+        getOrCreateUserReserve(
+          getOrCreateUser(args.user, block),
+          args.reserve,
+          block
+        ).usageAsCollateralEnabled = name === 'ReserveUsedAsCollateralEnabled';
+        break;
+      case 'UserEModeSet':
+        getOrCreateUser(args.user, block).eModeCategory = args.categoryId;
+        break;
+      case 'IsolationModeTotalDebtUpdated':
+        updateReserve(args.asset, block, () => ({ isolationModeTotalDebt: args.totalDebt }));
+        break;
+      case 'ReserveDataUpdated':
+        updateReserve(args.reserve, block, () => ({
+          liquidityRate: args.liquidityRate,
+          stableBorrowRate: args.stableBorrowRate,
+          variableBorrowRate: args.variableBorrowRate,
+          liquidityIndex: args.liquidityIndex,
+          variableBorrowIndex: args.variableBorrowIndex,
+        }));
+        break;
+      case 'MintedToTreasury':
+        updateReserve(args.reserve, block, ({ mintedToTreasury }) => ({
+          mintedToTreasury: mintedToTreasury.add(args.amountMinted),
+        }));
+        break;
+    }
+  };
+
+  const handleConfiguratorEvent = ({ name, args, blockNumber: block }: IndexedEvent) => {
+    if (RESERVE_CONFIG_EVENTS[name]) {
+      const [field, arg] = RESERVE_CONFIG_EVENTS[name];
+      updateReserve(args.asset, block, () => ({ [field]: args[arg] }));
+      return;
+    }
+    switch (name) {
+      case 'ReserveInitialized':
+        // Reserves are initialized active, unpaused and unfrozen
+        Object.assign(
+          registerReserve(
+            args.asset,
+            args.aToken,
+            args.stableDebtToken,
+            args.variableDebtToken,
+            block
+          ),
+          {
+            interestRateStrategyAddress: args.interestRateStrategyAddress,
+            isActive: true,
+            isPaused: false,
+            isFrozen: false,
+            isDropped: false,
+          }
+        );
+        break;
+      case 'ReserveDropped':
+        updateReserve(args.asset, block, () => ({ isDropped: true }));
+        break;
+      case 'CollateralConfigurationChanged':
+        updateReserve(args.asset, block, () => ({
+          ltv: args.ltv,
+          liquidationThreshold: args.liquidationThreshold,
+          liquidationBonus: args.liquidationBonus,
+        }));
+        break;
+      case 'EModeCategoryAdded':
+        state.eModeCategories[args.categoryId] = {
+          id: args.categoryId,
+          ltv: args.ltv,
+          liquidationThreshold: args.liquidationThreshold,
+          liquidationBonus: args.liquidationBonus,
+          oracle: args.oracle,
+          label: args.label,
+        };
+        break;
+      case 'ForcedLiquidationWhitelistAdd':
+        state.forcedLiquidationWhitelist = [
+          ...state.forcedLiquidationWhitelist.filter((user) => user !== args.user),
+          args.user,
+        ];
+        break;
+      case 'ForcedLiquidationWhitelistRemove':
+        state.forcedLiquidationWhitelist = state.forcedLiquidationWhitelist.filter(
+          (user) => user !== args.user
+        );
+        break;
+    }
+  };
+
+  const handleACLManagerEvent = ({ name, args }: IndexedEvent) => {
+    const holders = (state.roles[args.role] || []).filter((account) => account !== args.account);
+    if (name === 'RoleGranted') {
+      state.roles[args.role] = [...holders, args.account];
+    } else if (name === 'RoleRevoked') {
+      state.roles[args.role] = holders;
+    }
+  };
+
+  const handleLog = (log: providers.Log): IndexedEvent | undefined => {
+    const source = contracts.get(log.address);
+    if (!source) {
+      return undefined;
+    }
+    let parsed: utils.LogDescription;
+    try {
+      parsed = INTERFACES[source.contract].parseLog(log);
+    } catch {
+      // Events of an upgraded implementation missing from the ABI
+      return undefined;
+    }
+    const event: IndexedEvent = {
+      contract: source.contract,
+      key: `${source.contract}.${parsed.name}`,
+      name: parsed.name,
+      address: log.address,
+      ...(source.asset && { asset: source.asset }),
+      args: decodeArgs(parsed.eventFragment, parsed.args),
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+      logIndex: log.logIndex,
+    };
+
+    if (source.contract === 'Pool') {
+      handlePoolEvent(event);
+    } else if (source.contract === 'PoolConfigurator') {
+      handleConfiguratorEvent(event);
+    } else if (source.contract === 'ACLManager') {
+      handleACLManagerEvent(event);
+    }
+    return event;
+  };
+
+  const sync = async (toBlock?: number) => {
+    // `getBlockNumber` is cached by the ethers providers and can miss the blocks just mined
+    const lastBlock = toBlock !== undefined ? toBlock : (await provider.getBlock('latest')).number;
+    await discoverContracts();
+
+    const indexed: IndexedEvent[] = [];
+    for (let from = state.lastIndexedBlock + 1; from <= lastBlock; from += blockRange) {
+      const to = Math.min(from + blockRange - 1, lastBlock);
+      // Logs of every address, since reserves initialized in the range add new tokens to follow
+      for (const log of await provider.getLogs({ fromBlock: from, toBlock: to })) {
+        const event = handleLog(log);
+        if (event) {
+          indexed.push(event);
+          state.events.push(event);
+        }
+      }
+      state.lastIndexedBlock = to;
+    }
+    return indexed;
+  };
+
+  return {
+    state,
+    sync,
+    getEvents: <K extends IndexedEventKey>(key: K) =>
+      state.events.filter((event) => event.key === key) as IndexedEvent<IndexedEventArgs[K]>[],
+    getReserve: (asset) => state.reserves[asset],
+    getUser: (user) => state.users[user],
+  };
+};
@@ -1,3 +1,16 @@
 export * from './constants';
 export * from './types';
 export * from './contracts-helpers';
+export * from './reserve-configuration';
+export * from './user-configuration';
+export * from './math-utils';
+export * from './account-data';
+export * from './liquidation-quote';
+export * from './rate-model';
+export * from './protocol-errors';
+export * from './l2-encoder';
+export * from './market-config-validator';
+export * from './market-drift';
+export * from './proxy-audit';
+export * from './event-indexer';
+export * from './position-reconciler';
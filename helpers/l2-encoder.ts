@@ -0,0 +1,284 @@
+import { BigNumber, BigNumberish, constants } from 'ethers';
+import { BytesLike, getAddress, hexlify, hexZeroPad } from 'ethers/lib/utils';
+import { ZERO_ADDRESS } from './constants';
+import { ProtocolErrors, tEthereumAddress } from './types';
+import { Pool } from '../types';
+
+// ----------------
+// Encoders, mirror contracts/misc/L2Encoder.sol
+// ----------------
+
+const UINT8_MAX = BigNumber.from(2).pow(8).sub(1);
+const UINT16_MAX = BigNumber.from(2).pow(16).sub(1);
+const UINT32_MAX = BigNumber.from(2).pow(32).sub(1);
+const UINT128_MAX = BigNumber.from(2).pow(128).sub(1);
+const UINT160_MAX = BigNumber.from(2).pow(160).sub(1);
+
+// Same checks and messages as OpenZeppelin `SafeCast`
+const toUint128 = (value: BigNumberish) => {
+  if (BigNumber.from(value).gt(UINT128_MAX)) {
+    throw new Error(ProtocolErrors.SAFECAST_UINT128_OVERFLOW);
+  }
+  return BigNumber.from(value);
+};
+const toUint32 = (value: BigNumberish) => {
+  if (BigNumber.from(value).gt(UINT32_MAX)) {
+    throw new Error("SafeCast: value doesn't fit in 32 bits");
+  }
+  return BigNumber.from(value);
+};
+const toUint8 = (value: BigNumberish) => {
+  if (BigNumber.from(value).gt(UINT8_MAX)) {
+    throw new Error("SafeCast: value doesn't fit in 8 bits");
+  }
+  return BigNumber.from(value);
+};
+
+// `type(uint256).max` is shortened to `type(uint128).max`, meaning the whole balance or debt
+const toShortenedMaxAmount = (amount: BigNumberish) =>
+  constants.MaxUint256.eq(amount) ? UINT128_MAX : toUint128(amount);
+
+const toBytes32 = (value: BigNumber) => hexZeroPad(value.toHexString(), 32);
+
+/**
+ * Returns the id of a reserve, the compact representation of its address used by the L2Pool
+ * @param pool The Pool
+ * @param asset The address of the underlying asset of the reserve
+ */
+export const getReserveId = async (pool: Pool, asset: tEthereumAddress) =>
+  (await pool.getReserveData(asset)).id;
+
+export const encodeSupplyParams = (
+  assetId: number,
+  amount: BigNumberish,
+  referralCode: BigNumberish
+) =>
+  toBytes32(
+    BigNumber.from(assetId)
+      .add(toUint128(amount).shl(16))
+      .add(BigNumber.from(referralCode).shl(144))
+  );
+
+export const encodeSupplyWithPermitParams = (
+  assetId: number,
+  amount: BigNumberish,
+  referralCode: BigNumberish,
+  deadline: BigNumberish,
+  permitV: BigNumberish,
+  permitR: BytesLike,
+  permitS: BytesLike
+): [string, string, string] => [
+  toBytes32(
+    BigNumber.from(assetId)
+      .add(toUint128(amount).shl(16))
+      .add(BigNumber.from(referralCode).shl(144))
+      .add(toUint32(deadline).shl(160))
+      .add(BigNumber.from(permitV).shl(192))
+  ),
+  hexlify(permitR),
+  hexlify(permitS),
+];
+
+export const encodeWithdrawParams = (assetId: number, amount: BigNumberish) =>
+  toBytes32(BigNumber.from(assetId).add(toShortenedMaxAmount(amount).shl(16)));
+
+export const encodeBorrowParams = (
+  assetId: number,
+  amount: BigNumberish,
+  interestRateMode: BigNumberish,
+  referralCode: BigNumberish
+) =>
+  toBytes32(
+    BigNumber.from(assetId)
+      .add(toUint128(amount).shl(16))
+      .add(toUint8(interestRateMode).shl(144))
+      .add(BigNumber.from(referralCode).shl(152))
+  );
+
+export const encodeRepayParams = (
+  assetId: number,
+  amount: BigNumberish,
+  interestRateMode: BigNumberish
+) =>
+  toBytes32(
+    BigNumber.from(assetId)
+      .add(toShortenedMaxAmount(amount).shl(16))
+      .add(toUint8(interestRateMode).shl(144))
+  );
+
+export const encodeRepayWithPermitParams = (
+  assetId: number,
+  amount: BigNumberish,
+  interestRateMode: BigNumberish,
+  deadline: BigNumberish,
+  permitV: BigNumberish,
+  permitR: BytesLike,
+  permitS: BytesLike
+): [string, string, string] => [
+  toBytes32(
+    BigNumber.from(assetId)
+      .add(toShortenedMaxAmount(amount).shl(16))
+      .add(toUint8(interestRateMode).shl(144))
+      .add(toUint32(deadline).shl(152))
+      .add(BigNumber.from(permitV).shl(184))
+  ),
+  hexlify(permitR),
+  hexlify(permitS),
+];
+
+export const encodeRepayWithATokensParams = encodeRepayParams;
+
+export const encodeSwapBorrowRateMode = (assetId: number, interestRateMode: BigNumberish) =>
+  toBytes32(BigNumber.from(assetId).add(toUint8(interestRateMode).shl(16)));
+
+export const encodeRebalanceStableBorrowRate = (assetId: number, user: tEthereumAddress) =>
+  toBytes32(BigNumber.from(assetId).add(BigNumber.from(user).shl(16)));
+
+export const encodeSetUserUseReserveAsCollateral = (assetId: number, useAsCollateral: boolean) =>
+  toBytes32(BigNumber.from(assetId).add(BigNumber.from(useAsCollateral ? 1 : 0).shl(16)));
+
+export const encodeLiquidationCall = (
+  collateralAssetId: number,
+  debtAssetId: number,
+  user: tEthereumAddress,
+  debtToCover: BigNumberish,
+  receiveAToken: boolean
+): [string, string] => [
+  toBytes32(
+    BigNumber.from(collateralAssetId)
+      .add(BigNumber.from(debtAssetId).shl(16))
+      .add(BigNumber.from(user).shl(32))
+  ),
+  toBytes32(toShortenedMaxAmount(debtToCover).add(BigNumber.from(receiveAToken ? 1 : 0).shl(128))),
+];
+
+// ----------------
+// Decoders, mirror contracts/protocol/libraries/logic/CalldataLogic.sol
+// ----------------
+
+const bits = (args: string, shift: number, mask: BigNumber) =>
+  BigNumber.from(args).shr(shift).and(mask);
+
+const toAddress = (value: BigNumber) => getAddress(hexZeroPad(value.toHexString(), 20));
+
+// Inverse of `toShortenedMaxAmount()`
+const toFullAmount = (amount: BigNumber) =>
+  amount.eq(UINT128_MAX) ? constants.MaxUint256 : amount;
+
+const toReserve = (assetId: number, reserveAddressById?: tEthereumAddress[]) =>
+  reserveAddressById ? reserveAddressById[assetId] || ZERO_ADDRESS : undefined;
+
+/**
+ * @param args The packed supply params
+ * @param reserveAddressById The reserve addresses indexed by reserve id, to resolve the asset. Optional
+ */
+export const decodeSupplyParams = (args: string, reserveAddressById?: tEthereumAddress[]) => {
+  const assetId = bits(args, 0, UINT16_MAX).toNumber();
+  return {
+    assetId,
+    asset: toReserve(assetId, reserveAddressById),
+    amount: bits(args, 16, UINT128_MAX),
+    referralCode: bits(args, 144, UINT16_MAX).toNumber(),
+  };
+};
+
+export const decodeSupplyWithPermitParams = (
+  args: string,
+  reserveAddressById?: tEthereumAddress[]
+) => ({
+  ...decodeSupplyParams(args, reserveAddressById),
+  deadline: bits(args, 160, UINT32_MAX),
+  permitV: bits(args, 192, UINT8_MAX).toNumber(),
+});
+
+export const decodeWithdrawParams = (args: string, reserveAddressById?: tEthereumAddress[]) => {
+  const assetId = bits(args, 0, UINT16_MAX).toNumber();
+  return {
+    assetId,
+    asset: toReserve(assetId, reserveAddressById),
+    amount: toFullAmount(bits(args, 16, UINT128_MAX)),
+  };
+};
+
+export const decodeBorrowParams = (args: string, reserveAddressById?: tEthereumAddress[]) => {
+  const assetId = bits(args, 0, UINT16_MAX).toNumber();
+  return {
+    assetId,
+    asset: toReserve(assetId, reserveAddressById),
+    amount: bits(args, 16, UINT128_MAX),
+    interestRateMode: bits(args, 144, UINT8_MAX).toNumber(),
+    referralCode: bits(args, 152, UINT16_MAX).toNumber(),
+  };
+};
+
+export const decodeRepayParams = (args: string, reserveAddressById?: tEthereumAddress[]) => {
+  const assetId = bits(args, 0, UINT16_MAX).toNumber();
+  return {
+    assetId,
+    asset: toReserve(assetId, reserveAddressById),
+    amount: toFullAmount(bits(args, 16, UINT128_MAX)),
+    interestRateMode: bits(args, 144, UINT8_MAX).toNumber(),
+  };
+};
+
+export const decodeRepayWithPermitParams = (
+  args: string,
+  reserveAddressById?: tEthereumAddress[]
+) => ({
+  ...decodeRepayParams(args, reserveAddressById),
+  deadline: bits(args, 152, UINT32_MAX),
+  permitV: bits(args, 184, UINT8_MAX).toNumber(),
+});
+
+export const decodeRepayWithATokensParams = decodeRepayParams;
+
+export const decodeSwapBorrowRateMode = (args: string, reserveAddressById?: tEthereumAddress[]) => {
+  const assetId = bits(args, 0, UINT16_MAX).toNumber();
+  return {
+    assetId,
+    asset: toReserve(assetId, reserveAddressById),
+    interestRateMode: bits(args, 16, UINT8_MAX).toNumber(),
+  };
+};
+
+export const decodeRebalanceStableBorrowRate = (
+  args: string,
+  reserveAddressById?: tEthereumAddress[]
+) => {
+  const assetId = bits(args, 0, UINT16_MAX).toNumber();
+  return {
+    assetId,
+    asset: toReserve(assetId, reserveAddressById),
+    user: toAddress(bits(args, 16, UINT160_MAX)),
+  };
+};
+
+export const decodeSetUserUseReserveAsCollateral = (
+  args: string,
+  reserveAddressById?: tEthereumAddress[]
+) => {
+  const assetId = bits(args, 0, UINT16_MAX).toNumber();
+  return {
+    assetId,
+    asset: toReserve(assetId, reserveAddressById),
+    useAsCollateral: bits(args, 16, BigNumber.from(1)).eq(1),
+  };
+};
+
+export const decodeLiquidationCall = (
+  args1: string,
+  args2: string,
+  reserveAddressById?: tEthereumAddress[]
+) => {
+  const collateralAssetId = bits(args1, 0, UINT16_MAX).toNumber();
+  const debtAssetId = bits(args1, 16, UINT16_MAX).toNumber();
+  return {
+    collateralAssetId,
+    collateralAsset: toReserve(collateralAssetId, reserveAddressById),
+    debtAssetId,
+    debtAsset: toReserve(debtAssetId, reserveAddressById),
+    user: toAddress(bits(args1, 32, UINT160_MAX)),
+    debtToCover: toFullAmount(bits(args2, 0, UINT128_MAX)),
+    receiveAToken: bits(args2, 128, BigNumber.from(1)).eq(1),
+  };
+};
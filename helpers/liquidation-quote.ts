@@ -0,0 +1,309 @@
+import { BigNumber, BigNumberish } from 'ethers';
+import { getContract } from '@aave/deploy-v3';
+import {
+  AccountDataParams,
+  calculateUserAccountData,
+  findByAsset,
+  getAccountDataParams,
+  getNormalizedDebt,
+  getNormalizedIncome,
+  getPrice,
+  getStableDebtBalance,
+} from './account-data';
+import { ZERO_ADDRESS } from './constants';
+import './wadraymath';
+import { decodeReserveConfiguration } from './reserve-configuration';
+import { ProtocolErrors, tEthereumAddress } from './types';
+import { isUsingAsCollateral } from './user-configuration';
+import { Pool } from '../types';
+
+// ----------------
+// CONSTANTS, mirrors LiquidationLogic.sol and ValidationLogic.sol
+// ----------------
+
+export const DEFAULT_LIQUIDATION_CLOSE_FACTOR = '5000';
+export const MAX_LIQUIDATION_CLOSE_FACTOR = '10000';
+export const CLOSE_FACTOR_HF_THRESHOLD = '950000000000000000';
+export const MINIMUM_HEALTH_FACTOR_LIQUIDATION_THRESHOLD = '950000000000000000';
+export const HEALTH_FACTOR_LIQUIDATION_THRESHOLD = '1000000000000000000';
+
+export interface LiquidationQuoteParams {
+  accountData: AccountDataParams;
+  collateralAsset: tEthereumAddress;
+  debtAsset: tEthereumAddress;
+  debtToCover: BigNumberish;
+  receiveAToken: boolean;
+  isLiquidatorAuthorized?: boolean;
+  hasPriceOracleSentinel?: boolean;
+  isLiquidationAllowedBySentinel?: boolean;
+}
+
+export interface LiquidationQuote {
+  isForcedLiquidation: boolean;
+  healthFactor: BigNumber;
+  closeFactor: BigNumber;
+  liquidationBonus: BigNumber;
+  collateralPrice: BigNumber;
+  debtPrice: BigNumber;
+  userCollateralBalance: BigNumber;
+  userVariableDebt: BigNumber;
+  userStableDebt: BigNumber;
+  userTotalDebt: BigNumber;
+  debtToCover: BigNumber;
+  collateralToLiquidate: BigNumber;
+  liquidationProtocolFee: BigNumber;
+  receiveAToken: boolean;
+  isDebtFullyRepaid: boolean;
+  isCollateralFullyLiquidated: boolean;
+}
+
+const getReserveState = (accountData: AccountDataParams, asset: tEthereumAddress) => {
+  const reserve = accountData.reserves.find((x) => x.asset.toLowerCase() === asset.toLowerCase());
+  if (!reserve) {
+    throw new Error(`Missing state of reserve ${asset}`);
+  }
+  return reserve;
+};
+
+/**
+ * Quotes a `pool.liquidationCall()` the same way `Pool.liquidationCall()` and `LiquidationLogic` execute it,
+ * including the Yei forced liquidations: when forced liquidation is enabled on the debt reserve, only the
+ * user or a whitelisted liquidator can liquidate, the health factor is not checked and the maximum close
+ * factor always applies. Throws the `ProtocolErrors` the liquidation would revert with.
+ * @param params.accountData The state of the user being liquidated. The collateral and debt reserves must
+ * be part of it, even if not used by the user
+ * @param params.collateralAsset The address of the collateral to receive
+ * @param params.debtAsset The address of the debt to repay
+ * @param params.debtToCover The amount of debt the liquidator wants to cover, `MAX_UINT_AMOUNT` for the max
+ * @param params.receiveAToken True to receive aTokens, false to receive the underlying collateral
+ * @param params.isLiquidatorAuthorized True if the liquidator is the user or is in the forced liquidation
+ * whitelist, true by default
+ * @param params.hasPriceOracleSentinel True if a PriceOracleSentinel is set, false by default
+ * @param params.isLiquidationAllowedBySentinel The result of `sentinel.isLiquidationAllowed()`, true by default
+ */
+export const quoteLiquidationCall = (params: LiquidationQuoteParams): LiquidationQuote => {
+  const { accountData, collateralAsset, debtAsset, receiveAToken } = params;
+  const { currentTimestamp } = accountData;
+
+  const collateralReserve = getReserveState(accountData, collateralAsset);
+  const debtReserve = getReserveState(accountData, debtAsset);
+  const collateralConfig = decodeReserveConfiguration(collateralReserve.configuration);
+  const debtConfig = decodeReserveConfiguration(debtReserve.configuration);
+  const isForcedLiquidation = debtConfig.isForcedLiquidationEnabled;
+
+  if (isForcedLiquidation && params.isLiquidatorAuthorized === false) {
+    throw new Error(ProtocolErrors.FORCED_LIQUIDATION_CALLER_NOT_AUTHORIZED);
+  }
+
+  const { healthFactor } = calculateUserAccountData(accountData);
+
+  // _calculateDebt()
+  const debtBalances = findByAsset(accountData.userBalances, debtAsset);
+  const userStableDebt = debtBalances
+    ? getStableDebtBalance(debtBalances, currentTimestamp)
+    : BigNumber.from(0);
+  const userVariableDebt =
+    debtBalances && !BigNumber.from(debtBalances.scaledVariableDebt).isZero()
+      ? BigNumber.from(debtBalances.scaledVariableDebt).rayMul(
+          getNormalizedDebt(debtReserve, currentTimestamp)
+        )
+      : BigNumber.from(0);
+  const userTotalDebt = userStableDebt.add(userVariableDebt);
+
+  const closeFactor = BigNumber.from(
+    isForcedLiquidation || healthFactor.lte(CLOSE_FACTOR_HF_THRESHOLD)
+      ? MAX_LIQUIDATION_CLOSE_FACTOR
+      : DEFAULT_LIQUIDATION_CLOSE_FACTOR
+  );
+  const maxLiquidatableDebt = userTotalDebt.percentMul(closeFactor);
+  let debtToCover = BigNumber.from(params.debtToCover).gt(maxLiquidatableDebt)
+    ? maxLiquidatableDebt
+    : BigNumber.from(params.debtToCover);
+
+  // ValidationLogic.validateLiquidationCall()
+  if (!collateralConfig.isActive || !debtConfig.isActive) {
+    throw new Error(ProtocolErrors.RESERVE_INACTIVE);
+  }
+  if (collateralConfig.isPaused || debtConfig.isPaused) {
+    throw new Error(ProtocolErrors.RESERVE_PAUSED);
+  }
+  if (
+    params.hasPriceOracleSentinel &&
+    !isForcedLiquidation &&
+    healthFactor.gte(MINIMUM_HEALTH_FACTOR_LIQUIDATION_THRESHOLD) &&
+    params.isLiquidationAllowedBySentinel === false
+  ) {
+    throw new Error(ProtocolErrors.PRICE_ORACLE_SENTINEL_CHECK_FAILED);
+  }
+  if (!isForcedLiquidation && healthFactor.gte(HEALTH_FACTOR_LIQUIDATION_THRESHOLD)) {
+    throw new Error(ProtocolErrors.HEALTH_FACTOR_NOT_BELOW_THRESHOLD);
+  }
+  if (
+    collateralConfig.liquidationThreshold.isZero() ||
+    !isUsingAsCollateral(accountData.userConfiguration, collateralReserve.id)
+  ) {
+    throw new Error(ProtocolErrors.COLLATERAL_CANNOT_BE_LIQUIDATED);
+  }
+  if (userTotalDebt.isZero()) {
+    throw new Error(ProtocolErrors.SPECIFIED_CURRENCY_NOT_BORROWED_BY_USER);
+  }
+
+  // _getConfigurationData()
+  let liquidationBonus = collateralConfig.liquidationBonus;
+  let collateralPriceSource = collateralAsset;
+  let debtPriceSource = debtAsset;
+  const userEModeCategory = BigNumber.from(accountData.userEModeCategory);
+
+  if (!userEModeCategory.isZero() && accountData.eModeCategory) {
+    const { priceSource } = accountData.eModeCategory;
+
+    if (collateralConfig.eModeCategory.eq(userEModeCategory)) {
+      liquidationBonus = BigNumber.from(accountData.eModeCategory.liquidationBonus);
+      if (priceSource !== ZERO_ADDRESS) {
+        collateralPriceSource = priceSource;
+      }
+    }
+    if (priceSource !== ZERO_ADDRESS) {
+      debtPriceSource = priceSource;
+    }
+  }
+
+  const collateralBalances = findByAsset(accountData.userBalances, collateralAsset);
+  const scaledCollateralBalance = BigNumber.from(
+    collateralBalances ? collateralBalances.scaledATokenBalance : 0
+  );
+  const liquidityIndex = getNormalizedIncome(collateralReserve, currentTimestamp);
+  const userCollateralBalance = scaledCollateralBalance.rayMul(liquidityIndex);
+
+  // _calculateAvailableCollateralToLiquidate()
+  const collateralPrice = getPrice(accountData.prices, collateralPriceSource);
+  const debtPrice = getPrice(accountData.prices, debtPriceSource);
+  const collateralAssetUnit = BigNumber.from(10).pow(collateralConfig.decimals);
+  const debtAssetUnit = BigNumber.from(10).pow(debtConfig.decimals);
+
+  const baseCollateral = debtPrice
+    .mul(debtToCover)
+    .mul(collateralAssetUnit)
+    .div(collateralPrice.mul(debtAssetUnit));
+  const maxCollateralToLiquidate = baseCollateral.percentMul(liquidationBonus);
+
+  let collateralAmount = maxCollateralToLiquidate;
+  if (maxCollateralToLiquidate.gt(userCollateralBalance)) {
+    collateralAmount = userCollateralBalance;
+    debtToCover = collateralPrice
+      .mul(collateralAmount)
+      .mul(debtAssetUnit)
+      .div(debtPrice.mul(collateralAssetUnit))
+      .percentDiv(liquidationBonus);
+  }
+
+  let collateralToLiquidate = collateralAmount;
+  let liquidationProtocolFee = BigNumber.from(0);
+  if (!collateralConfig.liquidationProtocolFee.isZero()) {
+    const bonusCollateral = collateralAmount.sub(collateralAmount.percentDiv(liquidationBonus));
+    liquidationProtocolFee = bonusCollateral.percentMul(collateralConfig.liquidationProtocolFee);
+    collateralToLiquidate = collateralAmount.sub(liquidationProtocolFee);
+  }
+
+  const isCollateralFullyLiquidated = collateralToLiquidate
+    .add(liquidationProtocolFee)
+    .eq(userCollateralBalance);
+
+  // The fee sent to the treasury is capped to the scaled balance left to the user, 1 wei imprecision
+  if (!liquidationProtocolFee.isZero()) {
+    const scaledBalanceLeft = scaledCollateralBalance.sub(
+      collateralToLiquidate.rayDiv(liquidityIndex)
+    );
+    if (liquidationProtocolFee.rayDiv(liquidityIndex).gt(scaledBalanceLeft)) {
+      liquidationProtocolFee = scaledBalanceLeft.rayMul(liquidityIndex);
+    }
+  }
+
+  return {
+    isForcedLiquidation,
+    healthFactor,
+    closeFactor,
+    liquidationBonus,
+    collateralPrice,
+    debtPrice,
+    userCollateralBalance,
+    userVariableDebt,
+    userStableDebt,
+    userTotalDebt,
+    debtToCover,
+    collateralToLiquidate,
+    liquidationProtocolFee,
+    receiveAToken,
+    isDebtFullyRepaid: userTotalDebt.eq(debtToCover),
+    isCollateralFullyLiquidated,
+  };
+};
+
+/**
+ * Reads from the chain the inputs of `quoteLiquidationCall()`
+ * @param pool The Pool
+ * @param liquidator The address sending the `liquidationCall()`
+ * @param user The address of the user being liquidated
+ * @param blockTag The block to read the state at, latest by default
+ */
+export const getLiquidationQuoteParams = async (
+  pool: Pool,
+  liquidator: tEthereumAddress,
+  user: tEthereumAddress,
+  collateralAsset: tEthereumAddress,
+  debtAsset: tEthereumAddress,
+  debtToCover: BigNumberish,
+  receiveAToken: boolean,
+  blockTag: number | string = 'latest'
+): Promise<LiquidationQuoteParams> => {
+  const overrides = { blockTag };
+  const accountData = await getAccountDataParams(pool, user, blockTag);
+
+  const addressesProvider = await getContract(
+    'IPoolAddressesProvider',
+    await pool.ADDRESSES_PROVIDER(overrides)
+  );
+  const oracle = await getContract(
+    'IPriceOracleGetter',
+    await addressesProvider.getPriceOracle(overrides)
+  );
+
+  // The reserves not used by the user are still needed for the validation
+  for (const asset of [collateralAsset, debtAsset]) {
+    if (findByAsset(accountData.userBalances, asset)) continue;
+
+    const reserveData = await pool.getReserveData(asset, overrides);
+    accountData.reserves.push({
+      id: reserveData.id,
+      asset,
+      configuration: reserveData.configuration.data,
+      liquidityIndex: reserveData.liquidityIndex,
+      currentLiquidityRate: reserveData.currentLiquidityRate,
+      variableBorrowIndex: reserveData.variableBorrowIndex,
+      currentVariableBorrowRate: reserveData.currentVariableBorrowRate,
+      lastUpdateTimestamp: reserveData.lastUpdateTimestamp,
+    });
+    accountData.prices[asset] = await oracle.getAssetPrice(asset, overrides);
+  }
+
+  const sentinelAddress = await addressesProvider.getPriceOracleSentinel(overrides);
+  const hasPriceOracleSentinel = sentinelAddress !== ZERO_ADDRESS;
+  const isLiquidationAllowedBySentinel = hasPriceOracleSentinel
+    ? await (
+        await getContract('IPriceOracleSentinel', sentinelAddress)
+      ).isLiquidationAllowed(overrides)
+    : true;
+
+  return {
+    accountData,
+    collateralAsset,
+    debtAsset,
+    debtToCover,
+    receiveAToken,
+    isLiquidatorAuthorized:
+      liquidator.toLowerCase() === user.toLowerCase() ||
+      (await pool.isInForcedLiquidationWhitelist(liquidator, overrides)),
+    hasPriceOracleSentinel,
+    isLiquidationAllowedBySentinel,
+  };
+};
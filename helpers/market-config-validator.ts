@@ -0,0 +1,267 @@
+import { BigNumber } from 'ethers';
+import {
+  MAX_BORROW_CAP,
+  MAX_SUPPLY_CAP,
+  MAX_UNBACKED_MINT_CAP,
+  PERCENTAGE_FACTOR,
+  RAY,
+} from './constants';
+import './wadraymath';
+import {
+  MAX_VALID_DEBT_CEILING,
+  MAX_VALID_DECIMALS,
+  MAX_VALID_LIQUIDATION_BONUS,
+  MAX_VALID_LIQUIDATION_THRESHOLD,
+  MAX_VALID_LTV,
+} from './reserve-configuration';
+import {
+  ICommonConfiguration,
+  IInterestRateStrategyParams,
+  IReserveParams,
+  ProtocolErrors,
+  SymbolMap,
+} from './types';
+
+export type MarketConfigIssueSeverity = 'error' | 'warning';
+
+export interface MarketConfigIssue {
+  reserve: string;
+  field: string;
+  severity: MarketConfigIssueSeverity;
+  /** The error the protocol would revert with when applying the value, if any */
+  error?: ProtocolErrors;
+  message: string;
+}
+
+export interface ReserveValidationReport {
+  errors: MarketConfigIssue[];
+  warnings: MarketConfigIssue[];
+}
+
+export interface MarketValidationReport {
+  isValid: boolean;
+  reserves: SymbolMap<ReserveValidationReport>;
+}
+
+const STRATEGY_FIELDS: (keyof IInterestRateStrategyParams)[] = [
+  'optimalUsageRatio',
+  'baseVariableBorrowRate',
+  'variableRateSlope1',
+  'variableRateSlope2',
+  'stableRateSlope1',
+  'stableRateSlope2',
+  'baseStableRateOffset',
+  'stableRateExcessOffset',
+  'optimalStableToTotalDebtRatio',
+];
+
+const parseUint = (value: string | number | undefined) =>
+  value !== undefined && /^\d+$/.test(value.toString()) ? BigNumber.from(value) : undefined;
+
+/**
+ * Validates the params of a reserve with the same checks PoolConfigurator, ReserveConfiguration and
+ * DefaultReserveInterestRateStrategy apply when the reserve is listed and configured
+ * @param reserve The symbol of the reserve, used to label the issues
+ * @param params The params of the reserve
+ * @returns The errors, which would make the protocol revert, and the warnings of the reserve
+ */
+export const validateReserveParams = (
+  reserve: string,
+  params: IReserveParams
+): ReserveValidationReport => {
+  const report: ReserveValidationReport = { errors: [], warnings: [] };
+  const error = (field: string, message: string, protocolError?: ProtocolErrors) =>
+    report.errors.push({ reserve, field, severity: 'error', error: protocolError, message });
+  const warning = (field: string, message: string) =>
+    report.warnings.push({ reserve, field, severity: 'warning', message });
+
+  // Parses an unsigned integer param, optional ones are skipped when not set
+  const uint = (field: string, value: string | undefined, optional = false) => {
+    if (value === undefined && optional) {
+      return undefined;
+    }
+    const parsed = parseUint(value);
+    if (!parsed) {
+      error(field, `${field} must be an unsigned integer, got '${value}'`);
+    }
+    return parsed;
+  };
+  const max = (
+    field: string,
+    value: BigNumber | undefined,
+    maxValue: string,
+    protocolError: ProtocolErrors
+  ) => {
+    if (value && value.gt(maxValue)) {
+      error(field, `${field} ${value} is greater than ${maxValue}`, protocolError);
+    }
+  };
+
+  // ReserveConfiguration setters
+  const decimals = uint('reserveDecimals', params.reserveDecimals);
+  max('reserveDecimals', decimals, MAX_VALID_DECIMALS, ProtocolErrors.INVALID_DECIMALS);
+
+  const ltv = uint('baseLTVAsCollateral', params.baseLTVAsCollateral);
+  const threshold = uint('liquidationThreshold', params.liquidationThreshold);
+  const bonus = uint('liquidationBonus', params.liquidationBonus);
+  max('baseLTVAsCollateral', ltv, MAX_VALID_LTV, ProtocolErrors.INVALID_LTV);
+  max(
+    'liquidationThreshold',
+    threshold,
+    MAX_VALID_LIQUIDATION_THRESHOLD,
+    ProtocolErrors.INVALID_LIQ_THRESHOLD
+  );
+  max('liquidationBonus', bonus, MAX_VALID_LIQUIDATION_BONUS, ProtocolErrors.INVALID_LIQ_BONUS);
+
+  // PoolConfigurator.configureReserveAsCollateral()
+  if (ltv && threshold && bonus) {
+    if (ltv.gt(threshold)) {
+      error(
+        'baseLTVAsCollateral',
+        `LTV ${ltv} is greater than the liquidation threshold ${threshold}`,
+        ProtocolErrors.INVALID_RESERVE_PARAMS
+      );
+    }
+    if (!threshold.isZero()) {
+      if (bonus.lte(PERCENTAGE_FACTOR)) {
+        error(
+          'liquidationBonus',
+          `Liquidation bonus ${bonus} must be greater than ${PERCENTAGE_FACTOR}`,
+          ProtocolErrors.INVALID_RESERVE_PARAMS
+        );
+      } else if (threshold.percentMul(bonus).gt(PERCENTAGE_FACTOR)) {
+        error(
+          'liquidationThreshold',
+          `Liquidation threshold ${threshold} with bonus ${bonus} exceeds ${PERCENTAGE_FACTOR}, liquidations would be unprofitable to the protocol`,
+          ProtocolErrors.INVALID_RESERVE_PARAMS
+        );
+      }
+    } else if (!bonus.isZero()) {
+      error(
+        'liquidationBonus',
+        `Liquidation bonus must be 0 when the reserve is not collateral, got ${bonus}`,
+        ProtocolErrors.INVALID_RESERVE_PARAMS
+      );
+    }
+
+    if (!ltv.isZero() && ltv.eq(threshold)) {
+      warning(
+        'baseLTVAsCollateral',
+        `LTV equals the liquidation threshold, positions borrowing the maximum are liquidatable right away`
+      );
+    }
+  }
+
+  // PoolConfigurator.setReserveFactor()
+  const reserveFactor = uint('reserveFactor', params.reserveFactor);
+  max('reserveFactor', reserveFactor, PERCENTAGE_FACTOR, ProtocolErrors.INVALID_RESERVE_FACTOR);
+
+  // PoolConfigurator.setLiquidationProtocolFee()
+  const liquidationProtocolFee = uint(
+    'liquidationProtocolFee',
+    params.liquidationProtocolFee,
+    true
+  );
+  max(
+    'liquidationProtocolFee',
+    liquidationProtocolFee,
+    PERCENTAGE_FACTOR,
+    ProtocolErrors.INVALID_LIQUIDATION_PROTOCOL_FEE
+  );
+
+  // Caps and debt ceiling
+  const borrowCap = uint('borrowCap', params.borrowCap);
+  const supplyCap = uint('supplyCap', params.supplyCap);
+  const unbackedMintCap = uint('unbackedMintCap', params.unbackedMintCap, true);
+  const debtCeiling = uint('debtCeiling', params.debtCeiling, true);
+  max('borrowCap', borrowCap, MAX_BORROW_CAP, ProtocolErrors.INVALID_BORROW_CAP);
+  max('supplyCap', supplyCap, MAX_SUPPLY_CAP, ProtocolErrors.INVALID_SUPPLY_CAP);
+  max(
+    'unbackedMintCap',
+    unbackedMintCap,
+    MAX_UNBACKED_MINT_CAP,
+    ProtocolErrors.INVALID_UNBACKED_MINT_CAP
+  );
+  max('debtCeiling', debtCeiling, MAX_VALID_DEBT_CEILING, ProtocolErrors.INVALID_DEBT_CEILING);
+
+  if (supplyCap?.isZero() && ltv && !ltv.isZero()) {
+    warning('supplyCap', `Reserve is used as collateral without a supply cap`);
+  }
+  if (borrowCap?.isZero() && params.borrowingEnabled) {
+    warning('borrowCap', `Borrowing is enabled without a borrow cap`);
+  }
+
+  // PoolConfigurator.setReserveStableRateBorrowing()
+  if (params.stableBorrowRateEnabled && !params.borrowingEnabled) {
+    error(
+      'stableBorrowRateEnabled',
+      `Stable rate borrowing can not be enabled while borrowing is disabled`,
+      ProtocolErrors.BORROWING_NOT_ENABLED
+    );
+  }
+
+  // DefaultReserveInterestRateStrategy constructor
+  const strategy = params.strategy;
+  const strategyValues = STRATEGY_FIELDS.reduce<{ [field: string]: BigNumber | undefined }>(
+    (values, field) => ({ ...values, [field]: uint(`strategy.${field}`, strategy[field]) }),
+    {}
+  );
+  max(
+    'strategy.optimalUsageRatio',
+    strategyValues.optimalUsageRatio,
+    RAY,
+    ProtocolErrors.INVALID_OPTIMAL_USAGE_RATIO
+  );
+  max(
+    'strategy.optimalStableToTotalDebtRatio',
+    strategyValues.optimalStableToTotalDebtRatio,
+    RAY,
+    ProtocolErrors.INVALID_OPTIMAL_STABLE_TO_TOTAL_DEBT_RATIO
+  );
+  if (strategyValues.optimalUsageRatio?.isZero()) {
+    warning('strategy.optimalUsageRatio', `Optimal usage ratio is 0, every usage is above optimal`);
+  }
+
+  return report;
+};
+
+const isSameStrategy = (a: IInterestRateStrategyParams, b: IInterestRateStrategyParams) =>
+  STRATEGY_FIELDS.every((field) => a[field] === b[field]);
+
+/**
+ * Validates the params of all the reserves of a market configuration. Besides the checks of
+ * `validateReserveParams()`, strategies are deployed once per name, so reserves sharing a strategy
+ * name must share its params too
+ * @param config The market configuration
+ */
+export const validateMarketConfiguration = (
+  config: Pick<ICommonConfiguration, 'ReservesConfig'>
+): MarketValidationReport => {
+  const reservesConfig: SymbolMap<IReserveParams> = config.ReservesConfig;
+  const strategiesByName: SymbolMap<{ reserve: string; strategy: IInterestRateStrategyParams }> =
+    {};
+  const reserves: SymbolMap<ReserveValidationReport> = {};
+
+  for (const [symbol, params] of Object.entries(reservesConfig)) {
+    const report = validateReserveParams(symbol, params);
+
+    const previous = strategiesByName[params.strategy.name];
+    if (!previous) {
+      strategiesByName[params.strategy.name] = { reserve: symbol, strategy: params.strategy };
+    } else if (!isSameStrategy(previous.strategy, params.strategy)) {
+      report.errors.push({
+        reserve: symbol,
+        field: 'strategy.name',
+        severity: 'error',
+        message: `Strategy ${params.strategy.name} is also used by ${previous.reserve} with different params`,
+      });
+    }
+
+    reserves[symbol] = report;
+  }
+
+  return {
+    isValid: Object.values(reserves).every(({ errors }) => errors.length === 0),
+    reserves,
+  };
+};
@@ -0,0 +1,261 @@
+import * as jsondiffpatch from 'jsondiffpatch';
+import { IInterestRateStrategyParams, IReserveParams, SymbolMap, tEthereumAddress } from './types';
+import { AaveProtocolDataProvider } from '../types';
+import { getInterestRateStrategyParams } from './rate-model';
+
+// The implementation of the aToken is not a param of the reserve
+type ConfigReserveParams = Omit<IReserveParams, 'aTokenImpl'>;
+
+/**
+ * The comparable params of a reserve, with the field names of `IReserveParams`
+ */
+export interface ReserveSnapshot {
+  reserveDecimals?: string;
+  baseLTVAsCollateral?: string;
+  liquidationThreshold?: string;
+  liquidationBonus?: string;
+  reserveFactor?: string;
+  borrowingEnabled?: boolean;
+  stableBorrowRateEnabled?: boolean;
+  borrowCap?: string;
+  supplyCap?: string;
+  liquidationProtocolFee?: string;
+  debtCeiling?: string;
+  unbackedMintCap?: string;
+  eModeCategory?: string;
+  siloedBorrowing?: boolean;
+  flashLoanEnabled?: boolean;
+  forcedLiquidationEnabled?: boolean;
+  strategy?: Partial<Omit<IInterestRateStrategyParams, 'name'>>;
+}
+
+export interface ReserveDrift {
+  reserve: string;
+  /** Path of the drifted param, e.g. `reserveFactor` or `strategy.variableRateSlope1` */
+  field: string;
+  expected: unknown;
+  actual: unknown;
+}
+
+export interface MarketDriftReport {
+  /** The jsondiffpatch delta from the config (left) to the on-chain state (right), by symbol */
+  delta: jsondiffpatch.Delta | undefined;
+  drifts: ReserveDrift[];
+  /** Reserves of the config not listed in the pool */
+  missingReserves: string[];
+  /** Reserves listed in the pool but not in the config */
+  unknownReserves: string[];
+}
+
+const RESERVE_FIELDS: (keyof Omit<ReserveSnapshot, 'strategy'>)[] = [
+  'reserveDecimals',
+  'baseLTVAsCollateral',
+  'liquidationThreshold',
+  'liquidationBonus',
+  'reserveFactor',
+  'borrowingEnabled',
+  'stableBorrowRateEnabled',
+  'borrowCap',
+  'supplyCap',
+  'liquidationProtocolFee',
+  'debtCeiling',
+  'unbackedMintCap',
+  'eModeCategory',
+  'siloedBorrowing',
+  'flashLoanEnabled',
+  'forcedLiquidationEnabled',
+];
+
+const STRATEGY_FIELDS: (keyof Omit<IInterestRateStrategyParams, 'name'>)[] = [
+  'optimalUsageRatio',
+  'baseVariableBorrowRate',
+  'variableRateSlope1',
+  'variableRateSlope2',
+  'stableRateSlope1',
+  'stableRateSlope2',
+  'baseStableRateOffset',
+  'stableRateExcessOffset',
+  'optimalStableToTotalDebtRatio',
+];
+
+// `IReserveParams` shares the field names and types of the snapshot
+const copyField = <K extends keyof Omit<ReserveSnapshot, 'strategy'>>(
+  target: ReserveSnapshot,
+  source: Pick<ReserveSnapshot, K>,
+  field: K
+) => {
+  target[field] = source[field];
+};
+
+/**
+ * Reads the params of a reserve through the AaveProtocolDataProvider and its interest rate strategy
+ * @param dataProvider The AaveProtocolDataProvider of the market
+ * @param asset The address of the underlying asset of the reserve
+ */
+export const getReserveSnapshot = async (
+  dataProvider: AaveProtocolDataProvider,
+  asset: tEthereumAddress
+): Promise<ReserveSnapshot> => {
+  const configuration = await dataProvider.getReserveConfigurationData(asset);
+  const { borrowCap, supplyCap } = await dataProvider.getReserveCaps(asset);
+
+  return {
+    reserveDecimals: configuration.decimals.toString(),
+    baseLTVAsCollateral: configuration.ltv.toString(),
+    liquidationThreshold: configuration.liquidationThreshold.toString(),
+    liquidationBonus: configuration.liquidationBonus.toString(),
+    reserveFactor: configuration.reserveFactor.toString(),
+    borrowingEnabled: configuration.borrowingEnabled,
+    stableBorrowRateEnabled: configuration.stableBorrowRateEnabled,
+    borrowCap: borrowCap.toString(),
+    supplyCap: supplyCap.toString(),
+    liquidationProtocolFee: (await dataProvider.getLiquidationProtocolFee(asset)).toString(),
+    debtCeiling: (await dataProvider.getDebtCeiling(asset)).toString(),
+    unbackedMintCap: (await dataProvider.getUnbackedMintCap(asset)).toString(),
+    eModeCategory: (await dataProvider.getReserveEModeCategory(asset)).toString(),
+    siloedBorrowing: await dataProvider.getSiloedBorrowing(asset),
+    flashLoanEnabled: await dataProvider.getFlashLoanEnabled(asset),
+    forcedLiquidationEnabled: await dataProvider.getForcedLiquidationEnabled(asset),
+    strategy: await getInterestRateStrategyParams(
+      await dataProvider.getInterestRateStrategyAddress(asset)
+    ),
+  };
+};
+
+/**
+ * Returns the params of the config as a snapshot, leaving out the optional params that are not set
+ * @param params The params of the reserve in the market config
+ */
+export const reserveParamsToSnapshot = (params: ConfigReserveParams): ReserveSnapshot => {
+  const snapshot: ReserveSnapshot = {};
+  for (const field of RESERVE_FIELDS) {
+    if (params[field] !== undefined) {
+      copyField(snapshot, params, field);
+    }
+  }
+  snapshot.strategy = {};
+  for (const field of STRATEGY_FIELDS) {
+    snapshot.strategy[field] = params.strategy[field];
+  }
+  return snapshot;
+};
+
+// Only the params set in the config are compared, the rest is not expected to have any value
+const pickConfigured = (onChain: ReserveSnapshot, configured: ReserveSnapshot) => {
+  const picked: ReserveSnapshot = {};
+  for (const field of RESERVE_FIELDS) {
+    if (configured[field] !== undefined) {
+      copyField(picked, onChain, field);
+    }
+  }
+  picked.strategy = onChain.strategy;
+  return picked;
+};
+
+// Flattens a jsondiffpatch delta, where a changed value is encoded as `[expected, actual]`
+const flattenDelta = (delta: jsondiffpatch.Delta, path: string[] = []): ReserveDrift[] =>
+  Object.entries(delta).flatMap(([key, value]) => {
+    if (!Array.isArray(value)) {
+      return flattenDelta(value, [...path, key]);
+    }
+    const [reserve, ...field] = [...path, key];
+    return [
+      {
+        reserve,
+        field: field.join('.'),
+        expected: value.length === 1 ? undefined : value[0],
+        actual: value.length === 1 ? value[0] : value.length === 2 ? value[1] : undefined,
+      },
+    ];
+  });
+
+/**
+ * Compares the params of the reserves of a market config with the ones of the deployed market
+ * @param dataProvider The AaveProtocolDataProvider of the market
+ * @param reservesConfig The `ReservesConfig` of the market config, by symbol
+ * @param reserveAssets The addresses of the reserves by symbol. Optional, defaults to the symbols of
+ * the tokens listed in the pool
+ */
+export const getMarketDrift = async (
+  dataProvider: AaveProtocolDataProvider,
+  reservesConfig: SymbolMap<ConfigReserveParams>,
+  reserveAssets?: SymbolMap<tEthereumAddress>
+): Promise<MarketDriftReport> => {
+  const listedReserves = await dataProvider.getAllReservesTokens();
+  const listedAssets = listedReserves.map(({ tokenAddress }) => tokenAddress.toLowerCase());
+  const assetBySymbol =
+    reserveAssets ||
+    listedReserves.reduce<SymbolMap<tEthereumAddress>>(
+      (assets, { symbol, tokenAddress }) => ({ ...assets, [symbol]: tokenAddress }),
+      {}
+    );
+
+  const expected: SymbolMap<ReserveSnapshot> = {};
+  const actual: SymbolMap<ReserveSnapshot> = {};
+  const missingReserves: string[] = [];
+
+  for (const [symbol, params] of Object.entries(reservesConfig)) {
+    const asset = assetBySymbol[symbol];
+    if (!asset || !listedAssets.includes(asset.toLowerCase())) {
+      missingReserves.push(symbol);
+      continue;
+    }
+    expected[symbol] = reserveParamsToSnapshot(params);
+    actual[symbol] = pickConfigured(
+      await getReserveSnapshot(dataProvider, asset),
+      expected[symbol]
+    );
+  }
+
+  const configuredAssets = Object.keys(reservesConfig)
+    .map((symbol) => assetBySymbol[symbol]?.toLowerCase())
+    .filter((asset) => asset);
+  const unknownReserves = listedReserves
+    .filter(({ tokenAddress }) => !configuredAssets.includes(tokenAddress.toLowerCase()))
+    .map(({ symbol }) => symbol);
+
+  const delta = jsondiffpatch.diff(expected, actual);
+
+  return {
+    delta,
+    drifts: delta ? flattenDelta(delta) : [],
+    missingReserves,
+    unknownReserves,
+  };
+};
+
+/**
+ * Formats a drift report as a human readable summary, one line per drifted param
+ * @param report The drift report
+ */
+export const formatMarketDrift = ({
+  drifts,
+  missingReserves,
+  unknownReserves,
+}: MarketDriftReport) => {
+  const lines: string[] = [];
+  if (!drifts.length && !missingReserves.length && !unknownReserves.length) {
+    return 'No drift between the market config and the deployed market';
+  }
+
+  for (const symbol of missingReserves) {
+    lines.push(`- ${symbol}: in the config, but not listed in the pool`);
+  }
+  for (const symbol of unknownReserves) {
+    lines.push(`- ${symbol}: listed in the pool, but not in the config`);
+  }
+  for (const { reserve, field, expected, actual } of drifts) {
+    lines.push(`- ${reserve}.${field}: expected ${expected}, on-chain ${actual}`);
+  }
+
+  return [
+    `${drifts.length} drifted params, ${missingReserves.length} missing and ${unknownReserves.length} unknown reserves`,
+    ...lines,
+  ].join('\n');
+};
+
+/**
+ * Returns the drift report as JSON, with the jsondiffpatch delta for tooling
+ * @param report The drift report
+ */
+export const marketDriftToJSON = (report: MarketDriftReport) => JSON.stringify(report, null, 2);
@@ -0,0 +1,215 @@
+import { BigNumber } from 'ethers';
+import { IndexedEvent } from './event-indexer';
+import './wadraymath';
+import { isBorrowing, isUsingAsCollateral } from './user-configuration';
+import { tEthereumAddress } from './types';
+import {
+  AToken__factory,
+  Pool,
+  StableDebtToken__factory,
+  VariableDebtToken__factory,
+} from '../types';
+
+export interface RebuiltPosition {
+  user: tEthereumAddress;
+  asset: tEthereumAddress;
+  scaledATokenBalance: BigNumber;
+  scaledVariableDebt: BigNumber;
+  /** Stable debt has no scaled balance, its principal is tracked instead */
+  principalStableDebt: BigNumber;
+  usageAsCollateralEnabled: boolean;
+}
+
+export interface RebuiltPositions {
+  [user: string]: { [asset: string]: RebuiltPosition };
+}
+
+export type ReconciledField =
+  | 'scaledATokenBalance'
+  | 'scaledVariableDebt'
+  | 'principalStableDebt'
+  | 'usageAsCollateralEnabled'
+  | 'isBorrowing';
+
+export interface PositionMismatch {
+  user: tEthereumAddress;
+  asset: tEthereumAddress;
+  field: ReconciledField;
+  /** Value rebuilt from the events */
+  expected: string | boolean;
+  /** Value read from the contracts */
+  actual: string | boolean;
+  message: string;
+}
+
+export interface ReconciliationReport {
+  positions: RebuiltPositions;
+  mismatches: PositionMismatch[];
+}
+
+/**
+ * Rebuilds the scaled balances and collateral flags of every user from the token and Pool events,
+ * mirroring `ScaledBalanceTokenBase`, `AToken._transfer` and `StableDebtToken`
+ * @param events The decoded events, in order and from the deployment of the market
+ */
+export const rebuildPositions = (events: IndexedEvent[]): RebuiltPositions => {
+  const positions: RebuiltPositions = {};
+  const getPosition = (user: tEthereumAddress, asset: tEthereumAddress) => {
+    positions[user] = positions[user] || {};
+    positions[user][asset] = positions[user][asset] || {
+      user,
+      asset,
+      scaledATokenBalance: BigNumber.from(0),
+      scaledVariableDebt: BigNumber.from(0),
+      principalStableDebt: BigNumber.from(0),
+      usageAsCollateralEnabled: false,
+    };
+    return positions[user][asset];
+  };
+
+  for (const { contract, name, args, asset } of events) {
+    if (contract === 'Pool') {
+      if (name === 'ReserveUsedAsCollateralEnabled' || name === 'ReserveUsedAsCollateralDisabled') {
+        getPosition(args.user, args.reserve).usageAsCollateralEnabled =
+          name === 'ReserveUsedAsCollateralEnabled';
+      }
+      continue;
+    }
+    if (!asset) {
+      continue;
+    }
+
+    if (contract === 'AToken' || contract === 'VariableDebtToken') {
+      const field = contract === 'AToken' ? 'scaledATokenBalance' : 'scaledVariableDebt';
+      const update = (user: tEthereumAddress, delta: BigNumber) => {
+        const position = getPosition(user, asset);
+        position[field] = position[field].add(delta);
+      };
+      if (name === 'Mint') {
+        // `_burnScaled` emits a Mint when the interest accrued exceeds the amount burnt
+        const { value, balanceIncrease, index } = args;
+        update(
+          args.onBehalfOf,
+          value.gte(balanceIncrease)
+            ? value.sub(balanceIncrease).rayDiv(index)
+            : balanceIncrease.sub(value).rayDiv(index).mul(-1)
+        );
+      } else if (name === 'Burn') {
+        update(args.from, args.value.add(args.balanceIncrease).rayDiv(args.index).mul(-1));
+      } else if (name === 'BalanceTransfer') {
+        // The value of a BalanceTransfer is already scaled
+        update(args.from, args.value.mul(-1));
+        update(args.to, args.value);
+      }
+    } else if (contract === 'StableDebtToken') {
+      if (name === 'Mint') {
+        const position = getPosition(args.onBehalfOf, asset);
+        position.principalStableDebt = position.principalStableDebt.add(args.amount);
+      } else if (name === 'Burn') {
+        const position = getPosition(args.from, asset);
+        position.principalStableDebt = position.principalStableDebt.sub(args.amount);
+      }
+    }
+  }
+  return positions;
+};
+
+/**
+ * Rebuilds the positions from the events and compares them with the scaled balances of the tokens
+ * and the configuration of the users in the Pool. Only the users appearing in the events are checked
+ * @param pool The Pool
+ * @param events The decoded events, in order and from the deployment of the market
+ */
+export const reconcilePositions = async (
+  pool: Pool,
+  events: IndexedEvent[]
+): Promise<ReconciliationReport> => {
+  const positions = rebuildPositions(events);
+  const mismatches: PositionMismatch[] = [];
+  const compare = (
+    user: tEthereumAddress,
+    asset: tEthereumAddress,
+    field: ReconciledField,
+    expected: BigNumber | boolean,
+    actual: BigNumber | boolean
+  ) => {
+    const [expectedValue, actualValue] = [expected, actual].map((value) =>
+      typeof value === 'boolean' ? value : value.toString()
+    );
+    if (expectedValue !== actualValue) {
+      mismatches.push({
+        user,
+        asset,
+        field,
+        expected: expectedValue,
+        actual: actualValue,
+        message: `${field} of ${user} in ${asset}: ${expectedValue} from the events, ${actualValue} on-chain`,
+      });
+    }
+  };
+
+  const reserves = await Promise.all(
+    (
+      await pool.getReservesList()
+    ).map(async (asset) => ({ asset, reserveData: await pool.getReserveData(asset) }))
+  );
+
+  for (const user of Object.keys(positions)) {
+    const { data } = await pool.getUserConfiguration(user);
+
+    for (const { asset, reserveData } of reserves) {
+      const position = positions[user][asset];
+      const scaledATokenBalance = position?.scaledATokenBalance || BigNumber.from(0);
+      const scaledVariableDebt = position?.scaledVariableDebt || BigNumber.from(0);
+      const principalStableDebt = position?.principalStableDebt || BigNumber.from(0);
+
+      if (position) {
+        const provider = pool.provider;
+        compare(
+          user,
+          asset,
+          'scaledATokenBalance',
+          scaledATokenBalance,
+          await AToken__factory.connect(reserveData.aTokenAddress, provider).scaledBalanceOf(user)
+        );
+        compare(
+          user,
+          asset,
+          'scaledVariableDebt',
+          scaledVariableDebt,
+          await VariableDebtToken__factory.connect(
+            reserveData.variableDebtTokenAddress,
+            provider
+          ).scaledBalanceOf(user)
+        );
+        compare(
+          user,
+          asset,
+          'principalStableDebt',
+          principalStableDebt,
+          await StableDebtToken__factory.connect(
+            reserveData.stableDebtTokenAddress,
+            provider
+          ).principalBalanceOf(user)
+        );
+      }
+      compare(
+        user,
+        asset,
+        'usageAsCollateralEnabled',
+        !!position?.usageAsCollateralEnabled,
+        isUsingAsCollateral(data, reserveData.id)
+      );
+      // The borrowing flag is set while the user holds any debt of the reserve
+      compare(
+        user,
+        asset,
+        'isBorrowing',
+        !scaledVariableDebt.isZero() || !principalStableDebt.isZero(),
+        isBorrowing(data, reserveData.id)
+      );
+    }
+  }
+
+  return { positions, mismatches };
+};
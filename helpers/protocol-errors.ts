@@ -0,0 +1,150 @@
+import { BigNumber } from 'ethers';
+import { defaultAbiCoder } from 'ethers/lib/utils';
+import { ProtocolErrorDescriptions, ProtocolErrors } from './types';
+
+// Selector of `Error(string)`
+export const ERROR_STRING_SELECTOR = '0x08c379a0';
+
+// Selector of `Panic(uint256)`
+export const PANIC_CODE_SELECTOR = '0x4e487b71';
+
+export const PANIC_CODE_DESCRIPTIONS: { [code: number]: string } = {
+  0x00: 'Generic compiler inserted panic',
+  0x01: 'Assertion error',
+  0x11: 'Arithmetic operation underflowed or overflowed outside of an unchecked block',
+  0x12: 'Division or modulo division by zero',
+  0x21: 'Tried to convert a value into an enum, but the value was too big or negative',
+  0x22: 'Incorrectly encoded storage byte array',
+  0x31: '.pop() was called on an empty array',
+  0x32: 'Array accessed at an out-of-bounds or negative index',
+  0x41: 'Too much memory was allocated, or an array was created that is too large',
+  0x51: 'Called a zero-initialized variable of internal function type',
+};
+
+export interface DecodedRevert {
+  kind: 'Error' | 'Panic' | 'Custom' | 'Empty';
+  // Reason of an `Error(string)` revert
+  reason?: string;
+  // Code of a `Panic(uint256)` revert
+  panicCode?: BigNumber;
+  // Selector of a custom error
+  selector?: string;
+  // Matching member of `ProtocolErrors`, if any
+  protocolError?: ProtocolErrors;
+  // Name of the matching member of `ProtocolErrors`, if any
+  name?: keyof typeof ProtocolErrors;
+  description: string;
+}
+
+const protocolErrorNames = new Map<string, keyof typeof ProtocolErrors>();
+for (const name of Object.keys(ProtocolErrors) as (keyof typeof ProtocolErrors)[]) {
+  // Keeps the first member for duplicated values
+  if (!protocolErrorNames.has(ProtocolErrors[name])) {
+    protocolErrorNames.set(ProtocolErrors[name], name);
+  }
+}
+
+/**
+ * Returns the `ProtocolErrors` member matching a revert reason, with its description. Reasons that are not
+ * part of `ProtocolErrors` are returned as description
+ * @param reason The revert reason, e.g. '35' or 'Ownable: caller is not the owner'
+ */
+export const getProtocolError = (reason: string) => {
+  const name = protocolErrorNames.get(reason);
+  if (!name) {
+    return { description: reason };
+  }
+
+  return {
+    protocolError: ProtocolErrors[name],
+    name,
+    description: ProtocolErrorDescriptions[name] || reason,
+  };
+};
+
+const protocolErrorsByDescription = new Map<string, ProtocolErrors>();
+for (const name of Object.keys(ProtocolErrorDescriptions) as (keyof typeof ProtocolErrors)[]) {
+  // Keeps the first member for duplicated descriptions
+  const description = ProtocolErrorDescriptions[name];
+  if (description && !protocolErrorsByDescription.has(description)) {
+    protocolErrorsByDescription.set(description, ProtocolErrors[name]);
+  }
+}
+
+/**
+ * Returns the `ProtocolErrors` member matching an error code or description, if any
+ * @param error The code or the description of the error, e.g. '26' or 'Amount must be greater than 0'
+ */
+export const findProtocolError = (error: string): ProtocolErrors | undefined =>
+  getProtocolError(error).protocolError || protocolErrorsByDescription.get(error);
+
+/**
+ * Decodes the return data of a reverted call
+ * @param data The revert data, as hex string
+ */
+export const decodeRevertData = (data: string): DecodedRevert => {
+  if (data === '0x' || data === '') {
+    return { kind: 'Empty', description: 'Reverted without a reason' };
+  }
+
+  const selector = data.slice(0, 10).toLowerCase();
+  if (selector === ERROR_STRING_SELECTOR) {
+    const [reason] = defaultAbiCoder.decode(['string'], `0x${data.slice(10)}`);
+    return { kind: 'Error', reason, ...getProtocolError(reason) };
+  }
+  if (selector === PANIC_CODE_SELECTOR) {
+    const [panicCode] = defaultAbiCoder.decode(['uint256'], `0x${data.slice(10)}`);
+    return {
+      kind: 'Panic',
+      panicCode,
+      description: `Panic ${panicCode.toHexString()}: ${
+        (panicCode.lte(0xff) && PANIC_CODE_DESCRIPTIONS[panicCode.toNumber()]) ||
+        'Unknown panic code'
+      }`,
+    };
+  }
+
+  return { kind: 'Custom', selector, description: `Custom error ${selector}` };
+};
+
+const REASON_STRING_MESSAGE = /reverted with reason string '(.*)'/;
+const PANIC_CODE_MESSAGE = /reverted with panic code (0x[0-9a-fA-F]+)/;
+
+/**
+ * Extracts the revert data of an error thrown by ethers or by the Hardhat network. Falls back to the
+ * message of the error when the data is not available
+ * @param error The error thrown by the call or the transaction
+ * @returns The revert data as hex string, or undefined if the error is not a revert
+ */
+export const getRevertData = (error: any): string | undefined => {
+  for (const candidate of [error, error?.error, error?.error?.error]) {
+    const data = candidate?.data;
+    if (typeof data === 'string' && data.startsWith('0x')) return data;
+    if (typeof data?.data === 'string' && data.data.startsWith('0x')) return data.data;
+  }
+
+  const message: string = error?.error?.message || error?.message || '';
+  const reasonMatch = message.match(REASON_STRING_MESSAGE);
+  if (reasonMatch) {
+    return `${ERROR_STRING_SELECTOR}${defaultAbiCoder
+      .encode(['string'], [reasonMatch[1]])
+      .slice(2)}`;
+  }
+  const panicMatch = message.match(PANIC_CODE_MESSAGE);
+  if (panicMatch) {
+    return `${PANIC_CODE_SELECTOR}${defaultAbiCoder.encode(['uint256'], [panicMatch[1]]).slice(2)}`;
+  }
+  if (message.includes('reverted without a reason')) return '0x';
+
+  return undefined;
+};
+
+/**
+ * Decodes an error thrown by ethers or raw revert data into the matching `ProtocolErrors` member
+ * @param errorOrData The error thrown by the call, or its revert data as hex string
+ * @returns The decoded revert, or undefined if it is not a revert
+ */
+export const decodeProtocolError = (errorOrData: any): DecodedRevert | undefined => {
+  const data = typeof errorOrData === 'string' ? errorOrData : getRevertData(errorOrData);
+  return data === undefined ? undefined : decodeRevertData(data);
+};
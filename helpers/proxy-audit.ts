@@ -0,0 +1,266 @@
+import { BigNumber, providers, utils } from 'ethers';
+import { getContract } from '@aave/deploy-v3';
+import { ZERO_ADDRESS } from './constants';
+import { tEthereumAddress } from './types';
+import { PoolAddressesProvider } from '../types';
+
+// bytes32(uint256(keccak256('eip1967.proxy.implementation')) - 1)
+export const EIP1967_IMPLEMENTATION_SLOT =
+  '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc';
+// bytes32(uint256(keccak256('eip1967.proxy.admin')) - 1)
+export const EIP1967_ADMIN_SLOT =
+  '0xb53127684a568b3173ae13b9f8a6016e243e63b6e8ee1178d6a717850b5d6103';
+// `lastInitializedRevision` of VersionedInitializable, first in the storage of every proxied contract
+export const LAST_INITIALIZED_REVISION_SLOT = 0;
+
+export type ProxyKind =
+  | 'Pool'
+  | 'PoolConfigurator'
+  | 'AToken'
+  | 'StableDebtToken'
+  | 'VariableDebtToken';
+
+const TOKEN_KINDS: ProxyKind[] = ['AToken', 'StableDebtToken', 'VariableDebtToken'];
+
+// Name of the public revision constant of the implementation of each kind of proxy
+const REVISION_GETTERS: { [kind in ProxyKind]: string } = {
+  Pool: 'POOL_REVISION',
+  PoolConfigurator: 'CONFIGURATOR_REVISION',
+  AToken: 'ATOKEN_REVISION',
+  StableDebtToken: 'DEBT_TOKEN_REVISION',
+  VariableDebtToken: 'DEBT_TOKEN_REVISION',
+};
+
+const PROXY_ADMIN_ABI = ['function admin() returns (address)'];
+
+export interface ProxyAuditEntry {
+  kind: ProxyKind;
+  proxy: tEthereumAddress;
+  implementation: tEthereumAddress;
+  /** Value of the EIP-1967 admin slot, the zero address for proxies with an immutable admin */
+  adminSlot: tEthereumAddress;
+  /** The admin of the proxy, from the admin slot or else the verified immutable admin */
+  admin?: tEthereumAddress;
+  /** `lastInitializedRevision` of the proxy storage */
+  revision: number;
+  /** Revision constant of the implementation, if it exposes one */
+  implementationRevision?: number;
+  /** The reserve of the token, for token proxies */
+  asset?: tEthereumAddress;
+  symbol?: string;
+}
+
+export interface ProxyAuditIssue {
+  kind: ProxyKind;
+  proxy: tEthereumAddress;
+  asset?: tEthereumAddress;
+  symbol?: string;
+  message: string;
+}
+
+export interface ProxyAuditReport {
+  addressesProvider: tEthereumAddress;
+  proxies: ProxyAuditEntry[];
+  /** The implementation shared by most reserves, for each kind of token without a tie */
+  majorityImplementations: { [kind in ProxyKind]?: tEthereumAddress };
+  issues: ProxyAuditIssue[];
+}
+
+const readAddressSlot = async (
+  provider: providers.Provider,
+  address: tEthereumAddress,
+  slot: string
+) => utils.getAddress(utils.hexDataSlice(await provider.getStorageAt(address, slot), 12));
+
+/**
+ * Returns the implementation of an EIP-1967 proxy, reading its implementation slot
+ * @param provider The provider
+ * @param proxy The address of the proxy
+ */
+export const getProxyImplementationFromSlot = (
+  provider: providers.Provider,
+  proxy: tEthereumAddress
+) => readAddressSlot(provider, proxy, EIP1967_IMPLEMENTATION_SLOT);
+
+/**
+ * Returns the revision a VersionedInitializable proxy was last initialized with
+ * @param provider The provider
+ * @param proxy The address of the proxy
+ */
+export const getLastInitializedRevision = async (
+  provider: providers.Provider,
+  proxy: tEthereumAddress
+) => BigNumber.from(await provider.getStorageAt(proxy, LAST_INITIALIZED_REVISION_SLOT)).toNumber();
+
+// `admin()` only answers to the admin, any other caller falls back to the implementation
+const isImmutableAdmin = async (
+  provider: providers.Provider,
+  proxy: tEthereumAddress,
+  admin: tEthereumAddress
+) => {
+  const iface = new utils.Interface(PROXY_ADMIN_ABI);
+  try {
+    const result = await provider.call({
+      to: proxy,
+      from: admin,
+      data: iface.encodeFunctionData('admin'),
+    });
+    return (
+      utils.getAddress(iface.decodeFunctionResult('admin', result)[0]) === utils.getAddress(admin)
+    );
+  } catch {
+    return false;
+  }
+};
+
+const getImplementationRevision = async (
+  provider: providers.Provider,
+  kind: ProxyKind,
+  implementation: tEthereumAddress
+) => {
+  const getter = REVISION_GETTERS[kind];
+  const iface = new utils.Interface([`function ${getter}() view returns (uint256)`]);
+  try {
+    const result = await provider.call({
+      to: implementation,
+      data: iface.encodeFunctionData(getter),
+    });
+    return iface.decodeFunctionResult(getter, result)[0].toNumber();
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Reads the implementation, admin and revision of a proxy
+ * @param provider The provider
+ * @param kind The kind of contract behind the proxy
+ * @param proxy The address of the proxy
+ * @param expectedAdmin The expected immutable admin of the proxy, checked when the admin slot is empty
+ */
+export const auditProxy = async (
+  provider: providers.Provider,
+  kind: ProxyKind,
+  proxy: tEthereumAddress,
+  expectedAdmin: tEthereumAddress
+): Promise<ProxyAuditEntry> => {
+  const implementation = await getProxyImplementationFromSlot(provider, proxy);
+  const adminSlot = await readAddressSlot(provider, proxy, EIP1967_ADMIN_SLOT);
+  const admin =
+    adminSlot !== ZERO_ADDRESS
+      ? adminSlot
+      : (await isImmutableAdmin(provider, proxy, expectedAdmin))
+      ? expectedAdmin
+      : undefined;
+
+  return {
+    kind,
+    proxy,
+    implementation,
+    adminSlot,
+    admin,
+    revision: await getLastInitializedRevision(provider, proxy),
+    implementationRevision: await getImplementationRevision(provider, kind, implementation),
+  };
+};
+
+// The values shared by the most entries, several of them on a tie
+const getMostCommon = (values: tEthereumAddress[]) => {
+  const counts = values.reduce<{ [value: string]: number }>(
+    (acc, value) => ({ ...acc, [value]: (acc[value] || 0) + 1 }),
+    {}
+  );
+  const highest = Math.max(...Object.values(counts));
+  return Object.keys(counts).filter((value) => counts[value] === highest);
+};
+
+/**
+ * Audits every proxy of a market: the Pool, the PoolConfigurator and the aToken, stable debt token
+ * and variable debt token of each reserve. Flags the proxies without a known admin, the ones whose
+ * implementation revision was not initialized, and the reserves whose token implementations differ
+ * from the majority of the reserves. A tie between implementations is flagged on every reserve
+ * @param addressesProvider The PoolAddressesProvider of the market
+ */
+export const auditMarketProxies = async (
+  addressesProvider: PoolAddressesProvider
+): Promise<ProxyAuditReport> => {
+  const provider = addressesProvider.provider;
+  const poolAddress = await addressesProvider.getPool();
+  const configuratorAddress = await addressesProvider.getPoolConfigurator();
+  const pool = await getContract('IPool', poolAddress);
+
+  // Pool and PoolConfigurator proxies are administered by the PoolAddressesProvider, token proxies
+  // by the PoolConfigurator
+  const proxies: ProxyAuditEntry[] = [
+    await auditProxy(provider, 'Pool', poolAddress, addressesProvider.address),
+    await auditProxy(provider, 'PoolConfigurator', configuratorAddress, addressesProvider.address),
+  ];
+
+  for (const asset of await pool.getReservesList()) {
+    const reserveData = await pool.getReserveData(asset);
+    const symbol = await (await getContract('IERC20Detailed', asset)).symbol();
+    const tokens: [ProxyKind, tEthereumAddress][] = [
+      ['AToken', reserveData.aTokenAddress],
+      ['StableDebtToken', reserveData.stableDebtTokenAddress],
+      ['VariableDebtToken', reserveData.variableDebtTokenAddress],
+    ];
+    for (const [kind, token] of tokens) {
+      proxies.push({
+        ...(await auditProxy(provider, kind, token, configuratorAddress)),
+        asset,
+        symbol,
+      });
+    }
+  }
+
+  const issues: ProxyAuditIssue[] = [];
+  const issue = ({ kind, proxy, asset, symbol }: ProxyAuditEntry, message: string) =>
+    issues.push({ kind, proxy, ...(asset && { asset, symbol }), message });
+
+  for (const entry of proxies) {
+    if (!entry.admin) {
+      issue(entry, `Admin slot is empty and the expected immutable admin does not answer`);
+    }
+    if (
+      entry.implementationRevision !== undefined &&
+      entry.implementationRevision !== entry.revision
+    ) {
+      issue(
+        entry,
+        `Implementation revision ${entry.implementationRevision} differs from the initialized revision ${entry.revision}`
+      );
+    }
+  }
+
+  const majorityImplementations: ProxyAuditReport['majorityImplementations'] = {};
+  for (const kind of TOKEN_KINDS) {
+    const entries = proxies.filter((entry) => entry.kind === kind);
+    const mostCommon = getMostCommon(entries.map(({ implementation }) => implementation));
+    if (mostCommon.length > 1) {
+      for (const entry of entries) {
+        issue(
+          entry,
+          `${kind} implementation ${entry.implementation} is ambiguous, ${mostCommon.join(
+            ' and '
+          )} are shared by as many reserves`
+        );
+      }
+      continue;
+    }
+    const [majority] = mostCommon;
+    majorityImplementations[kind] = majority;
+    for (const entry of entries.filter(({ implementation }) => implementation !== majority)) {
+      issue(
+        entry,
+        `${kind} implementation ${entry.implementation} differs from the majority ${majority}`
+      );
+    }
+  }
+
+  return {
+    addressesProvider: addressesProvider.address,
+    proxies,
+    majorityImplementations,
+    issues,
+  };
+};
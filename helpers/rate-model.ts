@@ -0,0 +1,301 @@
+import { BigNumber, BigNumberish } from 'ethers';
+import { getContract } from '@aave/deploy-v3';
+import { formatUnits } from 'ethers/lib/utils';
+import { PERCENTAGE_FACTOR, RAY } from './constants';
+import './wadraymath';
+import { IInterestRateStrategyParams, ProtocolErrors, tEthereumAddress } from './types';
+
+/** The params of a strategy, without the name it has in the market configuration */
+export type InterestRateStrategyParams = Omit<IInterestRateStrategyParams, 'name'>;
+
+export interface InterestRatesParams {
+  totalStableDebt: BigNumberish;
+  totalVariableDebt: BigNumberish;
+  availableLiquidity: BigNumberish;
+  unbacked?: BigNumberish;
+  averageStableBorrowRate: BigNumberish;
+  reserveFactor: BigNumberish;
+}
+
+export interface InterestRates {
+  liquidityRate: BigNumber;
+  stableBorrowRate: BigNumber;
+  variableBorrowRate: BigNumber;
+  borrowUsageRatio: BigNumber;
+  supplyUsageRatio: BigNumber;
+  stableToTotalDebtRatio: BigNumber;
+}
+
+export interface RateCurveOptions {
+  reserveFactor: BigNumberish;
+  stableToTotalDebtRatio?: BigNumberish;
+  averageStableBorrowRate?: BigNumberish;
+  stepBps?: number;
+}
+
+export interface RateCurve {
+  strategy: IInterestRateStrategyParams;
+  reserveFactor: string;
+  points: InterestRates[];
+}
+
+// Notional liquidity the usage ratios are applied to, in wei. Using 1 ray keeps the ratios exact
+const CURVE_NOTIONAL = BigNumber.from(RAY);
+
+/**
+ * Mirrors `DefaultReserveInterestRateStrategy.getBaseStableBorrowRate()`
+ */
+export const getBaseStableBorrowRate = (strategy: InterestRateStrategyParams) =>
+  BigNumber.from(strategy.variableRateSlope1).add(strategy.baseStableRateOffset);
+
+/**
+ * Mirrors `DefaultReserveInterestRateStrategy.getMaxVariableBorrowRate()`
+ */
+export const getMaxVariableBorrowRate = (strategy: InterestRateStrategyParams) =>
+  BigNumber.from(strategy.baseVariableBorrowRate)
+    .add(strategy.variableRateSlope1)
+    .add(strategy.variableRateSlope2);
+
+/**
+ * Reads the params of a deployed `DefaultReserveInterestRateStrategy`
+ * @param strategyAddress The address of the strategy
+ */
+export const getInterestRateStrategyParams = async (
+  strategyAddress: tEthereumAddress
+): Promise<InterestRateStrategyParams> => {
+  const strategy = await getContract('IDefaultInterestRateStrategy', strategyAddress);
+  const variableRateSlope1 = await strategy.getVariableRateSlope1();
+
+  return {
+    optimalUsageRatio: (await strategy.OPTIMAL_USAGE_RATIO()).toString(),
+    baseVariableBorrowRate: (await strategy.getBaseVariableBorrowRate()).toString(),
+    variableRateSlope1: variableRateSlope1.toString(),
+    variableRateSlope2: (await strategy.getVariableRateSlope2()).toString(),
+    stableRateSlope1: (await strategy.getStableRateSlope1()).toString(),
+    stableRateSlope2: (await strategy.getStableRateSlope2()).toString(),
+    // The strategy only exposes the base stable rate, `variableRateSlope1 + baseStableRateOffset`
+    baseStableRateOffset: (await strategy.getBaseStableBorrowRate())
+      .sub(variableRateSlope1)
+      .toString(),
+    stableRateExcessOffset: (await strategy.getStableRateExcessOffset()).toString(),
+    optimalStableToTotalDebtRatio: (await strategy.OPTIMAL_STABLE_TO_TOTAL_DEBT_RATIO()).toString(),
+  };
+};
+
+/**
+ * Mirrors `DefaultReserveInterestRateStrategy._getOverallBorrowRate()`
+ */
+export const getOverallBorrowRate = (
+  totalStableDebt: BigNumberish,
+  totalVariableDebt: BigNumberish,
+  currentVariableBorrowRate: BigNumberish,
+  currentAverageStableBorrowRate: BigNumberish
+) => {
+  const totalDebt = BigNumber.from(totalStableDebt).add(totalVariableDebt);
+  if (totalDebt.isZero()) return BigNumber.from(0);
+
+  const weightedVariableRate = BigNumber.from(totalVariableDebt)
+    .wadToRay()
+    .rayMul(BigNumber.from(currentVariableBorrowRate));
+  const weightedStableRate = BigNumber.from(totalStableDebt)
+    .wadToRay()
+    .rayMul(BigNumber.from(currentAverageStableBorrowRate));
+
+  return weightedVariableRate.add(weightedStableRate).rayDiv(totalDebt.wadToRay());
+};
+
+/**
+ * Off-chain replica of `DefaultReserveInterestRateStrategy.calculateInterestRates()`. The available liquidity
+ * is the one the strategy computes on-chain, `balanceOf(aToken) + liquidityAdded - liquidityTaken`. Invalid
+ * optimal ratios, rejected by the strategy constructor, throw the same errors.
+ * @param strategy The parameters of the strategy, as in the market configuration
+ * @param params The state of the reserve
+ */
+export const calculateInterestRates = (
+  strategy: InterestRateStrategyParams,
+  params: InterestRatesParams
+): InterestRates => {
+  if (BigNumber.from(strategy.optimalUsageRatio).gt(RAY)) {
+    throw new Error(ProtocolErrors.INVALID_OPTIMAL_USAGE_RATIO);
+  }
+  if (BigNumber.from(strategy.optimalStableToTotalDebtRatio).gt(RAY)) {
+    throw new Error(ProtocolErrors.INVALID_OPTIMAL_STABLE_TO_TOTAL_DEBT_RATIO);
+  }
+
+  const optimalUsageRatio = BigNumber.from(strategy.optimalUsageRatio);
+  const maxExcessUsageRatio = BigNumber.from(RAY).sub(optimalUsageRatio);
+  const optimalStableToTotalDebtRatio = BigNumber.from(strategy.optimalStableToTotalDebtRatio);
+  const maxExcessStableToTotalDebtRatio = BigNumber.from(RAY).sub(optimalStableToTotalDebtRatio);
+
+  const totalDebt = BigNumber.from(params.totalStableDebt).add(params.totalVariableDebt);
+
+  let variableBorrowRate = BigNumber.from(strategy.baseVariableBorrowRate);
+  let stableBorrowRate = getBaseStableBorrowRate(strategy);
+  let stableToTotalDebtRatio = BigNumber.from(0);
+  let borrowUsageRatio = BigNumber.from(0);
+  let supplyUsageRatio = BigNumber.from(0);
+
+  if (!totalDebt.isZero()) {
+    stableToTotalDebtRatio = BigNumber.from(params.totalStableDebt).rayDiv(totalDebt);
+    const availableLiquidityPlusDebt = totalDebt.add(params.availableLiquidity);
+    borrowUsageRatio = totalDebt.rayDiv(availableLiquidityPlusDebt);
+    supplyUsageRatio = totalDebt.rayDiv(availableLiquidityPlusDebt.add(params.unbacked || 0));
+  }
+
+  if (borrowUsageRatio.gt(optimalUsageRatio)) {
+    const excessBorrowUsageRatio = borrowUsageRatio
+      .sub(optimalUsageRatio)
+      .rayDiv(maxExcessUsageRatio);
+    stableBorrowRate = stableBorrowRate
+      .add(strategy.stableRateSlope1)
+      .add(BigNumber.from(strategy.stableRateSlope2).rayMul(excessBorrowUsageRatio));
+    variableBorrowRate = variableBorrowRate
+      .add(strategy.variableRateSlope1)
+      .add(BigNumber.from(strategy.variableRateSlope2).rayMul(excessBorrowUsageRatio));
+  } else {
+    stableBorrowRate = stableBorrowRate.add(
+      BigNumber.from(strategy.stableRateSlope1).rayMul(borrowUsageRatio).rayDiv(optimalUsageRatio)
+    );
+    variableBorrowRate = variableBorrowRate.add(
+      BigNumber.from(strategy.variableRateSlope1).rayMul(borrowUsageRatio).rayDiv(optimalUsageRatio)
+    );
+  }
+
+  if (stableToTotalDebtRatio.gt(optimalStableToTotalDebtRatio)) {
+    const excessStableDebtRatio = stableToTotalDebtRatio
+      .sub(optimalStableToTotalDebtRatio)
+      .rayDiv(maxExcessStableToTotalDebtRatio);
+    stableBorrowRate = stableBorrowRate.add(
+      BigNumber.from(strategy.stableRateExcessOffset).rayMul(excessStableDebtRatio)
+    );
+  }
+
+  const liquidityRate = getOverallBorrowRate(
+    params.totalStableDebt,
+    params.totalVariableDebt,
+    variableBorrowRate,
+    params.averageStableBorrowRate
+  )
+    .rayMul(supplyUsageRatio)
+    .percentMul(BigNumber.from(PERCENTAGE_FACTOR).sub(params.reserveFactor));
+
+  return {
+    liquidityRate,
+    stableBorrowRate,
+    variableBorrowRate,
+    borrowUsageRatio,
+    supplyUsageRatio,
+    stableToTotalDebtRatio,
+  };
+};
+
+/**
+ * Builds the amounts of a reserve at the given usage and stable debt ratios, over a notional liquidity of 1 ray
+ * @param borrowUsageRatio The borrow usage ratio, in ray
+ * @param stableToTotalDebtRatio The share of the debt borrowed at stable rate, in ray
+ */
+export const getReserveAmountsAtUsage = (
+  borrowUsageRatio: BigNumberish,
+  stableToTotalDebtRatio: BigNumberish
+) => {
+  const totalDebt = CURVE_NOTIONAL.rayMul(BigNumber.from(borrowUsageRatio));
+  const totalStableDebt = totalDebt.rayMul(BigNumber.from(stableToTotalDebtRatio));
+
+  return {
+    totalStableDebt,
+    totalVariableDebt: totalDebt.sub(totalStableDebt),
+    availableLiquidity: CURVE_NOTIONAL.sub(totalDebt),
+  };
+};
+
+/**
+ * Returns the rates of the strategy at the given usage and stable debt ratios, without unbacked liquidity
+ * @param strategy The parameters of the strategy
+ * @param borrowUsageRatio The borrow usage ratio, in ray
+ * @param options.reserveFactor The reserve factor of the reserve, in bps
+ * @param options.stableToTotalDebtRatio The share of the debt borrowed at stable rate, in ray. 0 by default
+ * @param options.averageStableBorrowRate The average rate of the stable debt. By default the stable debt is
+ * considered as borrowed at the current stable rate
+ */
+export const getInterestRatesAtUsage = (
+  strategy: IInterestRateStrategyParams,
+  borrowUsageRatio: BigNumberish,
+  options: Omit<RateCurveOptions, 'stepBps'>
+): InterestRates => {
+  const amounts = getReserveAmountsAtUsage(borrowUsageRatio, options.stableToTotalDebtRatio || 0);
+  const params = {
+    ...amounts,
+    averageStableBorrowRate: options.averageStableBorrowRate || 0,
+    reserveFactor: options.reserveFactor,
+  };
+
+  if (options.averageStableBorrowRate === undefined) {
+    params.averageStableBorrowRate = calculateInterestRates(strategy, params).stableBorrowRate;
+  }
+
+  return calculateInterestRates(strategy, params);
+};
+
+/**
+ * Returns the rates of the strategy over the whole usage range, from 0% to 100%
+ * @param strategy The parameters of the strategy
+ * @param options Same as `getInterestRatesAtUsage()`, plus `stepBps`, the usage increment between two
+ * points in bps. 100 (1%) by default
+ */
+export const getRateCurve = (
+  strategy: IInterestRateStrategyParams,
+  options: RateCurveOptions
+): RateCurve => {
+  const stepBps = options.stepBps || 100;
+  if (stepBps <= 0 || stepBps > Number(PERCENTAGE_FACTOR)) {
+    throw new Error(`Invalid curve step of ${stepBps} bps`);
+  }
+
+  const usageRatios: BigNumber[] = [];
+  for (let usageBps = 0; usageBps < Number(PERCENTAGE_FACTOR); usageBps += stepBps) {
+    usageRatios.push(BigNumber.from(RAY).mul(usageBps).div(PERCENTAGE_FACTOR));
+  }
+  usageRatios.push(BigNumber.from(RAY));
+
+  return {
+    strategy,
+    reserveFactor: BigNumber.from(options.reserveFactor).toString(),
+    points: usageRatios.map((usageRatio) => getInterestRatesAtUsage(strategy, usageRatio, options)),
+  };
+};
+
+const RATE_CURVE_COLUMNS: (keyof InterestRates)[] = [
+  'borrowUsageRatio',
+  'supplyUsageRatio',
+  'stableToTotalDebtRatio',
+  'variableBorrowRate',
+  'stableBorrowRate',
+  'liquidityRate',
+];
+
+/**
+ * Serializes a rate curve to JSON. Ratios and rates are kept in ray, as decimal strings
+ */
+export const rateCurveToJSON = (curve: RateCurve) =>
+  JSON.stringify(
+    {
+      strategy: curve.strategy,
+      reserveFactor: curve.reserveFactor,
+      points: curve.points.map((point) =>
+        Object.fromEntries(RATE_CURVE_COLUMNS.map((column) => [column, point[column].toString()]))
+      ),
+    },
+    null,
+    2
+  );
+
+/**
+ * Serializes a rate curve to CSV, one line per point. Ratios and rates are expressed in percent
+ */
+export const rateCurveToCSV = (curve: RateCurve) =>
+  [
+    RATE_CURVE_COLUMNS.join(','),
+    ...curve.points.map((point) =>
+      RATE_CURVE_COLUMNS.map((column) => formatUnits(point[column], 25)).join(',')
+    ),
+  ].join('\n');
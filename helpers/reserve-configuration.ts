@@ -0,0 +1,241 @@
+import { BigNumber, BigNumberish } from 'ethers';
+import { MAX_UINT_AMOUNT } from './constants';
+import { ProtocolErrors } from './types';
+
+// ----------------
+// MASKS, mirrors contracts/protocol/libraries/configuration/ReserveConfiguration.sol
+// ----------------
+
+export const LTV_MASK = '0xFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF0000';
+export const LIQUIDATION_THRESHOLD_MASK =
+  '0xFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF0000FFFF';
+export const LIQUIDATION_BONUS_MASK =
+  '0xFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF0000FFFFFFFF';
+export const DECIMALS_MASK = '0xFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF00FFFFFFFFFFFF';
+export const ACTIVE_MASK = '0xFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFEFFFFFFFFFFFFFF';
+export const FROZEN_MASK = '0xFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFDFFFFFFFFFFFFFF';
+export const BORROWING_MASK = '0xFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFBFFFFFFFFFFFFFF';
+export const STABLE_BORROWING_MASK =
+  '0xFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF7FFFFFFFFFFFFFF';
+export const PAUSED_MASK = '0xFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFEFFFFFFFFFFFFFFF';
+export const BORROWABLE_IN_ISOLATION_MASK =
+  '0xFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFDFFFFFFFFFFFFFFF';
+export const SILOED_BORROWING_MASK =
+  '0xFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFBFFFFFFFFFFFFFFF';
+export const FLASHLOAN_ENABLED_MASK =
+  '0xFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF7FFFFFFFFFFFFFFF';
+export const RESERVE_FACTOR_MASK =
+  '0xFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF0000FFFFFFFFFFFFFFFF';
+export const BORROW_CAP_MASK = '0xFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF000000000FFFFFFFFFFFFFFFFFFFF';
+export const SUPPLY_CAP_MASK = '0xFFFFFFFFFFFFFFFFFFFFFFFFFF000000000FFFFFFFFFFFFFFFFFFFFFFFFFFFFF';
+export const LIQUIDATION_PROTOCOL_FEE_MASK =
+  '0xFFFFFFFFFFFFFFFFFFFFFF0000FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF';
+export const EMODE_CATEGORY_MASK =
+  '0xFFFFFFFFFFFFFFFFFFFF00FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF';
+export const UNBACKED_MINT_CAP_MASK =
+  '0xFFFFFFFFFFF000000000FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF';
+export const DEBT_CEILING_MASK =
+  '0xF0000000000FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF';
+export const IS_FORCED_LIQUIDATION_ENABLED_MASK =
+  '0xEFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF';
+
+export const LIQUIDATION_THRESHOLD_START_BIT_POSITION = 16;
+export const LIQUIDATION_BONUS_START_BIT_POSITION = 32;
+export const RESERVE_DECIMALS_START_BIT_POSITION = 48;
+export const IS_ACTIVE_START_BIT_POSITION = 56;
+export const IS_FROZEN_START_BIT_POSITION = 57;
+export const BORROWING_ENABLED_START_BIT_POSITION = 58;
+export const STABLE_BORROWING_ENABLED_START_BIT_POSITION = 59;
+export const IS_PAUSED_START_BIT_POSITION = 60;
+export const BORROWABLE_IN_ISOLATION_START_BIT_POSITION = 61;
+export const SILOED_BORROWING_START_BIT_POSITION = 62;
+export const FLASHLOAN_ENABLED_START_BIT_POSITION = 63;
+export const RESERVE_FACTOR_START_BIT_POSITION = 64;
+export const BORROW_CAP_START_BIT_POSITION = 80;
+export const SUPPLY_CAP_START_BIT_POSITION = 116;
+export const LIQUIDATION_PROTOCOL_FEE_START_BIT_POSITION = 152;
+export const EMODE_CATEGORY_START_BIT_POSITION = 168;
+export const UNBACKED_MINT_CAP_START_BIT_POSITION = 176;
+export const DEBT_CEILING_START_BIT_POSITION = 212;
+export const IS_FORCED_LIQUIDATION_ENABLED_START_BIT_POSITION = 252;
+
+export const MAX_VALID_LTV = '65535';
+export const MAX_VALID_LIQUIDATION_THRESHOLD = '65535';
+export const MAX_VALID_LIQUIDATION_BONUS = '65535';
+export const MAX_VALID_DECIMALS = '255';
+export const MAX_VALID_RESERVE_FACTOR = '65535';
+export const MAX_VALID_BORROW_CAP = '68719476735';
+export const MAX_VALID_SUPPLY_CAP = '68719476735';
+export const MAX_VALID_LIQUIDATION_PROTOCOL_FEE = '65535';
+export const MAX_VALID_EMODE_CATEGORY = '255';
+export const MAX_VALID_UNBACKED_MINT_CAP = '68719476735';
+export const MAX_VALID_DEBT_CEILING = '1099511627775';
+
+export const DEBT_CEILING_DECIMALS = 2;
+
+export interface ReserveConfigurationData {
+  ltv: BigNumber;
+  liquidationThreshold: BigNumber;
+  liquidationBonus: BigNumber;
+  decimals: BigNumber;
+  isActive: boolean;
+  isFrozen: boolean;
+  borrowingEnabled: boolean;
+  stableBorrowRateEnabled: boolean;
+  isPaused: boolean;
+  borrowableInIsolation: boolean;
+  siloedBorrowing: boolean;
+  flashLoanEnabled: boolean;
+  reserveFactor: BigNumber;
+  borrowCap: BigNumber;
+  supplyCap: BigNumber;
+  liquidationProtocolFee: BigNumber;
+  eModeCategory: BigNumber;
+  unbackedMintCap: BigNumber;
+  debtCeiling: BigNumber;
+  isForcedLiquidationEnabled: boolean;
+}
+
+type NumericField = {
+  [K in keyof ReserveConfigurationData]: ReserveConfigurationData[K] extends BigNumber ? K : never;
+}[keyof ReserveConfigurationData];
+
+type FlagField = Exclude<keyof ReserveConfigurationData, NumericField>;
+
+const NUMERIC_FIELDS: {
+  [K in NumericField]: { mask: string; startBit: number; maxValue: string; error: ProtocolErrors };
+} = {
+  ltv: {
+    mask: LTV_MASK,
+    startBit: 0,
+    maxValue: MAX_VALID_LTV,
+    error: ProtocolErrors.INVALID_LTV,
+  },
+  liquidationThreshold: {
+    mask: LIQUIDATION_THRESHOLD_MASK,
+    startBit: LIQUIDATION_THRESHOLD_START_BIT_POSITION,
+    maxValue: MAX_VALID_LIQUIDATION_THRESHOLD,
+    error: ProtocolErrors.INVALID_LIQ_THRESHOLD,
+  },
+  liquidationBonus: {
+    mask: LIQUIDATION_BONUS_MASK,
+    startBit: LIQUIDATION_BONUS_START_BIT_POSITION,
+    maxValue: MAX_VALID_LIQUIDATION_BONUS,
+    error: ProtocolErrors.INVALID_LIQ_BONUS,
+  },
+  decimals: {
+    mask: DECIMALS_MASK,
+    startBit: RESERVE_DECIMALS_START_BIT_POSITION,
+    maxValue: MAX_VALID_DECIMALS,
+    error: ProtocolErrors.INVALID_DECIMALS,
+  },
+  reserveFactor: {
+    mask: RESERVE_FACTOR_MASK,
+    startBit: RESERVE_FACTOR_START_BIT_POSITION,
+    maxValue: MAX_VALID_RESERVE_FACTOR,
+    error: ProtocolErrors.INVALID_RESERVE_FACTOR,
+  },
+  borrowCap: {
+    mask: BORROW_CAP_MASK,
+    startBit: BORROW_CAP_START_BIT_POSITION,
+    maxValue: MAX_VALID_BORROW_CAP,
+    error: ProtocolErrors.INVALID_BORROW_CAP,
+  },
+  supplyCap: {
+    mask: SUPPLY_CAP_MASK,
+    startBit: SUPPLY_CAP_START_BIT_POSITION,
+    maxValue: MAX_VALID_SUPPLY_CAP,
+    error: ProtocolErrors.INVALID_SUPPLY_CAP,
+  },
+  liquidationProtocolFee: {
+    mask: LIQUIDATION_PROTOCOL_FEE_MASK,
+    startBit: LIQUIDATION_PROTOCOL_FEE_START_BIT_POSITION,
+    maxValue: MAX_VALID_LIQUIDATION_PROTOCOL_FEE,
+    error: ProtocolErrors.INVALID_LIQUIDATION_PROTOCOL_FEE,
+  },
+  eModeCategory: {
+    mask: EMODE_CATEGORY_MASK,
+    startBit: EMODE_CATEGORY_START_BIT_POSITION,
+    maxValue: MAX_VALID_EMODE_CATEGORY,
+    error: ProtocolErrors.INVALID_EMODE_CATEGORY,
+  },
+  unbackedMintCap: {
+    mask: UNBACKED_MINT_CAP_MASK,
+    startBit: UNBACKED_MINT_CAP_START_BIT_POSITION,
+    maxValue: MAX_VALID_UNBACKED_MINT_CAP,
+    error: ProtocolErrors.INVALID_UNBACKED_MINT_CAP,
+  },
+  debtCeiling: {
+    mask: DEBT_CEILING_MASK,
+    startBit: DEBT_CEILING_START_BIT_POSITION,
+    maxValue: MAX_VALID_DEBT_CEILING,
+    error: ProtocolErrors.INVALID_DEBT_CEILING,
+  },
+};
+
+const FLAG_FIELDS: { [K in FlagField]: { mask: string; startBit: number } } = {
+  isActive: { mask: ACTIVE_MASK, startBit: IS_ACTIVE_START_BIT_POSITION },
+  isFrozen: { mask: FROZEN_MASK, startBit: IS_FROZEN_START_BIT_POSITION },
+  borrowingEnabled: { mask: BORROWING_MASK, startBit: BORROWING_ENABLED_START_BIT_POSITION },
+  stableBorrowRateEnabled: {
+    mask: STABLE_BORROWING_MASK,
+    startBit: STABLE_BORROWING_ENABLED_START_BIT_POSITION,
+  },
+  isPaused: { mask: PAUSED_MASK, startBit: IS_PAUSED_START_BIT_POSITION },
+  borrowableInIsolation: {
+    mask: BORROWABLE_IN_ISOLATION_MASK,
+    startBit: BORROWABLE_IN_ISOLATION_START_BIT_POSITION,
+  },
+  siloedBorrowing: { mask: SILOED_BORROWING_MASK, startBit: SILOED_BORROWING_START_BIT_POSITION },
+  flashLoanEnabled: {
+    mask: FLASHLOAN_ENABLED_MASK,
+    startBit: FLASHLOAN_ENABLED_START_BIT_POSITION,
+  },
+  isForcedLiquidationEnabled: {
+    mask: IS_FORCED_LIQUIDATION_ENABLED_MASK,
+    startBit: IS_FORCED_LIQUIDATION_ENABLED_START_BIT_POSITION,
+  },
+};
+
+// Solidity reads a field with `data & ~MASK`, BigNumber has no bitwise not over 256 bits
+const invertMask = (mask: string) => BigNumber.from(MAX_UINT_AMOUNT).xor(mask);
+
+/**
+ * Decodes the packed `ReserveConfigurationMap.data` of a reserve into its typed fields
+ * @param data The raw bitmap, as returned by `pool.getConfiguration(asset).data`
+ */
+export const decodeReserveConfiguration = (data: BigNumberish): ReserveConfigurationData => {
+  const dataBN = BigNumber.from(data);
+  const decoded = <ReserveConfigurationData>{};
+
+  for (const [field, { mask, startBit }] of Object.entries(NUMERIC_FIELDS)) {
+    decoded[field as NumericField] = dataBN.and(invertMask(mask)).shr(startBit);
+  }
+  for (const [field, { mask }] of Object.entries(FLAG_FIELDS)) {
+    decoded[field as FlagField] = !dataBN.and(invertMask(mask)).isZero();
+  }
+
+  return decoded;
+};
+
+/**
+ * Packs the typed fields of a reserve configuration into the `ReserveConfigurationMap.data` bitmap.
+ * Throws with the same error code as the `ReserveConfiguration` setters if a field is out of range.
+ * @param config The reserve configuration
+ */
+export const encodeReserveConfiguration = (config: ReserveConfigurationData): BigNumber => {
+  let data = BigNumber.from(0);
+
+  for (const [field, { mask, startBit, maxValue, error }] of Object.entries(NUMERIC_FIELDS)) {
+    const value = BigNumber.from(config[field as NumericField]);
+    if (value.lt(0) || value.gt(maxValue)) {
+      throw new Error(error);
+    }
+    data = data.and(mask).or(value.shl(startBit));
+  }
+  for (const [field, { mask, startBit }] of Object.entries(FLAG_FIELDS)) {
+    data = data.and(mask).or(BigNumber.from(config[field as FlagField] ? 1 : 0).shl(startBit));
+  }
+
+  return data;
+};
@@ -68,9 +68,10 @@ export enum eContractid {
 }
 
 /*
- * Error messages
+ * Error messages. The numeric codes are generated from Errors.sol by `npm run errors:generate`
  */
 export enum ProtocolErrors {
+  // BEGIN GENERATED: ProtocolErrors
   CALLER_NOT_POOL_ADMIN = '1', // 'The caller of the function is not a pool admin'
   CALLER_NOT_EMERGENCY_ADMIN = '2', // 'The caller of the function is not an emergency admin'
   CALLER_NOT_POOL_OR_EMERGENCY_ADMIN = '3', // 'The caller of the function is not a pool or emergency admin'
@@ -142,7 +143,7 @@ export enum ProtocolErrors {
   INVALID_LIQUIDATION_PROTOCOL_FEE = '70', // 'Invalid liquidation protocol fee for the reserve'
   INVALID_EMODE_CATEGORY = '71', // 'Invalid eMode category for the reserve'
   INVALID_UNBACKED_MINT_CAP = '72', // 'Invalid unbacked mint cap for the reserve'
-  INVALID_DEBT_CEILING = '73', // 'Invalid debt ceiling for the reserve
+  INVALID_DEBT_CEILING = '73', // 'Invalid debt ceiling for the reserve'
   INVALID_RESERVE_INDEX = '74', // 'Invalid reserve index'
   ACL_ADMIN_CANNOT_BE_ZERO = '75', // 'ACL admin cannot be set to the zero address'
   INCONSISTENT_PARAMS_LENGTH = '76', // 'Array parameters that should be equal length are not'
@@ -158,9 +159,12 @@ export enum ProtocolErrors {
   ADDRESSES_PROVIDER_ALREADY_ADDED = '86', // 'Reserve has already been added to reserve list'
   POOL_ADDRESSES_DO_NOT_MATCH = '87', // 'The token implementation pool address and the pool address provided by the initializing pool do not match'
   STABLE_BORROWING_ENABLED = '88', // 'Stable borrowing is enabled'
-  SILOED_BORROWING_VIOLATION = '89', // user is trying to violate the siloed borrowing rule
-  RESERVE_DEBT_NOT_ZERO = '90', // the total debt of the reserve needs to be 0
-  FLASHLOAN_DISABLED = '91', // FlashLoaning for this asset is disabled
+  SILOED_BORROWING_VIOLATION = '89', // 'User is trying to borrow multiple assets including a siloed one'
+  RESERVE_DEBT_NOT_ZERO = '90', // 'The total debt of the reserve needs to be 0'
+  FLASHLOAN_DISABLED = '91', // 'FlashLoaning for this asset is disabled'
+  FORCED_LIQUIDATION_CALLER_NOT_AUTHORIZED = '128', // 'Caller not authorized for forced liquidation'
+  // END GENERATED: ProtocolErrors
+
   // SafeCast
   SAFECAST_UINT128_OVERFLOW = "SafeCast: value doesn't fit in 128 bits",
 
@@ -177,6 +181,113 @@ export enum ProtocolErrors {
   INVALID_HF = 'Invalid health factor',
 }
 
+/*
+ * Descriptions of the protocol error codes
+ */
+export const ProtocolErrorDescriptions: { [name in keyof typeof ProtocolErrors]?: string } = {
+  // BEGIN GENERATED: ProtocolErrorDescriptions
+  CALLER_NOT_POOL_ADMIN: 'The caller of the function is not a pool admin',
+  CALLER_NOT_EMERGENCY_ADMIN: 'The caller of the function is not an emergency admin',
+  CALLER_NOT_POOL_OR_EMERGENCY_ADMIN: 'The caller of the function is not a pool or emergency admin',
+  CALLER_NOT_RISK_OR_POOL_ADMIN: 'The caller of the function is not a risk or pool admin',
+  CALLER_NOT_ASSET_LISTING_OR_POOL_ADMIN:
+    'The caller of the function is not an asset listing or pool admin',
+  CALLER_NOT_BRIDGE: 'The caller of the function is not a bridge',
+  ADDRESSES_PROVIDER_NOT_REGISTERED: 'Pool addresses provider is not registered',
+  INVALID_ADDRESSES_PROVIDER_ID: 'Invalid id for the pool addresses provider',
+  NOT_CONTRACT: 'Address is not a contract',
+  CALLER_NOT_POOL_CONFIGURATOR: 'The caller of the function is not the pool configurator',
+  CALLER_NOT_ATOKEN: 'The caller of the function is not an AToken',
+  INVALID_ADDRESSES_PROVIDER: 'The address of the pool addresses provider is invalid',
+  INVALID_FLASHLOAN_EXECUTOR_RETURN: 'Invalid return value of the flashloan executor function',
+  RESERVE_ALREADY_ADDED: 'Reserve has already been added to reserve list',
+  NO_MORE_RESERVES_ALLOWED: 'Maximum amount of reserves in the pool reached',
+  EMODE_CATEGORY_RESERVED: 'Zero eMode category is reserved for volatile heterogeneous assets',
+  INVALID_EMODE_CATEGORY_ASSIGNMENT: 'Invalid eMode category assignment to asset',
+  RESERVE_LIQUIDITY_NOT_ZERO: 'The liquidity of the reserve needs to be 0',
+  FLASHLOAN_PREMIUM_INVALID: 'Invalid flashloan premium',
+  INVALID_RESERVE_PARAMS: 'Invalid risk parameters for the reserve',
+  INVALID_EMODE_CATEGORY_PARAMS: 'Invalid risk parameters for the eMode category',
+  BRIDGE_PROTOCOL_FEE_INVALID: 'Invalid bridge protocol fee',
+  CALLER_MUST_BE_POOL: 'The caller of this function must be a pool',
+  INVALID_MINT_AMOUNT: 'Invalid amount to mint',
+  INVALID_BURN_AMOUNT: 'Invalid amount to burn',
+  INVALID_AMOUNT: 'Amount must be greater than 0',
+  RESERVE_INACTIVE: 'Action requires an active reserve',
+  RESERVE_FROZEN: 'Action cannot be performed because the reserve is frozen',
+  RESERVE_PAUSED: 'Action cannot be performed because the reserve is paused',
+  BORROWING_NOT_ENABLED: 'Borrowing is not enabled',
+  STABLE_BORROWING_NOT_ENABLED: 'Stable borrowing is not enabled',
+  NOT_ENOUGH_AVAILABLE_USER_BALANCE: 'User cannot withdraw more than the available balance',
+  INVALID_INTEREST_RATE_MODE_SELECTED: 'Invalid interest rate mode selected',
+  COLLATERAL_BALANCE_IS_ZERO: 'The collateral balance is 0',
+  HEALTH_FACTOR_LOWER_THAN_LIQUIDATION_THRESHOLD:
+    'Health factor is lesser than the liquidation threshold',
+  COLLATERAL_CANNOT_COVER_NEW_BORROW: 'There is not enough collateral to cover a new borrow',
+  COLLATERAL_SAME_AS_BORROWING_CURRENCY:
+    'Collateral is (mostly) the same currency that is being borrowed',
+  AMOUNT_BIGGER_THAN_MAX_LOAN_SIZE_STABLE:
+    'The requested amount is greater than the max loan size in stable rate mode',
+  NO_DEBT_OF_SELECTED_TYPE:
+    'For repayment of a specific type of debt, the user needs to have debt that type',
+  NO_EXPLICIT_AMOUNT_TO_REPAY_ON_BEHALF:
+    'To repay on behalf of a user an explicit amount to repay is needed',
+  NO_OUTSTANDING_STABLE_DEBT: 'User does not have outstanding stable rate debt on this reserve',
+  NO_OUTSTANDING_VARIABLE_DEBT: 'User does not have outstanding variable rate debt on this reserve',
+  UNDERLYING_BALANCE_ZERO: 'The underlying balance needs to be greater than 0',
+  INTEREST_RATE_REBALANCE_CONDITIONS_NOT_MET: 'Interest rate rebalance conditions were not met',
+  HEALTH_FACTOR_NOT_BELOW_THRESHOLD: 'Health factor is not below the threshold',
+  COLLATERAL_CANNOT_BE_LIQUIDATED: 'The collateral chosen cannot be liquidated',
+  SPECIFIED_CURRENCY_NOT_BORROWED_BY_USER: 'User did not borrow the specified currency',
+  INCONSISTENT_FLASHLOAN_PARAMS: 'Inconsistent flashloan parameters',
+  BORROW_CAP_EXCEEDED: 'Borrow cap is exceeded',
+  SUPPLY_CAP_EXCEEDED: 'Supply cap is exceeded',
+  UNBACKED_MINT_CAP_EXCEEDED: 'Unbacked mint cap is exceeded',
+  DEBT_CEILING_EXCEEDED: 'Debt ceiling is exceeded',
+  UNDERLYING_CLAIMABLE_RIGHTS_NOT_ZERO:
+    'Claimable rights over underlying not zero (aToken supply or accruedToTreasury)',
+  STABLE_DEBT_NOT_ZERO: 'Stable debt supply is not zero',
+  VARIABLE_DEBT_SUPPLY_NOT_ZERO: 'Variable debt supply is not zero',
+  LTV_VALIDATION_FAILED: 'Ltv validation failed',
+  INCONSISTENT_EMODE_CATEGORY: 'Inconsistent eMode category',
+  PRICE_ORACLE_SENTINEL_CHECK_FAILED: 'Price oracle sentinel validation failed',
+  ASSET_NOT_BORROWABLE_IN_ISOLATION: 'Asset is not borrowable in isolation mode',
+  RESERVE_ALREADY_INITIALIZED: 'Reserve has already been initialized',
+  USER_IN_ISOLATION_MODE_OR_LTV_ZERO: 'User is in isolation mode or ltv is zero',
+  INVALID_LTV: 'Invalid ltv parameter for the reserve',
+  INVALID_LIQ_THRESHOLD: 'Invalid liquidity threshold parameter for the reserve',
+  INVALID_LIQ_BONUS: 'Invalid liquidity bonus parameter for the reserve',
+  INVALID_DECIMALS: 'Invalid decimals parameter of the underlying asset of the reserve',
+  INVALID_RESERVE_FACTOR: 'Invalid reserve factor parameter for the reserve',
+  INVALID_BORROW_CAP: 'Invalid borrow cap for the reserve',
+  INVALID_SUPPLY_CAP: 'Invalid supply cap for the reserve',
+  INVALID_LIQUIDATION_PROTOCOL_FEE: 'Invalid liquidation protocol fee for the reserve',
+  INVALID_EMODE_CATEGORY: 'Invalid eMode category for the reserve',
+  INVALID_UNBACKED_MINT_CAP: 'Invalid unbacked mint cap for the reserve',
+  INVALID_DEBT_CEILING: 'Invalid debt ceiling for the reserve',
+  INVALID_RESERVE_INDEX: 'Invalid reserve index',
+  ACL_ADMIN_CANNOT_BE_ZERO: 'ACL admin cannot be set to the zero address',
+  INCONSISTENT_PARAMS_LENGTH: 'Array parameters that should be equal length are not',
+  ZERO_ADDRESS_NOT_VALID: 'Zero address not valid',
+  INVALID_EXPIRATION: 'Invalid expiration',
+  INVALID_SIGNATURE: 'Invalid signature',
+  OPERATION_NOT_SUPPORTED: 'Operation not supported',
+  DEBT_CEILING_NOT_ZERO: 'Debt ceiling is not zero',
+  ASSET_NOT_LISTED: 'Asset is not listed',
+  INVALID_OPTIMAL_USAGE_RATIO: 'Invalid optimal usage ratio',
+  INVALID_OPTIMAL_STABLE_TO_TOTAL_DEBT_RATIO: 'Invalid optimal stable to total debt ratio',
+  UNDERLYING_CANNOT_BE_RESCUED: 'The underlying asset cannot be rescued',
+  ADDRESSES_PROVIDER_ALREADY_ADDED: 'Reserve has already been added to reserve list',
+  POOL_ADDRESSES_DO_NOT_MATCH:
+    'The token implementation pool address and the pool address provided by the initializing pool do not match',
+  STABLE_BORROWING_ENABLED: 'Stable borrowing is enabled',
+  SILOED_BORROWING_VIOLATION: 'User is trying to borrow multiple assets including a siloed one',
+  RESERVE_DEBT_NOT_ZERO: 'The total debt of the reserve needs to be 0',
+  FLASHLOAN_DISABLED: 'FlashLoaning for this asset is disabled',
+  FORCED_LIQUIDATION_CALLER_NOT_AUTHORIZED: 'Caller not authorized for forced liquidation',
+  // END GENERATED: ProtocolErrorDescriptions
+};
+
 export type tEthereumAddress = string;
 export type tStringTokenBigUnits = string; // 1 ETH, or 10e6 USDC or 10e18 DAI
 export type tBigNumberTokenBigUnits = BigNumber;
@@ -310,6 +421,13 @@ export interface IReserveParams extends IReserveBorrowParams, IReserveCollateral
   reserveFactor: string;
   supplyCap: string;
   strategy: IInterestRateStrategyParams;
+  liquidationProtocolFee?: string;
+  debtCeiling?: string;
+  unbackedMintCap?: string;
+  eModeCategory?: string;
+  siloedBorrowing?: boolean;
+  flashLoanEnabled?: boolean;
+  forcedLiquidationEnabled?: boolean;
 }
 
 export interface IInterestRateStrategyParams {
@@ -0,0 +1,161 @@
+import { BigNumber, BigNumberish } from 'ethers';
+import { ZERO_ADDRESS } from './constants';
+import { decodeReserveConfiguration } from './reserve-configuration';
+import { tEthereumAddress } from './types';
+import { Pool } from '../types';
+
+// ----------------
+// MASKS, mirrors contracts/protocol/libraries/configuration/UserConfiguration.sol
+// ----------------
+
+export const USER_BORROWING_MASK =
+  '0x5555555555555555555555555555555555555555555555555555555555555555';
+export const USER_COLLATERAL_MASK =
+  '0xAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA';
+export const MAX_RESERVES_COUNT = 128;
+
+export interface UserReserveFlags {
+  reserveId: number;
+  asset: tEthereumAddress;
+  isBorrowing: boolean;
+  isUsingAsCollateral: boolean;
+}
+
+export interface UserConfigurationData {
+  data: BigNumber;
+  reserves: UserReserveFlags[];
+  borrowedAssets: tEthereumAddress[];
+  collateralAssets: tEthereumAddress[];
+  isEmpty: boolean;
+  isBorrowingAny: boolean;
+  isBorrowingOne: boolean;
+  isUsingAsCollateralAny: boolean;
+  isUsingAsCollateralOne: boolean;
+}
+
+export interface UserConfigurationState extends UserConfigurationData {
+  isolationMode: {
+    isInIsolationMode: boolean;
+    isolatedAsset: tEthereumAddress;
+    debtCeiling: BigNumber;
+  };
+  siloedBorrowing: {
+    isSiloed: boolean;
+    siloedAsset: tEthereumAddress;
+  };
+}
+
+// Power of two check, same trick as `UserConfiguration.isUsingAsCollateralOne()`
+const hasOneBitSet = (value: BigNumber) => !value.isZero() && value.and(value.sub(1)).isZero();
+
+export const isBorrowing = (data: BigNumberish, reserveId: number) =>
+  !BigNumber.from(data)
+    .shr(reserveId * 2)
+    .and(1)
+    .isZero();
+
+export const isUsingAsCollateral = (data: BigNumberish, reserveId: number) =>
+  !BigNumber.from(data)
+    .shr(reserveId * 2 + 1)
+    .and(1)
+    .isZero();
+
+/**
+ * Decodes the packed `UserConfigurationMap.data` of a user
+ * @param data The raw bitmap, as returned by `pool.getUserConfiguration(user).data`
+ * @param reserveAddressById The reserve addresses indexed by reserve id. The id of a reserve is its
+ * position in the bitmap, as returned by `pool.getReserveAddressById(id)`. It matches the position in
+ * `pool.getReservesList()` only while no reserve has been dropped.
+ */
+export const decodeUserConfiguration = (
+  data: BigNumberish,
+  reserveAddressById: tEthereumAddress[]
+): UserConfigurationData => {
+  const dataBN = BigNumber.from(data);
+  const borrowingData = dataBN.and(USER_BORROWING_MASK);
+  const collateralData = dataBN.and(USER_COLLATERAL_MASK);
+
+  const reserves: UserReserveFlags[] = [];
+  for (let reserveId = 0; reserveId < MAX_RESERVES_COUNT; reserveId++) {
+    if (dataBN.shr(reserveId * 2).isZero()) break;
+
+    const flags = {
+      reserveId,
+      asset: reserveAddressById[reserveId] || ZERO_ADDRESS,
+      isBorrowing: isBorrowing(dataBN, reserveId),
+      isUsingAsCollateral: isUsingAsCollateral(dataBN, reserveId),
+    };
+    if (flags.isBorrowing || flags.isUsingAsCollateral) {
+      reserves.push(flags);
+    }
+  }
+
+  return {
+    data: dataBN,
+    reserves,
+    borrowedAssets: reserves.filter((x) => x.isBorrowing).map((x) => x.asset),
+    collateralAssets: reserves.filter((x) => x.isUsingAsCollateral).map((x) => x.asset),
+    isEmpty: dataBN.isZero(),
+    isBorrowingAny: !borrowingData.isZero(),
+    isBorrowingOne: hasOneBitSet(borrowingData),
+    isUsingAsCollateralAny: !collateralData.isZero(),
+    isUsingAsCollateralOne: hasOneBitSet(collateralData),
+  };
+};
+
+/**
+ * Reads and decodes the configuration of a user, including the isolation mode and siloed borrowing
+ * states derived the same way as `UserConfiguration.getIsolationModeState()` and
+ * `UserConfiguration.getSiloedBorrowingState()`
+ * @param pool The Pool
+ * @param user The address of the user
+ */
+export const getUserConfigurationState = async (
+  pool: Pool,
+  user: tEthereumAddress
+): Promise<UserConfigurationState> => {
+  const { data } = await pool.getUserConfiguration(user);
+  const dataBN = BigNumber.from(data);
+
+  // Only the ids flagged in the bitmap need to be resolved
+  const reserveAddressById: tEthereumAddress[] = [];
+  for (let reserveId = 0; reserveId < MAX_RESERVES_COUNT; reserveId++) {
+    if (dataBN.shr(reserveId * 2).isZero()) break;
+    if (isBorrowing(dataBN, reserveId) || isUsingAsCollateral(dataBN, reserveId)) {
+      reserveAddressById[reserveId] = await pool.getReserveAddressById(reserveId);
+    }
+  }
+
+  const decoded = decodeUserConfiguration(dataBN, reserveAddressById);
+
+  const isolationMode = {
+    isInIsolationMode: false,
+    isolatedAsset: ZERO_ADDRESS,
+    debtCeiling: BigNumber.from(0),
+  };
+  if (decoded.isUsingAsCollateralOne) {
+    const [collateralAsset] = decoded.collateralAssets;
+    const { debtCeiling } = decodeReserveConfiguration(
+      (await pool.getConfiguration(collateralAsset)).data
+    );
+    if (!debtCeiling.isZero()) {
+      isolationMode.isInIsolationMode = true;
+      isolationMode.isolatedAsset = collateralAsset;
+      isolationMode.debtCeiling = debtCeiling;
+    }
+  }
+
+  const siloedBorrowing = { isSiloed: false, siloedAsset: ZERO_ADDRESS };
+  if (decoded.isBorrowingOne) {
+    const [borrowedAsset] = decoded.borrowedAssets;
+    const { siloedBorrowing: isSiloed } = decodeReserveConfiguration(
+      (await pool.getConfiguration(borrowedAsset)).data
+    );
+    if (isSiloed) {
+      siloedBorrowing.isSiloed = true;
+      siloedBorrowing.siloedAsset = borrowedAsset;
+    }
+  }
+
+  return { ...decoded, isolationMode, siloedBorrowing };
+};
@@ -0,0 +1,178 @@
+import fs from 'fs';
+import path from 'path';
+import prettier from 'prettier';
+
+/**
+ * Generates the numeric members of `ProtocolErrors` and their descriptions in `helpers/types.ts`
+ * from the constants of the Errors library.
+ *
+ * Usage:
+ *   npm run errors:generate   Rewrites the generated sections of helpers/types.ts
+ *   npm run errors:check      Fails if helpers/types.ts diverges from Errors.sol
+ */
+
+export const ERRORS_LIBRARY_PATH = 'contracts/protocol/libraries/helpers/Errors.sol';
+export const PROTOCOL_ERRORS_PATH = 'helpers/types.ts';
+
+export const GENERATED_SECTIONS = ['ProtocolErrors', 'ProtocolErrorDescriptions'] as const;
+type GeneratedSection = (typeof GENERATED_SECTIONS)[number];
+
+export interface ErrorDefinition {
+  name: string;
+  code: string;
+  description: string;
+}
+
+const ERROR_CONSTANT = /^\s*string public constant (\w+) = '([^']*)';\s*(?:\/\/\s*(.*))?$/;
+const GENERATED_ENUM_MEMBER = /^\s*(\w+) = '([^']*)',(?:\s*\/\/\s*(.*))?$/;
+
+const beginMarker = (section: GeneratedSection) => `// BEGIN GENERATED: ${section}`;
+const endMarker = (section: GeneratedSection) => `// END GENERATED: ${section}`;
+
+const normalizeDescription = (comment = '') => {
+  const description = comment.trim().replace(/^'/, '').replace(/'$/, '').trim();
+  return description.charAt(0).toUpperCase() + description.slice(1);
+};
+
+const quote = (value: string) => `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+
+/**
+ * Parses the error constants of the Errors library, with the trailing comment of each one as description
+ * @param source The source code of Errors.sol
+ */
+export const parseErrorsLibrary = (source: string): ErrorDefinition[] =>
+  source.split('\n').reduce<ErrorDefinition[]>((definitions, line) => {
+    const match = line.match(ERROR_CONSTANT);
+    if (match) {
+      definitions.push({
+        name: match[1],
+        code: match[2],
+        description: normalizeDescription(match[3]),
+      });
+    }
+    return definitions;
+  }, []);
+
+const renderSection = (section: GeneratedSection, definitions: ErrorDefinition[]) =>
+  definitions.map(({ name, code, description }) =>
+    section === 'ProtocolErrors'
+      ? `  ${name} = ${quote(code)}, // ${quote(description)}`
+      : `  ${name}: ${quote(description)},`
+  );
+
+const getSectionBounds = (lines: string[], section: GeneratedSection) => {
+  const begin = lines.findIndex((line) => line.trim() === beginMarker(section));
+  const end = lines.findIndex((line) => line.trim() === endMarker(section));
+  if (begin === -1 || end === -1 || end < begin) {
+    throw new Error(`Missing generated section ${section} in ${PROTOCOL_ERRORS_PATH}`);
+  }
+  return { begin, end };
+};
+
+/**
+ * Replaces the generated sections of `helpers/types.ts` with the given error definitions
+ * @param typesSource The current source code of helpers/types.ts
+ * @param definitions The error definitions parsed from Errors.sol
+ */
+export const renderProtocolErrors = (typesSource: string, definitions: ErrorDefinition[]) => {
+  let lines = typesSource.split('\n');
+  for (const section of GENERATED_SECTIONS) {
+    const { begin, end } = getSectionBounds(lines, section);
+    lines = [
+      ...lines.slice(0, begin + 1),
+      ...renderSection(section, definitions),
+      ...lines.slice(end),
+    ];
+  }
+  return lines.join('\n');
+};
+
+/**
+ * Parses the error definitions currently in the generated `ProtocolErrors` section of `helpers/types.ts`
+ * @param typesSource The source code of helpers/types.ts
+ */
+export const parseGeneratedProtocolErrors = (typesSource: string): ErrorDefinition[] => {
+  const lines = typesSource.split('\n');
+  const { begin, end } = getSectionBounds(lines, 'ProtocolErrors');
+
+  return lines.slice(begin + 1, end).reduce<ErrorDefinition[]>((definitions, line) => {
+    const match = line.match(GENERATED_ENUM_MEMBER);
+    if (match) {
+      definitions.push({
+        name: match[1],
+        code: match[2],
+        description: normalizeDescription(match[3]?.replace(/\\'/g, "'")),
+      });
+    }
+    return definitions;
+  }, []);
+};
+
+/**
+ * Compares the error definitions of Errors.sol with the ones of the TypeScript enum
+ * @returns The list of differences, empty if both are in sync
+ */
+export const diffProtocolErrors = (expected: ErrorDefinition[], actual: ErrorDefinition[]) => {
+  const differences: string[] = [];
+  const actualByName = new Map(actual.map((definition) => [definition.name, definition]));
+  const expectedNames = new Set(expected.map(({ name }) => name));
+
+  for (const { name, code, description } of expected) {
+    const definition = actualByName.get(name);
+    if (!definition) {
+      differences.push(`${name} ('${code}') is missing from ProtocolErrors`);
+    } else if (definition.code !== code) {
+      differences.push(
+        `${name} is '${definition.code}' in ProtocolErrors, but '${code}' in Errors.sol`
+      );
+    } else if (definition.description !== description) {
+      differences.push(`${name} description differs from Errors.sol: '${description}'`);
+    }
+  }
+  for (const { name, code } of actual) {
+    if (!expectedNames.has(name)) {
+      differences.push(`${name} ('${code}') is not defined in Errors.sol`);
+    }
+  }
+
+  return differences;
+};
+
+const formatTypes = async (source: string, filePath: string) =>
+  prettier.format(source, {
+    ...(await prettier.resolveConfig(filePath)),
+    filepath: filePath,
+  });
+
+const main = async () => {
+  const root = path.join(__dirname, '..');
+  const typesPath = path.join(root, PROTOCOL_ERRORS_PATH);
+  const definitions = parseErrorsLibrary(
+    fs.readFileSync(path.join(root, ERRORS_LIBRARY_PATH), 'utf8')
+  );
+  const typesSource = fs.readFileSync(typesPath, 'utf8');
+  const generated = await formatTypes(renderProtocolErrors(typesSource, definitions), typesPath);
+
+  if (process.argv.includes('--check')) {
+    const differences = diffProtocolErrors(definitions, parseGeneratedProtocolErrors(typesSource));
+    if (differences.length || generated !== typesSource) {
+      differences.forEach((difference) => console.error(`- ${difference}`));
+      console.error(
+        `${PROTOCOL_ERRORS_PATH} is out of sync with ${ERRORS_LIBRARY_PATH}, run \`npm run errors:generate\``
+      );
+      process.exit(1);
+    }
+    console.log(`${PROTOCOL_ERRORS_PATH} is in sync with ${ERRORS_LIBRARY_PATH}`);
+    return;
+  }
+
+  fs.writeFileSync(typesPath, generated);
+  console.log(`Generated ${definitions.length} errors in ${PROTOCOL_ERRORS_PATH}`);
+};
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,37 @@
+import fs from 'fs';
+import { getAaveProtocolDataProvider, loadPoolConfig } from '@aave/deploy-v3';
+import { MARKET_NAME } from '@aave/deploy-v3/dist/helpers/env';
+import { formatMarketDrift, getMarketDrift, marketDriftToJSON } from '../helpers/market-drift';
+import { AaveProtocolDataProvider__factory } from '../types';
+
+/**
+ * Compares the reserves of a deployed market with its market config and prints the drift summary.
+ *
+ * Usage:
+ *   MARKET_NAME=<market> npm run market:drift -- --network <network>
+ *
+ * Set `MARKET_DRIFT_JSON=<file>` to also write the report with its jsondiffpatch delta. Exits with 1
+ * if the deployed market drifted from the config.
+ */
+
+const main = async () => {
+  const { ReservesConfig } = loadPoolConfig(MARKET_NAME);
+  const { address, signer } = await getAaveProtocolDataProvider();
+  const dataProvider = AaveProtocolDataProvider__factory.connect(address, signer);
+
+  // The reserves of the config are matched to the listed tokens by symbol
+  const report = await getMarketDrift(dataProvider, ReservesConfig);
+
+  console.log(formatMarketDrift(report));
+  if (process.env.MARKET_DRIFT_JSON) {
+    fs.writeFileSync(process.env.MARKET_DRIFT_JSON, `${marketDriftToJSON(report)}\n`);
+  }
+  if (report.drifts.length || report.missingReserves.length || report.unknownReserves.length) {
+    process.exitCode = 1;
+  }
+};
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,333 @@
+import fs from 'fs';
+import path from 'path';
+import { BigNumber } from 'ethers';
+
+/**
+ * Checks that the storage layouts of the upgradeable contracts stay compatible with a baseline,
+ * reading them from the Hardhat build info (run `npm run compile` first).
+ *
+ * Usage:
+ *   npm run storage:save    Saves the layouts of the current build as the baseline
+ *   npm run storage:check   Fails if the current build is incompatible with the baseline
+ */
+
+export const STORAGE_LAYOUT_BASELINE_PATH = 'storage-layout.json';
+export const ARTIFACTS_PATH = 'artifacts';
+
+export const UPGRADEABLE_CONTRACTS = [
+  'contracts/protocol/pool/Pool.sol:Pool',
+  'contracts/protocol/pool/PoolConfigurator.sol:PoolConfigurator',
+  'contracts/protocol/tokenization/AToken.sol:AToken',
+  'contracts/protocol/tokenization/VariableDebtToken.sol:VariableDebtToken',
+  'contracts/protocol/tokenization/StableDebtToken.sol:StableDebtToken',
+];
+
+// ----------------
+// Solidity compiler output, see https://docs.soliditylang.org/en/v0.8.10/internals/layout_in_storage.html
+// ----------------
+
+interface SolcStorageItem {
+  contract: string;
+  label: string;
+  offset: number;
+  slot: string;
+  type: string;
+}
+
+interface SolcStorageType {
+  encoding: 'inplace' | 'mapping' | 'dynamic_array' | 'bytes';
+  label: string;
+  numberOfBytes: string;
+  base?: string;
+  key?: string;
+  value?: string;
+  members?: SolcStorageItem[];
+}
+
+export interface SolcStorageLayout {
+  storage: SolcStorageItem[];
+  types: { [typeId: string]: SolcStorageType } | null;
+}
+
+/**
+ * A storage variable, with its type fully expanded so it does not depend on AST ids
+ */
+export interface StorageVariable {
+  contract: string;
+  label: string;
+  slot: string;
+  offset: number;
+  numberOfBytes: string;
+  type: string;
+}
+
+export interface StorageLayouts {
+  [contract: string]: StorageVariable[];
+}
+
+export type StorageLayoutChangeKind = 'deleted' | 'reordered' | 'retyped' | 'renamed' | 'inserted';
+
+export interface StorageLayoutChange {
+  contract: string;
+  kind: StorageLayoutChangeKind;
+  label: string;
+  slot: string;
+  offset: number;
+  /** Renames keep the layout, so they are warnings. The rest are incompatible */
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+const describeType = (typeId: string, types: NonNullable<SolcStorageLayout['types']>): string => {
+  const type = types[typeId];
+  if (!type) {
+    return typeId;
+  }
+  if (type.encoding === 'mapping') {
+    return `mapping(${describeType(type.key!, types)} => ${describeType(type.value!, types)})`;
+  }
+  if (type.members) {
+    const members = type.members.map(
+      (member) => `${describeType(member.type, types)} ${member.label}`
+    );
+    return `${type.label} { ${members.join('; ')} }`;
+  }
+  if (type.base) {
+    // Keeps the length of static arrays, e.g. `[10]`, from the label
+    const length = type.label.match(/\[\d*\]$/)?.[0] || '[]';
+    return `${describeType(type.base, types)}${length}`;
+  }
+  return type.label;
+};
+
+/**
+ * Normalizes the storage layout of the compiler output
+ * @param layout The `storageLayout` output of a contract
+ */
+export const normalizeStorageLayout = (layout: SolcStorageLayout): StorageVariable[] =>
+  layout.storage.map(({ contract, label, slot, offset, type }) => ({
+    contract: contract.split(':').pop()!,
+    label,
+    slot,
+    offset,
+    numberOfBytes: layout.types?.[type]?.numberOfBytes || '0',
+    type: describeType(type, layout.types || {}),
+  }));
+
+/**
+ * Reads the storage layout of a contract from the Hardhat build info
+ * @param fullyQualifiedName The fully qualified name of the contract, `<source>:<name>`
+ * @param artifactsPath The artifacts folder
+ */
+export const readStorageLayout = (
+  fullyQualifiedName: string,
+  artifactsPath = ARTIFACTS_PATH
+): StorageVariable[] => {
+  const [source, name] = fullyQualifiedName.split(':');
+  const debugPath = path.join(artifactsPath, source, `${name}.dbg.json`);
+  if (!fs.existsSync(debugPath)) {
+    throw new Error(`Missing artifact of ${fullyQualifiedName}, run \`npm run compile\``);
+  }
+  const { buildInfo } = JSON.parse(fs.readFileSync(debugPath, 'utf8'));
+  const { output } = JSON.parse(
+    fs.readFileSync(path.resolve(path.dirname(debugPath), buildInfo), 'utf8')
+  );
+
+  const layout: SolcStorageLayout | undefined = output.contracts[source]?.[name]?.storageLayout;
+  if (!layout) {
+    throw new Error(
+      `Missing storage layout of ${fullyQualifiedName} in the build info, check the \`outputSelection\` of the compiler settings`
+    );
+  }
+  return normalizeStorageLayout(layout);
+};
+
+/**
+ * Reads the storage layouts of the upgradeable contracts, keyed by contract name
+ */
+export const readStorageLayouts = (
+  contracts = UPGRADEABLE_CONTRACTS,
+  artifactsPath = ARTIFACTS_PATH
+): StorageLayouts =>
+  contracts.reduce<StorageLayouts>(
+    (layouts, fullyQualifiedName) => ({
+      ...layouts,
+      [fullyQualifiedName.split(':')[1]]: readStorageLayout(fullyQualifiedName, artifactsPath),
+    }),
+    {}
+  );
+
+// Structs can grow at the end: members keep their slots, and if the struct is stored inline the
+// variables after it are reported as moved
+const isCompatibleType = (baseline: string, current: string): boolean => {
+  if (baseline === current) {
+    return true;
+  }
+  const mapping = /^mapping\(([^=]+) => (.*)\)$/;
+  const baselineMapping = baseline.match(mapping);
+  const currentMapping = current.match(mapping);
+  if (baselineMapping && currentMapping) {
+    return (
+      baselineMapping[1] === currentMapping[1] &&
+      isCompatibleType(baselineMapping[2], currentMapping[2])
+    );
+  }
+  const struct = /^(struct [\w.]+) \{ (.*) \}$/;
+  const baselineStruct = baseline.match(struct);
+  const currentStruct = current.match(struct);
+  return (
+    !!baselineStruct &&
+    !!currentStruct &&
+    baselineStruct[1] === currentStruct[1] &&
+    currentStruct[2].startsWith(`${baselineStruct[2]};`)
+  );
+};
+
+const positionOf = ({ slot, offset }: StorageVariable) => `${slot}:${offset}`;
+
+const isBefore = (a: StorageVariable, b: StorageVariable) =>
+  BigNumber.from(a.slot).lt(b.slot) || (a.slot === b.slot && a.offset < b.offset);
+
+/**
+ * Compares the storage layout of a contract with its baseline. Variables can only be appended:
+ * deleting, reordering, retyping or inserting variables before existing ones shifts the storage
+ * @param contract The name of the contract
+ * @param baseline The layout of the deployed version
+ * @param current The layout of the current build
+ */
+export const compareStorageLayouts = (
+  contract: string,
+  baseline: StorageVariable[],
+  current: StorageVariable[]
+): StorageLayoutChange[] => {
+  const changes: StorageLayoutChange[] = [];
+  const change = (
+    kind: StorageLayoutChangeKind,
+    { label, slot, offset }: StorageVariable,
+    message: string
+  ) =>
+    changes.push({
+      contract,
+      kind,
+      label,
+      slot,
+      offset,
+      severity: kind === 'renamed' ? 'warning' : 'error',
+      message,
+    });
+
+  const currentByPosition = new Map(current.map((variable) => [positionOf(variable), variable]));
+  // Positions still taken by their baseline variable, possibly renamed or retyped
+  const keptPositions = new Set<string>();
+  const currentLabels = new Set(current.map(({ label }) => label));
+
+  for (const variable of baseline) {
+    const name = `${variable.contract}.${variable.label}`;
+    const atPosition = currentByPosition.get(positionOf(variable));
+    const moved = current.find(
+      ({ label, contract: owner }) => label === variable.label && owner === variable.contract
+    );
+
+    if (!moved || positionOf(moved) === positionOf(variable)) {
+      keptPositions.add(positionOf(variable));
+    }
+
+    if (moved && positionOf(moved) !== positionOf(variable)) {
+      change(
+        'reordered',
+        variable,
+        `${name} moved from slot ${variable.slot} offset ${variable.offset} to slot ${moved.slot} offset ${moved.offset}`
+      );
+    } else if (!atPosition) {
+      change('deleted', variable, `${name} at slot ${variable.slot} was deleted`);
+    } else if (!isCompatibleType(variable.type, atPosition.type)) {
+      change(
+        'retyped',
+        variable,
+        `${name} at slot ${variable.slot} changed type from ${variable.type} to ${atPosition.type}`
+      );
+    } else if (atPosition.label !== variable.label && !currentLabels.has(variable.label)) {
+      change(
+        'renamed',
+        variable,
+        `${name} at slot ${variable.slot} was renamed to ${atPosition.label}`
+      );
+    }
+  }
+
+  const lastBaselineVariable = baseline[baseline.length - 1];
+  for (const variable of current) {
+    const isNew = !baseline.some(
+      ({ label, contract: owner }) => label === variable.label && owner === variable.contract
+    );
+    if (
+      isNew &&
+      lastBaselineVariable &&
+      !keptPositions.has(positionOf(variable)) &&
+      !isBefore(lastBaselineVariable, variable)
+    ) {
+      change(
+        'inserted',
+        variable,
+        `${variable.contract}.${variable.label} was inserted at slot ${variable.slot}, before existing variables`
+      );
+    }
+  }
+
+  return changes;
+};
+
+/**
+ * Compares the storage layouts of every contract of the baseline with the current ones
+ * @returns The changes, the layouts are compatible if none of them is an error
+ */
+export const checkStorageLayouts = (baseline: StorageLayouts, current: StorageLayouts) =>
+  Object.keys(baseline).flatMap((contract) =>
+    current[contract]
+      ? compareStorageLayouts(contract, baseline[contract], current[contract])
+      : [
+          {
+            contract,
+            kind: 'deleted' as const,
+            label: contract,
+            slot: '0',
+            offset: 0,
+            severity: 'error' as const,
+            message: `${contract} is missing from the current build`,
+          },
+        ]
+  );
+
+const main = () => {
+  const root = path.join(__dirname, '..');
+  const baselinePath = path.join(root, STORAGE_LAYOUT_BASELINE_PATH);
+  const current = readStorageLayouts(UPGRADEABLE_CONTRACTS, path.join(root, ARTIFACTS_PATH));
+
+  if (process.argv.includes('--save')) {
+    fs.writeFileSync(baselinePath, `${JSON.stringify(current, null, 2)}\n`);
+    console.log(
+      `Saved the storage layouts of the current build in ${STORAGE_LAYOUT_BASELINE_PATH}`
+    );
+    return;
+  }
+
+  if (!fs.existsSync(baselinePath)) {
+    throw new Error(`Missing ${STORAGE_LAYOUT_BASELINE_PATH}, run \`npm run storage:save\``);
+  }
+  const changes = checkStorageLayouts(JSON.parse(fs.readFileSync(baselinePath, 'utf8')), current);
+  changes.forEach(({ severity, message }) => console.error(`- ${severity}: ${message}`));
+  if (changes.some(({ severity }) => severity === 'error')) {
+    console.error(`Storage layouts are incompatible with ${STORAGE_LAYOUT_BASELINE_PATH}`);
+    process.exit(1);
+  }
+  console.log(`Storage layouts are compatible with ${STORAGE_LAYOUT_BASELINE_PATH}`);
+};
+
+if (require.main === module) {
+  try {
+    main();
+  } catch (error) {
+    console.error(error);
+    process.exit(1);
+  }
+}
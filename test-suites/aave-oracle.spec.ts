@@ -84,7 +84,7 @@ makeSuite('AaveOracle', (testEnv: TestEnv) => {
 
     await expect(
       aaveOracle.connect(poolAdmin.signer).setAssetSources([mockToken.address], [])
-    ).to.be.revertedWith(ProtocolErrors.INCONSISTENT_PARAMS_LENGTH);
+    ).to.be.revertedWithProtocolError(ProtocolErrors.INCONSISTENT_PARAMS_LENGTH);
   });
 
   it('Get price of BASE_CURRENCY asset', async () => {
@@ -104,7 +104,7 @@ makeSuite('AaveOracle', (testEnv: TestEnv) => {
 
     await expect(
       aaveOracle.connect(user.signer).setAssetSources([mockToken.address], [mockAggregator.address])
-    ).to.be.revertedWith(CALLER_NOT_ASSET_LISTING_OR_POOL_ADMIN);
+    ).to.be.revertedWithProtocolError(CALLER_NOT_ASSET_LISTING_OR_POOL_ADMIN);
   });
 
   it('Get price of BASE_CURRENCY asset with registered asset source for its address', async () => {
@@ -0,0 +1,121 @@
+import { expect } from 'chai';
+import { utils } from 'ethers';
+import { advanceTimeAndBlock, evmRevert, evmSnapshot, waitForTx } from '@aave/deploy-v3';
+import { calculateUserAccountData, getAccountDataParams } from '../helpers/account-data';
+import { configuration as actionsConfiguration, mintAndSupply } from './helpers/actions';
+import { RateMode } from '../helpers/types';
+import { makeSuite, TestEnv } from './helpers/make-suite';
+import { Action, executeStory } from './helpers/scenario-engine';
+import { loadScenarios } from './helpers/scenario-schema';
+
+const scenarioFolder = './test-suites/helpers/scenarios/';
+
+const expectAccountDataMatchesPool = async (testEnv: TestEnv, address: string, message: string) => {
+  const { pool } = testEnv;
+
+  const expected = calculateUserAccountData(await getAccountDataParams(pool, address));
+  const accountData = await pool.getUserAccountData(address);
+
+  expect(expected.totalCollateralBase).to.be.eq(accountData.totalCollateralBase, message);
+  expect(expected.totalDebtBase).to.be.eq(accountData.totalDebtBase, message);
+  expect(expected.availableBorrowsBase).to.be.eq(accountData.availableBorrowsBase, message);
+  expect(expected.currentLiquidationThreshold).to.be.eq(
+    accountData.currentLiquidationThreshold,
+    message
+  );
+  expect(expected.ltv).to.be.eq(accountData.ltv, message);
+  expect(expected.healthFactor).to.be.eq(accountData.healthFactor, message);
+};
+
+const checkActionUsers = async (action: Action, testEnv: TestEnv) => {
+  const { user, onBehalfOf, toUser, liquidator } = action.args;
+  const userIndexes = [user, onBehalfOf, toUser, liquidator].filter(
+    (x) => x !== undefined && x !== ''
+  );
+
+  for (const userIndex of new Set<string>(userIndexes)) {
+    await expectAccountDataMatchesPool(
+      testEnv,
+      testEnv.users[parseInt(userIndex)].address,
+      `Account data of user ${userIndex} after ${action.name}`
+    );
+  }
+};
+
+loadScenarios(scenarioFolder).forEach(({ scenario }) => {
+  makeSuite(`Off-chain account data: ${scenario.title}`, async (testEnv) => {
+    before('Initializing configuration', async () => {
+      actionsConfiguration.skipIntegrityCheck = false;
+    });
+
+    for (const story of scenario.stories) {
+      it(story.description, async function () {
+        await executeStory(story, testEnv, checkActionUsers);
+      });
+    }
+  });
+});
+
+makeSuite('Off-chain account data: eMode and zero LTV collateral', (testEnv: TestEnv) => {
+  let snap: string;
+
+  beforeEach(async () => {
+    snap = await evmSnapshot();
+  });
+  afterEach(async () => {
+    await evmRevert(snap);
+  });
+
+  it('Matches the Pool for a user in an eMode category with a custom price source', async () => {
+    const { configurator, addressesProvider, pool, oracle, dai, usdc, weth, users } = testEnv;
+
+    await waitForTx(
+      await configurator.setEModeCategory(1, '9700', '9800', '10100', weth.address, 'STABLECOINS')
+    );
+    await waitForTx(await configurator.setAssetEModeCategory(dai.address, 1));
+    await waitForTx(await configurator.setAssetEModeCategory(usdc.address, 1));
+
+    await mintAndSupply(testEnv, 0, 'usdc', '10000');
+    await mintAndSupply(testEnv, 1, 'dai', '10000');
+    await mintAndSupply(testEnv, 1, 'weth', '1');
+    await waitForTx(await pool.connect(users[1].signer).setUserEMode(1));
+    await expectAccountDataMatchesPool(testEnv, users[1].address, 'After setUserEMode');
+
+    await waitForTx(
+      await pool
+        .connect(users[1].signer)
+        .borrow(usdc.address, utils.parseUnits('5000', 6), RateMode.Variable, '0', users[1].address)
+    );
+    await expectAccountDataMatchesPool(testEnv, users[1].address, 'After borrow');
+
+    await advanceTimeAndBlock(60 * 60 * 24 * 365);
+    await expectAccountDataMatchesPool(testEnv, users[1].address, 'After one year');
+
+    await waitForTx(await addressesProvider.setPriceOracle(oracle.address));
+    const wethPrice = await oracle.getAssetPrice(weth.address);
+    await waitForTx(await oracle.setAssetPrice(weth.address, wethPrice.mul(2)));
+    await expectAccountDataMatchesPool(testEnv, users[1].address, 'After price change');
+  });
+
+  it('Matches the Pool for a user with a zero LTV collateral', async () => {
+    const { configurator, pool, dai, weth, users } = testEnv;
+
+    await mintAndSupply(testEnv, 0, 'dai', '10000');
+    await mintAndSupply(testEnv, 1, 'weth', '10');
+    await mintAndSupply(testEnv, 1, 'usdc', '1000');
+    await waitForTx(
+      await pool
+        .connect(users[1].signer)
+        .borrow(dai.address, utils.parseEther('100'), RateMode.Stable, '0', users[1].address)
+    );
+
+    await waitForTx(await configurator.configureReserveAsCollateral(weth.address, 0, 8500, 10500));
+
+    const params = await getAccountDataParams(pool, users[1].address);
+    expect(calculateUserAccountData(params).hasZeroLtvCollateral).to.be.eq(true);
+    await expectAccountDataMatchesPool(testEnv, users[1].address, 'After setting LTV to 0');
+
+    await advanceTimeAndBlock(60 * 60 * 24 * 30);
+    await expectAccountDataMatchesPool(testEnv, users[1].address, 'After 30 days');
+  });
+});
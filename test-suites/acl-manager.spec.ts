@@ -267,6 +267,6 @@ makeSuite('Access Control List Manager', (testEnv: TestEnv) => {
 
     expect(await addressesProvider.setACLAdmin(ZERO_ADDRESS));
     const deployTx = new ACLManager__factory(deployer.signer).deploy(addressesProvider.address);
-    await expect(deployTx).to.be.revertedWith(ProtocolErrors.ACL_ADMIN_CANNOT_BE_ZERO);
+    await expect(deployTx).to.be.revertedWithProtocolError(ProtocolErrors.ACL_ADMIN_CANNOT_BE_ZERO);
   });
 });
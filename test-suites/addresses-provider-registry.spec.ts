@@ -32,7 +32,7 @@ makeSuite('AddressesProviderRegistry', (testEnv: TestEnv) => {
 
     await expect(
       registry.registerAddressesProvider(NEW_ADDRESSES_PROVIDER_ADDRESS, '0')
-    ).to.be.revertedWith(INVALID_ADDRESSES_PROVIDER_ID);
+    ).to.be.revertedWithProtocolError(INVALID_ADDRESSES_PROVIDER_ID);
   });
 
   it('Registers a mock addresses provider', async () => {
@@ -118,7 +118,7 @@ makeSuite('AddressesProviderRegistry', (testEnv: TestEnv) => {
 
     await expect(
       registry.unregisterAddressesProvider(NEW_ADDRESSES_PROVIDER_ADDRESS)
-    ).to.be.revertedWith(ADDRESSES_PROVIDER_NOT_REGISTERED);
+    ).to.be.revertedWithProtocolError(ADDRESSES_PROVIDER_NOT_REGISTERED);
   });
 
   it('Tries to add an already registered addressesProvider with a different id (revert expected)', async () => {
@@ -130,7 +130,7 @@ makeSuite('AddressesProviderRegistry', (testEnv: TestEnv) => {
     const providersBefore = await registry.getAddressesProvidersList();
     await expect(
       registry.registerAddressesProvider(addressesProvider.address, NEW_ADDRESSES_PROVIDER_ID_2)
-    ).to.be.revertedWith(ADDRESSES_PROVIDER_ALREADY_ADDED);
+    ).to.be.revertedWithProtocolError(ADDRESSES_PROVIDER_ALREADY_ADDED);
 
     const providersAfter = await registry.getAddressesProvidersList();
 
@@ -153,9 +153,9 @@ makeSuite('AddressesProviderRegistry', (testEnv: TestEnv) => {
     expect(id).not.to.be.eq(0);
 
     // Simulating an addresses provider using the users[5] wallet address
-    await expect(registry.registerAddressesProvider(users[5].address, id)).to.be.revertedWith(
-      ProtocolErrors.INVALID_ADDRESSES_PROVIDER_ID
-    );
+    await expect(
+      registry.registerAddressesProvider(users[5].address, id)
+    ).to.be.revertedWithProtocolError(ProtocolErrors.INVALID_ADDRESSES_PROVIDER_ID);
 
     const providers = await registry.getAddressesProvidersList();
     const idMap = {};
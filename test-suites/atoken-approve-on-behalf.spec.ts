@@ -35,7 +35,7 @@ makeSuite('AToken: approveOnBehalf', (testEnv: TestEnv) => {
 
     await expect(
       aDai.connect(nonPoolAdmin.signer).approveOnBehalf(owner, spender, amount)
-    ).to.be.revertedWith(CALLER_NOT_POOL_ADMIN);
+    ).to.be.revertedWithProtocolError(CALLER_NOT_POOL_ADMIN);
   });
 
   it('Zero address owner parameter validation', async () => {
@@ -45,7 +45,7 @@ makeSuite('AToken: approveOnBehalf', (testEnv: TestEnv) => {
 
     await expect(
       aDai.connect(poolAdmin.signer).approveOnBehalf(ZERO_ADDRESS, spender, amount)
-    ).to.be.revertedWith(ZERO_ADDRESS_NOT_VALID);
+    ).to.be.revertedWithProtocolError(ZERO_ADDRESS_NOT_VALID);
   });
 
   it('Zero address spender parameter validation', async () => {
@@ -55,7 +55,7 @@ makeSuite('AToken: approveOnBehalf', (testEnv: TestEnv) => {
 
     await expect(
       aDai.connect(poolAdmin.signer).approveOnBehalf(owner, ZERO_ADDRESS, amount)
-    ).to.be.revertedWith(ZERO_ADDRESS_NOT_VALID);
+    ).to.be.revertedWithProtocolError(ZERO_ADDRESS_NOT_VALID);
   });
 
   it('Zero amount test', async () => {
@@ -111,7 +111,7 @@ makeSuite('AToken: approveOnBehalf', (testEnv: TestEnv) => {
 
     await expect(
       aDai.connect(emergencyAdmin.signer).approveOnBehalf(owner, spender, amount)
-    ).to.be.revertedWith(CALLER_NOT_POOL_ADMIN);
+    ).to.be.revertedWithProtocolError(CALLER_NOT_POOL_ADMIN);
   });
 
   it('Risk admin permission check', async () => {
@@ -122,7 +122,7 @@ makeSuite('AToken: approveOnBehalf', (testEnv: TestEnv) => {
 
     await expect(
       aDai.connect(riskAdmin.signer).approveOnBehalf(owner, spender, amount)
-    ).to.be.revertedWith(CALLER_NOT_POOL_ADMIN);
+    ).to.be.revertedWithProtocolError(CALLER_NOT_POOL_ADMIN);
   });
 
   it('Multiple consecutive approveOnBehalf calls', async () => {
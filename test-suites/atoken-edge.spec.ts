@@ -129,7 +129,7 @@ makeSuite('AToken: Edge cases', (testEnv: TestEnv) => {
       aDai
         .connect(poolSigner)
         .mint(users[0].address, users[0].address, 0, utils.parseUnits('1', 27))
-    ).to.be.revertedWith(INVALID_MINT_AMOUNT);
+    ).to.be.revertedWithProtocolError(INVALID_MINT_AMOUNT);
   });
 
   it('mint() to a ZERO_ADDRESS account', async () => {
@@ -162,7 +162,7 @@ makeSuite('AToken: Edge cases', (testEnv: TestEnv) => {
       aDai
         .connect(poolSigner)
         .burn(users[0].address, users[0].address, 0, utils.parseUnits('1', 27))
-    ).to.be.revertedWith(INVALID_BURN_AMOUNT);
+    ).to.be.revertedWithProtocolError(INVALID_BURN_AMOUNT);
   });
 
   it('burn() of a ZERO_ADDRESS account (revert expected)', async () => {
@@ -217,7 +217,7 @@ makeSuite('AToken: Edge cases', (testEnv: TestEnv) => {
 
     await expect(
       aWETH.connect(user.signer).setIncentivesController(ZERO_ADDRESS)
-    ).to.be.revertedWith(CALLER_NOT_POOL_ADMIN);
+    ).to.be.revertedWithProtocolError(CALLER_NOT_POOL_ADMIN);
   });
 
   it('transfer() amount > MAX_UINT_128', async () => {
@@ -226,7 +226,7 @@ makeSuite('AToken: Edge cases', (testEnv: TestEnv) => {
       users: [depositor, borrower],
     } = testEnv;
 
-    expect(aDai.transfer(borrower.address, MAX_UINT_AMOUNT)).to.be.revertedWith(
+    expect(aDai.transfer(borrower.address, MAX_UINT_AMOUNT)).to.be.revertedWithProtocolError(
       SAFECAST_UINT128_OVERFLOW
     );
   });
@@ -254,6 +254,6 @@ makeSuite('AToken: Edge cases', (testEnv: TestEnv) => {
 
     await expect(
       aWETH.connect(user.signer).setIncentivesController(ZERO_ADDRESS)
-    ).to.be.revertedWith(CALLER_NOT_POOL_ADMIN);
+    ).to.be.revertedWithProtocolError(CALLER_NOT_POOL_ADMIN);
   });
 });
@@ -80,7 +80,7 @@ makeSuite('AToken: Permit', (testEnv: TestEnv) => {
       aDai
         .connect(spender.signer)
         .permit(owner.address, spender.address, permitAmount, expiration, v, r, s)
-    ).to.be.revertedWith(ProtocolErrors.INVALID_EXPIRATION);
+    ).to.be.revertedWithProtocolError(ProtocolErrors.INVALID_EXPIRATION);
 
     expect((await aDai.allowance(owner.address, spender.address)).toString()).to.be.equal(
       '0',
@@ -199,7 +199,7 @@ makeSuite('AToken: Permit', (testEnv: TestEnv) => {
       aDai
         .connect(spender.signer)
         .permit(owner.address, spender.address, permitAmount, deadline, v, r, s)
-    ).to.be.revertedWith(ProtocolErrors.INVALID_SIGNATURE);
+    ).to.be.revertedWithProtocolError(ProtocolErrors.INVALID_SIGNATURE);
   });
 
   it('Tries to submit a permit with invalid expiration (previous to the current block) (revert expected)', async () => {
@@ -231,7 +231,7 @@ makeSuite('AToken: Permit', (testEnv: TestEnv) => {
       aDai
         .connect(spender.signer)
         .permit(owner.address, spender.address, expiration, permitAmount, v, r, s)
-    ).to.be.revertedWith(ProtocolErrors.INVALID_EXPIRATION);
+    ).to.be.revertedWithProtocolError(ProtocolErrors.INVALID_EXPIRATION);
   });
 
   it('Tries to submit a permit with invalid signature (revert expected)', async () => {
@@ -263,7 +263,7 @@ makeSuite('AToken: Permit', (testEnv: TestEnv) => {
       aDai
         .connect(spender.signer)
         .permit(owner.address, ZERO_ADDRESS, permitAmount, deadline, v, r, s)
-    ).to.be.revertedWith(ProtocolErrors.INVALID_SIGNATURE);
+    ).to.be.revertedWithProtocolError(ProtocolErrors.INVALID_SIGNATURE);
   });
 
   it('Tries to submit a permit with invalid owner (revert expected)', async () => {
@@ -295,6 +295,6 @@ makeSuite('AToken: Permit', (testEnv: TestEnv) => {
       aDai
         .connect(spender.signer)
         .permit(ZERO_ADDRESS, spender.address, expiration, permitAmount, v, r, s)
-    ).to.be.revertedWith(ProtocolErrors.ZERO_ADDRESS_NOT_VALID);
+    ).to.be.revertedWithProtocolError(ProtocolErrors.ZERO_ADDRESS_NOT_VALID);
   });
 });
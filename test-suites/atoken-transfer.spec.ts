@@ -228,7 +228,7 @@ makeSuite('AToken: Transfer', (testEnv: TestEnv) => {
     await expect(
       aDai.connect(users[1].signer).transfer(users[0].address, amountDAItoTransfer),
       HEALTH_FACTOR_LOWER_THAN_LIQUIDATION_THRESHOLD
-    ).to.be.revertedWith(HEALTH_FACTOR_LOWER_THAN_LIQUIDATION_THRESHOLD);
+    ).to.be.revertedWithProtocolError(HEALTH_FACTOR_LOWER_THAN_LIQUIDATION_THRESHOLD);
   });
 
   it('User 1 transfers a small amount of DAI used as collateral back to user 0', async () => {
@@ -1,6 +1,5 @@
 const { expect } = require('chai');
 import { BigNumber, Event, utils } from 'ethers';
-import AaveConfig from '@aave/deploy-v3/dist/markets/test';
 import { waitForTx, advanceTimeAndBlock } from '@aave/deploy-v3';
 import { getACLManager } from '@aave/deploy-v3/dist/helpers/contract-getters';
 import { ReserveData, UserReserveData } from './helpers/utils/interfaces';
@@ -13,7 +12,6 @@ import { getTxCostAndTimestamp } from './helpers/actions';
 import {
   calcExpectedReserveDataAfterMintUnbacked,
   calcExpectedReserveDataAfterBackUnbacked,
-  configuration as calculationsConfiguration,
 } from './helpers/utils/calculations';
 import './helpers/utils/wadraymath';
 
@@ -40,8 +38,6 @@ makeSuite('BridgeLogic: Testing with borrows', (testEnv: TestEnv) => {
   let aclManager: ACLManager;
 
   before(async () => {
-    calculationsConfiguration.reservesParams = AaveConfig.ReservesConfig;
-
     const { users, poolAdmin, configurator } = testEnv;
 
     aclManager = await getACLManager();
@@ -96,7 +92,7 @@ makeSuite('BridgeLogic: Testing with borrows', (testEnv: TestEnv) => {
     const { users, pool, dai } = testEnv;
     await expect(
       pool.connect(users[1].signer).mintUnbacked(dai.address, mintAmount, users[0].address, 0)
-    ).to.be.revertedWith(CALLER_NOT_BRIDGE);
+    ).to.be.revertedWithProtocolError(CALLER_NOT_BRIDGE);
   });
 
   it('User 2 tries to perform fast withdraw from L2 with no unbackedMintCap (revert expected)', async () => {
@@ -104,12 +100,12 @@ makeSuite('BridgeLogic: Testing with borrows', (testEnv: TestEnv) => {
     // fast withdraw a100 DAI
     await expect(
       pool.connect(users[2].signer).mintUnbacked(dai.address, mintAmount, users[0].address, 0)
-    ).to.be.revertedWith(UNBACKED_MINT_CAP_EXCEEDED);
+    ).to.be.revertedWithProtocolError(UNBACKED_MINT_CAP_EXCEEDED);
 
     // fast withdraw 0 aDAI
     await expect(
       pool.connect(users[2].signer).mintUnbacked(dai.address, 0, users[0].address, 0)
-    ).to.be.revertedWith(INVALID_AMOUNT);
+    ).to.be.revertedWithProtocolError(INVALID_AMOUNT);
   });
 
   it('RiskAdmin updates the unbackedMintCap to 10 aDai (10 left) and user 1 tries to perform fast withdraw 100 aDai from L2 (revert expected)', async () => {
@@ -117,7 +113,7 @@ makeSuite('BridgeLogic: Testing with borrows', (testEnv: TestEnv) => {
     expect(await configurator.connect(riskAdmin.signer).setUnbackedMintCap(dai.address, '10'));
     await expect(
       pool.connect(users[2].signer).mintUnbacked(dai.address, mintAmount, users[0].address, 0)
-    ).to.be.revertedWith(UNBACKED_MINT_CAP_EXCEEDED);
+    ).to.be.revertedWithProtocolError(UNBACKED_MINT_CAP_EXCEEDED);
 
     expect(
       await configurator
@@ -147,7 +143,7 @@ makeSuite('BridgeLogic: Testing with borrows', (testEnv: TestEnv) => {
     expect(await configurator.connect(riskAdmin.signer).setUnbackedMintCap(dai.address, '100'));
     await expect(
       pool.connect(users[2].signer).mintUnbacked(dai.address, mintAmount, users[0].address, 0)
-    ).to.be.revertedWith(UNBACKED_MINT_CAP_EXCEEDED);
+    ).to.be.revertedWithProtocolError(UNBACKED_MINT_CAP_EXCEEDED);
 
     expect(
       await configurator
@@ -252,7 +248,7 @@ makeSuite('BridgeLogic: Testing with borrows', (testEnv: TestEnv) => {
 
     await expect(
       pool.connect(users[1].signer).backUnbacked(dai.address, mintAmount, feeAmount)
-    ).to.be.revertedWith(CALLER_NOT_BRIDGE);
+    ).to.be.revertedWithProtocolError(CALLER_NOT_BRIDGE);
   });
 
   it('100 bridged dai used to back unbacked', async () => {
@@ -148,7 +148,7 @@ makeSuite('PoolConfigurator: Borrow Cap', (testEnv: TestEnv) => {
         0,
         deployer.address
       )
-    ).to.be.revertedWith(BORROW_CAP_EXCEEDED);
+    ).to.be.revertedWithProtocolError(BORROW_CAP_EXCEEDED);
 
     await expect(
       pool.borrow(
@@ -158,17 +158,17 @@ makeSuite('PoolConfigurator: Borrow Cap', (testEnv: TestEnv) => {
         0,
         deployer.address
       )
-    ).to.be.revertedWith(BORROW_CAP_EXCEEDED);
+    ).to.be.revertedWithProtocolError(BORROW_CAP_EXCEEDED);
   });
 
   it('Tries to set the borrow cap for USDC and DAI to > MAX_BORROW_CAP (revert expected)', async () => {
     const { configurator, usdc, dai } = testEnv;
     const newCap = Number(MAX_BORROW_CAP) + 1;
 
-    await expect(configurator.setBorrowCap(usdc.address, newCap)).to.be.revertedWith(
+    await expect(configurator.setBorrowCap(usdc.address, newCap)).to.be.revertedWithProtocolError(
       INVALID_BORROW_CAP
     );
-    await expect(configurator.setBorrowCap(dai.address, newCap)).to.be.revertedWith(
+    await expect(configurator.setBorrowCap(dai.address, newCap)).to.be.revertedWithProtocolError(
       INVALID_BORROW_CAP
     );
   });
@@ -273,7 +273,7 @@ makeSuite('PoolConfigurator: Borrow Cap', (testEnv: TestEnv) => {
         0,
         deployer.address
       )
-    ).to.be.revertedWith(BORROW_CAP_EXCEEDED);
+    ).to.be.revertedWithProtocolError(BORROW_CAP_EXCEEDED);
   });
 
   it('Borrows 99 variable DAI and 99 stable USDC (< BORROW_CAP)', async () => {
@@ -380,7 +380,7 @@ makeSuite('PoolConfigurator: Borrow Cap', (testEnv: TestEnv) => {
         0,
         deployer.address
       )
-    ).to.be.revertedWith(BORROW_CAP_EXCEEDED);
+    ).to.be.revertedWithProtocolError(BORROW_CAP_EXCEEDED);
 
     await expect(
       pool.borrow(
@@ -390,7 +390,7 @@ makeSuite('PoolConfigurator: Borrow Cap', (testEnv: TestEnv) => {
         0,
         deployer.address
       )
-    ).to.be.revertedWith(BORROW_CAP_EXCEEDED);
+    ).to.be.revertedWithProtocolError(BORROW_CAP_EXCEEDED);
   });
 
   it('Raises the borrow cap for USDC and DAI to MAX_BORROW_CAP', async () => {
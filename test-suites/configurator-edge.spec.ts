@@ -37,7 +37,7 @@ makeSuite('PoolConfigurator: Edge cases', (testEnv: TestEnv) => {
       configurator
         .connect(poolAdmin.signer)
         .configureReserveAsCollateral(dai.address, 5, 10, 65535 + 1)
-    ).to.be.revertedWith(INVALID_LIQ_BONUS);
+    ).to.be.revertedWithProtocolError(INVALID_LIQ_BONUS);
   });
 
   it('PoolConfigurator setReserveFactor() reserveFactor > PERCENTAGE_FACTOR (revert expected)', async () => {
@@ -45,7 +45,7 @@ makeSuite('PoolConfigurator: Edge cases', (testEnv: TestEnv) => {
     const invalidReserveFactor = 20000;
     await expect(
       configurator.setReserveFactor(dai.address, invalidReserveFactor)
-    ).to.be.revertedWith(INVALID_RESERVE_FACTOR);
+    ).to.be.revertedWithProtocolError(INVALID_RESERVE_FACTOR);
   });
 
   it('ReserveConfiguration setReserveFactor() reserveFactor > MAX_VALID_RESERVE_FACTOR', async () => {
@@ -53,7 +53,7 @@ makeSuite('PoolConfigurator: Edge cases', (testEnv: TestEnv) => {
     const invalidReserveFactor = 65536;
     await expect(
       configurator.setReserveFactor(dai.address, invalidReserveFactor)
-    ).to.be.revertedWith(INVALID_RESERVE_FACTOR);
+    ).to.be.revertedWithProtocolError(INVALID_RESERVE_FACTOR);
   });
 
   it('PoolConfigurator configureReserveAsCollateral() ltv > liquidationThreshold', async () => {
@@ -70,7 +70,7 @@ makeSuite('PoolConfigurator: Edge cases', (testEnv: TestEnv) => {
           config.liquidationThreshold,
           config.liquidationBonus
         )
-    ).to.be.revertedWith(INVALID_RESERVE_PARAMS);
+    ).to.be.revertedWithProtocolError(INVALID_RESERVE_PARAMS);
   });
 
   it('PoolConfigurator configureReserveAsCollateral() liquidationBonus < 10000', async () => {
@@ -82,7 +82,7 @@ makeSuite('PoolConfigurator: Edge cases', (testEnv: TestEnv) => {
       configurator
         .connect(poolAdmin.signer)
         .configureReserveAsCollateral(dai.address, config.ltv, config.liquidationThreshold, 10000)
-    ).to.be.revertedWith(INVALID_RESERVE_PARAMS);
+    ).to.be.revertedWithProtocolError(INVALID_RESERVE_PARAMS);
   });
 
   it('PoolConfigurator configureReserveAsCollateral() liquidationThreshold.percentMul(liquidationBonus) > PercentageMath.PERCENTAGE_FACTOR', async () => {
@@ -92,7 +92,7 @@ makeSuite('PoolConfigurator: Edge cases', (testEnv: TestEnv) => {
       configurator
         .connect(poolAdmin.signer)
         .configureReserveAsCollateral(dai.address, 10001, 10001, 10001)
-    ).to.be.revertedWith(INVALID_RESERVE_PARAMS);
+    ).to.be.revertedWithProtocolError(INVALID_RESERVE_PARAMS);
   });
 
   it('PoolConfigurator configureReserveAsCollateral() liquidationThreshold == 0 && liquidationBonus > 0', async () => {
@@ -100,24 +100,24 @@ makeSuite('PoolConfigurator: Edge cases', (testEnv: TestEnv) => {
 
     await expect(
       configurator.connect(poolAdmin.signer).configureReserveAsCollateral(dai.address, 0, 0, 10500)
-    ).to.be.revertedWith(INVALID_RESERVE_PARAMS);
+    ).to.be.revertedWithProtocolError(INVALID_RESERVE_PARAMS);
   });
 
   it('Tries to bridge protocol fee > PERCENTAGE_FACTOR (revert expected)', async () => {
     const { configurator } = testEnv;
     const newProtocolFee = 10001;
-    await expect(configurator.updateBridgeProtocolFee(newProtocolFee)).to.be.revertedWith(
-      BRIDGE_PROTOCOL_FEE_INVALID
-    );
+    await expect(
+      configurator.updateBridgeProtocolFee(newProtocolFee)
+    ).to.be.revertedWithProtocolError(BRIDGE_PROTOCOL_FEE_INVALID);
   });
 
   it('Tries to update flashloan premium total > PERCENTAGE_FACTOR (revert expected)', async () => {
     const { configurator } = testEnv;
 
     const newPremiumTotal = 10001;
-    await expect(configurator.updateFlashloanPremiumTotal(newPremiumTotal)).to.be.revertedWith(
-      FLASHLOAN_PREMIUM_INVALID
-    );
+    await expect(
+      configurator.updateFlashloanPremiumTotal(newPremiumTotal)
+    ).to.be.revertedWithProtocolError(FLASHLOAN_PREMIUM_INVALID);
   });
 
   it('Tries to update flashloan premium to protocol > PERCENTAGE_FACTOR (revert expected)', async () => {
@@ -126,36 +126,36 @@ makeSuite('PoolConfigurator: Edge cases', (testEnv: TestEnv) => {
     const newPremiumToProtocol = 10001;
     await expect(
       configurator.updateFlashloanPremiumToProtocol(newPremiumToProtocol)
-    ).to.be.revertedWith(FLASHLOAN_PREMIUM_INVALID);
+    ).to.be.revertedWithProtocolError(FLASHLOAN_PREMIUM_INVALID);
   });
 
   it('Tries to update borrowCap > MAX_BORROW_CAP (revert expected)', async () => {
     const { configurator, weth } = testEnv;
     await expect(
       configurator.setBorrowCap(weth.address, BigNumber.from(MAX_BORROW_CAP).add(1))
-    ).to.be.revertedWith(INVALID_BORROW_CAP);
+    ).to.be.revertedWithProtocolError(INVALID_BORROW_CAP);
   });
 
   it('Tries to update supplyCap > MAX_SUPPLY_CAP (revert expected)', async () => {
     const { configurator, weth } = testEnv;
     await expect(
       configurator.setSupplyCap(weth.address, BigNumber.from(MAX_SUPPLY_CAP).add(1))
-    ).to.be.revertedWith(INVALID_SUPPLY_CAP);
+    ).to.be.revertedWithProtocolError(INVALID_SUPPLY_CAP);
   });
 
   it('Tries to update unbackedMintCap > MAX_UNBACKED_MINT_CAP (revert expected)', async () => {
     const { configurator, weth } = testEnv;
     await expect(
       configurator.setUnbackedMintCap(weth.address, BigNumber.from(MAX_UNBACKED_MINT_CAP).add(1))
-    ).to.be.revertedWith(INVALID_UNBACKED_MINT_CAP);
+    ).to.be.revertedWithProtocolError(INVALID_UNBACKED_MINT_CAP);
   });
 
   it('Tries to set borrowCap of MAX_BORROW_CAP an unlisted asset', async () => {
     const { configurator, users } = testEnv;
     const newCap = 10;
-    await expect(configurator.setBorrowCap(users[5].address, newCap)).to.be.revertedWith(
-      ASSET_NOT_LISTED
-    );
+    await expect(
+      configurator.setBorrowCap(users[5].address, newCap)
+    ).to.be.revertedWithProtocolError(ASSET_NOT_LISTED);
   });
 
   it('Tries to add a category with id 0 (revert expected)', async () => {
@@ -165,7 +165,7 @@ makeSuite('PoolConfigurator: Edge cases', (testEnv: TestEnv) => {
       configurator
         .connect(poolAdmin.signer)
         .setEModeCategory(0, '9800', '9800', '10100', ZERO_ADDRESS, 'INVALID_ID_CATEGORY')
-    ).to.be.revertedWith(EMODE_CATEGORY_RESERVED);
+    ).to.be.revertedWithProtocolError(EMODE_CATEGORY_RESERVED);
   });
 
   it('Tries to add an eMode category with ltv > liquidation threshold (revert expected)', async () => {
@@ -180,7 +180,7 @@ makeSuite('PoolConfigurator: Edge cases', (testEnv: TestEnv) => {
 
     await expect(
       configurator.connect(poolAdmin.signer).setEModeCategory(id, ltv, lt, lb, oracle, label)
-    ).to.be.revertedWith(INVALID_EMODE_CATEGORY_PARAMS);
+    ).to.be.revertedWithProtocolError(INVALID_EMODE_CATEGORY_PARAMS);
   });
 
   it('Tries to add an eMode category with no liquidation bonus (revert expected)', async () => {
@@ -195,7 +195,7 @@ makeSuite('PoolConfigurator: Edge cases', (testEnv: TestEnv) => {
 
     await expect(
       configurator.connect(poolAdmin.signer).setEModeCategory(id, ltv, lt, lb, oracle, label)
-    ).to.be.revertedWith(INVALID_EMODE_CATEGORY_PARAMS);
+    ).to.be.revertedWithProtocolError(INVALID_EMODE_CATEGORY_PARAMS);
   });
 
   it('Tries to add an eMode category with too large liquidation bonus (revert expected)', async () => {
@@ -210,7 +210,7 @@ makeSuite('PoolConfigurator: Edge cases', (testEnv: TestEnv) => {
 
     await expect(
       configurator.connect(poolAdmin.signer).setEModeCategory(id, ltv, lt, lb, oracle, label)
-    ).to.be.revertedWith(INVALID_EMODE_CATEGORY_PARAMS);
+    ).to.be.revertedWithProtocolError(INVALID_EMODE_CATEGORY_PARAMS);
   });
 
   it('Tries to add an eMode category with liquidation threshold > 1 (revert expected)', async () => {
@@ -225,7 +225,7 @@ makeSuite('PoolConfigurator: Edge cases', (testEnv: TestEnv) => {
 
     await expect(
       configurator.connect(poolAdmin.signer).setEModeCategory(id, ltv, lt, lb, oracle, label)
-    ).to.be.revertedWith(INVALID_EMODE_CATEGORY_PARAMS);
+    ).to.be.revertedWithProtocolError(INVALID_EMODE_CATEGORY_PARAMS);
   });
 
   it('Tries to set DAI eMode category to undefined category (revert expected)', async () => {
@@ -233,7 +233,7 @@ makeSuite('PoolConfigurator: Edge cases', (testEnv: TestEnv) => {
 
     await expect(
       configurator.connect(poolAdmin.signer).setAssetEModeCategory(dai.address, '100')
-    ).to.be.revertedWith(INVALID_EMODE_CATEGORY_ASSIGNMENT);
+    ).to.be.revertedWithProtocolError(INVALID_EMODE_CATEGORY_ASSIGNMENT);
   });
 
   it('Tries to set DAI eMode category to category with too low LT (revert expected)', async () => {
@@ -258,7 +258,7 @@ makeSuite('PoolConfigurator: Edge cases', (testEnv: TestEnv) => {
 
     await expect(
       configurator.connect(poolAdmin.signer).setAssetEModeCategory(dai.address, '100')
-    ).to.be.revertedWith(INVALID_EMODE_CATEGORY_ASSIGNMENT);
+    ).to.be.revertedWithProtocolError(INVALID_EMODE_CATEGORY_ASSIGNMENT);
   });
 
   it('Tries to disable the DAI reserve with liquidity on it (revert expected)', async () => {
@@ -278,7 +278,7 @@ makeSuite('PoolConfigurator: Edge cases', (testEnv: TestEnv) => {
     await expect(
       configurator.setReserveActive(dai.address, false),
       RESERVE_LIQUIDITY_NOT_ZERO
-    ).to.be.revertedWith(RESERVE_LIQUIDITY_NOT_ZERO);
+    ).to.be.revertedWithProtocolError(RESERVE_LIQUIDITY_NOT_ZERO);
   });
 
   it('Tries to withdraw from an inactive reserve (revert expected)', async () => {
@@ -315,8 +315,8 @@ makeSuite('PoolConfigurator: Edge cases', (testEnv: TestEnv) => {
     const updatedConfiguration = await helpersContract.getReserveConfigurationData(dai.address);
     expect(updatedConfiguration.isActive).to.false;
 
-    await expect(pool.withdraw(dai.address, amountDAItoDeposit, userAddress)).to.be.revertedWith(
-      ProtocolErrors.RESERVE_INACTIVE
-    );
+    await expect(
+      pool.withdraw(dai.address, amountDAItoDeposit, userAddress)
+    ).to.be.revertedWithProtocolError(ProtocolErrors.RESERVE_INACTIVE);
   });
 });
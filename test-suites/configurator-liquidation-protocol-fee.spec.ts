@@ -95,9 +95,9 @@ makeSuite('PoolConfigurator: Liquidation Protocol Fee', (testEnv: TestEnv) => {
 
     expect(
       configurator.setLiquidationProtocolFee(usdc.address, liquidationProtocolFee)
-    ).to.be.revertedWith(INVALID_LIQUIDATION_PROTOCOL_FEE);
+    ).to.be.revertedWithProtocolError(INVALID_LIQUIDATION_PROTOCOL_FEE);
     expect(
       configurator.setLiquidationProtocolFee(dai.address, liquidationProtocolFee)
-    ).to.be.revertedWith(INVALID_LIQUIDATION_PROTOCOL_FEE);
+    ).to.be.revertedWithProtocolError(INVALID_LIQUIDATION_PROTOCOL_FEE);
   });
 });
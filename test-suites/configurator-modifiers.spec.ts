@@ -42,7 +42,7 @@ makeSuite('PoolConfigurator: Modifiers', (testEnv: TestEnv) => {
     for (const call of calls) {
       await expect(
         configurator.connect(nonPoolAdmin.signer)[call.fn](...call.args)
-      ).to.be.revertedWith(CALLER_NOT_ASSET_LISTING_OR_POOL_ADMIN);
+      ).to.be.revertedWithProtocolError(CALLER_NOT_ASSET_LISTING_OR_POOL_ADMIN);
     }
   });
 
@@ -84,7 +84,7 @@ makeSuite('PoolConfigurator: Modifiers', (testEnv: TestEnv) => {
     for (const call of calls) {
       await expect(
         configurator.connect(nonPoolAdmin.signer)[call.fn](...call.args)
-      ).to.be.revertedWith(CALLER_NOT_POOL_ADMIN);
+      ).to.be.revertedWithProtocolError(CALLER_NOT_POOL_ADMIN);
     }
   });
 
@@ -120,7 +120,7 @@ makeSuite('PoolConfigurator: Modifiers', (testEnv: TestEnv) => {
     for (const call of calls) {
       await expect(
         configurator.connect(nonRiskOrPoolAdmins.signer)[call.fn](...call.args)
-      ).to.be.revertedWith(CALLER_NOT_RISK_OR_POOL_ADMIN);
+      ).to.be.revertedWithProtocolError(CALLER_NOT_RISK_OR_POOL_ADMIN);
     }
   });
 
@@ -129,7 +129,7 @@ makeSuite('PoolConfigurator: Modifiers', (testEnv: TestEnv) => {
     await expect(
       configurator.connect(riskAdmin.signer).setReservePause(weth.address, true),
       CALLER_NOT_POOL_ADMIN
-    ).to.be.revertedWith(CALLER_NOT_POOL_OR_EMERGENCY_ADMIN);
+    ).to.be.revertedWithProtocolError(CALLER_NOT_POOL_OR_EMERGENCY_ADMIN);
   });
 
   it('Tries to unpause reserve with non-emergency-admin account (revert expected)', async () => {
@@ -137,13 +137,13 @@ makeSuite('PoolConfigurator: Modifiers', (testEnv: TestEnv) => {
     await expect(
       configurator.connect(riskAdmin.signer).setReservePause(weth.address, false),
       CALLER_NOT_POOL_ADMIN
-    ).to.be.revertedWith(CALLER_NOT_POOL_OR_EMERGENCY_ADMIN);
+    ).to.be.revertedWithProtocolError(CALLER_NOT_POOL_OR_EMERGENCY_ADMIN);
   });
 
   it('Tries to pause pool with not emergency admin (revert expected)', async () => {
     const { users, configurator } = testEnv;
-    await expect(configurator.connect(users[0].signer).setPoolPause(true)).to.be.revertedWith(
-      CALLER_NOT_EMERGENCY_ADMIN
-    );
+    await expect(
+      configurator.connect(users[0].signer).setPoolPause(true)
+    ).to.be.revertedWithProtocolError(CALLER_NOT_EMERGENCY_ADMIN);
   });
 });
@@ -86,7 +86,7 @@ makeSuite('PoolConfigurator: Supply Cap', (testEnv: TestEnv) => {
 
     await expect(
       pool.deposit(usdc.address, suppliedAmount, deployer.address, 0)
-    ).to.be.revertedWith(SUPPLY_CAP_EXCEEDED);
+    ).to.be.revertedWithProtocolError(SUPPLY_CAP_EXCEEDED);
 
     await expect(
       pool.deposit(
@@ -95,17 +95,17 @@ makeSuite('PoolConfigurator: Supply Cap', (testEnv: TestEnv) => {
         deployer.address,
         0
       )
-    ).to.be.revertedWith(SUPPLY_CAP_EXCEEDED);
+    ).to.be.revertedWithProtocolError(SUPPLY_CAP_EXCEEDED);
   });
 
   it('Tries to set the supply cap for USDC and DAI to > MAX_SUPPLY_CAP (revert expected)', async () => {
     const { configurator, usdc, dai } = testEnv;
     const newCap = Number(MAX_SUPPLY_CAP) + 1;
 
-    await expect(configurator.setSupplyCap(usdc.address, newCap)).to.be.revertedWith(
+    await expect(configurator.setSupplyCap(usdc.address, newCap)).to.be.revertedWithProtocolError(
       INVALID_SUPPLY_CAP
     );
-    await expect(configurator.setSupplyCap(dai.address, newCap)).to.be.revertedWith(
+    await expect(configurator.setSupplyCap(dai.address, newCap)).to.be.revertedWithProtocolError(
       INVALID_SUPPLY_CAP
     );
   });
@@ -162,7 +162,7 @@ makeSuite('PoolConfigurator: Supply Cap', (testEnv: TestEnv) => {
         deployer.address,
         0
       )
-    ).to.be.revertedWith(SUPPLY_CAP_EXCEEDED);
+    ).to.be.revertedWithProtocolError(SUPPLY_CAP_EXCEEDED);
 
     await expect(
       pool.deposit(
@@ -171,7 +171,7 @@ makeSuite('PoolConfigurator: Supply Cap', (testEnv: TestEnv) => {
         deployer.address,
         0
       )
-    ).to.be.revertedWith(SUPPLY_CAP_EXCEEDED);
+    ).to.be.revertedWithProtocolError(SUPPLY_CAP_EXCEEDED);
   });
 
   it('Supply 99 DAI and 99 USDC (< SUPPLY_CAP), leaving 1 Units to reach the limit', async () => {
@@ -300,7 +300,7 @@ makeSuite('PoolConfigurator: Supply Cap', (testEnv: TestEnv) => {
         deployer.address,
         0
       )
-    ).to.be.revertedWith(SUPPLY_CAP_EXCEEDED);
+    ).to.be.revertedWithProtocolError(SUPPLY_CAP_EXCEEDED);
 
     await expect(
       pool.deposit(
@@ -309,7 +309,7 @@ makeSuite('PoolConfigurator: Supply Cap', (testEnv: TestEnv) => {
         deployer.address,
         0
       )
-    ).to.be.revertedWith(SUPPLY_CAP_EXCEEDED);
+    ).to.be.revertedWithProtocolError(SUPPLY_CAP_EXCEEDED);
   });
 
   it('Raises the supply cap for USDC and DAI to MAX_SUPPLY_CAP', async () => {
@@ -288,9 +288,9 @@ makeSuite('PoolConfigurator', (testEnv: TestEnv) => {
 
   it('Deactivates the ETH reserve for borrowing via pool admin while stable borrowing is active (revert expected)', async () => {
     const { configurator, helpersContract, weth } = testEnv;
-    await expect(configurator.setReserveBorrowing(weth.address, false)).to.be.revertedWith(
-      ProtocolErrors.STABLE_BORROWING_ENABLED
-    );
+    await expect(
+      configurator.setReserveBorrowing(weth.address, false)
+    ).to.be.revertedWithProtocolError(ProtocolErrors.STABLE_BORROWING_ENABLED);
     await expectReserveConfigurationData(helpersContract, weth.address, {
       ...baseConfigValues,
     });
@@ -301,7 +301,7 @@ makeSuite('PoolConfigurator', (testEnv: TestEnv) => {
 
     await expect(
       configurator.connect(riskAdmin.signer).setReserveBorrowing(weth.address, false)
-    ).to.be.revertedWith(ProtocolErrors.STABLE_BORROWING_ENABLED);
+    ).to.be.revertedWithProtocolError(ProtocolErrors.STABLE_BORROWING_ENABLED);
 
     await expectReserveConfigurationData(helpersContract, weth.address, {
       ...baseConfigValues,
@@ -366,9 +366,9 @@ makeSuite('PoolConfigurator', (testEnv: TestEnv) => {
 
   it('Enables stable borrow rate on the ETH reserve via pool admin while borrowing is disabled (revert expected)', async () => {
     const { configurator, helpersContract, weth } = testEnv;
-    await expect(configurator.setReserveStableRateBorrowing(weth.address, true)).to.be.revertedWith(
-      ProtocolErrors.BORROWING_NOT_ENABLED
-    );
+    await expect(
+      configurator.setReserveStableRateBorrowing(weth.address, true)
+    ).to.be.revertedWithProtocolError(ProtocolErrors.BORROWING_NOT_ENABLED);
 
     await expectReserveConfigurationData(helpersContract, weth.address, {
       ...baseConfigValues,
@@ -381,7 +381,7 @@ makeSuite('PoolConfigurator', (testEnv: TestEnv) => {
     const { configurator, helpersContract, weth, riskAdmin } = testEnv;
     await expect(
       configurator.connect(riskAdmin.signer).setReserveStableRateBorrowing(weth.address, true)
-    ).to.be.revertedWith(ProtocolErrors.BORROWING_NOT_ENABLED);
+    ).to.be.revertedWithProtocolError(ProtocolErrors.BORROWING_NOT_ENABLED);
 
     await expectReserveConfigurationData(helpersContract, weth.address, {
       ...baseConfigValues,
@@ -951,9 +951,9 @@ makeSuite('PoolConfigurator', (testEnv: TestEnv) => {
 
     await pool.connect(user2.signer).borrow(weth.address, '100', 2, '0', user2.address);
 
-    await expect(configurator.setSiloedBorrowing(weth.address, true)).to.be.revertedWith(
-      RESERVE_DEBT_NOT_ZERO
-    );
+    await expect(
+      configurator.setSiloedBorrowing(weth.address, true)
+    ).to.be.revertedWithProtocolError(RESERVE_DEBT_NOT_ZERO);
 
     await evmRevert(snap);
   });
@@ -1002,7 +1002,7 @@ makeSuite('PoolConfigurator', (testEnv: TestEnv) => {
 
     await expect(
       configurator.connect(riskAdmin.signer).setDebtCeiling(weth.address, debtCeiling)
-    ).to.be.revertedWith(INVALID_DEBT_CEILING);
+    ).to.be.revertedWithProtocolError(INVALID_DEBT_CEILING);
 
     const newCeiling = await helpersContract.getDebtCeiling(weth.address);
     expect(newCeiling).to.be.eq(currentCeiling, 'Invalid debt ceiling');
@@ -1026,7 +1026,7 @@ makeSuite('PoolConfigurator', (testEnv: TestEnv) => {
 
     await pool.connect(user1.signer).supply(weth.address, '100', user1.address, '0');
 
-    await expect(configurator.setDebtCeiling(weth.address, '100')).to.be.revertedWith(
+    await expect(configurator.setDebtCeiling(weth.address, '100')).to.be.revertedWithProtocolError(
       RESERVE_LIQUIDITY_NOT_ZERO
     );
   });
@@ -216,7 +216,7 @@ makeSuite('DebtToken: Permit Delegation', (testEnv: TestEnv) => {
       stableDebtDai
         .connect(user1.signer)
         .delegationWithSig(ZERO_ADDRESS, user3.address, permitAmount, expiration, v, r, s)
-    ).to.be.revertedWith(ProtocolErrors.ZERO_ADDRESS_NOT_VALID);
+    ).to.be.revertedWithProtocolError(ProtocolErrors.ZERO_ADDRESS_NOT_VALID);
 
     expect(
       (await stableDebtDai.borrowAllowance(user2.address, user3.address)).toString()
@@ -256,7 +256,7 @@ makeSuite('DebtToken: Permit Delegation', (testEnv: TestEnv) => {
       stableDebtDai
         .connect(user1.signer)
         .delegationWithSig(user2.address, user3.address, permitAmount, expiration, v, r, s)
-    ).to.be.revertedWith(ProtocolErrors.INVALID_EXPIRATION);
+    ).to.be.revertedWithProtocolError(ProtocolErrors.INVALID_EXPIRATION);
 
     expect(
       (await stableDebtDai.borrowAllowance(user2.address, user3.address)).toString()
@@ -297,7 +297,7 @@ makeSuite('DebtToken: Permit Delegation', (testEnv: TestEnv) => {
       stableDebtDai
         .connect(user1.signer)
         .delegationWithSig(user1.address, user3.address, permitAmount, expiration, v, r, s)
-    ).to.be.revertedWith(ProtocolErrors.INVALID_SIGNATURE);
+    ).to.be.revertedWithProtocolError(ProtocolErrors.INVALID_SIGNATURE);
 
     expect(
       (await stableDebtDai.borrowAllowance(user2.address, user3.address)).toString()
@@ -337,7 +337,7 @@ makeSuite('DebtToken: Permit Delegation', (testEnv: TestEnv) => {
       variableDebtDai
         .connect(user1.signer)
         .delegationWithSig(ZERO_ADDRESS, user3.address, permitAmount, expiration, v, r, s)
-    ).to.be.revertedWith(ProtocolErrors.ZERO_ADDRESS_NOT_VALID);
+    ).to.be.revertedWithProtocolError(ProtocolErrors.ZERO_ADDRESS_NOT_VALID);
 
     expect(
       (await variableDebtDai.borrowAllowance(user2.address, user3.address)).toString()
@@ -377,7 +377,7 @@ makeSuite('DebtToken: Permit Delegation', (testEnv: TestEnv) => {
       variableDebtDai
         .connect(user1.signer)
         .delegationWithSig(user2.address, user3.address, permitAmount, expiration, v, r, s)
-    ).to.be.revertedWith(ProtocolErrors.INVALID_EXPIRATION);
+    ).to.be.revertedWithProtocolError(ProtocolErrors.INVALID_EXPIRATION);
 
     expect(
       (await variableDebtDai.borrowAllowance(user2.address, user3.address)).toString()
@@ -417,7 +417,7 @@ makeSuite('DebtToken: Permit Delegation', (testEnv: TestEnv) => {
       variableDebtDai
         .connect(user1.signer)
         .delegationWithSig(user1.address, user3.address, permitAmount, expiration, v, r, s)
-    ).to.be.revertedWith(ProtocolErrors.INVALID_SIGNATURE);
+    ).to.be.revertedWithProtocolError(ProtocolErrors.INVALID_SIGNATURE);
 
     expect(
       (await variableDebtDai.borrowAllowance(user2.address, user3.address)).toString()
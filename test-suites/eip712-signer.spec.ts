@@ -0,0 +1,191 @@
+import { expect } from 'chai';
+import { utils } from 'ethers';
+import { evmRevert, evmSnapshot, waitForTx } from '@aave/deploy-v3';
+import { MAX_UINT_AMOUNT } from '../helpers/constants';
+import {
+  getTokenEIP712Domain,
+  recoverTypedDataSigner,
+  signDelegationWithSig,
+  signPermit,
+  verifyTypedDataSignature,
+} from '../helpers/contracts-helpers';
+import { RateMode } from '../helpers/types';
+import { makeSuite, TestEnv } from './helpers/make-suite';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+
+declare var hre: HardhatRuntimeEnvironment;
+
+makeSuite('EIP-712 signatures with a Signer', (testEnv: TestEnv) => {
+  let snapId: string;
+
+  beforeEach(async () => {
+    snapId = await evmSnapshot();
+  });
+  afterEach(async () => {
+    await evmRevert(snapId);
+  });
+
+  it('Reads the domain of the token', async () => {
+    const { aDai, dai } = testEnv;
+
+    expect(await getTokenEIP712Domain(aDai.address, hre.ethers.provider)).to.be.deep.eq({
+      name: await aDai.name(),
+      revision: '1',
+      chainId: hre.network.config.chainId,
+    });
+    expect((await getTokenEIP712Domain(dai.address, hre.ethers.provider)).name).to.be.eq(
+      await dai.name()
+    );
+  });
+
+  it('Signs and submits an aToken permit, recovering the signer off-chain', async () => {
+    const { pool, dai, aDai, users } = testEnv;
+    const [owner, spender] = users;
+    const amount = utils.parseEther('10');
+
+    await waitForTx(await dai.connect(owner.signer)['mint(uint256)'](amount));
+    await waitForTx(await dai.connect(owner.signer).approve(pool.address, amount));
+    await waitForTx(await pool.connect(owner.signer).supply(dai.address, amount, owner.address, 0));
+
+    const { v, r, s, typedData } = await signPermit(
+      owner.signer,
+      aDai.address,
+      spender.address,
+      amount,
+      MAX_UINT_AMOUNT
+    );
+
+    expect(typedData.message.nonce).to.be.eq(0);
+    expect(recoverTypedDataSigner(typedData, { v, r, s })).to.be.eq(owner.address);
+    expect(verifyTypedDataSignature(typedData, { v, r, s }, owner.address)).to.be.true;
+    expect(verifyTypedDataSignature(typedData, { v, r, s }, spender.address)).to.be.false;
+
+    await waitForTx(
+      await aDai
+        .connect(spender.signer)
+        .permit(owner.address, spender.address, amount, MAX_UINT_AMOUNT, v, r, s)
+    );
+    expect(await aDai.allowance(owner.address, spender.address)).to.be.eq(amount);
+    expect(await aDai.nonces(owner.address)).to.be.eq(1);
+  });
+
+  it('Supplies and repays with permits signed by a Signer', async () => {
+    const { pool, dai, weth, aDai, variableDebtDai, users } = testEnv;
+    const [user, depositor] = users;
+    const amount = utils.parseEther('100');
+
+    await waitForTx(await dai.connect(user.signer)['mint(uint256)'](amount));
+    const supplyPermit = await signPermit(
+      user.signer,
+      dai.address,
+      pool.address,
+      amount,
+      MAX_UINT_AMOUNT
+    );
+    await waitForTx(
+      await pool
+        .connect(user.signer)
+        .supplyWithPermit(
+          dai.address,
+          amount,
+          user.address,
+          0,
+          MAX_UINT_AMOUNT,
+          supplyPermit.v,
+          supplyPermit.r,
+          supplyPermit.s
+        )
+    );
+    expect(await aDai.balanceOf(user.address)).to.be.eq(amount);
+
+    // Borrow some DAI against WETH, to repay it with a permit
+    await waitForTx(
+      await weth
+        .connect(depositor.signer)
+        ['mint(address,uint256)'](depositor.address, utils.parseEther('10'))
+    );
+    await waitForTx(await weth.connect(depositor.signer).approve(pool.address, MAX_UINT_AMOUNT));
+    await waitForTx(
+      await pool
+        .connect(depositor.signer)
+        .supply(weth.address, utils.parseEther('10'), depositor.address, 0)
+    );
+    const borrowAmount = utils.parseEther('10');
+    await waitForTx(
+      await pool
+        .connect(depositor.signer)
+        .borrow(dai.address, borrowAmount, RateMode.Variable, 0, depositor.address)
+    );
+
+    const repayPermit = await signPermit(
+      depositor.signer,
+      dai.address,
+      pool.address,
+      borrowAmount,
+      MAX_UINT_AMOUNT
+    );
+    await waitForTx(
+      await pool
+        .connect(depositor.signer)
+        .repayWithPermit(
+          dai.address,
+          borrowAmount,
+          RateMode.Variable,
+          depositor.address,
+          MAX_UINT_AMOUNT,
+          repayPermit.v,
+          repayPermit.r,
+          repayPermit.s
+        )
+    );
+    expect(await variableDebtDai.balanceOf(depositor.address)).to.be.lt(borrowAmount);
+  });
+
+  it('Signs a credit delegation and borrows with it', async () => {
+    const { pool, dai, weth, variableDebtDai, users } = testEnv;
+    const [depositor, delegator, delegatee] = users;
+    const amount = utils.parseEther('10');
+
+    await waitForTx(await dai.connect(depositor.signer)['mint(uint256)'](amount));
+    await waitForTx(await dai.connect(depositor.signer).approve(pool.address, amount));
+    await waitForTx(
+      await pool.connect(depositor.signer).supply(dai.address, amount, depositor.address, 0)
+    );
+    await waitForTx(
+      await weth
+        .connect(delegator.signer)
+        ['mint(address,uint256)'](delegator.address, utils.parseEther('10'))
+    );
+    await waitForTx(await weth.connect(delegator.signer).approve(pool.address, MAX_UINT_AMOUNT));
+    await waitForTx(
+      await pool
+        .connect(delegator.signer)
+        .supply(weth.address, utils.parseEther('10'), delegator.address, 0)
+    );
+
+    const { v, r, s, typedData } = await signDelegationWithSig(
+      delegator.signer,
+      variableDebtDai.address,
+      delegatee.address,
+      amount,
+      MAX_UINT_AMOUNT
+    );
+    expect(recoverTypedDataSigner(typedData, { v, r, s })).to.be.eq(delegator.address);
+
+    await waitForTx(
+      await variableDebtDai
+        .connect(delegatee.signer)
+        .delegationWithSig(delegator.address, delegatee.address, amount, MAX_UINT_AMOUNT, v, r, s)
+    );
+    expect(await variableDebtDai.borrowAllowance(delegator.address, delegatee.address)).to.be.eq(
+      amount
+    );
+
+    await waitForTx(
+      await pool
+        .connect(delegatee.signer)
+        .borrow(dai.address, amount, RateMode.Variable, 0, delegator.address)
+    );
+    expect(await variableDebtDai.borrowAllowance(delegator.address, delegatee.address)).to.be.eq(0);
+  });
+});
@@ -161,7 +161,7 @@ makeSuite('EfficiencyMode', (testEnv: TestEnv) => {
     );
 
     const userCategory = await pool.getUserEMode(user0.address);
-    await expect(pool.connect(user0.signer).setUserEMode(0)).to.be.revertedWith(
+    await expect(pool.connect(user0.signer).setUserEMode(0)).to.be.revertedWithProtocolError(
       HEALTH_FACTOR_LOWER_THAN_LIQUIDATION_THRESHOLD
     );
     expect(await pool.getUserEMode(user0.address)).to.be.eq(userCategory);
@@ -182,7 +182,7 @@ makeSuite('EfficiencyMode', (testEnv: TestEnv) => {
       aDai
         .connect(user0.signer)
         .transfer(user3.address, await convertToCurrencyDecimals(dai.address, '10'))
-    ).to.be.revertedWith(HEALTH_FACTOR_LOWER_THAN_LIQUIDATION_THRESHOLD);
+    ).to.be.revertedWithProtocolError(HEALTH_FACTOR_LOWER_THAN_LIQUIDATION_THRESHOLD);
 
     expect(await pool.getUserEMode(user0.address)).to.be.eq(CATEGORIES.STABLECOINS.id);
     expect(await pool.getUserEMode(user3.address)).to.be.eq(0);
@@ -296,7 +296,7 @@ makeSuite('EfficiencyMode', (testEnv: TestEnv) => {
     const userCategory = await pool.getUserEMode(user0.address);
     await expect(
       pool.connect(user0.signer).setUserEMode(CATEGORIES.ETHEREUM.id)
-    ).to.be.revertedWith(INCONSISTENT_EMODE_CATEGORY);
+    ).to.be.revertedWithProtocolError(INCONSISTENT_EMODE_CATEGORY);
     expect(await pool.getUserEMode(user0.address)).to.be.eq(userCategory);
   });
 
@@ -317,7 +317,7 @@ makeSuite('EfficiencyMode', (testEnv: TestEnv) => {
           0,
           user0.address
         )
-    ).to.be.revertedWith(INCONSISTENT_EMODE_CATEGORY);
+    ).to.be.revertedWithProtocolError(INCONSISTENT_EMODE_CATEGORY);
   });
 
   it('User 1 tries to borrow (non-category asset) DAI (revert expected)', async () => {
@@ -337,7 +337,7 @@ makeSuite('EfficiencyMode', (testEnv: TestEnv) => {
           0,
           user1.address
         )
-    ).to.be.revertedWith(INCONSISTENT_EMODE_CATEGORY);
+    ).to.be.revertedWithProtocolError(INCONSISTENT_EMODE_CATEGORY);
   });
 
   it('User 0 repays USDC debt and activates eMode for ethereum category', async () => {
@@ -384,7 +384,7 @@ makeSuite('EfficiencyMode', (testEnv: TestEnv) => {
           0,
           user0.address
         )
-    ).to.be.revertedWith(INCONSISTENT_EMODE_CATEGORY);
+    ).to.be.revertedWithProtocolError(INCONSISTENT_EMODE_CATEGORY);
   });
 
   it('User 0 sends aTokens to user 3', async () => {
@@ -492,7 +492,7 @@ makeSuite('EfficiencyMode', (testEnv: TestEnv) => {
     // Bob borrows 0.01 weth on behalf of Alice (should revert)
     await expect(
       pool.connect(user5.signer).borrow(weth.address, parseUnits('0.01', 18), 2, 0, user4.address)
-    ).to.be.revertedWith(INCONSISTENT_EMODE_CATEGORY);
+    ).to.be.revertedWithProtocolError(INCONSISTENT_EMODE_CATEGORY);
 
     expect(await weth.balanceOf(user5.address)).to.be.eq(
       bobWethBalanceBefore,
@@ -548,7 +548,7 @@ makeSuite('EfficiencyMode', (testEnv: TestEnv) => {
     // Bob borrows 90 usdc on behalf of Alice
     await expect(
       pool.connect(user5.signer).borrow(usdc.address, parseUnits('90', 6), 2, 0, user4.address)
-    ).to.be.revertedWith(COLLATERAL_CANNOT_COVER_NEW_BORROW);
+    ).to.be.revertedWithProtocolError(COLLATERAL_CANNOT_COVER_NEW_BORROW);
 
     // Alice is still in a position where she CANNOT be liquidated
     const user4Data = await pool.getUserAccountData(user4.address);
@@ -576,7 +576,7 @@ makeSuite('EfficiencyMode', (testEnv: TestEnv) => {
         eModeData.priceSource,
         eModeData.label
       )
-    ).to.be.revertedWith(INVALID_EMODE_CATEGORY_PARAMS);
+    ).to.be.revertedWithProtocolError(INVALID_EMODE_CATEGORY_PARAMS);
   });
 
   it('Admin sets Liquidation Threshold of stablecoins eMode category to zero (revert expected)', async () => {
@@ -596,7 +596,7 @@ makeSuite('EfficiencyMode', (testEnv: TestEnv) => {
         eModeData.priceSource,
         eModeData.label
       )
-    ).to.be.revertedWith(INVALID_EMODE_CATEGORY_PARAMS);
+    ).to.be.revertedWithProtocolError(INVALID_EMODE_CATEGORY_PARAMS);
   });
 
   it('Admin lowers LTV of stablecoins eMode category below an asset within the eModes individual LTV (revert expected)', async () => {
@@ -621,7 +621,7 @@ makeSuite('EfficiencyMode', (testEnv: TestEnv) => {
         eModeData.priceSource,
         eModeData.label
       )
-    ).to.be.revertedWith(INVALID_EMODE_CATEGORY_PARAMS);
+    ).to.be.revertedWithProtocolError(INVALID_EMODE_CATEGORY_PARAMS);
   });
 
   it('Admin lowers LTV of stablecoins eMode category, decreasing user borrowing power', async () => {
@@ -700,7 +700,7 @@ makeSuite('EfficiencyMode', (testEnv: TestEnv) => {
         eModeData.priceSource,
         eModeData.label
       )
-    ).to.be.revertedWith(INVALID_EMODE_CATEGORY_PARAMS);
+    ).to.be.revertedWithProtocolError(INVALID_EMODE_CATEGORY_PARAMS);
   });
 
   it('Admin lowers LT of stablecoins eMode category, decreasing user health factor', async () => {
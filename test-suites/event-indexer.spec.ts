@@ -0,0 +1,187 @@
+import { expect } from 'chai';
+import { utils } from 'ethers';
+import { evmRevert, evmSnapshot, waitForTx } from '@aave/deploy-v3';
+import { MAX_UINT_AMOUNT } from '../helpers/constants';
+import { createEventIndexer } from '../helpers/event-indexer';
+import { RateMode } from '../helpers/types';
+import { mintAndSupply } from './helpers/actions';
+import { makeSuite, TestEnv } from './helpers/make-suite';
+
+makeSuite('In-process event indexer', (testEnv: TestEnv) => {
+  let snapId: string;
+
+  beforeEach(async () => {
+    snapId = await evmSnapshot();
+  });
+  afterEach(async () => {
+    await evmRevert(snapId);
+  });
+
+  it('Indexes the reserves, their configuration and the roles of the deployment', async () => {
+    const { addressesProvider, helpersContract, aclManager, dai, aDai, stableDebtDai, riskAdmin } =
+      testEnv;
+
+    const indexer = createEventIndexer(addressesProvider);
+    await indexer.sync();
+
+    const reserve = indexer.getReserve(dai.address);
+    const config = await helpersContract.getReserveConfigurationData(dai.address);
+    expect(reserve).to.deep.include({
+      aTokenAddress: aDai.address,
+      stableDebtTokenAddress: stableDebtDai.address,
+      isActive: true,
+      isFrozen: false,
+      isPaused: false,
+      borrowingEnabled: config.borrowingEnabled,
+    });
+    expect(reserve?.ltv).to.be.eq(config.ltv);
+    expect(reserve?.liquidationThreshold).to.be.eq(config.liquidationThreshold);
+    expect(reserve?.reserveFactor).to.be.eq(config.reserveFactor);
+    expect(indexer.state.roles[await aclManager.RISK_ADMIN_ROLE()]).to.include(riskAdmin.address);
+    expect(indexer.getEvents('PoolConfigurator.ReserveInitialized').length).to.be.eq(
+      Object.keys(indexer.state.reserves).length
+    );
+  });
+
+  it('Indexes supplies and borrows into users and reserves', async () => {
+    const { addressesProvider, pool, dai, weth, aDai, users } = testEnv;
+    // Starts after the previous suites, so the users hold no position yet
+    const indexer = createEventIndexer(addressesProvider, {
+      fromBlock: (await addressesProvider.provider.getBlock('latest')).number + 1,
+    });
+
+    const daiSupplied = await mintAndSupply(testEnv, 0, 'dai', '1000');
+    const wethSupplied = await mintAndSupply(testEnv, 1, 'weth', '1');
+    const daiBorrowed = utils.parseUnits('100', 18);
+    await waitForTx(
+      await pool
+        .connect(users[1].signer)
+        .borrow(dai.address, daiBorrowed, RateMode.Variable, '0', users[1].address)
+    );
+
+    const events = await indexer.sync();
+    expect(events.map(({ key }) => key)).to.include.members([
+      'Pool.Supply',
+      'Pool.Borrow',
+      'Pool.ReserveUsedAsCollateralEnabled',
+      'AToken.Mint',
+      'VariableDebtToken.Mint',
+    ]);
+
+    const [daiSupply] = indexer.getEvents('Pool.Supply');
+    expect(daiSupply.args.onBehalfOf).to.be.eq(users[0].address);
+    expect(daiSupply.args.amount).to.be.eq(daiSupplied);
+    const [aTokenMint] = indexer.getEvents('AToken.Mint');
+    expect(aTokenMint.address).to.be.eq(aDai.address);
+    expect(aTokenMint.asset).to.be.eq(dai.address);
+    expect(aTokenMint.args.onBehalfOf).to.be.eq(users[0].address);
+    expect(aTokenMint.args.value.sub(aTokenMint.args.balanceIncrease)).to.be.eq(daiSupplied);
+
+    expect(indexer.getUser(users[0].address)?.reserves[dai.address]).to.deep.include({
+      usageAsCollateralEnabled: true,
+    });
+    expect(indexer.getUser(users[0].address)?.reserves[dai.address].supplied).to.be.eq(daiSupplied);
+    const borrower = indexer.getUser(users[1].address);
+    expect(borrower?.reserves[weth.address].supplied).to.be.eq(wethSupplied);
+    expect(borrower?.reserves[dai.address].borrowed).to.be.eq(daiBorrowed);
+
+    const reserveData = await pool.getReserveData(dai.address);
+    expect(indexer.getReserve(dai.address)?.liquidityIndex).to.be.eq(reserveData.liquidityIndex);
+    expect(indexer.getReserve(dai.address)?.variableBorrowRate).to.be.eq(
+      reserveData.currentVariableBorrowRate
+    );
+  });
+
+  it('Follows configuration changes', async () => {
+    const { addressesProvider, configurator, dai } = testEnv;
+    const indexer = createEventIndexer(addressesProvider);
+    await indexer.sync();
+
+    await waitForTx(await configurator.setReserveFactor(dai.address, '2000'));
+    await waitForTx(await configurator.setReserveFreeze(dai.address, true));
+    await indexer.sync();
+
+    expect(indexer.getReserve(dai.address)?.reserveFactor).to.be.eq(2000);
+    expect(indexer.getReserve(dai.address)?.isFrozen).to.be.true;
+  });
+
+  it('Counts the amounts of a forced liquidation once', async () => {
+    const { addressesProvider, pool, configurator, poolAdmin, usdc, weth, users } = testEnv;
+    const [borrower, liquidator, supplier] = users;
+    const indexer = createEventIndexer(addressesProvider, {
+      fromBlock: (await addressesProvider.provider.getBlock('latest')).number + 1,
+    });
+
+    const usdcSupplied = utils.parseUnits('10000', 6);
+    await waitForTx(
+      await usdc.connect(supplier.signer)['mint(address,uint256)'](supplier.address, usdcSupplied)
+    );
+    await waitForTx(await usdc.connect(supplier.signer).approve(pool.address, MAX_UINT_AMOUNT));
+    await waitForTx(
+      await pool.connect(supplier.signer).supply(usdc.address, usdcSupplied, supplier.address, '0')
+    );
+    await mintAndSupply(testEnv, 0, 'weth', '10');
+    await waitForTx(
+      await pool
+        .connect(borrower.signer)
+        .borrow(usdc.address, utils.parseUnits('5000', 6), RateMode.Variable, '0', borrower.address)
+    );
+
+    await waitForTx(
+      await configurator.connect(poolAdmin.signer).setReserveFreeze(usdc.address, true)
+    );
+    await waitForTx(
+      await configurator.connect(poolAdmin.signer).setForcedLiquidationEnabled(usdc.address, true)
+    );
+    await waitForTx(
+      await configurator
+        .connect(poolAdmin.signer)
+        .addToForcedLiquidationWhitelist(liquidator.address)
+    );
+    const debtToCover = utils.parseUnits('1000', 6);
+    await waitForTx(
+      await usdc
+        .connect(liquidator.signer)
+        ['mint(address,uint256)'](liquidator.address, debtToCover)
+    );
+    await waitForTx(await usdc.connect(liquidator.signer).approve(pool.address, MAX_UINT_AMOUNT));
+    await waitForTx(
+      await pool
+        .connect(liquidator.signer)
+        .liquidationCall(weth.address, usdc.address, borrower.address, debtToCover, false)
+    );
+
+    await indexer.sync();
+    const [forcedLiquidation] = indexer.getEvents('Pool.ForcedLiquidationCall');
+    const [liquidation] = indexer.getEvents('Pool.LiquidationCall');
+    expect(forcedLiquidation.transactionHash).to.be.eq(liquidation.transactionHash);
+    expect(liquidation.args.debtToCover).to.be.eq(debtToCover);
+
+    const user = indexer.getUser(borrower.address);
+    expect(user?.forcedLiquidations).to.be.eq(1);
+    expect(user?.reserves[usdc.address].liquidatedDebt).to.be.eq(debtToCover);
+    expect(user?.reserves[weth.address].liquidatedCollateral).to.be.eq(
+      liquidation.args.liquidatedCollateralAmount
+    );
+  });
+
+  it('Resumes from a block', async () => {
+    const { addressesProvider, dai, users } = testEnv;
+
+    await mintAndSupply(testEnv, 0, 'dai', '1000');
+    const fromBlock = (await addressesProvider.provider.getBlock('latest')).number + 1;
+    const daiSupplied = await mintAndSupply(testEnv, 1, 'dai', '500');
+
+    const indexer = createEventIndexer(addressesProvider, { fromBlock });
+    const events = await indexer.sync();
+    expect(events.every(({ blockNumber }) => blockNumber >= fromBlock)).to.be.true;
+    expect(indexer.getUser(users[0].address)).to.be.undefined;
+    expect(indexer.getUser(users[1].address)?.reserves[dai.address].supplied).to.be.eq(daiSupplied);
+    // Tokens of the reserves listed before `fromBlock` are still decoded
+    expect(indexer.getEvents('AToken.Mint').map(({ asset }) => asset)).to.include(dai.address);
+
+    const lastIndexedBlock = indexer.state.lastIndexedBlock;
+    expect(await indexer.sync()).to.be.empty;
+    expect(indexer.state.lastIndexedBlock).to.be.eq(lastIndexedBlock);
+  });
+});
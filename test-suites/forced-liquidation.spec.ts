@@ -7,6 +7,12 @@ import { VariableDebtToken__factory, AToken__factory } from '@aave/deploy-v3';
 import { makeSuite, TestEnv, initializeMakeSuite } from './helpers/make-suite';
 import { ProtocolErrors, RateMode } from '../helpers/types';
 import { evmSnapshot, evmRevert, waitForTx } from '@aave/deploy-v3';
+import {
+  getLiquidationQuoteParams,
+  MAX_LIQUIDATION_CLOSE_FACTOR,
+  quoteLiquidationCall,
+} from '../helpers/liquidation-quote';
+import { getLiquidationQuoteOfBlock } from './helpers/utils/helpers';
 
 makeSuite('Pool Forced Liquidation', (testEnv: TestEnv) => {
   let snap: string;
@@ -88,7 +94,7 @@ makeSuite('Pool Forced Liquidation', (testEnv: TestEnv) => {
     // Attempt to unfreeze the reserve while forced liquidation is enabled - should revert
     await expect(
       configurator.connect(poolAdmin.signer).setReserveFreeze(usdc.address, false)
-    ).to.be.revertedWith('80'); // OPERATION_NOT_SUPPORTED
+    ).to.be.revertedWithProtocolError(ProtocolErrors.OPERATION_NOT_SUPPORTED);
   });
 
   it('Enable forced liquidation on not frozen reserve will be reverted', async () => {
@@ -97,7 +103,7 @@ makeSuite('Pool Forced Liquidation', (testEnv: TestEnv) => {
     // Attempt to enable forced liquidation on non-frozen reserve - should revert
     await expect(
       configurator.connect(poolAdmin.signer).setForcedLiquidationEnabled(usdc.address, true)
-    ).to.be.revertedWith('80'); // OPERATION_NOT_SUPPORTED
+    ).to.be.revertedWithProtocolError(ProtocolErrors.OPERATION_NOT_SUPPORTED);
   });
 
   it('Manage forced liquidation whitelist', async () => {
@@ -125,12 +131,12 @@ makeSuite('Pool Forced Liquidation', (testEnv: TestEnv) => {
     // Attempt to enable forced liquidation on non-frozen reserve - should revert
     await expect(
       configurator.connect(poolAdmin.signer).setForcedLiquidationEnabled(usdc.address, true)
-    ).to.be.revertedWith('80');
+    ).to.be.revertedWithProtocolError(ProtocolErrors.OPERATION_NOT_SUPPORTED);
 
     // Attempt to disable forced liquidation on non-frozen reserve - should also revert
     await expect(
       configurator.connect(poolAdmin.signer).setForcedLiquidationEnabled(usdc.address, false)
-    ).to.be.revertedWith('80');
+    ).to.be.revertedWithProtocolError(ProtocolErrors.OPERATION_NOT_SUPPORTED);
   });
 
   it('Forced liquidation with health factor above threshold', async () => {
@@ -236,6 +242,36 @@ makeSuite('Pool Forced Liquidation', (testEnv: TestEnv) => {
 
     // Verify ForcedLiquidationCall event was emitted
     await expect(liquidationTx).to.emit(pool, 'ForcedLiquidationCall');
+
+    // Verify the quote uses the max close factor despite the health factor above 1
+    const quote = await getLiquidationQuoteOfBlock(
+      pool,
+      liquidator.address,
+      user.address,
+      weth.address,
+      usdc.address,
+      MAX_UINT_AMOUNT,
+      false,
+      (
+        await liquidationTx.wait()
+      ).blockNumber
+    );
+    expect(quote.isForcedLiquidation).to.be.eq(true);
+    expect(quote.healthFactor).to.be.gt(oneEther);
+    expect(quote.closeFactor).to.be.eq(MAX_LIQUIDATION_CLOSE_FACTOR);
+    expect(quote.isDebtFullyRepaid).to.be.eq(true);
+    expect(quote.collateralToLiquidate).to.be.eq(collateralLiquidated);
+    await expect(liquidationTx)
+      .to.emit(pool, 'LiquidationCall')
+      .withArgs(
+        weth.address,
+        usdc.address,
+        user.address,
+        quote.debtToCover,
+        quote.collateralToLiquidate,
+        liquidator.address,
+        false
+      );
   });
 
   it('Partial forced liquidation with health factor above threshold', async () => {
@@ -338,6 +374,23 @@ makeSuite('Pool Forced Liquidation', (testEnv: TestEnv) => {
       .div(10000);
 
     expect(collateralLiquidated).to.be.closeTo(expectedCollateral, expectedCollateral.div(1000)); // 0.1% tolerance
+
+    const quote = await getLiquidationQuoteOfBlock(
+      pool,
+      liquidator.address,
+      user.address,
+      weth.address,
+      usdc.address,
+      debtToCover,
+      false,
+      (
+        await liquidationTx.wait()
+      ).blockNumber
+    );
+    expect(quote.closeFactor).to.be.eq(MAX_LIQUIDATION_CLOSE_FACTOR);
+    expect(quote.debtToCover).to.be.eq(debtToCover);
+    expect(quote.isDebtFullyRepaid).to.be.eq(false);
+    expect(quote.collateralToLiquidate).to.be.eq(collateralLiquidated);
   });
 
   it('Forced liquidation fails without whitelist', async () => {
@@ -365,12 +418,26 @@ makeSuite('Pool Forced Liquidation', (testEnv: TestEnv) => {
       await configurator.connect(poolAdmin.signer).setForcedLiquidationEnabled(usdc.address, true)
     );
 
+    // The quote fails the same way
+    const quoteParams = await getLiquidationQuoteParams(
+      pool,
+      liquidator.address,
+      user.address,
+      weth.address,
+      usdc.address,
+      MAX_UINT_AMOUNT,
+      false
+    );
+    expect(() => quoteLiquidationCall(quoteParams)).to.throw(
+      ProtocolErrors.FORCED_LIQUIDATION_CALLER_NOT_AUTHORIZED
+    );
+
     // Attempt liquidation without whitelist - should fail
     await expect(
       pool
         .connect(liquidator.signer)
         .liquidationCall(weth.address, usdc.address, user.address, MAX_UINT_AMOUNT, false)
-    ).to.be.revertedWith('128'); // FORCED_LIQUIDATION_CALLER_NOT_AUTHORIZED
+    ).to.be.revertedWithProtocolError(ProtocolErrors.FORCED_LIQUIDATION_CALLER_NOT_AUTHORIZED);
   });
 
   it('Forced liquidation fails when not enabled', async () => {
@@ -409,12 +476,26 @@ makeSuite('Pool Forced Liquidation', (testEnv: TestEnv) => {
       ['mint(address,uint256)'](liquidator.address, liquidateAmount);
     await usdc.connect(liquidator.signer).approve(pool.address, MAX_UINT_AMOUNT);
 
+    // The quote fails the same way
+    const quoteParams = await getLiquidationQuoteParams(
+      pool,
+      liquidator.address,
+      user.address,
+      weth.address,
+      usdc.address,
+      liquidateAmount,
+      false
+    );
+    expect(() => quoteLiquidationCall(quoteParams)).to.throw(
+      ProtocolErrors.HEALTH_FACTOR_NOT_BELOW_THRESHOLD
+    );
+
     // Attempt liquidation - should fail with normal health factor check
     await expect(
       pool
         .connect(liquidator.signer)
         .liquidationCall(weth.address, usdc.address, user.address, liquidateAmount, false)
-    ).to.be.revertedWith('45'); // HEALTH_FACTOR_NOT_BELOW_THRESHOLD
+    ).to.be.revertedWithProtocolError(ProtocolErrors.HEALTH_FACTOR_NOT_BELOW_THRESHOLD);
   });
 
   it('Forced liquidation still allows user to liquidate own position', async () => {
@@ -1,38 +1,73 @@
 import {
+  calcExpectedCollateralReserveDataAfterLiquidation,
+  calcExpectedCollateralUserDataAfterLiquidation,
+  calcExpectedDebtReserveDataAfterLiquidation,
+  calcExpectedDebtUserDataAfterLiquidation,
+  calcExpectedIsolationModeTotalDebtAfterBorrow,
+  calcExpectedIsolationModeTotalDebtAfterRepay,
+  calcExpectedLiquidatorDataAfterLiquidation,
   calcExpectedReserveDataAfterBorrow,
   calcExpectedReserveDataAfterDeposit,
+  calcExpectedReserveDataAfterBackUnbacked,
+  calcExpectedReserveDataAfterFlashLoan,
+  calcExpectedReserveDataAfterMintUnbacked,
   calcExpectedReserveDataAfterRepay,
   calcExpectedReserveDataAfterStableRateRebalance,
   calcExpectedReserveDataAfterSwapRateMode,
   calcExpectedReserveDataAfterWithdraw,
+  calcExpectedReserveNormalizedIncome,
   calcExpectedUserDataAfterBorrow,
   calcExpectedUserDataAfterDeposit,
+  calcExpectedUserDataAfterFlashLoanBorrow,
+  calcExpectedUserDataAfterMintUnbacked,
   calcExpectedUserDataAfterRepay,
   calcExpectedUserDataAfterSetUseAsCollateral,
   calcExpectedUserDataAfterStableRateRebalance,
   calcExpectedUserDataAfterSwapRateMode,
   calcExpectedUserDataAfterWithdraw,
+  calcExpectedUserAccountDataAfterSetUserEMode,
 } from './utils/calculations';
-import { getReserveData, getUserData } from './utils/helpers';
+import {
+  getAutomaticUseAsCollateral,
+  getLiquidationQuoteOfBlock,
+  getReserveData,
+  getUserData,
+} from './utils/helpers';
+import { getAccountDataParams } from '../../helpers/account-data';
+import { getUserConfigurationState } from '../../helpers/user-configuration';
 import { buildPermitParams, getSignatureFromTypedData } from '../../helpers/contracts-helpers';
 
 import { convertToCurrencyDecimals } from '../../helpers/contracts-helpers';
 import {
   getAToken,
   getMintableERC20,
+  getMockFlashLoanReceiver,
   getStableDebtToken,
   getVariableDebtToken,
   getTestnetReserveAddressFromSymbol,
 } from '@aave/deploy-v3/dist/helpers/contract-getters';
-import { MAX_UINT_AMOUNT, ONE_YEAR } from '../../helpers/constants';
+import {
+  MAX_UINT_AMOUNT,
+  ONE_YEAR,
+  PERCENTAGE_FACTOR,
+  ZERO_ADDRESS,
+} from '../../helpers/constants';
 import { SignerWithAddress, TestEnv } from './make-suite';
 import chai from 'chai';
+import './utils/protocol-errors-matcher';
 import { ReserveData, UserReserveData } from './utils/interfaces';
-import { ContractReceipt, Wallet } from 'ethers';
+import { Contract, ContractReceipt, Wallet } from 'ethers';
+import { hexValue, isAddress, parseUnits } from 'ethers/lib/utils';
 import { AToken } from '../../types/AToken';
+import { findProtocolError } from '../../helpers/protocol-errors';
 import { RateMode, tEthereumAddress } from '../../helpers/types';
-import { MintableERC20__factory } from '../../types';
-import { waitForTx, advanceTimeAndBlock } from '@aave/deploy-v3';
+import { MintableERC20__factory, MockFlashLoanSimpleReceiver__factory } from '../../types';
+import {
+  waitForTx,
+  advanceBlock,
+  advanceTimeAndBlock,
+  deployMockAggregator,
+} from '@aave/deploy-v3';
 import { getChainId } from 'hardhat';
 import { timeLatest } from '../../helpers/misc-utils';
 import { HardhatRuntimeEnvironment } from 'hardhat/types';
@@ -53,6 +88,7 @@ const almostEqualOrEqual = function (
     if (
       key === 'lastUpdateTimestamp' ||
       key === 'marketStableRate' ||
+      key === 'strategy' ||
       key === 'symbol' ||
       key === 'aTokenAddress' ||
       key === 'decimals' ||
@@ -118,6 +154,21 @@ interface ActionsConfig {
 
 export const configuration: ActionsConfig = <ActionsConfig>{};
 
+/**
+ * Expects a call to revert, with the `ProtocolErrors` member matching the revert message if any. Messages
+ * that match no member only label the assertion
+ * @param tx The call or the transaction
+ * @param revertMessage The code or the description of the expected error, if any
+ */
+const expectReverted = async (tx: Promise<any>, revertMessage?: string) => {
+  const protocolError = revertMessage && findProtocolError(revertMessage);
+  if (protocolError) {
+    await expect(tx, revertMessage).to.be.revertedWithProtocolError(protocolError);
+  } else {
+    await expect(tx, revertMessage).to.be.reverted;
+  }
+};
+
 export const mint = async (reserveSymbol: string, amount: string, user: SignerWithAddress) => {
   const reserve = await getTestnetReserveAddressFromSymbol(reserveSymbol);
 
@@ -151,7 +202,7 @@ export const deposit = async (
   testEnv: TestEnv,
   revertMessage?: string
 ) => {
-  const { pool } = testEnv;
+  const { pool, aclManager } = testEnv;
 
   const reserve = await getTestnetReserveAddressFromSymbol(reserveSymbol);
 
@@ -171,6 +222,14 @@ export const deposit = async (
   }
 
   if (expectedResult === 'success') {
+    const enablesAsCollateral = await getAutomaticUseAsCollateral(
+      pool,
+      aclManager,
+      reserve,
+      onBehalfOf,
+      sender.address
+    );
+
     const txResult = await waitForTx(
       await pool
         .connect(sender.signer)
@@ -198,7 +257,8 @@ export const deposit = async (
       userDataBefore,
       txTimestamp,
       timestamp,
-      txCost
+      txCost,
+      enablesAsCollateral
     );
 
     expectEqual(reserveDataAfter, expectedReserveData);
@@ -213,10 +273,10 @@ export const deposit = async (
     //   );
     // });
   } else if (expectedResult === 'revert') {
-    await expect(
+    await expectReverted(
       pool.connect(sender.signer).deposit(reserve, amountToDeposit, onBehalfOf, '0', txOptions),
       revertMessage
-    ).to.be.reverted;
+    );
   }
 };
 
@@ -285,10 +345,10 @@ export const withdraw = async (
     //   );
     // });
   } else if (expectedResult === 'revert') {
-    await expect(
+    await expectReverted(
       pool.connect(user.signer).withdraw(reserve, amountToWithdraw, user.address),
       revertMessage
-    ).to.be.reverted;
+    );
   }
 };
 
@@ -364,6 +424,8 @@ export const borrow = async (
 
   const borrowAllowanceBefore = await debtToken.borrowAllowance(onBehalfOf, user.address);
 
+  const isolationModeDataBefore = await getIsolationModeData(onBehalfOf, testEnv);
+
   const amountToBorrow = await convertToCurrencyDecimals(reserve, amount);
 
   const tx = pool
@@ -409,6 +471,18 @@ export const borrow = async (
     expectEqual(reserveDataAfter, expectedReserveData);
     expectEqual(userDataAfter, expectedUserData);
 
+    if (isolationModeDataBefore) {
+      const { isolatedAsset, isolationModeTotalDebt } = isolationModeDataBefore;
+      expect((await pool.getReserveData(isolatedAsset)).isolationModeTotalDebt).to.be.eq(
+        calcExpectedIsolationModeTotalDebtAfterBorrow(
+          amountToBorrow,
+          reserveDataBefore.decimals,
+          isolationModeTotalDebt
+        ),
+        'Invalid isolation mode total debt'
+      );
+    }
+
     if (user.address !== onBehalfOf) {
       const borrowAllowanceAfter = await debtToken.borrowAllowance(onBehalfOf, user.address);
       expect(borrowAllowanceAfter).to.be.equal(
@@ -438,7 +512,7 @@ export const borrow = async (
     //   );
     // });
   } else if (expectedResult === 'revert') {
-    await expect(tx, revertMessage).to.be.reverted;
+    await expectReverted(tx, revertMessage);
   }
 };
 
@@ -462,6 +536,7 @@ export const repay = async (
     onBehalfOf.address,
     testEnv
   );
+  const isolationModeDataBefore = await getIsolationModeData(onBehalfOf.address, testEnv);
 
   let amountToRepay = '0';
 
@@ -523,6 +598,19 @@ export const repay = async (
     expectEqual(reserveDataAfter, expectedReserveData);
     expectEqual(userDataAfter, expectedUserData);
 
+    if (isolationModeDataBefore) {
+      const { isolatedAsset, isolationModeTotalDebt } = isolationModeDataBefore;
+      const repayEvent = (txResult.events || []).find(({ event }) => event === 'Repay');
+      expect((await pool.getReserveData(isolatedAsset)).isolationModeTotalDebt).to.be.eq(
+        calcExpectedIsolationModeTotalDebtAfterRepay(
+          repayEvent?.args?.amount,
+          reserveDataBefore.decimals,
+          isolationModeTotalDebt
+        ),
+        'Invalid isolation mode total debt'
+      );
+    }
+
     // truffleAssert.eventEmitted(txResult, "Repay", (ev: any) => {
     //   const {_reserve, _user, _repayer} = ev;
 
@@ -533,12 +621,12 @@ export const repay = async (
     //   );
     // });
   } else if (expectedResult === 'revert') {
-    await expect(
+    await expectReverted(
       pool
         .connect(user.signer)
         .repay(reserve, amountToRepay, rateMode, onBehalfOf.address, txOptions),
       revertMessage
-    ).to.be.reverted;
+    );
   }
 };
 
@@ -554,7 +642,7 @@ export const supplyWithPermit = async (
   testEnv: TestEnv,
   revertMessage?: string
 ) => {
-  const { pool } = testEnv;
+  const { pool, aclManager } = testEnv;
 
   const reserve = await getTestnetReserveAddressFromSymbol(reserveSymbol);
   const amountToDeposit = await convertToCurrencyDecimals(reserve, amount);
@@ -591,6 +679,14 @@ export const supplyWithPermit = async (
   }
 
   if (expectedResult === 'success') {
+    const enablesAsCollateral = await getAutomaticUseAsCollateral(
+      pool,
+      aclManager,
+      reserve,
+      onBehalfOf,
+      sender.address
+    );
+
     const txResult = await waitForTx(
       await pool
         .connect(sender.signer)
@@ -628,7 +724,8 @@ export const supplyWithPermit = async (
       userDataBefore,
       txTimestamp,
       timestamp,
-      txCost
+      txCost,
+      enablesAsCollateral
     );
 
     expectEqual(reserveDataAfter, expectedReserveData);
@@ -643,7 +740,7 @@ export const supplyWithPermit = async (
     //   );
     // });
   } else if (expectedResult === 'revert') {
-    await expect(
+    await expectReverted(
       pool
         .connect(sender.signer)
         .supplyWithPermit(
@@ -658,7 +755,7 @@ export const supplyWithPermit = async (
           txOptions
         ),
       revertMessage
-    ).to.be.reverted;
+    );
   }
 };
 
@@ -683,6 +780,7 @@ export const repayWithPermit = async (
     onBehalfOf.address,
     testEnv
   );
+  const isolationModeDataBefore = await getIsolationModeData(onBehalfOf.address, testEnv);
 
   let amountToRepay = '0';
 
@@ -765,6 +863,19 @@ export const repayWithPermit = async (
     expectEqual(reserveDataAfter, expectedReserveData);
     expectEqual(userDataAfter, expectedUserData);
 
+    if (isolationModeDataBefore) {
+      const { isolatedAsset, isolationModeTotalDebt } = isolationModeDataBefore;
+      const repayEvent = (txResult.events || []).find(({ event }) => event === 'Repay');
+      expect((await pool.getReserveData(isolatedAsset)).isolationModeTotalDebt).to.be.eq(
+        calcExpectedIsolationModeTotalDebtAfterRepay(
+          repayEvent?.args?.amount,
+          reserveDataBefore.decimals,
+          isolationModeTotalDebt
+        ),
+        'Invalid isolation mode total debt'
+      );
+    }
+
     // truffleAssert.eventEmitted(txResult, "Repay", (ev: any) => {
     //   const {_reserve, _user, _repayer} = ev;
 
@@ -775,7 +886,7 @@ export const repayWithPermit = async (
     //   );
     // });
   } else if (expectedResult === 'revert') {
-    await expect(
+    await expectReverted(
       pool
         .connect(user.signer)
         .repayWithPermit(
@@ -790,7 +901,7 @@ export const repayWithPermit = async (
           txOptions
         ),
       revertMessage
-    ).to.be.reverted;
+    );
   }
 };
 
@@ -843,10 +954,10 @@ export const setUseAsCollateral = async (
     //   });
     // }
   } else if (expectedResult === 'revert') {
-    await expect(
+    await expectReverted(
       pool.connect(user.signer).setUserUseReserveAsCollateral(reserve, useAsCollateralBool),
       revertMessage
-    ).to.be.reverted;
+    );
   }
 };
 
@@ -910,8 +1021,10 @@ export const swapBorrowRateMode = async (
     //   );
     // });
   } else if (expectedResult === 'revert') {
-    await expect(pool.connect(user.signer).swapBorrowRateMode(reserve, rateMode), revertMessage).to
-      .be.reverted;
+    await expectReverted(
+      pool.connect(user.signer).swapBorrowRateMode(reserve, rateMode),
+      revertMessage
+    );
   }
 };
 
@@ -972,13 +1085,757 @@ export const rebalanceStableBorrowRate = async (
     //   );
     // });
   } else if (expectedResult === 'revert') {
-    await expect(
+    await expectReverted(
       pool.connect(user.signer).rebalanceStableBorrowRate(reserve, target.address),
       revertMessage
-    ).to.be.reverted;
+    );
   }
 };
 
+export const liquidationCall = async (
+  collateralSymbol: string,
+  debtSymbol: string,
+  liquidator: SignerWithAddress,
+  user: SignerWithAddress,
+  amount: string,
+  receiveAToken: string,
+  expectedResult: string,
+  testEnv: TestEnv,
+  revertMessage?: string
+) => {
+  const { pool } = testEnv;
+
+  const collateralReserve = await getTestnetReserveAddressFromSymbol(collateralSymbol);
+  const debtReserve = await getTestnetReserveAddressFromSymbol(debtSymbol);
+
+  const receiveATokenBool = receiveAToken.toLowerCase() === 'true';
+
+  let amountToLiquidate = '0';
+
+  if (amount !== '-1') {
+    amountToLiquidate = (await convertToCurrencyDecimals(debtReserve, amount)).toString();
+  } else {
+    amountToLiquidate = MAX_UINT_AMOUNT;
+  }
+
+  if (expectedResult === 'success') {
+    // The debt is repaid from the wallet of the liquidator
+    const { reserveData: debtReserveDataBefore, userData: debtUserDataBefore } =
+      await getContractsData(debtReserve, user.address, testEnv, liquidator.address);
+    const { reserveData: collateralReserveDataBefore, userData: collateralUserDataBefore } =
+      await getContractsData(collateralReserve, user.address, testEnv);
+    const { userData: liquidatorDataBefore } = await getContractsData(
+      collateralReserve,
+      liquidator.address,
+      testEnv
+    );
+    const collateralAToken = await getAToken(collateralReserveDataBefore.aTokenAddress);
+    const treasury = await collateralAToken.RESERVE_TREASURY_ADDRESS();
+    const treasuryScaledBalanceBefore = await collateralAToken.scaledBalanceOf(treasury);
+
+    const txResult = await waitForTx(
+      await pool
+        .connect(liquidator.signer)
+        .liquidationCall(
+          collateralReserve,
+          debtReserve,
+          user.address,
+          amountToLiquidate,
+          receiveATokenBool
+        )
+    );
+
+    const { txTimestamp } = await getTxCostAndTimestamp(txResult);
+
+    // Amounts liquidated, including the close factor of forced liquidations and the capped protocol fee
+    const { debtToCover, collateralToLiquidate, liquidationProtocolFee, isForcedLiquidation } =
+      await getLiquidationQuoteOfBlock(
+        pool,
+        liquidator.address,
+        user.address,
+        collateralReserve,
+        debtReserve,
+        amountToLiquidate,
+        receiveATokenBool,
+        txResult.blockNumber
+      );
+
+    const { reserveData: debtReserveDataAfter, userData: debtUserDataAfter } =
+      await getContractsData(debtReserve, user.address, testEnv, liquidator.address);
+    const { reserveData: collateralReserveDataAfter, userData: collateralUserDataAfter } =
+      await getContractsData(collateralReserve, user.address, testEnv);
+    const { userData: liquidatorDataAfter } = await getContractsData(
+      collateralReserve,
+      liquidator.address,
+      testEnv
+    );
+
+    const expectedDebtReserveData = calcExpectedDebtReserveDataAfterLiquidation(
+      debtToCover,
+      debtReserveDataBefore,
+      debtUserDataBefore,
+      txTimestamp
+    );
+    const expectedCollateralReserveData = calcExpectedCollateralReserveDataAfterLiquidation(
+      collateralToLiquidate,
+      receiveATokenBool,
+      collateralReserveDataBefore,
+      collateralUserDataBefore,
+      txTimestamp
+    );
+
+    const expectedDebtUserData = calcExpectedDebtUserDataAfterLiquidation(
+      debtToCover,
+      debtReserveDataBefore,
+      expectedDebtReserveData,
+      debtUserDataBefore,
+      txTimestamp
+    );
+    const expectedCollateralUserData = calcExpectedCollateralUserDataAfterLiquidation(
+      collateralToLiquidate,
+      liquidationProtocolFee,
+      collateralReserveDataBefore,
+      expectedCollateralReserveData,
+      collateralUserDataBefore,
+      txTimestamp
+    );
+    const expectedLiquidatorData = calcExpectedLiquidatorDataAfterLiquidation(
+      collateralToLiquidate,
+      receiveATokenBool,
+      collateralReserveDataBefore,
+      expectedCollateralReserveData,
+      liquidatorDataBefore,
+      txTimestamp
+    );
+
+    expectEqual(debtReserveDataAfter, expectedDebtReserveData);
+    expectEqual(collateralReserveDataAfter, expectedCollateralReserveData);
+    expectEqual(debtUserDataAfter, expectedDebtUserData);
+    expectEqual(collateralUserDataAfter, expectedCollateralUserData);
+    expectEqual(liquidatorDataAfter, expectedLiquidatorData);
+
+    expect(await collateralAToken.scaledBalanceOf(treasury)).to.be.eq(
+      treasuryScaledBalanceBefore.add(
+        liquidationProtocolFee.rayDiv(
+          calcExpectedReserveNormalizedIncome(collateralReserveDataBefore, txTimestamp)
+        )
+      ),
+      'Invalid liquidation protocol fee transferred to the treasury'
+    );
+
+    const events = (txResult.events || []).map(({ event }) => event);
+    expect(events).to.include('LiquidationCall');
+    expect(events.includes('ForcedLiquidationCall')).to.be.eq(
+      isForcedLiquidation,
+      'ForcedLiquidationCall must be emitted only by forced liquidations'
+    );
+  } else if (expectedResult === 'revert') {
+    await expectReverted(
+      pool
+        .connect(liquidator.signer)
+        .liquidationCall(
+          collateralReserve,
+          debtReserve,
+          user.address,
+          amountToLiquidate,
+          receiveATokenBool
+        ),
+      revertMessage
+    );
+  }
+};
+
+export const setUserEMode = async (
+  categoryId: string,
+  user: SignerWithAddress,
+  expectedResult: string,
+  testEnv: TestEnv,
+  revertMessage?: string
+) => {
+  const { pool, aaveOracle } = testEnv;
+
+  if (expectedResult === 'success') {
+    const txResult = await waitForTx(await pool.connect(user.signer).setUserEMode(categoryId));
+
+    const { txTimestamp } = await getTxCostAndTimestamp(txResult);
+
+    const accountDataParamsBefore = await getAccountDataParams(
+      pool,
+      user.address,
+      txResult.blockNumber - 1
+    );
+    const { ltv, liquidationThreshold, liquidationBonus, priceSource } =
+      await pool.getEModeCategoryData(categoryId);
+    if (priceSource !== ZERO_ADDRESS) {
+      accountDataParamsBefore.prices[priceSource] = await aaveOracle.getAssetPrice(priceSource);
+    }
+
+    const expectedAccountData = calcExpectedUserAccountDataAfterSetUserEMode(
+      accountDataParamsBefore,
+      BigNumber.from(categoryId),
+      { ltv, liquidationThreshold, liquidationBonus, priceSource },
+      txTimestamp
+    );
+    const accountData = await pool.getUserAccountData(user.address, {
+      blockTag: txResult.blockNumber,
+    });
+
+    expect(await pool.getUserEMode(user.address)).to.be.eq(categoryId, 'Invalid user eMode');
+    expect(accountData.totalCollateralBase).to.be.eq(expectedAccountData.totalCollateralBase);
+    expect(accountData.totalDebtBase).to.be.eq(expectedAccountData.totalDebtBase);
+    expect(accountData.availableBorrowsBase).to.be.eq(expectedAccountData.availableBorrowsBase);
+    expect(accountData.ltv).to.be.eq(expectedAccountData.ltv, 'Invalid eMode LTV');
+    expect(accountData.currentLiquidationThreshold).to.be.eq(
+      expectedAccountData.currentLiquidationThreshold,
+      'Invalid eMode liquidation threshold'
+    );
+    expect(accountData.healthFactor).to.be.eq(expectedAccountData.healthFactor);
+  } else if (expectedResult === 'revert') {
+    await expectReverted(pool.connect(user.signer).setUserEMode(categoryId), revertMessage);
+  }
+};
+
+export const flashLoan = async (
+  reserveSymbols: string[],
+  amounts: string[],
+  interestRateModes: string[],
+  repays: boolean,
+  caller: SignerWithAddress,
+  onBehalfOf: tEthereumAddress,
+  expectedResult: string,
+  testEnv: TestEnv,
+  revertMessage?: string
+) => {
+  const { pool, aclManager } = testEnv;
+
+  const receiver = await getMockFlashLoanReceiver();
+  // The receiver is shared with the other suites, its behaviour is reset before every flash loan
+  await waitForTx(await receiver.setFailExecutionTransfer(!repays));
+  await waitForTx(await receiver.setSimulateEOA(false));
+  await waitForTx(await receiver.setAmountToApprove(0));
+
+  const assets: tEthereumAddress[] = [];
+  const amountsToFlashLoan: BigNumber[] = [];
+  for (const [i, reserveSymbol] of reserveSymbols.entries()) {
+    assets.push(await getTestnetReserveAddressFromSymbol(reserveSymbol));
+    amountsToFlashLoan.push(await convertToCurrencyDecimals(assets[i], amounts[i]));
+  }
+
+  const flashLoanAsCaller = () =>
+    pool
+      .connect(caller.signer)
+      .flashLoan(
+        receiver.address,
+        assets,
+        amountsToFlashLoan,
+        interestRateModes,
+        onBehalfOf,
+        '0x10',
+        '0'
+      );
+
+  if (expectedResult === 'success') {
+    // The premium is waived for the authorized flash borrowers
+    const isAuthorizedFlashBorrower = await aclManager.isFlashBorrower(caller.address);
+    const flashLoanPremiumTotal = isAuthorizedFlashBorrower
+      ? BigNumber.from(0)
+      : await pool.FLASHLOAN_PREMIUM_TOTAL();
+    const flashLoanPremiumToProtocol = isAuthorizedFlashBorrower
+      ? BigNumber.from(0)
+      : await pool.FLASHLOAN_PREMIUM_TO_PROTOCOL();
+
+    const dataBefore: {
+      reserveData: ReserveData;
+      userData: UserReserveData;
+      scaledATokenSupply: BigNumber;
+    }[] = [];
+    for (const asset of assets) {
+      const { reserveData, userData } = await getContractsData(
+        asset,
+        onBehalfOf,
+        testEnv,
+        caller.address
+      );
+      const aToken = await getAToken(reserveData.aTokenAddress);
+      dataBefore.push({
+        reserveData,
+        userData,
+        scaledATokenSupply: await aToken.scaledTotalSupply(),
+      });
+    }
+
+    const txResult = await waitForTx(await flashLoanAsCaller());
+
+    const { txTimestamp } = await getTxCostAndTimestamp(txResult);
+    const flashLoanEvents = (txResult.events || []).filter(({ event }) => event === 'FlashLoan');
+
+    for (const [i, asset] of assets.entries()) {
+      const {
+        reserveData: reserveDataBefore,
+        userData: userDataBefore,
+        scaledATokenSupply,
+      } = dataBefore[i];
+      const {
+        reserveData: reserveDataAfter,
+        userData: userDataAfter,
+        timestamp,
+      } = await getContractsData(asset, onBehalfOf, testEnv, caller.address);
+
+      let premium = BigNumber.from(0);
+      let expectedReserveData: ReserveData;
+      if (interestRateModes[i] === RateMode.None) {
+        premium = amountsToFlashLoan[i].percentMul(flashLoanPremiumTotal);
+        expectedReserveData = calcExpectedReserveDataAfterFlashLoan(
+          scaledATokenSupply,
+          premium,
+          flashLoanPremiumToProtocol,
+          reserveDataBefore,
+          txTimestamp
+        );
+      } else {
+        // No premium is paid when the flash loan is kept as debt of onBehalfOf
+        expectedReserveData = calcExpectedReserveDataAfterBorrow(
+          amountsToFlashLoan[i].toString(),
+          interestRateModes[i],
+          reserveDataBefore,
+          userDataBefore,
+          txTimestamp,
+          timestamp
+        );
+        const expectedUserData = calcExpectedUserDataAfterFlashLoanBorrow(
+          amountsToFlashLoan[i].toString(),
+          interestRateModes[i],
+          reserveDataBefore,
+          expectedReserveData,
+          userDataBefore,
+          txTimestamp,
+          timestamp
+        );
+        expectEqual(userDataAfter, expectedUserData);
+      }
+      expectEqual(reserveDataAfter, expectedReserveData);
+
+      expect(flashLoanEvents[i].args?.premium).to.be.eq(
+        premium,
+        `Invalid premium of the ${reserveSymbols[i]} flash loan`
+      );
+    }
+  } else if (expectedResult === 'revert') {
+    await expectReverted(flashLoanAsCaller(), revertMessage);
+  }
+};
+
+export const flashLoanSimple = async (
+  reserveSymbol: string,
+  amount: string,
+  repays: boolean,
+  caller: SignerWithAddress,
+  expectedResult: string,
+  testEnv: TestEnv,
+  revertMessage?: string
+) => {
+  const { pool, helpersContract, addressesProvider, deployer } = testEnv;
+
+  const receiver = await new MockFlashLoanSimpleReceiver__factory(deployer.signer).deploy(
+    addressesProvider.address
+  );
+  await waitForTx(await receiver.setFailExecutionTransfer(!repays));
+
+  const reserve = await getTestnetReserveAddressFromSymbol(reserveSymbol);
+  const amountToFlashLoan = await convertToCurrencyDecimals(reserve, amount);
+
+  const flashLoanSimpleAsCaller = () =>
+    pool
+      .connect(caller.signer)
+      .flashLoanSimple(receiver.address, reserve, amountToFlashLoan, '0x10', '0');
+
+  if (expectedResult === 'success') {
+    const reserveDataBefore = await getReserveData(helpersContract, reserve);
+    const aToken = await getAToken(reserveDataBefore.aTokenAddress);
+    const scaledATokenSupply = await aToken.scaledTotalSupply();
+
+    // Unlike flashLoan, the premium is not waived for the authorized flash borrowers
+    const premium = amountToFlashLoan.percentMul(await pool.FLASHLOAN_PREMIUM_TOTAL());
+    const flashLoanPremiumToProtocol = await pool.FLASHLOAN_PREMIUM_TO_PROTOCOL();
+
+    const txResult = await waitForTx(await flashLoanSimpleAsCaller());
+
+    const { txTimestamp } = await getTxCostAndTimestamp(txResult);
+
+    const expectedReserveData = calcExpectedReserveDataAfterFlashLoan(
+      scaledATokenSupply,
+      premium,
+      flashLoanPremiumToProtocol,
+      reserveDataBefore,
+      txTimestamp
+    );
+    expectEqual(await getReserveData(helpersContract, reserve), expectedReserveData);
+
+    const flashLoanEvent = (txResult.events || []).find(({ event }) => event === 'FlashLoan');
+    expect(flashLoanEvent?.args?.premium).to.be.eq(
+      premium,
+      `Invalid premium of the ${reserveSymbol} flash loan`
+    );
+  } else if (expectedResult === 'revert') {
+    await expectReverted(flashLoanSimpleAsCaller(), revertMessage);
+  }
+};
+
+export const mintUnbacked = async (
+  reserveSymbol: string,
+  amount: string,
+  bridge: SignerWithAddress,
+  onBehalfOf: tEthereumAddress,
+  expectedResult: string,
+  testEnv: TestEnv,
+  revertMessage?: string
+) => {
+  const { pool, aclManager, helpersContract } = testEnv;
+
+  const reserve = await getTestnetReserveAddressFromSymbol(reserveSymbol);
+  const amountToMint = await convertToCurrencyDecimals(reserve, amount);
+
+  const mintUnbackedAsBridge = () =>
+    pool.connect(bridge.signer).mintUnbacked(reserve, amountToMint, onBehalfOf, '0');
+
+  if (expectedResult === 'success') {
+    const { reserveData: reserveDataBefore, userData: userDataBefore } = await getContractsData(
+      reserve,
+      onBehalfOf,
+      testEnv,
+      bridge.address
+    );
+    const enablesAsCollateral = await getAutomaticUseAsCollateral(
+      pool,
+      aclManager,
+      reserve,
+      onBehalfOf,
+      bridge.address
+    );
+
+    const txResult = await waitForTx(await mintUnbackedAsBridge());
+
+    const { txTimestamp } = await getTxCostAndTimestamp(txResult);
+
+    const {
+      reserveData: reserveDataAfter,
+      userData: userDataAfter,
+      timestamp,
+    } = await getContractsData(reserve, onBehalfOf, testEnv, bridge.address);
+
+    const expectedReserveData = calcExpectedReserveDataAfterMintUnbacked(
+      amountToMint.toString(),
+      reserveDataBefore,
+      txTimestamp
+    );
+    const expectedUserData = calcExpectedUserDataAfterMintUnbacked(
+      amountToMint.toString(),
+      reserveDataBefore,
+      expectedReserveData,
+      userDataBefore,
+      txTimestamp,
+      timestamp,
+      enablesAsCollateral
+    );
+
+    expectEqual(reserveDataAfter, expectedReserveData);
+    expectEqual(userDataAfter, expectedUserData);
+
+    const unbackedMintCap = await helpersContract.getUnbackedMintCap(reserve);
+    expect(reserveDataAfter.unbacked).to.be.lte(
+      unbackedMintCap.mul(BigNumber.from(10).pow(reserveDataBefore.decimals)),
+      `The unbacked ${reserveSymbol} exceeds the unbackedMintCap of ${unbackedMintCap}`
+    );
+  } else if (expectedResult === 'revert') {
+    await expectReverted(mintUnbackedAsBridge(), revertMessage);
+  }
+};
+
+export const backUnbacked = async (
+  reserveSymbol: string,
+  amount: string,
+  fee: string,
+  bridge: SignerWithAddress,
+  expectedResult: string,
+  testEnv: TestEnv,
+  revertMessage?: string
+) => {
+  const { pool } = testEnv;
+
+  const reserve = await getTestnetReserveAddressFromSymbol(reserveSymbol);
+  const amountToBack = await convertToCurrencyDecimals(reserve, amount);
+  const feeAmount = await convertToCurrencyDecimals(reserve, fee);
+
+  const backUnbackedAsBridge = () =>
+    pool.connect(bridge.signer).backUnbacked(reserve, amountToBack, feeAmount);
+
+  if (expectedResult === 'success') {
+    const { reserveData: reserveDataBefore, userData: bridgeDataBefore } = await getContractsData(
+      reserve,
+      bridge.address,
+      testEnv
+    );
+    const aToken = await getAToken(reserveDataBefore.aTokenAddress);
+    const scaledATokenSupply = await aToken.scaledTotalSupply();
+    const bridgeProtocolFee = await pool.BRIDGE_PROTOCOL_FEE();
+
+    const txResult = await waitForTx(await backUnbackedAsBridge());
+
+    const { txTimestamp } = await getTxCostAndTimestamp(txResult);
+
+    const { reserveData: reserveDataAfter, userData: bridgeDataAfter } = await getContractsData(
+      reserve,
+      bridge.address,
+      testEnv
+    );
+
+    // The fee is split between the suppliers and the treasury by the bridge protocol fee
+    const expectedReserveData = calcExpectedReserveDataAfterBackUnbacked(
+      scaledATokenSupply,
+      amountToBack.toString(),
+      feeAmount.toString(),
+      bridgeProtocolFee.toString(),
+      reserveDataBefore,
+      txTimestamp
+    );
+    expectEqual(reserveDataAfter, expectedReserveData);
+
+    // Backing more than the unbacked amount only takes what is unbacked
+    const backedAmount = reserveDataBefore.unbacked.sub(expectedReserveData.unbacked);
+    expect(bridgeDataAfter.walletBalance).to.be.eq(
+      bridgeDataBefore.walletBalance.sub(backedAmount).sub(feeAmount),
+      'Invalid amount of underlying taken from the bridge'
+    );
+  } else if (expectedResult === 'revert') {
+    await expectReverted(backUnbackedAsBridge(), revertMessage);
+  }
+};
+
+export const callConfigurator = async (
+  method: string,
+  admin: SignerWithAddress,
+  reserveSymbol: string | undefined,
+  params: string[],
+  expectedResult: string,
+  testEnv: TestEnv,
+  revertMessage?: string
+) => {
+  const { configurator } = testEnv;
+
+  await callAsAdmin(
+    configurator.connect(admin.signer) as Contract,
+    method,
+    reserveSymbol,
+    params,
+    expectedResult,
+    testEnv,
+    revertMessage
+  );
+};
+
+export const callACLManager = async (
+  method: string,
+  admin: SignerWithAddress,
+  params: string[],
+  expectedResult: string,
+  testEnv: TestEnv,
+  revertMessage?: string
+) => {
+  const { aclManager } = testEnv;
+
+  await callAsAdmin(
+    aclManager.connect(admin.signer) as Contract,
+    method,
+    undefined,
+    params,
+    expectedResult,
+    testEnv,
+    revertMessage
+  );
+};
+
+export const configureEModeCategory = async (
+  categoryId: string,
+  ltv: string,
+  liquidationThreshold: string,
+  liquidationBonus: string,
+  priceSourceSymbol: string | undefined,
+  label: string,
+  assetSymbols: string[],
+  admin: SignerWithAddress,
+  expectedResult: string,
+  testEnv: TestEnv,
+  revertMessage?: string
+) => {
+  const { configurator, pool, helpersContract } = testEnv;
+
+  const priceSource = priceSourceSymbol
+    ? await getTestnetReserveAddressFromSymbol(priceSourceSymbol)
+    : ZERO_ADDRESS;
+
+  const tx = configurator
+    .connect(admin.signer)
+    .setEModeCategory(categoryId, ltv, liquidationThreshold, liquidationBonus, priceSource, label);
+
+  if (expectedResult === 'success') {
+    await waitForTx(await tx);
+
+    // The assets are only moved into the category once it is set
+    for (const assetSymbol of assetSymbols) {
+      const asset = await getTestnetReserveAddressFromSymbol(assetSymbol);
+      await waitForTx(
+        await configurator.connect(admin.signer).setAssetEModeCategory(asset, categoryId)
+      );
+      expect(await helpersContract.getReserveEModeCategory(asset)).to.be.eq(
+        categoryId,
+        `Invalid eMode category of ${assetSymbol}`
+      );
+    }
+
+    const categoryData = await pool.getEModeCategoryData(categoryId);
+    expect(categoryData.ltv.toString()).to.be.eq(ltv, 'Invalid eMode category LTV');
+    expect(categoryData.liquidationThreshold.toString()).to.be.eq(
+      liquidationThreshold,
+      'Invalid eMode category liquidation threshold'
+    );
+    expect(categoryData.liquidationBonus.toString()).to.be.eq(
+      liquidationBonus,
+      'Invalid eMode category liquidation bonus'
+    );
+    expect(categoryData.priceSource).to.be.eq(priceSource, 'Invalid eMode category price source');
+    expect(categoryData.label).to.be.eq(label, 'Invalid eMode category label');
+  } else if (expectedResult === 'revert') {
+    await expectReverted(tx, revertMessage);
+  }
+};
+
+export const setAssetPrice = async (
+  reserveSymbol: string,
+  price: string | undefined,
+  shock: string | undefined,
+  source: string,
+  testEnv: TestEnv
+) => {
+  const { aaveOracle, oracle, poolAdmin } = testEnv;
+  const reserve = await getTestnetReserveAddressFromSymbol(reserveSymbol);
+
+  let newPrice: BigNumber;
+  if (price) {
+    const baseCurrencyDecimals = (await aaveOracle.BASE_CURRENCY_UNIT()).toString().length - 1;
+    newPrice = parseUnits(price, baseCurrencyDecimals);
+  } else {
+    // The shock is a percentage change of the current price, such as '-20' or '12.5'
+    newPrice = (await aaveOracle.getAssetPrice(reserve)).percentMul(
+      BigNumber.from(PERCENTAGE_FACTOR).add(parseUnits(shock || '0', 2))
+    );
+  }
+
+  if (source === 'aggregator') {
+    const aggregator = await deployMockAggregator(newPrice.toString());
+    await waitForTx(
+      await aaveOracle.connect(poolAdmin.signer).setAssetSources([reserve], [aggregator.address])
+    );
+  } else {
+    // Without a source the AaveOracle reads the price from the fallback oracle
+    await waitForTx(await oracle.setAssetPrice(reserve, newPrice));
+    if ((await aaveOracle.getSourceOfAsset(reserve)) !== ZERO_ADDRESS) {
+      await waitForTx(
+        await aaveOracle.connect(poolAdmin.signer).setAssetSources([reserve], [ZERO_ADDRESS])
+      );
+    }
+  }
+
+  expect(await aaveOracle.getAssetPrice(reserve)).to.be.eq(
+    newPrice,
+    `Invalid price of ${reserveSymbol}`
+  );
+};
+
+export const advanceTime = async (seconds?: string, timestamp?: string) => {
+  if (seconds) {
+    await advanceTimeAndBlock(parseInt(seconds));
+    return;
+  }
+
+  expect(await timeLatest()).to.be.lt(timestamp, `Timestamp ${timestamp} is in the past`);
+  await advanceBlock(parseInt(timestamp || '0'));
+};
+
+export const mineBlocks = async (blocks: string) => {
+  await hre.network.provider.send('hardhat_mine', [hexValue(parseInt(blocks))]);
+};
+
+// Addresses are passed to the admin steps by user index or by admin role
+const getParamAddress = (value: string, name: string, method: string, testEnv: TestEnv) => {
+  if (/^[0-9]+$/.test(value) && testEnv.users[parseInt(value)]) {
+    return testEnv.users[parseInt(value)].address;
+  }
+  if (['poolAdmin', 'riskAdmin', 'emergencyAdmin'].includes(value)) {
+    return testEnv[value as 'poolAdmin' | 'riskAdmin' | 'emergencyAdmin'].address;
+  }
+  throw `Invalid ${name} '${value}' to call ${method}, expected an address, a user index or an admin role`;
+};
+
+const callAsAdmin = async (
+  contract: Contract,
+  method: string,
+  reserveSymbol: string | undefined,
+  params: string[],
+  expectedResult: string,
+  testEnv: TestEnv,
+  revertMessage?: string
+) => {
+  // The asset is taken from the reserve of the action, the other inputs from its params in order
+  const args: (string | boolean)[] = [];
+  const inputs = [...contract.interface.getFunction(method).inputs];
+  const values = [...params];
+  for (const input of inputs) {
+    if (input.type === 'address' && input.name === 'asset') {
+      args.push(await getTestnetReserveAddressFromSymbol(reserveSymbol || ''));
+      continue;
+    }
+    const value = values.shift();
+    if (value === undefined) {
+      throw `Missing value of ${input.name} to call ${method}`;
+    }
+    if (input.type === 'bool') {
+      args.push(value.toLowerCase() === 'true');
+    } else if (input.type === 'address' && !isAddress(value)) {
+      args.push(getParamAddress(value, input.name, method, testEnv));
+    } else {
+      args.push(value);
+    }
+  }
+
+  if (expectedResult === 'success') {
+    await waitForTx(await contract[method](...args));
+  } else if (expectedResult === 'revert') {
+    await expectReverted(contract[method](...args), revertMessage);
+  }
+};
+
+interface IsolationModeData {
+  isolatedAsset: tEthereumAddress;
+  isolationModeTotalDebt: BigNumber;
+}
+
+const getIsolationModeData = async (
+  user: tEthereumAddress,
+  testEnv: TestEnv
+): Promise<IsolationModeData | undefined> => {
+  const { pool } = testEnv;
+
+  const { isolationMode } = await getUserConfigurationState(pool, user);
+  if (!isolationMode.isInIsolationMode) {
+    return undefined;
+  }
+  const { isolationModeTotalDebt } = await pool.getReserveData(isolationMode.isolatedAsset);
+  return {
+    isolatedAsset: isolationMode.isolatedAsset,
+    isolationModeTotalDebt,
+  };
+};
+
 const expectEqual = (
   actual: UserReserveData | ReserveData,
   expected: UserReserveData | ReserveData
@@ -1048,3 +1905,31 @@ export const getContractsData = async (
     timestamp,
   };
 };
+
+/**
+ * Mints an amount of a test token to a user and supplies it to the Pool on its behalf
+ * @param testEnv The TestEnv
+ * @param userIndex The index of the user in `testEnv.users`
+ * @param assetName The test token, e.g. `dai`
+ * @param amount The amount, in the units of the token
+ */
+export const mintAndSupply = async (
+  testEnv: TestEnv,
+  userIndex: number,
+  assetName: 'dai' | 'usdc' | 'weth' | 'aave',
+  amount: string
+) => {
+  const { users, pool } = testEnv;
+  const asset = testEnv[assetName];
+  const user = users[userIndex];
+  const amountBN = parseUnits(amount, await asset.decimals());
+
+  await waitForTx(
+    await asset.connect(user.signer)['mint(address,uint256)'](user.address, amountBN)
+  );
+  await waitForTx(await asset.connect(user.signer).approve(pool.address, MAX_UINT_AMOUNT));
+  await waitForTx(
+    await pool.connect(user.signer).supply(asset.address, amountBN, user.address, '0')
+  );
+  return amountBN;
+};
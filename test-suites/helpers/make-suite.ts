@@ -36,6 +36,7 @@ import { AaveOracle, ACLManager, StableDebtToken, VariableDebtToken } from '../.
 import { HardhatRuntimeEnvironment } from 'hardhat/types';
 import { usingTenderly } from '../../helpers/tenderly-utils';
 import { tEthereumAddress } from '../../helpers/types';
+import './utils/protocol-errors-matcher';
 
 declare var hre: HardhatRuntimeEnvironment;
 
@@ -0,0 +1,264 @@
+import { RateMode } from '../../helpers/types';
+import { TestEnv } from './make-suite';
+import { Action, executeStory, Story } from './scenario-engine';
+
+export type AdminRole = 'poolAdmin' | 'riskAdmin' | 'emergencyAdmin';
+/** Index of the user in `TestEnv.users`, or an admin role calling the admin steps */
+export type Actor = number | AdminRole;
+/** `invalid` selects an unsupported rate mode, to test its revert */
+export type Rate = 'none' | 'stable' | 'variable' | 'invalid';
+export type FlashLoanMode = 'none' | 'stable' | 'variable';
+
+export interface StoryBuilder {
+  /** Selects the caller of the following steps */
+  as(actor: Actor): StoryBuilder;
+  mint(reserve: string, amount: string): StoryBuilder;
+  approve(reserve: string): StoryBuilder;
+  deposit(
+    reserve: string,
+    amount: string,
+    options?: { onBehalfOf?: number; sendValue?: string }
+  ): StoryBuilder;
+  supplyWithPermit(
+    reserve: string,
+    amount: string,
+    options?: { onBehalfOf?: number; sendValue?: string; useAsCollateral?: boolean }
+  ): StoryBuilder;
+  withdraw(reserve: string, amount: string): StoryBuilder;
+  /** `timeTravel` moves the time forward by a number of days after the borrow */
+  borrow(
+    reserve: string,
+    amount: string,
+    options?: { rate?: Rate; onBehalfOf?: number; timeTravel?: number }
+  ): StoryBuilder;
+  repay(
+    reserve: string,
+    amount: string,
+    options?: { rate?: Rate; onBehalfOf?: number; timeTravel?: number; sendValue?: string }
+  ): StoryBuilder;
+  repayWithPermit(
+    reserve: string,
+    amount: string,
+    options?: { rate?: Rate; onBehalfOf?: number; sendValue?: string }
+  ): StoryBuilder;
+  delegateBorrowAllowance(
+    reserve: string,
+    amount: string,
+    toUser: number,
+    options?: { rate?: Rate }
+  ): StoryBuilder;
+  setUseAsCollateral(reserve: string, useAsCollateral: boolean): StoryBuilder;
+  swapBorrowRateMode(reserve: string, rate: Rate): StoryBuilder;
+  rebalanceStableBorrowRate(reserve: string, target: number): StoryBuilder;
+  /** Liquidates `user`, the actor being the liquidator */
+  liquidationCall(
+    collateral: string,
+    debt: string,
+    user: number,
+    amount: string,
+    options?: { receiveAToken?: boolean }
+  ): StoryBuilder;
+  setUserEMode(categoryId: number): StoryBuilder;
+  flashLoan(
+    reserves: string[],
+    amounts: string[],
+    options?: { modes?: FlashLoanMode[]; repays?: boolean; onBehalfOf?: number }
+  ): StoryBuilder;
+  flashLoanSimple(reserve: string, amount: string, options?: { repays?: boolean }): StoryBuilder;
+  mintUnbacked(reserve: string, amount: string, options?: { onBehalfOf?: number }): StoryBuilder;
+  backUnbacked(reserve: string, amount: string, options?: { fee?: string }): StoryBuilder;
+  configurator(method: string, options?: { reserve?: string; params?: string[] }): StoryBuilder;
+  aclManager(method: string, params?: string[]): StoryBuilder;
+  configureEModeCategory(
+    categoryId: number,
+    category: {
+      ltv: number;
+      liquidationThreshold: number;
+      liquidationBonus: number;
+      priceSource?: string;
+      label?: string;
+      assets?: string[];
+    }
+  ): StoryBuilder;
+  setAssetPrice(
+    reserve: string,
+    price: { price: string } | { shock: string },
+    source?: 'fallback' | 'aggregator'
+  ): StoryBuilder;
+  advanceTime(time: { seconds: number } | { timestamp: number }): StoryBuilder;
+  mineBlocks(blocks: number): StoryBuilder;
+  /** Expects the last step to revert, with the given error if any */
+  expectRevert(revertMessage?: string): StoryBuilder;
+  build(): Story;
+  run(
+    testEnv: TestEnv,
+    afterAction?: (action: Action, testEnv: TestEnv) => Promise<void>
+  ): Promise<void>;
+}
+
+const RATE_MODES: { [mode in FlashLoanMode]: RateMode } = {
+  none: RateMode.None,
+  stable: RateMode.Stable,
+  variable: RateMode.Variable,
+};
+
+type StepArgs = { [arg: string]: string | string[] | number | boolean | undefined };
+
+const toArgs = (args: StepArgs) =>
+  Object.fromEntries(
+    Object.entries(args)
+      .filter(([, value]) => value !== undefined)
+      .map(([arg, value]) => [arg, Array.isArray(value) ? value : `${value}`])
+  );
+
+/**
+ * Builds a story step by step, with the same actions, arguments and checks as the JSON scenarios
+ * @param description The description of the story
+ */
+export const story = (description: string): StoryBuilder => {
+  const actions: Action[] = [];
+  let actor: Actor | undefined;
+
+  const getUser = (name: string) => {
+    if (actor === undefined) {
+      throw `An actor must be selected before ${name}`;
+    }
+    if (typeof actor !== 'number') {
+      throw `${name} must be called by a user, not by the ${actor}`;
+    }
+    return actor;
+  };
+  const getAdmin = (name: string) => {
+    if (actor === undefined) {
+      throw `An actor must be selected before ${name}`;
+    }
+    return typeof actor === 'number' ? { user: actor } : { admin: actor };
+  };
+  const add = (name: string, args: StepArgs) => {
+    actions.push({ name, args: toArgs(args), expected: 'success' });
+    return builder;
+  };
+  // Steps moving the prices or the chain have no expected result
+  const addStep = (name: string, args: StepArgs) => {
+    actions.push({ name, args: toArgs(args) } as Action);
+    return builder;
+  };
+
+  const builder: StoryBuilder = {
+    as: (selected) => {
+      actor = selected;
+      return builder;
+    },
+    mint: (reserve, amount) => add('mint', { reserve, amount, user: getUser('mint') }),
+    approve: (reserve) => add('approve', { reserve, user: getUser('approve') }),
+    deposit: (reserve, amount, options = {}) =>
+      add('deposit', { reserve, amount, user: getUser('deposit'), ...options }),
+    supplyWithPermit: (reserve, amount, { useAsCollateral, ...options } = {}) => {
+      add('supplyWithPermit', { reserve, amount, user: getUser('supplyWithPermit'), ...options });
+      // Passed as a boolean, unlike the other flags
+      if (useAsCollateral !== undefined) {
+        actions[actions.length - 1].args.useAsCollateral = useAsCollateral;
+      }
+      return builder;
+    },
+    withdraw: (reserve, amount) => add('withdraw', { reserve, amount, user: getUser('withdraw') }),
+    borrow: (reserve, amount, { rate, ...options } = {}) =>
+      add('borrow', {
+        reserve,
+        amount,
+        borrowRateMode: rate,
+        user: getUser('borrow'),
+        ...options,
+      }),
+    repay: (reserve, amount, { rate, ...options } = {}) =>
+      add('repay', { reserve, amount, borrowRateMode: rate, user: getUser('repay'), ...options }),
+    repayWithPermit: (reserve, amount, { rate, ...options } = {}) =>
+      add('repayWithPermit', {
+        reserve,
+        amount,
+        borrowRateMode: rate,
+        user: getUser('repayWithPermit'),
+        ...options,
+      }),
+    delegateBorrowAllowance: (reserve, amount, toUser, { rate } = {}) =>
+      add('delegateBorrowAllowance', {
+        reserve,
+        amount,
+        borrowRateMode: rate,
+        user: getUser('delegateBorrowAllowance'),
+        toUser,
+      }),
+    setUseAsCollateral: (reserve, useAsCollateral) =>
+      add('setUseAsCollateral', { reserve, user: getUser('setUseAsCollateral'), useAsCollateral }),
+    swapBorrowRateMode: (reserve, rate) =>
+      add('swapBorrowRateMode', {
+        reserve,
+        user: getUser('swapBorrowRateMode'),
+        borrowRateMode: rate,
+      }),
+    rebalanceStableBorrowRate: (reserve, target) =>
+      add('rebalanceStableBorrowRate', {
+        reserve,
+        user: getUser('rebalanceStableBorrowRate'),
+        target,
+      }),
+    liquidationCall: (collateral, debt, user, amount, { receiveAToken } = {}) =>
+      add('liquidationCall', {
+        collateral,
+        debt,
+        user,
+        liquidator: getUser('liquidationCall'),
+        amount,
+        receiveAToken,
+      }),
+    setUserEMode: (categoryId) =>
+      add('setUserEMode', { categoryId, user: getUser('setUserEMode') }),
+    flashLoan: (reserves, amounts, { modes, ...options } = {}) =>
+      add('flashLoan', {
+        reserves,
+        amounts,
+        modes: modes?.map((mode) => RATE_MODES[mode]),
+        user: getUser('flashLoan'),
+        ...options,
+      }),
+    flashLoanSimple: (reserve, amount, options = {}) =>
+      add('flashLoanSimple', { reserve, amount, user: getUser('flashLoanSimple'), ...options }),
+    mintUnbacked: (reserve, amount, options = {}) =>
+      add('mintUnbacked', { reserve, amount, user: getUser('mintUnbacked'), ...options }),
+    backUnbacked: (reserve, amount, options = {}) =>
+      add('backUnbacked', { reserve, amount, user: getUser('backUnbacked'), ...options }),
+    configurator: (method, options = {}) =>
+      add('configurator', { method, ...options, ...getAdmin(method) }),
+    aclManager: (method, params) => add('aclManager', { method, params, ...getAdmin(method) }),
+    configureEModeCategory: (categoryId, category) =>
+      add('configureEModeCategory', {
+        categoryId,
+        ...category,
+        ...getAdmin('configureEModeCategory'),
+      }),
+    setAssetPrice: (reserve, price, source) =>
+      addStep('setAssetPrice', { reserve, ...price, source }),
+    advanceTime: (time) => addStep('advanceTime', time),
+    mineBlocks: (blocks) => addStep('mineBlocks', { blocks }),
+    expectRevert: (revertMessage) => {
+      const action = actions[actions.length - 1];
+      if (!action) {
+        throw 'A step must be added before expecting it to revert';
+      }
+      if (!action.expected) {
+        throw `The ${action.name} step can not revert`;
+      }
+      action.expected = 'revert';
+      if (revertMessage !== undefined) {
+        action.revertMessage = revertMessage;
+      }
+      return builder;
+    },
+    build: () => ({
+      description,
+      actions: actions.map((action) => ({ ...action, args: { ...action.args } })),
+    }),
+    run: (testEnv, afterAction) => executeStory(builder.build(), testEnv, afterAction),
+  };
+  return builder;
+};
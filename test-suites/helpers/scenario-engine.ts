@@ -12,6 +12,18 @@ import {
   delegateBorrowAllowance,
   repayWithPermit,
   supplyWithPermit,
+  liquidationCall,
+  setUserEMode,
+  flashLoan,
+  flashLoanSimple,
+  mintUnbacked,
+  backUnbacked,
+  callConfigurator,
+  callACLManager,
+  configureEModeCategory,
+  setAssetPrice,
+  advanceTime,
+  mineBlocks,
 } from './actions';
 import { RateMode } from '../../helpers/types';
 import { getTestWallets } from './utils/wallets';
@@ -31,13 +43,24 @@ export interface Story {
 export interface Scenario {
   title: string;
   description: string;
+  /** Names of the users, mapped to their index in `TestEnv.users` or to an admin role */
+  actors?: { [name: string]: string };
+  /** Aliases of the reserves, mapped to their symbol */
+  reserves?: { [alias: string]: string };
   stories: Story[];
 }
 
-export const executeStory = async (story: Story, testEnv: TestEnv) => {
+export const executeStory = async (
+  story: Story,
+  testEnv: TestEnv,
+  afterAction?: (action: Action, testEnv: TestEnv) => Promise<void>
+) => {
   for (const action of story.actions) {
     const { users } = testEnv;
     await executeAction(action, users, testEnv);
+    if (afterAction) {
+      await afterAction(action, testEnv);
+    }
   }
 };
 
@@ -48,7 +71,147 @@ const executeAction = async (action: Action, users: SignerWithAddress[], testEnv
   if (!name || name === '') {
     throw 'Action name is missing';
   }
-  if (!reserve || reserve === '') {
+
+  // Steps run by the admins or moving the prices or the chain, not run by a user
+  switch (name) {
+    case 'configurator':
+      {
+        const { method, admin, params } = action.args;
+
+        if (!method || method === '') {
+          throw 'A PoolConfigurator method must be selected';
+        }
+        if (!expected || expected === '') {
+          throw `An expected result for action ${name} is required`;
+        }
+
+        await callConfigurator(
+          method,
+          getAdmin(admin, userIndex, method, users, testEnv),
+          reserve,
+          params || [],
+          expected,
+          testEnv,
+          revertMessage
+        );
+      }
+      return;
+
+    case 'aclManager':
+      {
+        const { method, admin, params } = action.args;
+
+        if (!method || method === '') {
+          throw 'An ACLManager method must be selected';
+        }
+        if (!expected || expected === '') {
+          throw `An expected result for action ${name} is required`;
+        }
+
+        await callACLManager(
+          method,
+          getAdmin(admin, userIndex, method, users, testEnv),
+          params || [],
+          expected,
+          testEnv,
+          revertMessage
+        );
+      }
+      return;
+
+    case 'configureEModeCategory':
+      {
+        const {
+          admin,
+          categoryId,
+          ltv,
+          liquidationThreshold,
+          liquidationBonus,
+          priceSource,
+          label,
+          assets,
+        } = action.args;
+
+        if (!categoryId || categoryId === '') {
+          throw 'Invalid eMode category selected';
+        }
+        if (
+          !ltv ||
+          ltv === '' ||
+          !liquidationThreshold ||
+          liquidationThreshold === '' ||
+          !liquidationBonus ||
+          liquidationBonus === ''
+        ) {
+          throw `The ltv, liquidationThreshold and liquidationBonus of eMode category ${categoryId} must be set`;
+        }
+        if (!expected || expected === '') {
+          throw `An expected result for action ${name} is required`;
+        }
+
+        await configureEModeCategory(
+          categoryId,
+          ltv,
+          liquidationThreshold,
+          liquidationBonus,
+          priceSource,
+          label || '',
+          assets || [],
+          getAdmin(admin, userIndex, 'setEModeCategory', users, testEnv),
+          expected,
+          testEnv,
+          revertMessage
+        );
+      }
+      return;
+
+    case 'setAssetPrice':
+      {
+        const { price, shock, source } = action.args;
+
+        if (!reserve || reserve === '') {
+          throw 'Invalid reserve selected to set the price of';
+        }
+        if ((!price || price === '') === (!shock || shock === '')) {
+          throw `Either a price or a shock must be set for the ${reserve} price`;
+        }
+        if (source && source !== 'fallback' && source !== 'aggregator') {
+          throw `Invalid price source ${source}, expected fallback or aggregator`;
+        }
+
+        await setAssetPrice(reserve, price, shock, source || 'fallback', testEnv);
+      }
+      return;
+
+    case 'advanceTime':
+      {
+        const { seconds, timestamp } = action.args;
+
+        if ((!seconds || seconds === '') === (!timestamp || timestamp === '')) {
+          throw 'Either a number of seconds or a timestamp must be set to advance the time';
+        }
+
+        await advanceTime(seconds, timestamp);
+      }
+      return;
+
+    case 'mineBlocks':
+      {
+        const { blocks } = action.args;
+
+        if (!blocks || blocks === '') {
+          throw 'Invalid number of blocks to mine';
+        }
+
+        await mineBlocks(blocks);
+      }
+      return;
+  }
+  // Liquidations and flash loans name their reserves instead, eMode applies to every reserve
+  if (
+    !['liquidationCall', 'flashLoan', 'setUserEMode'].includes(name) &&
+    (!reserve || reserve === '')
+  ) {
     throw 'Invalid reserve selected for deposit';
   }
   if (!userIndex || userIndex === '') {
@@ -296,7 +459,162 @@ const executeAction = async (action: Action, users: SignerWithAddress[], testEnv
       }
       break;
 
+    case 'liquidationCall':
+      {
+        const {
+          collateral,
+          debt,
+          amount,
+          receiveAToken,
+          liquidator: liquidatorIndex,
+        } = action.args;
+
+        if (!collateral || collateral === '' || !debt || debt === '') {
+          throw `A collateral and a debt reserve must be selected when liquidating user ${userIndex}`;
+        }
+        if (collateral === debt) {
+          throw `Liquidating the ${debt} debt with ${collateral} collateral of the same reserve is not supported`;
+        }
+        if (!amount || amount === '') {
+          throw `Invalid amount of ${debt} debt to liquidate`;
+        }
+        if (!liquidatorIndex || liquidatorIndex === '') {
+          throw `A liquidator must be selected when liquidating user ${userIndex}`;
+        }
+        const liquidator = users[parseInt(liquidatorIndex)];
+
+        await liquidationCall(
+          collateral,
+          debt,
+          liquidator,
+          user,
+          amount,
+          receiveAToken || 'false',
+          expected,
+          testEnv,
+          revertMessage
+        );
+      }
+      break;
+
+    case 'setUserEMode':
+      {
+        const { categoryId } = action.args;
+
+        if (categoryId === undefined || categoryId === '') {
+          throw `An eMode category must be selected for user ${userIndex}`;
+        }
+
+        await setUserEMode(categoryId, user, expected, testEnv, revertMessage);
+      }
+      break;
+
+    case 'flashLoan':
+      {
+        const { reserves, amounts, modes, repays, onBehalfOf: onBehalfOfIndex } = action.args;
+        const onBehalfOf = onBehalfOfIndex
+          ? users[parseInt(onBehalfOfIndex)].address
+          : user.address;
+
+        if (!reserves || reserves.length === 0) {
+          throw 'At least one reserve must be selected to flash loan';
+        }
+        if (new Set(reserves).size !== reserves.length) {
+          throw 'Flash loaning the same reserve twice is not supported';
+        }
+        if (!amounts || amounts.length !== reserves.length) {
+          throw `An amount must be set for each of the ${reserves} reserves to flash loan`;
+        }
+        const interestRateModes: string[] = modes || reserves.map(() => RateMode.None);
+        if (
+          interestRateModes.length !== reserves.length ||
+          interestRateModes.some((mode) => !['0', '1', '2'].includes(mode))
+        ) {
+          throw `Invalid modes ${interestRateModes}, expected 0, 1 or 2 for each reserve`;
+        }
+
+        await flashLoan(
+          reserves,
+          amounts,
+          interestRateModes,
+          repays !== 'false',
+          user,
+          onBehalfOf,
+          expected,
+          testEnv,
+          revertMessage
+        );
+      }
+      break;
+
+    case 'flashLoanSimple':
+      {
+        const { amount, repays } = action.args;
+
+        if (!amount || amount === '') {
+          throw `Invalid amount to flash loan from the ${reserve} reserve`;
+        }
+
+        await flashLoanSimple(
+          reserve,
+          amount,
+          repays !== 'false',
+          user,
+          expected,
+          testEnv,
+          revertMessage
+        );
+      }
+      break;
+
+    case 'mintUnbacked':
+      {
+        const { amount, onBehalfOf: onBehalfOfIndex } = action.args;
+        const onBehalfOf = onBehalfOfIndex
+          ? users[parseInt(onBehalfOfIndex)].address
+          : user.address;
+
+        if (!amount || amount === '') {
+          throw `Invalid amount of unbacked ${reserve} to mint`;
+        }
+
+        await mintUnbacked(reserve, amount, user, onBehalfOf, expected, testEnv, revertMessage);
+      }
+      break;
+
+    case 'backUnbacked':
+      {
+        const { amount, fee } = action.args;
+
+        if (!amount || amount === '') {
+          throw `Invalid amount of unbacked ${reserve} to back`;
+        }
+
+        await backUnbacked(reserve, amount, fee || '0', user, expected, testEnv, revertMessage);
+      }
+      break;
+
     default:
       throw `Invalid action requested: ${name}`;
   }
 };
+
+const getAdmin = (
+  admin: string | undefined,
+  userIndex: string | undefined,
+  method: string,
+  users: SignerWithAddress[],
+  testEnv: TestEnv
+): SignerWithAddress => {
+  if (admin) {
+    if (!['poolAdmin', 'riskAdmin', 'emergencyAdmin'].includes(admin)) {
+      throw `Invalid admin ${admin}, expected poolAdmin, riskAdmin or emergencyAdmin`;
+    }
+    return testEnv[admin];
+  }
+  // A user can be selected instead of an admin to check the access control
+  if (userIndex && userIndex !== '') {
+    return users[parseInt(userIndex)];
+  }
+  throw `An admin or a user must be selected to call ${method}`;
+};
@@ -0,0 +1,412 @@
+import fs from 'fs';
+import prettier from 'prettier';
+import { BaseContract, BigNumber, BigNumberish, ContractFunction, Signer, utils } from 'ethers';
+import { Provider } from '@ethersproject/providers';
+import { MAX_UINT_AMOUNT } from '../../helpers/constants';
+import { decodeProtocolError } from '../../helpers/protocol-errors';
+import { RateMode, tEthereumAddress } from '../../helpers/types';
+import { IERC20Detailed__factory } from '../../types';
+import { TestEnv } from './make-suite';
+import { Action, Scenario } from './scenario-engine';
+import { validateScenario } from './scenario-schema';
+
+export interface RecordedCall {
+  /** Index of the caller in `TestEnv.users`, or its address if it is not a test user */
+  actor: string;
+  method: string;
+  /** Symbol of the reserve */
+  reserve?: string;
+  /** Amount in the units of the reserve, `-1` standing for the maximum */
+  amount?: string;
+  outcome: 'success' | 'revert';
+  revertMessage?: string;
+  /** Step replaying the call, undefined if the scenario engine can not replay it */
+  action?: Action;
+}
+
+export interface ScenarioRecorder {
+  calls: RecordedCall[];
+  /** Restores the contracts of the TestEnv, the calls made afterwards are not recorded */
+  stop(): void;
+  /** Throws if one of the calls can not be replayed, the scenario would differ from the session */
+  toScenario(title: string, description?: string): Scenario;
+  /** Writes the scenario formatted like the files of `helpers/scenarios/` */
+  write(file: string, title: string, description?: string): void;
+}
+
+interface CallDescription {
+  reserve: tEthereumAddress;
+  amount?: BigNumberish;
+  /** Action of the scenario engine, with addresses and raw amounts as arguments */
+  action?: { name: string; args: { [arg: string]: CallArg } };
+}
+
+/** Addresses, amounts, rate modes and flags of the calls, lists for the flash loans */
+type CallArg = BigNumberish | BigNumberish[] | boolean | undefined;
+
+type CallDescriber = (
+  args: utils.Result,
+  from: tEthereumAddress,
+  contract: tEthereumAddress,
+  pool: tEthereumAddress
+) => CallDescription | undefined;
+
+const RATE_MODES: { [mode: string]: string } = {
+  [RateMode.None]: 'none',
+  [RateMode.Stable]: 'stable',
+  [RateMode.Variable]: 'variable',
+};
+const getRateMode = (mode: BigNumberish) =>
+  RATE_MODES[BigNumber.from(mode).toString()] || 'invalid';
+const toList = (arg: CallArg) => (Array.isArray(arg) ? arg : [`${arg}`]);
+
+const isSameAddress = (first: string, second: string) =>
+  first.toLowerCase() === second.toLowerCase();
+const describeActor = (actor: string) => (utils.isAddress(actor) ? actor : `user ${actor}`);
+
+/** Pool calls, mapped to the actions of the scenario engine */
+const POOL_CALLS: { [method: string]: CallDescriber } = {
+  supply: ([reserve, amount, onBehalfOf], user) => ({
+    reserve,
+    amount,
+    action: { name: 'deposit', args: { reserve, amount, user, onBehalfOf } },
+  }),
+  supplyWithPermit: ([reserve, amount, onBehalfOf], user) => ({
+    reserve,
+    amount,
+    action: { name: 'supplyWithPermit', args: { reserve, amount, user, onBehalfOf } },
+  }),
+  // The scenario engine withdraws to the caller only
+  withdraw: ([reserve, amount, to], user) => ({
+    reserve,
+    amount,
+    action: isSameAddress(to, user)
+      ? { name: 'withdraw', args: { reserve, amount, user } }
+      : undefined,
+  }),
+  borrow: ([reserve, amount, rateMode, , onBehalfOf], user) => ({
+    reserve,
+    amount,
+    action: {
+      name: 'borrow',
+      args: { reserve, amount, borrowRateMode: getRateMode(rateMode), user, onBehalfOf },
+    },
+  }),
+  repay: ([reserve, amount, rateMode, onBehalfOf], user) => ({
+    reserve,
+    amount,
+    action: {
+      name: 'repay',
+      args: { reserve, amount, borrowRateMode: getRateMode(rateMode), user, onBehalfOf },
+    },
+  }),
+  repayWithPermit: ([reserve, amount, rateMode, onBehalfOf], user) => ({
+    reserve,
+    amount,
+    action: {
+      name: 'repayWithPermit',
+      args: { reserve, amount, borrowRateMode: getRateMode(rateMode), user, onBehalfOf },
+    },
+  }),
+  setUserUseReserveAsCollateral: ([reserve, useAsCollateral], user) => ({
+    reserve,
+    action: {
+      name: 'setUseAsCollateral',
+      args: { reserve, user, useAsCollateral: `${useAsCollateral}` },
+    },
+  }),
+  swapBorrowRateMode: ([reserve, rateMode], user) => ({
+    reserve,
+    action: {
+      name: 'swapBorrowRateMode',
+      args: { reserve, user, borrowRateMode: getRateMode(rateMode) },
+    },
+  }),
+  rebalanceStableBorrowRate: ([reserve, target], user) => ({
+    reserve,
+    action: { name: 'rebalanceStableBorrowRate', args: { reserve, user, target } },
+  }),
+  liquidationCall: ([collateral, debt, user, amount, receiveAToken], liquidator) => ({
+    reserve: debt,
+    amount,
+    action: {
+      name: 'liquidationCall',
+      args: { collateral, debt, user, liquidator, amount, receiveAToken: `${receiveAToken}` },
+    },
+  }),
+  mintUnbacked: ([reserve, amount, onBehalfOf], user) => ({
+    reserve,
+    amount,
+    action: { name: 'mintUnbacked', args: { reserve, amount, user, onBehalfOf } },
+  }),
+  backUnbacked: ([reserve, amount, fee], user) => ({
+    reserve,
+    amount,
+    action: { name: 'backUnbacked', args: { reserve, amount, fee, user } },
+  }),
+  // The receivers of the flash loans are replaced by the mocks of the scenario engine
+  flashLoan: ([, reserves, amounts, modes, onBehalfOf], user) => ({
+    reserve: reserves[0],
+    amount: amounts[0],
+    action: {
+      name: 'flashLoan',
+      args: {
+        reserves,
+        amounts,
+        modes: modes.map((mode: BigNumberish) => BigNumber.from(mode).toString()),
+        user,
+        onBehalfOf,
+      },
+    },
+  }),
+  flashLoanSimple: ([, reserve, amount], user) => ({
+    reserve,
+    amount,
+    action: { name: 'flashLoanSimple', args: { reserve, amount, user } },
+  }),
+};
+
+/** Calls of the test tokens, preparing the Pool calls */
+const TOKEN_CALLS: { [method: string]: CallDescriber } = {
+  mint: (args, user, reserve) => {
+    // `mint(uint256)` mints to the caller
+    const [to, amount] = utils.isAddress(`${args[0]}`) ? args : [user, args[0]];
+    return {
+      reserve,
+      amount,
+      action: isSameAddress(to, user)
+        ? { name: 'mint', args: { reserve, amount, user } }
+        : undefined,
+    };
+  },
+  approve: ([spender], user, reserve, pool) => ({
+    reserve,
+    action: isSameAddress(spender, pool) ? { name: 'approve', args: { reserve, user } } : undefined,
+  }),
+};
+
+const USER_ARGS = ['user', 'onBehalfOf', 'liquidator', 'target'];
+const RESERVE_ARGS = ['reserve', 'collateral', 'debt'];
+/** Amounts in the units of the debt for liquidations, of the reserve otherwise */
+const AMOUNT_ARGS = ['amount', 'fee'];
+/** Reserves of the flash loans, with an amount for each of them */
+const RESERVE_LIST_ARGS = ['reserves'];
+const AMOUNT_LIST_ARGS = ['amounts'];
+const LIST_ARGS = ['modes'];
+
+/**
+ * Records the Pool and test token calls made through the contracts of the TestEnv, e.g. from the
+ * Hardhat console, and turns them into a scenario replayable by `scenario.spec.ts`
+ * @param testEnv The TestEnv, whose contracts are replaced until the recorder is stopped
+ * @param log Logs each call with its actor, reserve, amount and outcome, e.g. `console.log`
+ */
+export const recordScenario = (
+  testEnv: TestEnv,
+  log: (line: string) => void = () => {}
+): ScenarioRecorder => {
+  const calls: RecordedCall[] = [];
+  const { pool, dai, usdc, aave, weth } = testEnv;
+  const tokens: { [reserve: string]: Promise<{ symbol: string; decimals: number }> } = {};
+
+  const getToken = (reserve: tEthereumAddress) => {
+    const key = reserve.toLowerCase();
+    if (!tokens[key]) {
+      const token = IERC20Detailed__factory.connect(reserve, pool.provider);
+      tokens[key] = Promise.all([token.symbol(), token.decimals()]).then(([symbol, decimals]) => ({
+        symbol,
+        decimals,
+      }));
+    }
+    return tokens[key];
+  };
+  const getUser = (address: tEthereumAddress) => {
+    const index = testEnv.users.findIndex((user) => isSameAddress(user.address, address));
+    return index === -1 ? undefined : `${index}`;
+  };
+  const formatAmount = async (reserve: tEthereumAddress, amount: BigNumberish) => {
+    if (BigNumber.from(amount).eq(MAX_UINT_AMOUNT)) {
+      return '-1';
+    }
+    return utils.formatUnits(amount, (await getToken(reserve)).decimals).replace(/\.0$/, '');
+  };
+
+  const toAction = async (
+    { name, args }: NonNullable<CallDescription['action']>,
+    outcome: RecordedCall['outcome'],
+    revertMessage?: string
+  ) => {
+    const resolved: { [arg: string]: string | string[] } = {};
+    for (const [arg, value] of Object.entries(args)) {
+      if (value === undefined) {
+        continue;
+      }
+      if (USER_ARGS.includes(arg)) {
+        const user = getUser(`${value}`);
+        if (user === undefined) {
+          // The scenario engine only runs the test users
+          return undefined;
+        }
+        resolved[arg] = user;
+      } else if (RESERVE_ARGS.includes(arg)) {
+        resolved[arg] = (await getToken(`${value}`)).symbol;
+      } else if (AMOUNT_ARGS.includes(arg)) {
+        resolved[arg] = await formatAmount(`${args.debt || args.reserve}`, `${value}`);
+      } else if (RESERVE_LIST_ARGS.includes(arg)) {
+        resolved[arg] = await Promise.all(
+          toList(value).map(async (reserve) => (await getToken(`${reserve}`)).symbol)
+        );
+      } else if (AMOUNT_LIST_ARGS.includes(arg)) {
+        const reserves = toList(args.reserves);
+        resolved[arg] = await Promise.all(
+          toList(value).map((amount, i) => formatAmount(`${reserves[i]}`, amount))
+        );
+      } else if (LIST_ARGS.includes(arg)) {
+        resolved[arg] = toList(value).map((item) => `${item}`);
+      } else {
+        resolved[arg] = `${value}`;
+      }
+    }
+    const action: Action = { name, args: resolved, expected: outcome };
+    if (revertMessage !== undefined) {
+      action.revertMessage = revertMessage;
+    }
+    return action;
+  };
+
+  const record = async (
+    method: string,
+    description: CallDescription | undefined,
+    from: tEthereumAddress,
+    outcome: RecordedCall['outcome'],
+    revertMessage?: string
+  ) => {
+    const call: RecordedCall = { actor: getUser(from) || from, method, outcome };
+    if (description) {
+      call.reserve = (await getToken(description.reserve)).symbol;
+      if (description.amount !== undefined) {
+        call.amount = await formatAmount(description.reserve, description.amount);
+      }
+      if (description.action) {
+        call.action = await toAction(description.action, outcome, revertMessage);
+      }
+    }
+    if (revertMessage !== undefined) {
+      call.revertMessage = revertMessage;
+    }
+    calls.push(call);
+
+    log(
+      [
+        describeActor(call.actor),
+        method,
+        call.amount,
+        call.reserve,
+        `-> ${outcome}${revertMessage !== undefined ? ` (${revertMessage})` : ''}`,
+        call.action ? undefined : '(not replayable)',
+      ]
+        .filter((part) => part !== undefined)
+        .join(' ')
+    );
+  };
+
+  const wrap = <T extends BaseContract>(
+    contract: T,
+    describers: { [method: string]: CallDescriber }
+  ): T => {
+    // The functions of ethers contracts are read-only, so they are overridden in a child object
+    const wrapped: T = Object.create(contract);
+    Object.defineProperty(wrapped, 'connect', {
+      value: (signerOrProvider: Signer | Provider) =>
+        wrap(contract.connect(signerOrProvider) as T, describers),
+    });
+
+    // Overloaded functions are only reachable by their signature, e.g. `mint(address,uint256)`
+    const { functions }: BaseContract = contract;
+    for (const property of Object.keys(functions)) {
+      const method = property.split('(')[0];
+      if (!Object.prototype.hasOwnProperty.call(describers, method)) {
+        continue;
+      }
+      // Sends the transactions like the function of the same name on the contract itself
+      const contractFunction: ContractFunction = functions[property];
+
+      Object.defineProperty(wrapped, property, {
+        enumerable: true,
+        value: async (...args: Parameters<ContractFunction>) => {
+          const from = await contract.signer.getAddress();
+          const description = describers[method](args, from, contract.address, pool.address);
+          try {
+            const tx = await contractFunction(...args);
+            await tx.wait();
+            await record(method, description, from, 'success');
+            return tx;
+          } catch (error) {
+            const decoded = decodeProtocolError(error);
+            if (!decoded) {
+              throw error;
+            }
+            await record(
+              method,
+              description,
+              from,
+              'revert',
+              decoded.kind === 'Error' ? decoded.reason : decoded.description
+            );
+            throw error;
+          }
+        },
+      });
+    }
+    return wrapped;
+  };
+
+  testEnv.pool = wrap(pool, POOL_CALLS);
+  testEnv.dai = wrap(dai, TOKEN_CALLS);
+  testEnv.usdc = wrap(usdc, TOKEN_CALLS);
+  testEnv.aave = wrap(aave, TOKEN_CALLS);
+  testEnv.weth = wrap(weth, TOKEN_CALLS);
+
+  const recorder: ScenarioRecorder = {
+    calls,
+    stop: () => {
+      Object.assign(testEnv, { pool, dai, usdc, aave, weth });
+    },
+    toScenario: (title, description = '') => {
+      const notReplayable = calls.filter(({ action }) => action === undefined);
+      if (notReplayable.length > 0) {
+        throw `The recorded calls ${notReplayable
+          .map(({ actor, method }) => `${method} of ${describeActor(actor)}`)
+          .join(', ')} can not be replayed by the scenario engine`;
+      }
+      const scenario: Scenario = {
+        title,
+        description,
+        stories: [
+          {
+            description: title,
+            actions: calls.map(({ action }) => ({ ...(action as Action) })),
+          },
+        ],
+      };
+      const errors = validateScenario(scenario, title);
+      if (errors.length > 0) {
+        throw `The recorded scenario is invalid: ${errors
+          .map(({ path, message }) => `${path}: ${message}`)
+          .join(', ')}`;
+      }
+      return scenario;
+    },
+    write: (file, title, description) => {
+      const scenario = recorder.toScenario(title, description);
+      fs.writeFileSync(
+        file,
+        // Objects stay expanded like in the existing scenarios, arrays fitting on a line are collapsed
+        prettier.format(JSON.stringify(scenario, null, 2), {
+          ...prettier.resolveConfig.sync(file),
+          parser: 'json',
+        })
+      );
+    },
+  };
+  return recorder;
+};
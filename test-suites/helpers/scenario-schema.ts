@@ -0,0 +1,341 @@
+import fs from 'fs';
+import path from 'path';
+import Ajv, { ErrorObject } from 'ajv';
+import { Scenario } from './scenario-engine';
+
+export interface ScenarioValidationError {
+  file: string;
+  story?: number;
+  action?: number;
+  /** JSON path of the invalid value, from the root of the scenario */
+  path: string;
+  message: string;
+}
+
+/** Name of an actor or of a reserve alias, never mistaken for an index */
+const alias = { type: 'string', pattern: '^[A-Za-z][A-Za-z0-9_-]*$' };
+/** Index of the user in `TestEnv.users`, or an actor of the scenario */
+const actor = { type: 'string', pattern: '^([0-9]+|[A-Za-z][A-Za-z0-9_-]*)$' };
+const reserve = { type: 'string', minLength: 1 };
+/** Amounts in the units of the reserve, `-1` standing for the maximum */
+const amount = { type: 'string', pattern: '^(-1|[0-9]+(\\.[0-9]+)?)$' };
+const unsignedInteger = { type: 'string', pattern: '^[0-9]+$' };
+const booleanString = { type: 'string', enum: ['true', 'false'] };
+/** `invalid` selects an unsupported rate mode, to test its revert */
+const borrowRateMode = { type: 'string', enum: ['none', 'stable', 'variable', 'invalid'] };
+const admin = { type: 'string', enum: ['poolAdmin', 'riskAdmin', 'emergencyAdmin'] };
+const params = { type: 'array', items: { type: 'string' } };
+
+const args = (
+  required: { [arg: string]: object },
+  optional: { [arg: string]: object } = {},
+  extra: object = {}
+) => ({
+  type: 'object',
+  properties: { ...required, ...optional },
+  required: Object.keys(required),
+  additionalProperties: false,
+  ...extra,
+});
+const oneOf = (first: string, second: string) => ({
+  oneOf: [{ required: [first] }, { required: [second] }],
+});
+/** The admin role takes precedence over the user index, see `getAdmin` */
+const adminOrUser = { anyOf: [{ required: ['admin'] }, { required: ['user'] }] };
+
+/** Arguments of each action, as read by `executeAction` */
+const ACTION_ARGS: { [name: string]: object } = {
+  mint: args({ reserve, amount, user: actor }),
+  approve: args({ reserve, user: actor }),
+  deposit: args({ reserve, amount, user: actor }, { onBehalfOf: actor, sendValue: amount }),
+  supplyWithPermit: args(
+    { reserve, amount, user: actor },
+    { onBehalfOf: actor, sendValue: amount, useAsCollateral: { type: 'boolean' } }
+  ),
+  delegateBorrowAllowance: args(
+    { reserve, amount, user: actor, toUser: actor },
+    { borrowRateMode }
+  ),
+  withdraw: args({ reserve, amount, user: actor }),
+  borrow: args(
+    { reserve, amount, user: actor },
+    { borrowRateMode, onBehalfOf: actor, timeTravel: unsignedInteger }
+  ),
+  repay: args(
+    { reserve, amount, user: actor },
+    { borrowRateMode, onBehalfOf: actor, timeTravel: unsignedInteger, sendValue: amount }
+  ),
+  repayWithPermit: args(
+    { reserve, amount, user: actor },
+    { borrowRateMode, onBehalfOf: actor, sendValue: amount }
+  ),
+  setUseAsCollateral: args({ reserve, user: actor, useAsCollateral: booleanString }),
+  swapBorrowRateMode: args({ reserve, user: actor, borrowRateMode }),
+  rebalanceStableBorrowRate: args({ reserve, user: actor, target: actor }),
+  liquidationCall: args(
+    { collateral: reserve, debt: reserve, amount, user: actor, liquidator: actor },
+    { receiveAToken: booleanString }
+  ),
+  setUserEMode: args({ categoryId: unsignedInteger, user: actor }),
+  flashLoan: args(
+    {
+      reserves: { type: 'array', items: reserve, minItems: 1, uniqueItems: true },
+      amounts: { type: 'array', items: amount, minItems: 1 },
+      user: actor,
+    },
+    {
+      modes: { type: 'array', items: { type: 'string', enum: ['0', '1', '2'] } },
+      repays: booleanString,
+      onBehalfOf: actor,
+    }
+  ),
+  flashLoanSimple: args({ reserve, amount, user: actor }, { repays: booleanString }),
+  mintUnbacked: args({ reserve, amount, user: actor }, { onBehalfOf: actor }),
+  backUnbacked: args({ reserve, amount, user: actor }, { fee: amount }),
+  configurator: args(
+    { method: { type: 'string', minLength: 1 } },
+    { reserve, params, admin, user: actor },
+    adminOrUser
+  ),
+  aclManager: args(
+    { method: { type: 'string', minLength: 1 } },
+    { params, admin, user: actor },
+    adminOrUser
+  ),
+  configureEModeCategory: args(
+    {
+      categoryId: unsignedInteger,
+      ltv: unsignedInteger,
+      liquidationThreshold: unsignedInteger,
+      liquidationBonus: unsignedInteger,
+    },
+    {
+      priceSource: reserve,
+      label: { type: 'string' },
+      assets: { type: 'array', items: reserve },
+      admin,
+      user: actor,
+    },
+    adminOrUser
+  ),
+  setAssetPrice: args(
+    { reserve },
+    {
+      price: { type: 'string', pattern: '^[0-9]+(\\.[0-9]+)?$' },
+      shock: { type: 'string', pattern: '^-?[0-9]+(\\.[0-9]+)?$' },
+      source: { type: 'string', enum: ['fallback', 'aggregator'] },
+    },
+    oneOf('price', 'shock')
+  ),
+  advanceTime: args(
+    {},
+    { seconds: unsignedInteger, timestamp: unsignedInteger },
+    oneOf('seconds', 'timestamp')
+  ),
+  mineBlocks: args({ blocks: unsignedInteger }),
+};
+
+/** Steps moving the prices or the chain, which can not revert */
+const ACTIONS_WITHOUT_EXPECTED = ['setAssetPrice', 'advanceTime', 'mineBlocks'];
+
+export const scenarioSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  definitions: {
+    action: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', enum: Object.keys(ACTION_ARGS) },
+        description: { type: 'string' },
+        args: { type: 'object' },
+        expected: { type: 'string', enum: ['success', 'revert'] },
+        revertMessage: { type: 'string' },
+      },
+      required: ['name', 'args'],
+      additionalProperties: false,
+      allOf: Object.entries(ACTION_ARGS).map(([name, argsSchema]) => ({
+        if: { properties: { name: { const: name } } },
+        then: {
+          properties: { args: argsSchema },
+          required: ACTIONS_WITHOUT_EXPECTED.includes(name) ? [] : ['expected'],
+        },
+      })),
+    },
+    story: {
+      type: 'object',
+      properties: {
+        description: { type: 'string', minLength: 1 },
+        actions: { type: 'array', items: { $ref: '#/definitions/action' } },
+      },
+      required: ['description', 'actions'],
+      additionalProperties: false,
+    },
+  },
+  type: 'object',
+  properties: {
+    title: { type: 'string', minLength: 1 },
+    description: { type: 'string' },
+    actors: {
+      type: 'object',
+      propertyNames: alias,
+      additionalProperties: { anyOf: [unsignedInteger, admin] },
+    },
+    reserves: { type: 'object', propertyNames: alias, additionalProperties: reserve },
+    stories: { type: 'array', items: { $ref: '#/definitions/story' } },
+  },
+  required: ['title', 'stories'],
+  additionalProperties: false,
+};
+
+/** Arguments naming a user, by index or as an actor */
+const USER_ARGS = ['user', 'onBehalfOf', 'toUser', 'liquidator', 'target'];
+/** Arguments naming reserves, by symbol or by alias */
+const RESERVE_ARGS = ['reserve', 'collateral', 'debt', 'priceSource'];
+const RESERVE_LIST_ARGS = ['reserves', 'assets'];
+/** Inputs of the admin steps, where an actor stands for its user index or its admin role */
+const PARAMS_ARG = 'params';
+/** Steps called by an admin role or by a user */
+const ADMIN_ACTIONS = ['configurator', 'aclManager', 'configureEModeCategory'];
+
+const isIndex = (value: string) => /^[0-9]+$/.test(value);
+
+const validator = new Ajv({ allErrors: true }).compile(scenarioSchema);
+
+const checkActors = (scenario: Scenario, file: string): ScenarioValidationError[] => {
+  const actors = scenario.actors || {};
+  const errors: ScenarioValidationError[] = [];
+
+  scenario.stories.forEach(({ actions }, story) =>
+    actions.forEach(({ name, args }, action) => {
+      for (const arg of USER_ARGS.filter((arg) => args[arg] && !isIndex(args[arg]))) {
+        const error = {
+          file,
+          story,
+          action,
+          path: `$.stories[${story}].actions[${action}].args.${arg}`,
+        };
+        const wallet = actors[args[arg]];
+        if (wallet === undefined) {
+          errors.push({ ...error, message: `unknown actor '${args[arg]}'` });
+        } else if (!isIndex(wallet) && (arg !== 'user' || !ADMIN_ACTIONS.includes(name))) {
+          errors.push({
+            ...error,
+            message: `actor '${args[arg]}' is the ${wallet} and can only call ${ADMIN_ACTIONS.join(
+              ', '
+            )}`,
+          });
+        }
+      }
+    })
+  );
+  return errors;
+};
+
+const formatError = (file: string, { keyword, dataPath, params, message }: ErrorObject) => {
+  const [, story, action] = dataPath.match(/^\.stories\[(\d+)\](?:\.actions\[(\d+)\])?/) || [];
+  let details = message || keyword;
+  if (keyword === 'additionalProperties') {
+    details = `${details} '${(params as Ajv.AdditionalPropertiesParams).additionalProperty}'`;
+  } else if (keyword === 'enum') {
+    details = `${details} ${(params as Ajv.EnumParams).allowedValues.join(', ')}`;
+  }
+  const error: ScenarioValidationError = {
+    file,
+    path: `$${dataPath}`,
+    message: details,
+  };
+  if (story !== undefined) {
+    error.story = parseInt(story);
+  }
+  if (action !== undefined) {
+    error.action = parseInt(action);
+  }
+  return error;
+};
+
+/**
+ * Validates a scenario against `scenarioSchema`
+ * @param scenario The parsed scenario
+ * @param file The name of the scenario file, to report the errors
+ */
+export const validateScenario = (scenario: unknown, file: string): ScenarioValidationError[] => {
+  if (!validator(scenario)) {
+    // The failed `if` of every other action only restates the errors of its `then`
+    return (validator.errors || [])
+      .filter(({ keyword }) => keyword !== 'if')
+      .map((error) => formatError(file, error));
+  }
+  return checkActors(scenario as Scenario, file);
+};
+
+/**
+ * Replaces the actors and the reserve aliases of a valid scenario by the user indexes, admin roles
+ * and reserve symbols read by `executeStory`
+ * @param scenario The validated scenario
+ */
+export const resolveScenario = (scenario: Scenario): Scenario => {
+  const actors = scenario.actors || {};
+  const reserves = scenario.reserves || {};
+  const resolveReserve = (reserve: string) => reserves[reserve] || reserve;
+
+  return {
+    ...scenario,
+    stories: scenario.stories.map((story) => ({
+      ...story,
+      actions: story.actions.map((action) => {
+        const args = { ...action.args };
+
+        for (const arg of USER_ARGS.filter((arg) => args[arg] && !isIndex(args[arg]))) {
+          const wallet = actors[args[arg]];
+          if (isIndex(wallet)) {
+            args[arg] = wallet;
+          } else {
+            // Only the caller of the admin steps can be an admin, and the `admin` argument prevails
+            delete args.user;
+            args.admin = args.admin || wallet;
+          }
+        }
+        for (const arg of RESERVE_ARGS.filter((arg) => args[arg])) {
+          args[arg] = resolveReserve(args[arg]);
+        }
+        for (const arg of RESERVE_LIST_ARGS.filter((arg) => args[arg])) {
+          args[arg] = args[arg].map(resolveReserve);
+        }
+        if (args[PARAMS_ARG]) {
+          args[PARAMS_ARG] = args[PARAMS_ARG].map((param: string) => actors[param] || param);
+        }
+        return { ...action, args };
+      }),
+    })),
+  };
+};
+
+/**
+ * Reads, validates and resolves every scenario of a folder, throwing with the errors of all the
+ * invalid files so that no test runs a malformed scenario
+ * @param folder The folder of the scenario files
+ */
+export const loadScenarios = (folder: string): { file: string; scenario: Scenario }[] => {
+  const scenarios = fs.readdirSync(folder).map((file) => ({
+    file,
+    scenario: JSON.parse(fs.readFileSync(path.join(folder, file), 'utf8')),
+  }));
+
+  const errors = scenarios.flatMap(({ file, scenario }) => validateScenario(scenario, file));
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid scenarios:\n${errors
+        .map(({ file, story, action, path: jsonPath, message }) =>
+          [
+            file,
+            story !== undefined ? `story ${story}` : undefined,
+            action !== undefined ? `action ${action}` : undefined,
+            `${jsonPath}: ${message}`,
+          ]
+            .filter((part) => part !== undefined)
+            .join(', ')
+        )
+        .join('\n')}`
+    );
+  }
+  return scenarios.map(({ file, scenario }) => ({ file, scenario: resolveScenario(scenario) }));
+};
@@ -1,16 +1,19 @@
-import { ONE_YEAR, RAY, MAX_UINT_AMOUNT, PERCENTAGE_FACTOR } from '../../../helpers/constants';
-import { IReserveParams, iMultiPoolsAssets, RateMode } from '../../../helpers/types';
+import { RAY, MAX_UINT_AMOUNT } from '../../../helpers/constants';
+import { RateMode } from '../../../helpers/types';
+import {
+  AccountData,
+  AccountDataEModeCategory,
+  AccountDataParams,
+  calculateUserAccountData,
+} from '../../../helpers/account-data';
+import { DEBT_CEILING_DECIMALS } from '../../../helpers/reserve-configuration';
+import { calcCompoundedInterest, calcLinearInterest } from '../../../helpers/math-utils';
+import { calculateInterestRates, InterestRateStrategyParams } from '../../../helpers/rate-model';
 import { ReserveData, UserReserveData } from './interfaces';
 import { BigNumber } from '@ethersproject/bignumber';
 import './wadraymath';
 import { expect } from 'chai';
 
-interface Configuration {
-  reservesParams: iMultiPoolsAssets<IReserveParams>;
-}
-
-export const configuration: Configuration = <Configuration>{};
-
 export const calcExpectedUserDataAfterDeposit = (
   amountDeposited: string,
   reserveDataBeforeAction: ReserveData,
@@ -18,7 +21,8 @@ export const calcExpectedUserDataAfterDeposit = (
   userDataBeforeAction: UserReserveData,
   txTimestamp: BigNumber,
   currentTimestamp: BigNumber,
-  txCost: BigNumber
+  txCost: BigNumber,
+  enablesAsCollateral: boolean = true
 ): UserReserveData => {
   const expectedUserData = <UserReserveData>{};
 
@@ -55,7 +59,7 @@ export const calcExpectedUserDataAfterDeposit = (
   ).add(amountDeposited);
 
   if (userDataBeforeAction.currentATokenBalance.eq(0)) {
-    expectedUserData.usageAsCollateralEnabled = true;
+    expectedUserData.usageAsCollateralEnabled = enablesAsCollateral;
   } else {
     expectedUserData.usageAsCollateralEnabled = userDataBeforeAction.usageAsCollateralEnabled;
   }
@@ -81,6 +85,32 @@ export const calcExpectedUserDataAfterDeposit = (
   return expectedUserData;
 };
 
+export const calcExpectedUserDataAfterMintUnbacked = (
+  amountMinted: string,
+  reserveDataBeforeAction: ReserveData,
+  reserveDataAfterAction: ReserveData,
+  userDataBeforeAction: UserReserveData,
+  txTimestamp: BigNumber,
+  currentTimestamp: BigNumber,
+  enablesAsCollateral: boolean
+): UserReserveData => {
+  const expectedUserData = calcExpectedUserDataAfterDeposit(
+    amountMinted,
+    reserveDataBeforeAction,
+    reserveDataAfterAction,
+    userDataBeforeAction,
+    txTimestamp,
+    currentTimestamp,
+    BigNumber.from(0),
+    enablesAsCollateral
+  );
+
+  //the aTokens are minted without any underlying supplied by the bridge
+  expectedUserData.walletBalance = userDataBeforeAction.walletBalance;
+
+  return expectedUserData;
+};
+
 export const calcExpectedUserDataAfterWithdraw = (
   amountWithdrawn: string,
   reserveDataBeforeAction: ReserveData,
@@ -167,8 +197,8 @@ export const calcExpectedReserveDataAfterDeposit = (
 
   expectedReserveData.averageStableBorrowRate = reserveDataBeforeAction.averageStableBorrowRate;
   const rates = calcExpectedInterestRates(
-    reserveDataBeforeAction.symbol,
-    reserveDataBeforeAction.marketStableRate,
+    reserveDataBeforeAction.strategy,
+    reserveDataBeforeAction.reserveFactor,
     expectedReserveData.totalStableDebt,
     expectedReserveData.totalVariableDebt,
     expectedReserveData.averageStableBorrowRate,
@@ -213,8 +243,8 @@ export const calcExpectedReserveDataAfterMintUnbacked = (
   );
 
   const rates = calcExpectedInterestRates(
-    reserveDataBeforeAction.symbol,
-    reserveDataBeforeAction.marketStableRate,
+    reserveDataBeforeAction.strategy,
+    reserveDataBeforeAction.reserveFactor,
     expectedReserveData.totalStableDebt,
     expectedReserveData.totalVariableDebt,
     expectedReserveData.averageStableBorrowRate,
@@ -238,14 +268,6 @@ export const calcExpectedReserveDataAfterBackUnbacked = (
   reserveDataBeforeAction: ReserveData,
   txTimestamp: BigNumber
 ): ReserveData => {
-  const cumulateToLiquidityIndex = (
-    liquidityIndex: BigNumber,
-    totalLiquidity: BigNumber,
-    amount: BigNumber
-  ) => {
-    const amountToLiquidityRatio = amount.wadToRay().rayDiv(totalLiquidity.wadToRay());
-    return amountToLiquidityRatio.add(RAY).rayMul(liquidityIndex);
-  };
   const expectedReserveData: ReserveData = <ReserveData>{};
   expectedReserveData.address = reserveDataBeforeAction.address;
   expectedReserveData.reserveFactor = reserveDataBeforeAction.reserveFactor;
@@ -258,25 +280,13 @@ export const calcExpectedReserveDataAfterBackUnbacked = (
 
   const feeBN = BigNumber.from(fee);
 
-  const protocolFeePercentage = BigNumber.from(bridgeProtocolFee);
-
-  const premiumToProtocol = feeBN.percentMul(protocolFeePercentage);
-  const premiumToLP = feeBN.sub(premiumToProtocol);
-
-  const totalSupply = scaledATokenSupply.rayMul(expectedReserveData.liquidityIndex);
   // The fee is added directly to total liquidity, the backing will not change this liquidity.
   // We only update the liquidity index at the end, because it will otherwise influence computations midway
-
-  expectedReserveData.liquidityIndex = cumulateToLiquidityIndex(
-    expectedReserveData.liquidityIndex,
-    totalSupply.add(
-      expectedReserveData.accruedToTreasuryScaled.rayMul(expectedReserveData.liquidityIndex)
-    ),
-    premiumToLP
-  );
-
-  expectedReserveData.accruedToTreasuryScaled = expectedReserveData.accruedToTreasuryScaled.add(
-    premiumToProtocol.rayDiv(expectedReserveData.liquidityIndex)
+  cumulatePremium(
+    expectedReserveData,
+    scaledATokenSupply,
+    feeBN,
+    BigNumber.from(bridgeProtocolFee)
   );
 
   expectedReserveData.unbacked = reserveDataBeforeAction.unbacked.sub(backingAmount);
@@ -296,8 +306,52 @@ export const calcExpectedReserveDataAfterBackUnbacked = (
   );
 
   const rates = calcExpectedInterestRates(
-    reserveDataBeforeAction.symbol,
-    reserveDataBeforeAction.marketStableRate,
+    reserveDataBeforeAction.strategy,
+    reserveDataBeforeAction.reserveFactor,
+    expectedReserveData.totalStableDebt,
+    expectedReserveData.totalVariableDebt,
+    expectedReserveData.averageStableBorrowRate,
+    expectedReserveData.availableLiquidity,
+    expectedReserveData.totalLiquidity
+  );
+
+  expectedReserveData.liquidityRate = rates[0];
+  expectedReserveData.stableBorrowRate = rates[1];
+  expectedReserveData.variableBorrowRate = rates[2];
+
+  updateTotalLiquidityAndUsageRatio(expectedReserveData);
+
+  return expectedReserveData;
+};
+
+export const calcExpectedReserveDataAfterFlashLoan = (
+  scaledATokenSupply: BigNumber,
+  premium: BigNumber,
+  flashLoanPremiumToProtocol: BigNumber,
+  reserveDataBeforeAction: ReserveData,
+  txTimestamp: BigNumber
+): ReserveData => {
+  const expectedReserveData: ReserveData = <ReserveData>{};
+  expectedReserveData.unbacked = reserveDataBeforeAction.unbacked;
+  expectedReserveData.address = reserveDataBeforeAction.address;
+  expectedReserveData.reserveFactor = reserveDataBeforeAction.reserveFactor;
+  updateState(reserveDataBeforeAction, expectedReserveData, txTimestamp);
+
+  cumulatePremium(expectedReserveData, scaledATokenSupply, premium, flashLoanPremiumToProtocol);
+
+  //the amount flash borrowed is back in the reserve, only the premium is added to the liquidity
+  updateLiquidityAndUsageRatios(
+    reserveDataBeforeAction,
+    expectedReserveData,
+    premium,
+    BigNumber.from(0)
+  );
+
+  expectedReserveData.averageStableBorrowRate = reserveDataBeforeAction.averageStableBorrowRate;
+
+  const rates = calcExpectedInterestRates(
+    reserveDataBeforeAction.strategy,
+    reserveDataBeforeAction.reserveFactor,
     expectedReserveData.totalStableDebt,
     expectedReserveData.totalVariableDebt,
     expectedReserveData.averageStableBorrowRate,
@@ -343,8 +397,8 @@ export const calcExpectedReserveDataAfterWithdraw = (
 
   expectedReserveData.averageStableBorrowRate = reserveDataBeforeAction.averageStableBorrowRate;
   const rates = calcExpectedInterestRates(
-    reserveDataBeforeAction.symbol,
-    reserveDataBeforeAction.marketStableRate,
+    reserveDataBeforeAction.strategy,
+    reserveDataBeforeAction.reserveFactor,
     expectedReserveData.totalStableDebt,
     expectedReserveData.totalVariableDebt,
     expectedReserveData.averageStableBorrowRate,
@@ -404,8 +458,8 @@ export const calcExpectedReserveDataAfterBorrow = (
     expectedReserveData.principalStableDebt = expectedStableDebtUntilTx.add(amountBorrowedBN);
 
     const ratesAfterTx = calcExpectedInterestRates(
-      reserveDataBeforeAction.symbol,
-      reserveDataBeforeAction.marketStableRate,
+      reserveDataBeforeAction.strategy,
+      reserveDataBeforeAction.reserveFactor,
       expectedReserveData.principalStableDebt,
       expectedReserveData.totalVariableDebt,
       expectedReserveData.averageStableBorrowRate,
@@ -476,8 +530,8 @@ export const calcExpectedReserveDataAfterBorrow = (
       );
 
     const rates = calcExpectedInterestRates(
-      reserveDataBeforeAction.symbol,
-      reserveDataBeforeAction.marketStableRate,
+      reserveDataBeforeAction.strategy,
+      reserveDataBeforeAction.reserveFactor,
       totalStableDebtAfterTx,
       totalVariableDebtAfterTx,
       expectedReserveData.averageStableBorrowRate,
@@ -558,40 +612,13 @@ export const calcExpectedReserveDataAfterRepay = (
   );
 
   if (borrowRateMode == RateMode.Stable) {
-    const expectedDebt = calcExpectedTotalStableDebt(
-      reserveDataBeforeAction.principalStableDebt,
-      reserveDataBeforeAction.averageStableBorrowRate,
-      reserveDataBeforeAction.totalStableDebtLastUpdated,
+    updateStableDebtAfterRepay(
+      reserveDataBeforeAction,
+      userDataBeforeAction,
+      expectedReserveData,
+      amountRepaidBN,
       txTimestamp
     );
-
-    expectedReserveData.principalStableDebt = expectedReserveData.totalStableDebt =
-      expectedDebt.sub(amountRepaidBN);
-
-    //due to accumulation errors, the total stable debt might be smaller than the last user debt.
-    //in this case we simply set the total supply and avg stable rate to 0.
-    if (expectedReserveData.totalStableDebt.lt(0)) {
-      expectedReserveData.principalStableDebt =
-        expectedReserveData.totalStableDebt =
-        expectedReserveData.averageStableBorrowRate =
-          BigNumber.from(0);
-    } else {
-      expectedReserveData.averageStableBorrowRate = calcExpectedAverageStableBorrowRate(
-        reserveDataBeforeAction.averageStableBorrowRate,
-        expectedDebt,
-        amountRepaidBN.negated(),
-        userDataBeforeAction.stableBorrowRate
-      );
-
-      //also due to accumulation errors, the final avg stable rate when the last user repays might be negative.
-      //if that is the case, it means a small leftover of total stable debt is left, which can be erased.
-      if (expectedReserveData.averageStableBorrowRate.lt(0)) {
-        expectedReserveData.principalStableDebt =
-          expectedReserveData.totalStableDebt =
-          expectedReserveData.averageStableBorrowRate =
-            BigNumber.from(0);
-      }
-    }
   } else {
     expectedReserveData.scaledVariableDebt = reserveDataBeforeAction.scaledVariableDebt.sub(
       amountRepaidBN.rayDiv(expectedReserveData.variableBorrowIndex)
@@ -613,8 +640,8 @@ export const calcExpectedReserveDataAfterRepay = (
     );
 
   const rates = calcExpectedInterestRates(
-    reserveDataBeforeAction.symbol,
-    reserveDataBeforeAction.marketStableRate,
+    reserveDataBeforeAction.strategy,
+    reserveDataBeforeAction.reserveFactor,
     expectedReserveData.totalStableDebt,
     expectedReserveData.totalVariableDebt,
     expectedReserveData.averageStableBorrowRate,
@@ -713,6 +740,31 @@ export const calcExpectedUserDataAfterBorrow = (
   return expectedUserData;
 };
 
+export const calcExpectedUserDataAfterFlashLoanBorrow = (
+  amountBorrowed: string,
+  interestRateMode: string,
+  reserveDataBeforeAction: ReserveData,
+  expectedDataAfterAction: ReserveData,
+  userDataBeforeAction: UserReserveData,
+  txTimestamp: BigNumber,
+  currentTimestamp: BigNumber
+): UserReserveData => {
+  const expectedUserData = calcExpectedUserDataAfterBorrow(
+    amountBorrowed,
+    interestRateMode,
+    reserveDataBeforeAction,
+    expectedDataAfterAction,
+    userDataBeforeAction,
+    txTimestamp,
+    currentTimestamp
+  );
+
+  //the debt is opened for the funds kept by the flash loan receiver
+  expectedUserData.walletBalance = userDataBeforeAction.walletBalance;
+
+  return expectedUserData;
+};
+
 export const calcExpectedUserDataAfterRepay = (
   totalRepaid: string,
   rateMode: RateMode,
@@ -890,8 +942,8 @@ export const calcExpectedReserveDataAfterSwapRateMode = (
       expectedReserveData.totalLiquidity
     );
   const rates = calcExpectedInterestRates(
-    reserveDataBeforeAction.symbol,
-    reserveDataBeforeAction.marketStableRate,
+    reserveDataBeforeAction.strategy,
+    reserveDataBeforeAction.reserveFactor,
     expectedReserveData.totalStableDebt,
     expectedReserveData.totalVariableDebt,
     expectedReserveData.averageStableBorrowRate,
@@ -1031,8 +1083,8 @@ export const calcExpectedReserveDataAfterStableRateRebalance = (
     );
 
   const rates = calcExpectedInterestRates(
-    reserveDataBeforeAction.symbol,
-    reserveDataBeforeAction.marketStableRate,
+    reserveDataBeforeAction.strategy,
+    reserveDataBeforeAction.reserveFactor,
     expectedReserveData.totalStableDebt,
     expectedReserveData.totalVariableDebt,
     expectedReserveData.averageStableBorrowRate,
@@ -1096,6 +1148,333 @@ export const calcExpectedUserDataAfterStableRateRebalance = (
   return expectedUserData;
 };
 
+export const calcExpectedDebtReserveDataAfterLiquidation = (
+  debtRepaid: BigNumber,
+  reserveDataBeforeAction: ReserveData,
+  userDataBeforeAction: UserReserveData,
+  txTimestamp: BigNumber
+): ReserveData => {
+  const expectedReserveData: ReserveData = <ReserveData>{};
+  expectedReserveData.unbacked = reserveDataBeforeAction.unbacked;
+  expectedReserveData.address = reserveDataBeforeAction.address;
+  expectedReserveData.reserveFactor = reserveDataBeforeAction.reserveFactor;
+
+  const userVariableDebt = calcExpectedVariableDebtTokenBalance(
+    reserveDataBeforeAction,
+    userDataBeforeAction,
+    txTimestamp
+  );
+
+  //the variable debt is burnt first, the stable debt covers the rest
+  const variableDebtRepaid = debtRepaid.gt(userVariableDebt) ? userVariableDebt : debtRepaid;
+  const stableDebtRepaid = debtRepaid.sub(variableDebtRepaid);
+
+  updateState(reserveDataBeforeAction, expectedReserveData, txTimestamp);
+  updateLiquidityAndUsageRatios(
+    reserveDataBeforeAction,
+    expectedReserveData,
+    debtRepaid,
+    BigNumber.from(0)
+  );
+
+  expectedReserveData.scaledVariableDebt = reserveDataBeforeAction.scaledVariableDebt.sub(
+    variableDebtRepaid.rayDiv(expectedReserveData.variableBorrowIndex)
+  );
+  expectedReserveData.totalVariableDebt = expectedReserveData.scaledVariableDebt.rayMul(
+    expectedReserveData.variableBorrowIndex
+  );
+
+  if (stableDebtRepaid.gt(0)) {
+    updateStableDebtAfterRepay(
+      reserveDataBeforeAction,
+      userDataBeforeAction,
+      expectedReserveData,
+      stableDebtRepaid,
+      txTimestamp
+    );
+  } else {
+    expectedReserveData.averageStableBorrowRate = reserveDataBeforeAction.averageStableBorrowRate;
+  }
+
+  [expectedReserveData.borrowUsageRatio, expectedReserveData.supplyUsageRatio] =
+    calcExpectedUsageRatios(
+      expectedReserveData.totalStableDebt,
+      expectedReserveData.totalVariableDebt,
+      expectedReserveData.availableLiquidity,
+      expectedReserveData.totalLiquidity
+    );
+
+  const rates = calcExpectedInterestRates(
+    reserveDataBeforeAction.strategy,
+    reserveDataBeforeAction.reserveFactor,
+    expectedReserveData.totalStableDebt,
+    expectedReserveData.totalVariableDebt,
+    expectedReserveData.averageStableBorrowRate,
+    expectedReserveData.availableLiquidity,
+    expectedReserveData.totalLiquidity
+  );
+  expectedReserveData.liquidityRate = rates[0];
+  expectedReserveData.stableBorrowRate = rates[1];
+  expectedReserveData.variableBorrowRate = rates[2];
+
+  expectedReserveData.lastUpdateTimestamp = txTimestamp;
+
+  updateTotalLiquidityAndUsageRatio(expectedReserveData);
+
+  return expectedReserveData;
+};
+
+export const calcExpectedCollateralReserveDataAfterLiquidation = (
+  collateralLiquidated: BigNumber,
+  receiveAToken: boolean,
+  reserveDataBeforeAction: ReserveData,
+  userDataBeforeAction: UserReserveData,
+  txTimestamp: BigNumber
+): ReserveData => {
+  if (!receiveAToken) {
+    //the collateral is withdrawn from the reserve to the liquidator
+    return calcExpectedReserveDataAfterWithdraw(
+      collateralLiquidated.toString(),
+      reserveDataBeforeAction,
+      userDataBeforeAction,
+      txTimestamp
+    );
+  }
+
+  //the aTokens are transferred to the liquidator without updating the state of the reserve,
+  //only the debts keep accruing
+  const expectedReserveData: ReserveData = { ...reserveDataBeforeAction };
+
+  expectedReserveData.totalStableDebt = calcExpectedTotalStableDebt(
+    reserveDataBeforeAction.principalStableDebt,
+    reserveDataBeforeAction.averageStableBorrowRate,
+    reserveDataBeforeAction.totalStableDebtLastUpdated,
+    txTimestamp
+  );
+  expectedReserveData.totalVariableDebt = reserveDataBeforeAction.scaledVariableDebt.rayMul(
+    calcExpectedReserveNormalizedDebt(
+      reserveDataBeforeAction.variableBorrowRate,
+      reserveDataBeforeAction.variableBorrowIndex,
+      reserveDataBeforeAction.lastUpdateTimestamp,
+      txTimestamp
+    )
+  );
+
+  updateTotalLiquidityAndUsageRatio(expectedReserveData);
+
+  return expectedReserveData;
+};
+
+export const calcExpectedDebtUserDataAfterLiquidation = (
+  debtRepaid: BigNumber,
+  reserveDataBeforeAction: ReserveData,
+  expectedDataAfterAction: ReserveData,
+  userDataBeforeAction: UserReserveData,
+  txTimestamp: BigNumber
+): UserReserveData => {
+  const expectedUserData = <UserReserveData>{};
+
+  const variableDebt = calcExpectedVariableDebtTokenBalance(
+    reserveDataBeforeAction,
+    userDataBeforeAction,
+    txTimestamp
+  );
+
+  const stableDebt = calcExpectedStableDebtTokenBalance(
+    userDataBeforeAction.principalStableDebt,
+    userDataBeforeAction.stableBorrowRate,
+    userDataBeforeAction.stableRateLastUpdated,
+    txTimestamp
+  );
+
+  const variableDebtRepaid = debtRepaid.gt(variableDebt) ? variableDebt : debtRepaid;
+  const stableDebtRepaid = debtRepaid.sub(variableDebtRepaid);
+
+  expectedUserData.scaledVariableDebt = userDataBeforeAction.scaledVariableDebt.sub(
+    variableDebtRepaid.rayDiv(expectedDataAfterAction.variableBorrowIndex)
+  );
+  expectedUserData.currentVariableDebt = expectedUserData.scaledVariableDebt.rayMul(
+    expectedDataAfterAction.variableBorrowIndex
+  );
+
+  if (stableDebtRepaid.gt(0)) {
+    expectedUserData.principalStableDebt = expectedUserData.currentStableDebt =
+      stableDebt.sub(stableDebtRepaid);
+
+    if (expectedUserData.currentStableDebt.eq('0')) {
+      //the whole stable debt was liquidated
+      expectedUserData.stableBorrowRate = expectedUserData.stableRateLastUpdated =
+        BigNumber.from('0');
+    } else {
+      expectedUserData.stableBorrowRate = userDataBeforeAction.stableBorrowRate;
+      expectedUserData.stableRateLastUpdated = txTimestamp;
+    }
+  } else {
+    expectedUserData.principalStableDebt = userDataBeforeAction.principalStableDebt;
+    expectedUserData.currentStableDebt = stableDebt;
+    expectedUserData.stableBorrowRate = userDataBeforeAction.stableBorrowRate;
+    expectedUserData.stableRateLastUpdated = userDataBeforeAction.stableRateLastUpdated;
+  }
+
+  expectedUserData.liquidityRate = expectedDataAfterAction.liquidityRate;
+
+  expectedUserData.usageAsCollateralEnabled = userDataBeforeAction.usageAsCollateralEnabled;
+
+  expectedUserData.currentATokenBalance = calcExpectedATokenBalance(
+    reserveDataBeforeAction,
+    userDataBeforeAction,
+    txTimestamp
+  );
+  expectedUserData.scaledATokenBalance = userDataBeforeAction.scaledATokenBalance;
+
+  //the wallet balance is the one of the liquidator, who repays the debt
+  expectedUserData.walletBalance = userDataBeforeAction.walletBalance.sub(debtRepaid);
+
+  return expectedUserData;
+};
+
+export const calcExpectedCollateralUserDataAfterLiquidation = (
+  collateralLiquidated: BigNumber,
+  liquidationProtocolFee: BigNumber,
+  reserveDataBeforeAction: ReserveData,
+  expectedDataAfterAction: ReserveData,
+  userDataBeforeAction: UserReserveData,
+  txTimestamp: BigNumber
+): UserReserveData => {
+  const expectedUserData = <UserReserveData>{};
+
+  const index = calcExpectedReserveNormalizedIncome(reserveDataBeforeAction, txTimestamp);
+  const aTokenBalance = userDataBeforeAction.scaledATokenBalance.rayMul(index);
+
+  //the collateral is burnt or transferred to the liquidator, the protocol fee is transferred to the treasury
+  expectedUserData.scaledATokenBalance = userDataBeforeAction.scaledATokenBalance
+    .sub(collateralLiquidated.rayDiv(index))
+    .sub(liquidationProtocolFee.rayDiv(index));
+  expectedUserData.currentATokenBalance = expectedUserData.scaledATokenBalance.rayMul(index);
+
+  if (collateralLiquidated.add(liquidationProtocolFee).eq(aTokenBalance)) {
+    expectedUserData.usageAsCollateralEnabled = false;
+  } else {
+    expectedUserData.usageAsCollateralEnabled = userDataBeforeAction.usageAsCollateralEnabled;
+  }
+
+  expectedUserData.principalStableDebt = userDataBeforeAction.principalStableDebt;
+  expectedUserData.scaledVariableDebt = userDataBeforeAction.scaledVariableDebt;
+  expectedUserData.currentStableDebt = calcExpectedStableDebtTokenBalance(
+    userDataBeforeAction.principalStableDebt,
+    userDataBeforeAction.stableBorrowRate,
+    userDataBeforeAction.stableRateLastUpdated,
+    txTimestamp
+  );
+  expectedUserData.currentVariableDebt = calcExpectedVariableDebtTokenBalance(
+    reserveDataBeforeAction,
+    userDataBeforeAction,
+    txTimestamp
+  );
+  expectedUserData.stableBorrowRate = userDataBeforeAction.stableBorrowRate;
+  expectedUserData.stableRateLastUpdated = userDataBeforeAction.stableRateLastUpdated;
+
+  expectedUserData.liquidityRate = expectedDataAfterAction.liquidityRate;
+
+  expectedUserData.walletBalance = userDataBeforeAction.walletBalance;
+
+  return expectedUserData;
+};
+
+export const calcExpectedLiquidatorDataAfterLiquidation = (
+  collateralLiquidated: BigNumber,
+  receiveAToken: boolean,
+  reserveDataBeforeAction: ReserveData,
+  expectedDataAfterAction: ReserveData,
+  liquidatorDataBeforeAction: UserReserveData,
+  txTimestamp: BigNumber
+): UserReserveData => {
+  const expectedUserData = <UserReserveData>{};
+
+  const index = calcExpectedReserveNormalizedIncome(reserveDataBeforeAction, txTimestamp);
+
+  if (receiveAToken) {
+    expectedUserData.scaledATokenBalance = liquidatorDataBeforeAction.scaledATokenBalance.add(
+      collateralLiquidated.rayDiv(index)
+    );
+    expectedUserData.walletBalance = liquidatorDataBeforeAction.walletBalance;
+
+    //the received aTokens are enabled as collateral if the liquidator had none
+    if (liquidatorDataBeforeAction.scaledATokenBalance.eq(0)) {
+      expectedUserData.usageAsCollateralEnabled = true;
+    } else {
+      expectedUserData.usageAsCollateralEnabled =
+        liquidatorDataBeforeAction.usageAsCollateralEnabled;
+    }
+  } else {
+    expectedUserData.scaledATokenBalance = liquidatorDataBeforeAction.scaledATokenBalance;
+    expectedUserData.walletBalance =
+      liquidatorDataBeforeAction.walletBalance.add(collateralLiquidated);
+    expectedUserData.usageAsCollateralEnabled = liquidatorDataBeforeAction.usageAsCollateralEnabled;
+  }
+  expectedUserData.currentATokenBalance = expectedUserData.scaledATokenBalance.rayMul(index);
+
+  expectedUserData.principalStableDebt = liquidatorDataBeforeAction.principalStableDebt;
+  expectedUserData.scaledVariableDebt = liquidatorDataBeforeAction.scaledVariableDebt;
+  expectedUserData.currentStableDebt = calcExpectedStableDebtTokenBalance(
+    liquidatorDataBeforeAction.principalStableDebt,
+    liquidatorDataBeforeAction.stableBorrowRate,
+    liquidatorDataBeforeAction.stableRateLastUpdated,
+    txTimestamp
+  );
+  expectedUserData.currentVariableDebt = calcExpectedVariableDebtTokenBalance(
+    reserveDataBeforeAction,
+    liquidatorDataBeforeAction,
+    txTimestamp
+  );
+  expectedUserData.stableBorrowRate = liquidatorDataBeforeAction.stableBorrowRate;
+  expectedUserData.stableRateLastUpdated = liquidatorDataBeforeAction.stableRateLastUpdated;
+
+  expectedUserData.liquidityRate = expectedDataAfterAction.liquidityRate;
+
+  return expectedUserData;
+};
+
+const calcIsolationModeDebt = (amount: BigNumber, decimals: BigNumber) =>
+  amount.div(BigNumber.from(10).pow(decimals.sub(DEBT_CEILING_DECIMALS)));
+
+export const calcExpectedIsolationModeTotalDebtAfterBorrow = (
+  amountBorrowed: BigNumber,
+  decimals: BigNumber,
+  isolationModeTotalDebtBefore: BigNumber
+): BigNumber => {
+  //the isolation mode debt is accounted with the decimals of the debt ceiling
+  return isolationModeTotalDebtBefore.add(calcIsolationModeDebt(amountBorrowed, decimals));
+};
+
+export const calcExpectedIsolationModeTotalDebtAfterRepay = (
+  amountRepaid: BigNumber,
+  decimals: BigNumber,
+  isolationModeTotalDebtBefore: BigNumber
+): BigNumber => {
+  const isolatedDebtRepaid = calcIsolationModeDebt(amountRepaid, decimals);
+
+  //the rounding of the borrows can leave less isolation mode debt than repaid
+  return isolationModeTotalDebtBefore.lte(isolatedDebtRepaid)
+    ? BigNumber.from(0)
+    : isolationModeTotalDebtBefore.sub(isolatedDebtRepaid);
+};
+
+export const calcExpectedUserAccountDataAfterSetUserEMode = (
+  accountDataParamsBefore: AccountDataParams,
+  categoryId: BigNumber,
+  eModeCategory: AccountDataEModeCategory | undefined,
+  txTimestamp: BigNumber
+): AccountData => {
+  //the category overrides the LTV, the liquidation threshold and the price of the assets in it
+  return calculateUserAccountData({
+    ...accountDataParamsBefore,
+    userEModeCategory: categoryId,
+    eModeCategory: categoryId.isZero() ? undefined : eModeCategory,
+    currentTimestamp: txTimestamp,
+  });
+};
+
 const calcExpectedScaledATokenBalance = (
   userDataBeforeAction: UserReserveData,
   index: BigNumber,
@@ -1189,165 +1568,27 @@ export const calcExpectedStableDebtTokenBalance = (
   return principalStableDebt.rayMul(cumulatedInterest);
 };
 
-const calcLinearInterest = (
-  rate: BigNumber,
-  currentTimestamp: BigNumber,
-  lastUpdateTimestamp: BigNumber
-) => {
-  const timeDifference = currentTimestamp.sub(lastUpdateTimestamp);
-
-  const cumulatedInterest = rate.mul(timeDifference).div(BigNumber.from(ONE_YEAR)).add(RAY);
-
-  return cumulatedInterest;
-};
-
-export const calcCompoundedInterest = (
-  rate: BigNumber,
-  currentTimestamp: BigNumber,
-  lastUpdateTimestamp: BigNumber
-) => {
-  const timeDifference = currentTimestamp.sub(lastUpdateTimestamp);
-  const SECONDS_PER_YEAR = BigNumber.from(ONE_YEAR);
-
-  if (timeDifference.eq(0)) {
-    return BigNumber.from(RAY);
-  }
-
-  const expMinusOne = timeDifference.sub(1);
-  const expMinusTwo = timeDifference.gt(2) ? timeDifference.sub(2) : 0;
-
-  const basePowerTwo = rate.rayMul(rate).div(SECONDS_PER_YEAR.mul(SECONDS_PER_YEAR));
-  const basePowerThree = basePowerTwo.rayMul(rate).div(SECONDS_PER_YEAR);
-
-  const secondTerm = timeDifference.mul(expMinusOne).mul(basePowerTwo).div(2);
-  const thirdTerm = timeDifference.mul(expMinusOne).mul(expMinusTwo).mul(basePowerThree).div(6);
-
-  return BigNumber.from(RAY)
-    .add(rate.mul(timeDifference).div(SECONDS_PER_YEAR))
-    .add(secondTerm)
-    .add(thirdTerm);
-};
-
 export const calcExpectedInterestRates = (
-  reserveSymbol: string,
-  marketStableRate: BigNumber,
+  strategy: InterestRateStrategyParams,
+  reserveFactor: BigNumber,
   totalStableDebt: BigNumber,
   totalVariableDebt: BigNumber,
   averageStableBorrowRate: BigNumber,
   availableLiquidity: BigNumber,
   totalLiquidity: BigNumber
 ): BigNumber[] => {
-  const { reservesParams } = configuration;
-  const reserveIndex = Object.keys(reservesParams).findIndex((value) => value === reserveSymbol);
-  const [, reserveConfiguration] = (Object.entries(reservesParams) as [string, IReserveParams][])[
-    reserveIndex
-  ];
-
-  const [borrowUsageRatio, supplyUsageRatio] = calcExpectedUsageRatios(
+  const { liquidityRate, stableBorrowRate, variableBorrowRate } = calculateInterestRates(strategy, {
     totalStableDebt,
     totalVariableDebt,
     availableLiquidity,
-    totalLiquidity
-  );
-
-  let stableBorrowRate: BigNumber = marketStableRate;
-  let variableBorrowRate: BigNumber = BigNumber.from(
-    reserveConfiguration.strategy.baseVariableBorrowRate
-  );
-
-  const OPTIMAL_USAGE_RATIO = BigNumber.from(reserveConfiguration.strategy.optimalUsageRatio);
-  const MAX_EXCESS_USAGE_RATIO = BigNumber.from(RAY).sub(OPTIMAL_USAGE_RATIO);
-  const OPTIMAL_STABLE_TO_TOTAL_DEBT_RATIO = BigNumber.from(
-    reserveConfiguration.strategy.optimalStableToTotalDebtRatio
-  );
-  const MAX_EXCESS_STABLE_TO_TOTAL_DEBT_RATIO = BigNumber.from(RAY).sub(
-    OPTIMAL_STABLE_TO_TOTAL_DEBT_RATIO
-  );
-
-  const totalDebt = totalStableDebt.add(totalVariableDebt);
-
-  const stableToTotalDebtRatio = totalStableDebt.gt(0)
-    ? totalStableDebt.rayDiv(totalDebt)
-    : BigNumber.from(0);
-
-  if (borrowUsageRatio.gt(OPTIMAL_USAGE_RATIO)) {
-    const excessBorrowUsageRatio = borrowUsageRatio
-      .sub(reserveConfiguration.strategy.optimalUsageRatio)
-      .rayDiv(MAX_EXCESS_USAGE_RATIO);
-
-    stableBorrowRate = stableBorrowRate
-      .add(reserveConfiguration.strategy.stableRateSlope1)
-      .add(
-        BigNumber.from(reserveConfiguration.strategy.stableRateSlope2).rayMul(
-          excessBorrowUsageRatio
-        )
-      );
-
-    variableBorrowRate = variableBorrowRate
-      .add(reserveConfiguration.strategy.variableRateSlope1)
-      .add(
-        BigNumber.from(reserveConfiguration.strategy.variableRateSlope2).rayMul(
-          excessBorrowUsageRatio
-        )
-      );
-  } else {
-    stableBorrowRate = stableBorrowRate.add(
-      BigNumber.from(reserveConfiguration.strategy.stableRateSlope1)
-        .rayMul(borrowUsageRatio)
-        .rayDiv(BigNumber.from(OPTIMAL_USAGE_RATIO))
-    );
-    variableBorrowRate = variableBorrowRate.add(
-      BigNumber.from(reserveConfiguration.strategy.variableRateSlope1)
-        .rayMul(borrowUsageRatio)
-        .rayDiv(OPTIMAL_USAGE_RATIO)
-    );
-  }
-
-  if (stableToTotalDebtRatio.gt(OPTIMAL_STABLE_TO_TOTAL_DEBT_RATIO)) {
-    const excessStableDebtRatio = stableToTotalDebtRatio
-      .sub(OPTIMAL_STABLE_TO_TOTAL_DEBT_RATIO)
-      .rayDiv(MAX_EXCESS_STABLE_TO_TOTAL_DEBT_RATIO);
-    stableBorrowRate = stableBorrowRate.add(
-      BigNumber.from(reserveConfiguration.strategy.stableRateExcessOffset).rayMul(
-        excessStableDebtRatio
-      )
-    );
-  }
-
-  const expectedOverallRate = calcExpectedOverallBorrowRate(
-    totalStableDebt,
-    totalVariableDebt,
-    variableBorrowRate,
-    averageStableBorrowRate
-  );
-  const liquidityRate = expectedOverallRate
-    .rayMul(supplyUsageRatio)
-    .percentMul(BigNumber.from(PERCENTAGE_FACTOR).sub(reserveConfiguration.reserveFactor));
+    unbacked: totalLiquidity.sub(availableLiquidity),
+    averageStableBorrowRate,
+    reserveFactor,
+  });
 
   return [liquidityRate, stableBorrowRate, variableBorrowRate];
 };
 
-export const calcExpectedOverallBorrowRate = (
-  totalStableDebt: BigNumber,
-  totalVariableDebt: BigNumber,
-  currentVariableBorrowRate: BigNumber,
-  currentAverageStableBorrowRate: BigNumber
-): BigNumber => {
-  const totalBorrows = totalStableDebt.add(totalVariableDebt);
-
-  if (totalBorrows.eq(0)) return BigNumber.from(0);
-
-  const weightedVariableRate = totalVariableDebt.wadToRay().rayMul(currentVariableBorrowRate);
-
-  const weightedStableRate = totalStableDebt.wadToRay().rayMul(currentAverageStableBorrowRate);
-
-  const overallBorrowRate = weightedVariableRate
-    .add(weightedStableRate)
-    .rayDiv(totalBorrows.wadToRay());
-
-  return overallBorrowRate;
-};
-
 export const calcExpectedUsageRatios = (
   totalStableDebt: BigNumber,
   totalVariableDebt: BigNumber,
@@ -1549,6 +1790,49 @@ const updateState = (
   );
 };
 
+const updateStableDebtAfterRepay = (
+  reserveDataBeforeAction: ReserveData,
+  userDataBeforeAction: UserReserveData,
+  expectedReserveData: ReserveData,
+  amountRepaid: BigNumber,
+  txTimestamp: BigNumber
+) => {
+  const expectedDebt = calcExpectedTotalStableDebt(
+    reserveDataBeforeAction.principalStableDebt,
+    reserveDataBeforeAction.averageStableBorrowRate,
+    reserveDataBeforeAction.totalStableDebtLastUpdated,
+    txTimestamp
+  );
+
+  expectedReserveData.principalStableDebt = expectedReserveData.totalStableDebt =
+    expectedDebt.sub(amountRepaid);
+
+  //due to accumulation errors, the total stable debt might be smaller than the last user debt.
+  //in this case we simply set the total supply and avg stable rate to 0.
+  if (expectedReserveData.totalStableDebt.lt(0)) {
+    expectedReserveData.principalStableDebt =
+      expectedReserveData.totalStableDebt =
+      expectedReserveData.averageStableBorrowRate =
+        BigNumber.from(0);
+  } else {
+    expectedReserveData.averageStableBorrowRate = calcExpectedAverageStableBorrowRate(
+      reserveDataBeforeAction.averageStableBorrowRate,
+      expectedDebt,
+      amountRepaid.negated(),
+      userDataBeforeAction.stableBorrowRate
+    );
+
+    //also due to accumulation errors, the final avg stable rate when the last user repays might be negative.
+    //if that is the case, it means a small leftover of total stable debt is left, which can be erased.
+    if (expectedReserveData.averageStableBorrowRate.lt(0)) {
+      expectedReserveData.principalStableDebt =
+        expectedReserveData.totalStableDebt =
+        expectedReserveData.averageStableBorrowRate =
+          BigNumber.from(0);
+    }
+  }
+};
+
 const updateLiquidityAndUsageRatios = (
   reserveDataBeforeAction: ReserveData,
   expectedReserveData: ReserveData,
@@ -1572,6 +1856,34 @@ const updateLiquidityAndUsageRatios = (
     );
 };
 
+/**
+ * Mirrors `ReserveLogic.cumulateToLiquidityIndex()` for the share of the premium going to the suppliers,
+ * the share of the protocol being accrued to the treasury
+ */
+const cumulatePremium = (
+  expectedReserveData: ReserveData,
+  scaledATokenSupply: BigNumber,
+  premium: BigNumber,
+  premiumToProtocolPercentage: BigNumber
+) => {
+  const premiumToProtocol = premium.percentMul(premiumToProtocolPercentage);
+  const premiumToLP = premium.sub(premiumToProtocol);
+
+  const totalLiquidity = scaledATokenSupply
+    .rayMul(expectedReserveData.liquidityIndex)
+    .add(expectedReserveData.accruedToTreasuryScaled.rayMul(expectedReserveData.liquidityIndex));
+
+  expectedReserveData.liquidityIndex = premiumToLP
+    .wadToRay()
+    .rayDiv(totalLiquidity.wadToRay())
+    .add(RAY)
+    .rayMul(expectedReserveData.liquidityIndex);
+
+  expectedReserveData.accruedToTreasuryScaled = expectedReserveData.accruedToTreasuryScaled.add(
+    premiumToProtocol.rayDiv(expectedReserveData.liquidityIndex)
+  );
+};
+
 const updateTotalLiquidityAndUsageRatio = (expectedReserveData: ReserveData) => {
   expectedReserveData.totalLiquidity = expectedReserveData.availableLiquidity.add(
     expectedReserveData.unbacked
@@ -1,5 +1,5 @@
 import { expect } from 'chai';
-import { logger, utils, Contract } from 'ethers';
+import { logger, utils, BigNumberish, Contract } from 'ethers';
 import { BigNumber } from '@ethersproject/bignumber';
 import { TransactionReceipt } from '@ethersproject/providers';
 import { getContract } from '@aave/deploy-v3';
@@ -11,7 +11,15 @@ import {
   getIRStrategy,
 } from '@aave/deploy-v3/dist/helpers/contract-getters';
 import { tEthereumAddress } from '../../../helpers/types';
-import { AToken, AaveProtocolDataProvider, Pool } from '../../../types';
+import {
+  getLiquidationQuoteParams,
+  LiquidationQuote,
+  quoteLiquidationCall,
+} from '../../../helpers/liquidation-quote';
+import { getInterestRateStrategyParams } from '../../../helpers/rate-model';
+import { decodeReserveConfiguration } from '../../../helpers/reserve-configuration';
+import { getUserConfigurationState } from '../../../helpers/user-configuration';
+import { ACLManager, AToken, AaveProtocolDataProvider, Pool } from '../../../types';
 import { ReserveData, UserReserveData } from './interfaces';
 
 export const getReserveData = async (
@@ -89,6 +97,7 @@ export const getReserveData = async (
     symbol,
     decimals,
     marketStableRate: BigNumber.from(baseStableRate),
+    strategy: await getInterestRateStrategyParams(irStrategyAddress),
   };
 };
 
@@ -122,6 +131,70 @@ export const getUserData = async (
   };
 };
 
+/**
+ * Quotes the liquidation mined in `blockNumber`, from the state of the previous block and accruing the
+ * interest to the timestamp of the liquidation block
+ */
+export const getLiquidationQuoteOfBlock = async (
+  pool: Pool,
+  liquidator: tEthereumAddress,
+  user: tEthereumAddress,
+  collateralAsset: tEthereumAddress,
+  debtAsset: tEthereumAddress,
+  debtToCover: BigNumberish,
+  receiveAToken: boolean,
+  blockNumber: number
+): Promise<LiquidationQuote> => {
+  const params = await getLiquidationQuoteParams(
+    pool,
+    liquidator,
+    user,
+    collateralAsset,
+    debtAsset,
+    debtToCover,
+    receiveAToken,
+    blockNumber - 1
+  );
+  params.accountData.currentTimestamp = (await pool.provider.getBlock(blockNumber)).timestamp;
+
+  return quoteLiquidationCall(params);
+};
+
+/**
+ * Tells if the first supply of `sender` on behalf of `user` enables the reserve as collateral, mirroring
+ * `ValidationLogic.validateAutomaticUseAsCollateral()`
+ */
+export const getAutomaticUseAsCollateral = async (
+  pool: Pool,
+  aclManager: ACLManager,
+  reserve: tEthereumAddress,
+  user: tEthereumAddress,
+  sender: tEthereumAddress
+): Promise<boolean> => {
+  const { ltv, debtCeiling } = decodeReserveConfiguration(
+    (await pool.getConfiguration(reserve)).data
+  );
+  if (ltv.isZero()) {
+    return false;
+  }
+  // Isolated collateral is only enabled as a side effect when supplied by the ISOLATED_COLLATERAL_SUPPLIER_ROLE
+  if (
+    !debtCeiling.isZero() &&
+    !(await aclManager.hasRole(
+      utils.keccak256(utils.toUtf8Bytes('ISOLATED_COLLATERAL_SUPPLIER')),
+      sender
+    ))
+  ) {
+    return false;
+  }
+
+  const { isUsingAsCollateralAny, isolationMode } = await getUserConfigurationState(pool, user);
+  if (!isUsingAsCollateralAny) {
+    return true;
+  }
+  return !isolationMode.isInIsolationMode && debtCeiling.isZero();
+};
+
 const getATokenUserData = async (
   reserve: string,
   user: string,
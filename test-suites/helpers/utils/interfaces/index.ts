@@ -1,5 +1,6 @@
 import { BigNumber } from '@ethersproject/bignumber';
 import '../wadraymath';
+import { InterestRateStrategyParams } from '../../../../helpers/rate-model';
 
 export interface UserReserveData {
   scaledATokenBalance: BigNumber;
@@ -36,10 +37,11 @@ export interface ReserveData {
   variableBorrowIndex: BigNumber;
   aTokenAddress: string;
   marketStableRate: BigNumber;
+  strategy: InterestRateStrategyParams;
   lastUpdateTimestamp: BigNumber;
   totalStableDebtLastUpdated: BigNumber;
   liquidityRate: BigNumber;
   unbacked: BigNumber;
   accruedToTreasuryScaled: BigNumber;
-  [key: string]: BigNumber | string;
+  [key: string]: BigNumber | string | InterestRateStrategyParams;
 }
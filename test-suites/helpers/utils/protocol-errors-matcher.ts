@@ -0,0 +1,64 @@
+import chai, { AssertionError } from 'chai';
+import { decodeProtocolError, getProtocolError } from '../../../helpers/protocol-errors';
+import { ProtocolErrors } from '../../../helpers/types';
+
+declare global {
+  export namespace Chai {
+    interface Assertion {
+      revertedWithProtocolError(expected: ProtocolErrors): AsyncAssertion;
+    }
+  }
+}
+
+const describeProtocolError = (error: ProtocolErrors) => {
+  const { name } = getProtocolError(error);
+  return name ? `${name} ('${error}')` : `'${error}'`;
+};
+
+chai.use(function (chai: Chai.ChaiStatic) {
+  chai.Assertion.addMethod(
+    'revertedWithProtocolError',
+    function (this: any, expected: ProtocolErrors) {
+      // Captured before the async part, `.not` would be consumed by then
+      const negated = this.__flags.negate;
+      const expectedDescription = describeProtocolError(expected);
+
+      const onSuccess = () => {
+        if (!negated) {
+          throw new AssertionError(
+            `Expected transaction to be reverted with ${expectedDescription}, but it didn't revert`
+          );
+        }
+      };
+
+      const onError = (error: any) => {
+        const decoded = decodeProtocolError(error);
+        if (!decoded) {
+          throw error;
+        }
+
+        const matches = decoded.kind === 'Error' && decoded.reason === expected;
+        if (!negated && !matches) {
+          const actual = decoded.name
+            ? `${decoded.name} ('${decoded.reason}')`
+            : decoded.description;
+          throw new AssertionError(
+            `Expected transaction to be reverted with ${expectedDescription}, but it reverted with ${actual}`
+          );
+        }
+        if (negated && matches) {
+          throw new AssertionError(
+            `Expected transaction NOT to be reverted with ${expectedDescription}, but it was`
+          );
+        }
+      };
+
+      const derivedPromise = Promise.resolve(this._obj).then(onSuccess, onError);
+
+      this.then = derivedPromise.then.bind(derivedPromise);
+      this.catch = derivedPromise.catch.bind(derivedPromise);
+
+      return this;
+    }
+  );
+});
@@ -178,7 +178,7 @@ makeSuite('Interest Rate and Index Overflow', (testEnv) => {
           user.address,
           0
         )
-    ).to.be.revertedWith(SAFECAST_UINT128_OVERFLOW);
+    ).to.be.revertedWithProtocolError(SAFECAST_UINT128_OVERFLOW);
   });
 
   it('ReserveLogic `updateInterestRates` with nextStableRate > type(uint128).max (revert expected)', async () => {
@@ -203,7 +203,7 @@ makeSuite('Interest Rate and Index Overflow', (testEnv) => {
           user.address,
           0
         )
-    ).to.be.revertedWith(SAFECAST_UINT128_OVERFLOW);
+    ).to.be.revertedWithProtocolError(SAFECAST_UINT128_OVERFLOW);
   });
 
   it('ReserveLogic `updateInterestRates` with nextVariableRate > type(uint128).max (revert expected)', async () => {
@@ -228,7 +228,7 @@ makeSuite('Interest Rate and Index Overflow', (testEnv) => {
           user.address,
           0
         )
-    ).to.be.revertedWith(SAFECAST_UINT128_OVERFLOW);
+    ).to.be.revertedWithProtocolError(SAFECAST_UINT128_OVERFLOW);
   });
 
   it('ReserveLogic `_updateIndexes` with nextLiquidityIndex > type(uint128).max (revert expected)', async () => {
@@ -293,7 +293,7 @@ makeSuite('Interest Rate and Index Overflow', (testEnv) => {
           user.address,
           0
         )
-    ).to.be.revertedWith(SAFECAST_UINT128_OVERFLOW);
+    ).to.be.revertedWithProtocolError(SAFECAST_UINT128_OVERFLOW);
   });
 
   it('ReserveLogic `_updateIndexes` with nextVariableBorrowIndex > type(uint128).max (revert expected)', async () => {
@@ -353,7 +353,7 @@ makeSuite('Interest Rate and Index Overflow', (testEnv) => {
           user.address,
           0
         )
-    ).to.be.revertedWith(SAFECAST_UINT128_OVERFLOW);
+    ).to.be.revertedWithProtocolError(SAFECAST_UINT128_OVERFLOW);
   });
 
   it('ReserveLogic `cumulateToLiquidityIndex` with liquidityIndex > type(uint128).max (revert expected)', async () => {
@@ -389,7 +389,7 @@ makeSuite('Interest Rate and Index Overflow', (testEnv) => {
           '0x00',
           0
         )
-    ).to.be.revertedWith(SAFECAST_UINT128_OVERFLOW);
+    ).to.be.revertedWithProtocolError(SAFECAST_UINT128_OVERFLOW);
   });
 
   it('StableDebtToken `mint` with nextStableRate > type(uint128).max (revert expected)', async () => {
@@ -415,6 +415,6 @@ makeSuite('Interest Rate and Index Overflow', (testEnv) => {
           await convertToCurrencyDecimals(mockStableDebtToken.address, '100'),
           rate
         )
-    ).to.be.revertedWith(SAFECAST_UINT128_OVERFLOW);
+    ).to.be.revertedWithProtocolError(SAFECAST_UINT128_OVERFLOW);
   });
 });
@@ -15,12 +15,8 @@ import {
 } from '@aave/deploy-v3';
 import { getReserveData, getUserData } from './helpers/utils/helpers';
 import { getTxCostAndTimestamp } from './helpers/actions';
-import AaveConfig from '@aave/deploy-v3/dist/markets/test';
 import { getACLManager } from '@aave/deploy-v3/dist/helpers/contract-getters';
-import {
-  calcExpectedReserveDataAfterMintUnbacked,
-  configuration as calculationsConfiguration,
-} from './helpers/utils/calculations';
+import { calcExpectedReserveDataAfterMintUnbacked } from './helpers/utils/calculations';
 
 const expectEqual = (
   actual: UserReserveData | ReserveData,
@@ -66,7 +62,6 @@ makeSuite('Isolation mode', (testEnv: TestEnv) => {
       addressesProvider,
       oracle,
     } = testEnv;
-    calculationsConfiguration.reservesParams = AaveConfig.ReservesConfig;
 
     //set debt ceiling for aave
     await configurator.setDebtCeiling(aave.address, ceilingAmount);
@@ -170,7 +165,7 @@ makeSuite('Isolation mode', (testEnv: TestEnv) => {
 
     await expect(
       pool.connect(users[1].signer).setUserUseReserveAsCollateral(weth.address, true)
-    ).to.be.revertedWith(USER_IN_ISOLATION_MODE_OR_LTV_ZERO);
+    ).to.be.revertedWithProtocolError(USER_IN_ISOLATION_MODE_OR_LTV_ZERO);
 
     const userDataAfter = await helpersContract.getUserReserveData(weth.address, users[1].address);
     expect(userDataAfter.usageAsCollateralEnabled).to.be.eq(false);
@@ -205,7 +200,7 @@ makeSuite('Isolation mode', (testEnv: TestEnv) => {
 
     await expect(
       pool.connect(user2.signer).setUserUseReserveAsCollateral(aave.address, true)
-    ).to.be.revertedWith(USER_IN_ISOLATION_MODE_OR_LTV_ZERO);
+    ).to.be.revertedWithProtocolError(USER_IN_ISOLATION_MODE_OR_LTV_ZERO);
 
     const userDataAfter = await helpersContract.getUserReserveData(aave.address, user2.address);
     expect(userDataAfter.usageAsCollateralEnabled).to.be.eq(false);
@@ -353,7 +348,7 @@ makeSuite('Isolation mode', (testEnv: TestEnv) => {
       pool
         .connect(users[1].signer)
         .borrow(weth.address, utils.parseEther('0.01'), '2', 0, users[1].address)
-    ).to.be.revertedWith(ASSET_NOT_BORROWABLE_IN_ISOLATION);
+    ).to.be.revertedWithProtocolError(ASSET_NOT_BORROWABLE_IN_ISOLATION);
   });
 
   it('User 2 tries to borrow some ETH on behalf of User 1 (revert expected)', async () => {
@@ -369,7 +364,7 @@ makeSuite('Isolation mode', (testEnv: TestEnv) => {
           AAVE_REFERRAL,
           users[1].address
         )
-    ).to.be.revertedWith(ASSET_NOT_BORROWABLE_IN_ISOLATION);
+    ).to.be.revertedWithProtocolError(ASSET_NOT_BORROWABLE_IN_ISOLATION);
   });
 
   it('User 1 borrows 10 DAI. Check debt ceiling', async () => {
@@ -419,7 +414,7 @@ makeSuite('Isolation mode', (testEnv: TestEnv) => {
     const borrowAmount = utils.parseEther('100');
     await expect(
       pool.connect(users[3].signer).borrow(dai.address, borrowAmount, '2', 0, users[3].address)
-    ).to.be.revertedWith(DEBT_CEILING_EXCEEDED);
+    ).to.be.revertedWithProtocolError(DEBT_CEILING_EXCEEDED);
   });
 
   it('Push time forward one year. User 1, User 3 repay debt. Ensure debt ceiling is 0', async () => {
@@ -108,7 +108,7 @@ makeSuite('Pool Liquidation: Liquidator receiving aToken', (testEnv) => {
     //someone tries to liquidate user 2
     await expect(
       pool.liquidationCall(weth.address, dai.address, borrower.address, 1, true)
-    ).to.be.revertedWith(HEALTH_FACTOR_NOT_BELOW_THRESHOLD);
+    ).to.be.revertedWithProtocolError(HEALTH_FACTOR_NOT_BELOW_THRESHOLD);
   });
 
   it('Drop the health factor below 1', async () => {
@@ -138,7 +138,7 @@ makeSuite('Pool Liquidation: Liquidator receiving aToken', (testEnv) => {
     //user 2 tries to borrow
     await expect(
       pool.liquidationCall(weth.address, weth.address, borrower.address, oneEther, true)
-    ).to.be.revertedWith(SPECIFIED_CURRENCY_NOT_BORROWED_BY_USER);
+    ).to.be.revertedWithProtocolError(SPECIFIED_CURRENCY_NOT_BORROWED_BY_USER);
   });
 
   it('Tries to liquidate a different collateral than the borrower collateral (revert expected)', async () => {
@@ -150,7 +150,7 @@ makeSuite('Pool Liquidation: Liquidator receiving aToken', (testEnv) => {
 
     await expect(
       pool.liquidationCall(dai.address, dai.address, borrower.address, oneEther, true)
-    ).to.be.revertedWith(COLLATERAL_CANNOT_BE_LIQUIDATED);
+    ).to.be.revertedWithProtocolError(COLLATERAL_CANNOT_BE_LIQUIDATED);
   });
 
   it('Liquidates the borrow', async () => {
@@ -13,7 +13,7 @@ import { HardhatRuntimeEnvironment } from 'hardhat/types';
 declare var hre: HardhatRuntimeEnvironment;
 
 makeSuite('Pool Liquidation: Liquidator receiving the underlying asset', (testEnv) => {
-  const { INVALID_HF } = ProtocolErrors;
+  const { INVALID_HF, RESERVE_INACTIVE } = ProtocolErrors;
 
   before(async () => {
     const { addressesProvider, oracle } = testEnv;
@@ -38,7 +38,7 @@ makeSuite('Pool Liquidation: Liquidator receiving the underlying asset', (testEn
 
     await expect(
       pool.liquidationCall(weth.address, dai.address, user.address, utils.parseEther('1000'), false)
-    ).to.be.revertedWith('27');
+    ).to.be.revertedWithProtocolError(RESERVE_INACTIVE);
 
     await configurator.setReserveActive(weth.address, true);
 
@@ -46,7 +46,7 @@ makeSuite('Pool Liquidation: Liquidator receiving the underlying asset', (testEn
 
     await expect(
       pool.liquidationCall(weth.address, dai.address, user.address, utils.parseEther('1000'), false)
-    ).to.be.revertedWith('27');
+    ).to.be.revertedWithProtocolError(RESERVE_INACTIVE);
 
     await configurator.setReserveActive(dai.address, true);
   });
@@ -5,7 +5,7 @@ import { convertToCurrencyDecimals } from '../helpers/contracts-helpers';
 import { ProtocolErrors, RateMode } from '../helpers/types';
 import { AToken__factory } from '../types';
 import { calcExpectedStableDebtTokenBalance } from './helpers/utils/calculations';
-import { getReserveData, getUserData } from './helpers/utils/helpers';
+import { getLiquidationQuoteOfBlock, getReserveData, getUserData } from './helpers/utils/helpers';
 import { makeSuite } from './helpers/make-suite';
 import { HardhatRuntimeEnvironment } from 'hardhat/types';
 import { waitForTx, increaseTime, evmSnapshot, evmRevert } from '@aave/deploy-v3';
@@ -358,6 +358,28 @@ makeSuite('Pool Liquidation: Add fee to liquidations', (testEnv) => {
       (await hre.ethers.provider.getBlock(tx.blockNumber)).timestamp
     );
 
+    const quote = await getLiquidationQuoteOfBlock(
+      pool,
+      liquidator.address,
+      borrower.address,
+      weth.address,
+      dai.address,
+      amountToLiquidate,
+      false,
+      tx.blockNumber
+    );
+    expect(quote.isForcedLiquidation).to.be.eq(false);
+    expect(quote.debtToCover).to.be.eq(amountToLiquidate, 'Invalid quoted debt to cover');
+    expect(quote.collateralToLiquidate).to.be.eq(
+      liquidatorBalanceAfter.sub(liquidatorBalanceBefore),
+      'Invalid quoted collateral'
+    );
+    expect(quote.liquidationProtocolFee).to.be.closeTo(
+      treasuryBalanceAfter.sub(treasuryBalanceBefore),
+      2,
+      'Invalid quoted liquidation protocol fee'
+    );
+
     const stableDebtBeforeTx = calcExpectedStableDebtTokenBalance(
       userReserveDataBefore.principalStableDebt,
       userReserveDataBefore.stableBorrowRate,
@@ -679,7 +701,7 @@ makeSuite('Pool Liquidation: Add fee to liquidations', (testEnv) => {
     );
     const treasuryBalanceBefore = treasuryDataBefore.currentATokenBalance;
 
-    await pool
+    const tx = await pool
       .connect(liquidator.signer)
       .liquidationCall(aave.address, usdc.address, borrower.address, amountToLiquidate, true);
 
@@ -768,6 +790,29 @@ makeSuite('Pool Liquidation: Add fee to liquidations', (testEnv) => {
       'Treasury aToken balance incorrect'
     );
 
+    const quote = await getLiquidationQuoteOfBlock(
+      pool,
+      liquidator.address,
+      borrower.address,
+      aave.address,
+      usdc.address,
+      amountToLiquidate,
+      true,
+      (
+        await tx.wait()
+      ).blockNumber
+    );
+    expect(quote.isCollateralFullyLiquidated).to.be.eq(true, 'Collateral cap not quoted');
+    expect(quote.collateralToLiquidate).to.be.eq(
+      aAaveTokenBalanceAfter.sub(aAaveTokenBalanceBefore),
+      'Invalid quoted collateral'
+    );
+    expect(quote.liquidationProtocolFee).to.be.eq(
+      treasuryBalanceAfter.sub(treasuryBalanceBefore),
+      'Invalid quoted liquidation protocol fee'
+    );
+    expect(quote.debtToCover).to.be.closeTo(expectedPrincipal, 2, 'Invalid quoted debt to cover');
+
     await evmRevert(snap);
   });
 
@@ -83,7 +83,7 @@ makeSuite('LTV validation', (testEnv: TestEnv) => {
 
     await expect(
       pool.connect(user1.signer).withdraw(usdc.address, withdrawnAmount, user1.address)
-    ).to.be.revertedWith(LTV_VALIDATION_FAILED);
+    ).to.be.revertedWithProtocolError(LTV_VALIDATION_FAILED);
   });
 
   it('Withdraws DAI', async () => {
@@ -141,7 +141,7 @@ makeSuite('LTV validation', (testEnv: TestEnv) => {
       pool
         .connect(user1.signer)
         .borrow(weth.address, borrowWethAmount, RateMode.Variable, 0, user1.address)
-    ).to.be.revertedWith(LTV_VALIDATION_FAILED);
+    ).to.be.revertedWithProtocolError(LTV_VALIDATION_FAILED);
 
     const userData = await pool.getUserAccountData(user1.address);
     expect(userData.totalCollateralBase).to.be.eq(parseUnits('10', 8));
@@ -212,7 +212,7 @@ makeSuite('LTV validation', (testEnv: TestEnv) => {
 
     await expect(
       pool.connect(user1.signer).setUserUseReserveAsCollateral(dai.address, true)
-    ).to.be.revertedWith(USER_IN_ISOLATION_MODE_OR_LTV_ZERO);
+    ).to.be.revertedWithProtocolError(USER_IN_ISOLATION_MODE_OR_LTV_ZERO);
   });
 
   it('User 1 deposit zero ltv dai, dai should not be enabled as collateral', async () => {
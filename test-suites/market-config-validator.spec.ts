@@ -0,0 +1,197 @@
+import { expect } from 'chai';
+import AaveConfig from '@aave/deploy-v3/dist/markets/test';
+import { strategyDAI } from '@aave/deploy-v3/dist/markets/test/reservesConfigs';
+import { MAX_SUPPLY_CAP, RAY } from '../helpers/constants';
+import {
+  validateMarketConfiguration,
+  validateReserveParams,
+} from '../helpers/market-config-validator';
+import { IReserveParams, ProtocolErrors } from '../helpers/types';
+import { BigNumber } from 'ethers';
+
+describe('Market configuration validator', () => {
+  const validReserve = strategyDAI as IReserveParams;
+
+  const errorsOf = (params: Partial<IReserveParams>) =>
+    validateReserveParams('DAI', { ...validReserve, ...params }).errors.map(({ field, error }) => ({
+      field,
+      error,
+    }));
+
+  it('The test market configuration is valid', () => {
+    const { isValid, reserves } = validateMarketConfiguration({
+      ReservesConfig: AaveConfig.ReservesConfig as { [symbol: string]: IReserveParams },
+    });
+
+    expect(isValid).to.be.true;
+    expect(Object.keys(reserves)).to.be.deep.eq(Object.keys(AaveConfig.ReservesConfig));
+    for (const { errors } of Object.values(reserves)) {
+      expect(errors).to.be.empty;
+    }
+  });
+
+  const badConfigs: {
+    description: string;
+    params: Partial<IReserveParams>;
+    errors: { field: string; error: ProtocolErrors }[];
+  }[] = [
+    {
+      description: 'LTV above the liquidation threshold',
+      params: { baseLTVAsCollateral: '8500', liquidationThreshold: '8000' },
+      errors: [{ field: 'baseLTVAsCollateral', error: ProtocolErrors.INVALID_RESERVE_PARAMS }],
+    },
+    {
+      description: 'Liquidation threshold times bonus above 100%',
+      params: { liquidationThreshold: '9700', liquidationBonus: '10500' },
+      errors: [{ field: 'liquidationThreshold', error: ProtocolErrors.INVALID_RESERVE_PARAMS }],
+    },
+    {
+      description: 'Liquidation bonus not above 100%',
+      params: { liquidationBonus: '10000' },
+      errors: [{ field: 'liquidationBonus', error: ProtocolErrors.INVALID_RESERVE_PARAMS }],
+    },
+    {
+      description: 'Liquidation bonus on a non-collateral reserve',
+      params: { baseLTVAsCollateral: '0', liquidationThreshold: '0', liquidationBonus: '10500' },
+      errors: [{ field: 'liquidationBonus', error: ProtocolErrors.INVALID_RESERVE_PARAMS }],
+    },
+    {
+      description: 'LTV above the maximum valid value',
+      params: { baseLTVAsCollateral: '65536' },
+      // Also above the liquidation threshold, PoolConfigurator checks that first
+      errors: [
+        { field: 'baseLTVAsCollateral', error: ProtocolErrors.INVALID_LTV },
+        { field: 'baseLTVAsCollateral', error: ProtocolErrors.INVALID_RESERVE_PARAMS },
+      ],
+    },
+    {
+      description: 'Decimals above 255',
+      params: { reserveDecimals: '256' },
+      errors: [{ field: 'reserveDecimals', error: ProtocolErrors.INVALID_DECIMALS }],
+    },
+    {
+      description: 'Reserve factor above 100%',
+      params: { reserveFactor: '10001' },
+      errors: [{ field: 'reserveFactor', error: ProtocolErrors.INVALID_RESERVE_FACTOR }],
+    },
+    {
+      description: 'Liquidation protocol fee above 100%',
+      params: { liquidationProtocolFee: '10001' },
+      errors: [
+        { field: 'liquidationProtocolFee', error: ProtocolErrors.INVALID_LIQUIDATION_PROTOCOL_FEE },
+      ],
+    },
+    {
+      description: 'Supply cap above MAX_SUPPLY_CAP',
+      params: { supplyCap: BigNumber.from(MAX_SUPPLY_CAP).add(1).toString() },
+      errors: [{ field: 'supplyCap', error: ProtocolErrors.INVALID_SUPPLY_CAP }],
+    },
+    {
+      description: 'Borrow cap above MAX_BORROW_CAP',
+      params: { borrowCap: '68719476736' },
+      errors: [{ field: 'borrowCap', error: ProtocolErrors.INVALID_BORROW_CAP }],
+    },
+    {
+      description: 'Debt ceiling above the maximum valid value',
+      params: { debtCeiling: '1099511627776' },
+      errors: [{ field: 'debtCeiling', error: ProtocolErrors.INVALID_DEBT_CEILING }],
+    },
+    {
+      description: 'Unbacked mint cap above MAX_UNBACKED_MINT_CAP',
+      params: { unbackedMintCap: '68719476736' },
+      errors: [{ field: 'unbackedMintCap', error: ProtocolErrors.INVALID_UNBACKED_MINT_CAP }],
+    },
+    {
+      description: 'Stable rate borrowing without borrowing',
+      params: { borrowingEnabled: false, stableBorrowRateEnabled: true },
+      errors: [{ field: 'stableBorrowRateEnabled', error: ProtocolErrors.BORROWING_NOT_ENABLED }],
+    },
+    {
+      description: 'Optimal usage ratio above 1 ray',
+      params: {
+        strategy: {
+          ...validReserve.strategy,
+          optimalUsageRatio: BigNumber.from(RAY).add(1).toString(),
+        },
+      },
+      errors: [
+        { field: 'strategy.optimalUsageRatio', error: ProtocolErrors.INVALID_OPTIMAL_USAGE_RATIO },
+      ],
+    },
+    {
+      description: 'Optimal stable to total debt ratio above 1 ray',
+      params: {
+        strategy: {
+          ...validReserve.strategy,
+          optimalStableToTotalDebtRatio: BigNumber.from(RAY).add(1).toString(),
+        },
+      },
+      errors: [
+        {
+          field: 'strategy.optimalStableToTotalDebtRatio',
+          error: ProtocolErrors.INVALID_OPTIMAL_STABLE_TO_TOTAL_DEBT_RATIO,
+        },
+      ],
+    },
+  ];
+
+  for (const { description, params, errors } of badConfigs) {
+    it(`${description} fails with ${errors.map(({ error }) => error).join(', ')}`, () => {
+      expect(errorsOf(params)).to.be.deep.eq(errors);
+    });
+  }
+
+  it('Reports params that are not unsigned integers', () => {
+    expect(errorsOf({ reserveFactor: '10.5', supplyCap: '-1' })).to.be.deep.eq([
+      { field: 'reserveFactor', error: undefined },
+      { field: 'supplyCap', error: undefined },
+    ]);
+  });
+
+  it('Labels the issues with the reserve and severity', () => {
+    const { errors } = validateReserveParams('DAI', { ...validReserve, reserveFactor: '10001' });
+
+    expect(errors).to.be.deep.eq([
+      {
+        reserve: 'DAI',
+        field: 'reserveFactor',
+        severity: 'error',
+        error: ProtocolErrors.INVALID_RESERVE_FACTOR,
+        message: 'reserveFactor 10001 is greater than 10000',
+      },
+    ]);
+  });
+
+  it('Warns about uncapped reserves and LTV equal to the liquidation threshold', () => {
+    const { errors, warnings } = validateReserveParams('DAI', {
+      ...validReserve,
+      baseLTVAsCollateral: '8000',
+      liquidationThreshold: '8000',
+      supplyCap: '0',
+      borrowCap: '0',
+    });
+
+    expect(errors).to.be.empty;
+    expect(warnings.map(({ field, severity }) => ({ field, severity }))).to.be.deep.eq([
+      { field: 'baseLTVAsCollateral', severity: 'warning' },
+      { field: 'supplyCap', severity: 'warning' },
+      { field: 'borrowCap', severity: 'warning' },
+    ]);
+  });
+
+  it('Reports reserves sharing a strategy name with different params', () => {
+    const { isValid, reserves } = validateMarketConfiguration({
+      ReservesConfig: {
+        DAI: validReserve,
+        USDC: {
+          ...validReserve,
+          strategy: { ...validReserve.strategy, variableRateSlope1: '1' },
+        },
+      },
+    });
+
+    expect(isValid).to.be.false;
+    expect(reserves.DAI.errors).to.be.empty;
+    expect(reserves.USDC.errors.map(({ field }) => field)).to.be.deep.eq(['strategy.name']);
+  });
+});
@@ -0,0 +1,136 @@
+import { expect } from 'chai';
+import AaveConfig from '@aave/deploy-v3/dist/markets/test';
+import { evmRevert, evmSnapshot, waitForTx } from '@aave/deploy-v3';
+import {
+  formatMarketDrift,
+  getMarketDrift,
+  getReserveSnapshot,
+  marketDriftToJSON,
+  reserveParamsToSnapshot,
+} from '../helpers/market-drift';
+import { IReserveParams, SymbolMap } from '../helpers/types';
+import { makeSuite, TestEnv } from './helpers/make-suite';
+
+makeSuite('Market config drift report', (testEnv: TestEnv) => {
+  const reservesConfig = AaveConfig.ReservesConfig as SymbolMap<IReserveParams>;
+  // The deployment scripts do not apply the liquidation protocol fee of the config
+  const deployedConfig = Object.entries(reservesConfig).reduce<SymbolMap<IReserveParams>>(
+    (config, [symbol, { liquidationProtocolFee, ...params }]) => ({ ...config, [symbol]: params }),
+    {}
+  );
+  let snapId: string;
+
+  beforeEach(async () => {
+    snapId = await evmSnapshot();
+  });
+  afterEach(async () => {
+    await evmRevert(snapId);
+  });
+
+  it('Reads the params of a reserve with the field names of the config', async () => {
+    const { helpersContract, dai } = testEnv;
+
+    const snapshot = await getReserveSnapshot(helpersContract, dai.address);
+    expect(snapshot).to.deep.include({
+      ...reserveParamsToSnapshot(deployedConfig.DAI),
+      liquidationProtocolFee: '0',
+      eModeCategory: '0',
+      siloedBorrowing: false,
+      forcedLiquidationEnabled: false,
+    });
+  });
+
+  it('Reports the liquidation protocol fee not applied by the deployment', async () => {
+    const { helpersContract } = testEnv;
+
+    const { drifts } = await getMarketDrift(helpersContract, reservesConfig);
+    expect(drifts).to.be.deep.eq(
+      Object.keys(reservesConfig).map((reserve) => ({
+        reserve,
+        field: 'liquidationProtocolFee',
+        expected: reservesConfig[reserve].liquidationProtocolFee,
+        actual: '0',
+      }))
+    );
+  });
+
+  it('Reports no drift right after the deployment', async () => {
+    const { helpersContract } = testEnv;
+
+    const report = await getMarketDrift(helpersContract, deployedConfig);
+    expect(report.delta).to.be.undefined;
+    expect(report.drifts).to.be.empty;
+    expect(report.missingReserves).to.be.empty;
+    expect(report.unknownReserves).to.be.empty;
+    expect(formatMarketDrift(report)).to.be.eq(
+      'No drift between the market config and the deployed market'
+    );
+  });
+
+  it('Reports the params changed after the deployment', async () => {
+    const { helpersContract, configurator, dai, weth } = testEnv;
+
+    await waitForTx(await configurator.setReserveFactor(dai.address, '2000'));
+    await waitForTx(await configurator.setSupplyCap(weth.address, '1000'));
+    await waitForTx(await configurator.setReserveFlashLoaning(weth.address, false));
+
+    const report = await getMarketDrift(helpersContract, deployedConfig);
+    expect(report.drifts).to.be.deep.eq([
+      { reserve: 'DAI', field: 'reserveFactor', expected: '1000', actual: '2000' },
+      { reserve: 'WETH', field: 'supplyCap', expected: '0', actual: '1000' },
+      { reserve: 'WETH', field: 'flashLoanEnabled', expected: true, actual: false },
+    ]);
+    expect(report.delta).to.be.deep.eq({
+      DAI: { reserveFactor: ['1000', '2000'] },
+      WETH: { supplyCap: ['0', '1000'], flashLoanEnabled: [true, false] },
+    });
+    expect(JSON.parse(marketDriftToJSON(report)).delta).to.be.deep.eq(report.delta);
+    expect(formatMarketDrift(report).split('\n')).to.be.deep.eq([
+      '3 drifted params, 0 missing and 0 unknown reserves',
+      '- DAI.reserveFactor: expected 1000, on-chain 2000',
+      '- WETH.supplyCap: expected 0, on-chain 1000',
+      '- WETH.flashLoanEnabled: expected true, on-chain false',
+    ]);
+  });
+
+  it('Reports drifted interest rate strategy params', async () => {
+    const { helpersContract, configurator, dai, usdc } = testEnv;
+
+    // USDC uses a different strategy than DAI in the test market
+    await waitForTx(
+      await configurator.setReserveInterestRateStrategyAddress(
+        dai.address,
+        await helpersContract.getInterestRateStrategyAddress(usdc.address)
+      )
+    );
+
+    const { drifts } = await getMarketDrift(helpersContract, deployedConfig);
+    const usdcStrategy = reservesConfig.USDC.strategy;
+    const daiStrategy = reservesConfig.DAI.strategy;
+    expect(drifts.length).to.be.gt(0);
+    for (const { reserve, field, expected, actual } of drifts) {
+      const strategyField = field.replace('strategy.', '') as keyof typeof daiStrategy;
+      expect(reserve).to.be.eq('DAI');
+      expect(field).to.match(/^strategy\./);
+      expect(expected).to.be.eq(daiStrategy[strategyField]);
+      expect(actual).to.be.eq(usdcStrategy[strategyField]);
+    }
+  });
+
+  it('Reports reserves missing from the pool or from the config', async () => {
+    const { helpersContract } = testEnv;
+    const { LINK, ...reservesWithoutLink } = deployedConfig;
+
+    const report = await getMarketDrift(helpersContract, {
+      ...reservesWithoutLink,
+      MISSING: LINK,
+    });
+    expect(report.missingReserves).to.be.deep.eq(['MISSING']);
+    expect(report.unknownReserves).to.be.deep.eq(['LINK']);
+    expect(formatMarketDrift(report).split('\n')).to.be.deep.eq([
+      '0 drifted params, 1 missing and 1 unknown reserves',
+      '- MISSING: in the config, but not listed in the pool',
+      '- LINK: listed in the pool, but not in the config',
+    ]);
+  });
+});
@@ -52,7 +52,7 @@ makeSuite('PausablePool', (testEnv: TestEnv) => {
     // User 0 tries the transfer to User 1
     await expect(
       aDai.connect(users[0].signer).transfer(users[1].address, amountDAItoDeposit)
-    ).to.revertedWith(RESERVE_PAUSED);
+    ).to.revertedWithProtocolError(RESERVE_PAUSED);
 
     const pausedFromBalance = await aDai.balanceOf(users[0].address);
     const pausedToBalance = await aDai.balanceOf(users[1].address);
@@ -99,7 +99,7 @@ makeSuite('PausablePool', (testEnv: TestEnv) => {
     await configurator.connect(users[1].signer).setPoolPause(true);
     await expect(
       pool.connect(users[0].signer).deposit(dai.address, amountDAItoDeposit, users[0].address, '0')
-    ).to.revertedWith(RESERVE_PAUSED);
+    ).to.revertedWithProtocolError(RESERVE_PAUSED);
 
     // Configurator unpauses the pool
     await configurator.connect(users[1].signer).setPoolPause(false);
@@ -124,7 +124,7 @@ makeSuite('PausablePool', (testEnv: TestEnv) => {
     // user tries to burn
     await expect(
       pool.connect(users[0].signer).withdraw(dai.address, amountDAItoDeposit, users[0].address)
-    ).to.revertedWith(RESERVE_PAUSED);
+    ).to.revertedWithProtocolError(RESERVE_PAUSED);
 
     // Configurator unpauses the pool
     await configurator.connect(users[1].signer).setPoolPause(false);
@@ -140,7 +140,7 @@ makeSuite('PausablePool', (testEnv: TestEnv) => {
     // Try to execute liquidation
     await expect(
       pool.connect(user.signer).borrow(dai.address, '1', '1', '0', user.address)
-    ).to.be.revertedWith(RESERVE_PAUSED);
+    ).to.be.revertedWithProtocolError(RESERVE_PAUSED);
 
     // Unpause the pool
     await configurator.connect(users[1].signer).setPoolPause(false);
@@ -156,7 +156,7 @@ makeSuite('PausablePool', (testEnv: TestEnv) => {
     // Try to execute liquidation
     await expect(
       pool.connect(user.signer).repay(dai.address, '1', '1', user.address)
-    ).to.be.revertedWith(RESERVE_PAUSED);
+    ).to.be.revertedWithProtocolError(RESERVE_PAUSED);
 
     // Unpause the pool
     await configurator.connect(users[1].signer).setPoolPause(false);
@@ -186,7 +186,7 @@ makeSuite('PausablePool', (testEnv: TestEnv) => {
           '0x10',
           '0'
         )
-    ).to.be.revertedWith(RESERVE_PAUSED);
+    ).to.be.revertedWithProtocolError(RESERVE_PAUSED);
 
     // Unpause pool
     await configurator.connect(users[1].signer).setPoolPause(false);
@@ -261,7 +261,7 @@ makeSuite('PausablePool', (testEnv: TestEnv) => {
     // Do liquidation
     await expect(
       pool.liquidationCall(weth.address, usdc.address, borrower.address, amountToLiquidate, true)
-    ).to.be.revertedWith(RESERVE_PAUSED);
+    ).to.be.revertedWithProtocolError(RESERVE_PAUSED);
 
     // Unpause pool
     await configurator.connect(users[1].signer).setPoolPause(false);
@@ -290,7 +290,7 @@ makeSuite('PausablePool', (testEnv: TestEnv) => {
     // Try to repay
     await expect(
       pool.connect(user.signer).swapBorrowRateMode(usdc.address, RateMode.Stable)
-    ).to.be.revertedWith(RESERVE_PAUSED);
+    ).to.be.revertedWithProtocolError(RESERVE_PAUSED);
 
     // Unpause pool
     await configurator.connect(users[1].signer).setPoolPause(false);
@@ -304,7 +304,7 @@ makeSuite('PausablePool', (testEnv: TestEnv) => {
 
     await expect(
       pool.connect(user.signer).rebalanceStableBorrowRate(dai.address, user.address)
-    ).to.be.revertedWith(RESERVE_PAUSED);
+    ).to.be.revertedWithProtocolError(RESERVE_PAUSED);
 
     // Unpause pool
     await configurator.connect(users[1].signer).setPoolPause(false);
@@ -324,7 +324,7 @@ makeSuite('PausablePool', (testEnv: TestEnv) => {
 
     await expect(
       pool.connect(user.signer).setUserUseReserveAsCollateral(weth.address, false)
-    ).to.be.revertedWith(RESERVE_PAUSED);
+    ).to.be.revertedWithProtocolError(RESERVE_PAUSED);
 
     // Unpause pool
     await configurator.connect(users[1].signer).setPoolPause(false);
@@ -40,7 +40,7 @@ makeSuite('PausableReserve', (testEnv: TestEnv) => {
     // User 0 tries the transfer to User 1
     await expect(
       aDai.connect(users[0].signer).transfer(users[1].address, amountDAItoDeposit)
-    ).to.revertedWith(RESERVE_PAUSED);
+    ).to.revertedWithProtocolError(RESERVE_PAUSED);
 
     const pausedFromBalance = await aDai.balanceOf(users[0].address);
     const pausedToBalance = await aDai.balanceOf(users[1].address);
@@ -87,7 +87,7 @@ makeSuite('PausableReserve', (testEnv: TestEnv) => {
     await configurator.connect(users[1].signer).setReservePause(dai.address, true);
     await expect(
       pool.connect(users[0].signer).deposit(dai.address, amountDAItoDeposit, users[0].address, '0')
-    ).to.revertedWith(RESERVE_PAUSED);
+    ).to.revertedWithProtocolError(RESERVE_PAUSED);
 
     // Configurator unpauses the pool
     await configurator.connect(users[1].signer).setReservePause(dai.address, false);
@@ -112,7 +112,7 @@ makeSuite('PausableReserve', (testEnv: TestEnv) => {
     // user tries to burn
     await expect(
       pool.connect(users[0].signer).withdraw(dai.address, amountDAItoDeposit, users[0].address)
-    ).to.revertedWith(RESERVE_PAUSED);
+    ).to.revertedWithProtocolError(RESERVE_PAUSED);
 
     // Configurator unpauses the pool
     await configurator.connect(users[1].signer).setReservePause(dai.address, false);
@@ -128,7 +128,7 @@ makeSuite('PausableReserve', (testEnv: TestEnv) => {
     // Try to execute liquidation
     await expect(
       pool.connect(user.signer).borrow(dai.address, '1', '1', '0', user.address)
-    ).to.be.revertedWith(RESERVE_PAUSED);
+    ).to.be.revertedWithProtocolError(RESERVE_PAUSED);
 
     // Unpause the pool
     await configurator.connect(users[1].signer).setReservePause(dai.address, false);
@@ -144,7 +144,7 @@ makeSuite('PausableReserve', (testEnv: TestEnv) => {
     // Try to execute liquidation
     await expect(
       pool.connect(user.signer).repay(dai.address, '1', '1', user.address)
-    ).to.be.revertedWith(RESERVE_PAUSED);
+    ).to.be.revertedWithProtocolError(RESERVE_PAUSED);
 
     // Unpause the pool
     await configurator.connect(users[1].signer).setReservePause(dai.address, false);
@@ -174,7 +174,7 @@ makeSuite('PausableReserve', (testEnv: TestEnv) => {
           '0x10',
           '0'
         )
-    ).to.be.revertedWith(RESERVE_PAUSED);
+    ).to.be.revertedWithProtocolError(RESERVE_PAUSED);
 
     // Unpause pool
     await configurator.connect(users[1].signer).setReservePause(weth.address, false);
@@ -249,7 +249,7 @@ makeSuite('PausableReserve', (testEnv: TestEnv) => {
     // Do liquidation
     await expect(
       pool.liquidationCall(weth.address, usdc.address, borrower.address, amountToLiquidate, true)
-    ).to.be.revertedWith(RESERVE_PAUSED);
+    ).to.be.revertedWithProtocolError(RESERVE_PAUSED);
 
     // Unpause pool
     await configurator.connect(users[1].signer).setReservePause(usdc.address, false);
@@ -278,7 +278,7 @@ makeSuite('PausableReserve', (testEnv: TestEnv) => {
     // Try to repay
     await expect(
       pool.connect(user.signer).swapBorrowRateMode(usdc.address, RateMode.Stable)
-    ).to.be.revertedWith(RESERVE_PAUSED);
+    ).to.be.revertedWithProtocolError(RESERVE_PAUSED);
 
     // Unpause pool
     await configurator.connect(users[1].signer).setReservePause(usdc.address, false);
@@ -292,7 +292,7 @@ makeSuite('PausableReserve', (testEnv: TestEnv) => {
 
     await expect(
       pool.connect(user.signer).rebalanceStableBorrowRate(dai.address, user.address)
-    ).to.be.revertedWith(RESERVE_PAUSED);
+    ).to.be.revertedWithProtocolError(RESERVE_PAUSED);
 
     // Unpause pool
     await configurator.connect(users[1].signer).setReservePause(dai.address, false);
@@ -312,7 +312,7 @@ makeSuite('PausableReserve', (testEnv: TestEnv) => {
 
     await expect(
       pool.connect(user.signer).setUserUseReserveAsCollateral(weth.address, false)
-    ).to.be.revertedWith(RESERVE_PAUSED);
+    ).to.be.revertedWithProtocolError(RESERVE_PAUSED);
 
     // Unpause pool
     await configurator.connect(users[1].signer).setReservePause(weth.address, false);
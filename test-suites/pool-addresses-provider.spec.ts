@@ -35,19 +35,21 @@ makeSuite('PoolAddressesProvider', (testEnv: TestEnv) => {
       addressesProvider.setPriceOracleSentinel,
       addressesProvider.setPoolDataProvider,
     ]) {
-      await expect(contractFunction(mockAddress)).to.be.revertedWith(OWNABLE_ONLY_OWNER);
+      await expect(contractFunction(mockAddress)).to.be.revertedWithProtocolError(
+        OWNABLE_ONLY_OWNER
+      );
     }
 
     await expect(
       addressesProvider.setAddress(utils.keccak256(utils.toUtf8Bytes('RANDOM_ID')), mockAddress)
-    ).to.be.revertedWith(OWNABLE_ONLY_OWNER);
+    ).to.be.revertedWithProtocolError(OWNABLE_ONLY_OWNER);
 
     await expect(
       addressesProvider.setAddressAsProxy(
         utils.keccak256(utils.toUtf8Bytes('RANDOM_ID')),
         mockAddress
       )
-    ).to.be.revertedWith(OWNABLE_ONLY_OWNER);
+    ).to.be.revertedWithProtocolError(OWNABLE_ONLY_OWNER);
   });
 
   it('Owner adds a new address as proxy', async () => {
@@ -141,7 +141,7 @@ makeSuite('Pool: Authorized FlashLoan', (testEnv: TestEnv) => {
           '0x10',
           '0'
         )
-    ).to.be.revertedWith(INVALID_FLASHLOAN_EXECUTOR_RETURN);
+    ).to.be.revertedWithProtocolError(INVALID_FLASHLOAN_EXECUTOR_RETURN);
   });
 
   it('Takes a WETH flashloan with an invalid mode (revert expected)', async () => {
@@ -313,7 +313,7 @@ makeSuite('Pool: Authorized FlashLoan', (testEnv: TestEnv) => {
           '0x10',
           '0'
         )
-    ).to.be.revertedWith(COLLATERAL_BALANCE_IS_ZERO);
+    ).to.be.revertedWithProtocolError(COLLATERAL_BALANCE_IS_ZERO);
   });
 
   it('Caller deposits 5 WETH as collateral, Takes a USDC flashloan with mode = 2, does not return the funds. A loan for caller is created', async () => {
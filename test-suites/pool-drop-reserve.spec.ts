@@ -46,18 +46,20 @@ makeSuite('Pool: Drop Reserve', (testEnv: TestEnv) => {
 
     await pool.deposit(dai.address, depositedAmount, deployer.address, 0);
 
-    await expect(configurator.dropReserve(dai.address)).to.be.revertedWith(
+    await expect(configurator.dropReserve(dai.address)).to.be.revertedWithProtocolError(
       UNDERLYING_CLAIMABLE_RIGHTS_NOT_ZERO
     );
 
     await pool.connect(user1.signer).deposit(weth.address, depositedAmount, user1.address, 0);
 
     await pool.connect(user1.signer).borrow(dai.address, borrowedAmount, 2, 0, user1.address);
-    await expect(configurator.dropReserve(dai.address)).to.be.revertedWith(
+    await expect(configurator.dropReserve(dai.address)).to.be.revertedWithProtocolError(
       VARIABLE_DEBT_SUPPLY_NOT_ZERO
     );
     await pool.connect(user1.signer).borrow(dai.address, borrowedAmount, 1, 0, user1.address);
-    await expect(configurator.dropReserve(dai.address)).to.be.revertedWith(STABLE_DEBT_NOT_ZERO);
+    await expect(configurator.dropReserve(dai.address)).to.be.revertedWithProtocolError(
+      STABLE_DEBT_NOT_ZERO
+    );
   });
 
   it('User 2 repays debts, drop DAI reserve should fail', async () => {
@@ -68,12 +70,12 @@ makeSuite('Pool: Drop Reserve', (testEnv: TestEnv) => {
       configurator,
     } = testEnv;
     expect(await pool.connect(user1.signer).repay(dai.address, MAX_UINT_AMOUNT, 1, user1.address));
-    await expect(configurator.dropReserve(dai.address)).to.be.revertedWith(
+    await expect(configurator.dropReserve(dai.address)).to.be.revertedWithProtocolError(
       VARIABLE_DEBT_SUPPLY_NOT_ZERO
     );
 
     expect(await pool.connect(user1.signer).repay(dai.address, MAX_UINT_AMOUNT, 2, user1.address));
-    await expect(configurator.dropReserve(dai.address)).to.be.revertedWith(
+    await expect(configurator.dropReserve(dai.address)).to.be.revertedWithProtocolError(
       UNDERLYING_CLAIMABLE_RIGHTS_NOT_ZERO
     );
   });
@@ -96,11 +98,15 @@ makeSuite('Pool: Drop Reserve', (testEnv: TestEnv) => {
 
   it('Drop an asset that is not a listed reserve should fail', async () => {
     const { users, configurator } = testEnv;
-    await expect(configurator.dropReserve(users[5].address)).to.be.revertedWith(ASSET_NOT_LISTED);
+    await expect(configurator.dropReserve(users[5].address)).to.be.revertedWithProtocolError(
+      ASSET_NOT_LISTED
+    );
   });
 
   it('Drop an asset that is not a listed reserve should fail', async () => {
     const { users, configurator } = testEnv;
-    await expect(configurator.dropReserve(ZERO_ADDRESS)).to.be.revertedWith(ZERO_ADDRESS_NOT_VALID);
+    await expect(configurator.dropReserve(ZERO_ADDRESS)).to.be.revertedWithProtocolError(
+      ZERO_ADDRESS_NOT_VALID
+    );
   });
 });
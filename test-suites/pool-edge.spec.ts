@@ -29,11 +29,7 @@ import {
 import { convertToCurrencyDecimals, getProxyImplementation } from '../helpers/contracts-helpers';
 import { ethers } from 'hardhat';
 import { deposit, getTxCostAndTimestamp } from './helpers/actions';
-import AaveConfig from '@aave/deploy-v3/dist/markets/test';
-import {
-  calcExpectedReserveDataAfterDeposit,
-  configuration as calculationsConfiguration,
-} from './helpers/utils/calculations';
+import { calcExpectedReserveDataAfterDeposit } from './helpers/utils/calculations';
 import { getReserveData } from './helpers/utils/helpers';
 
 declare var hre: HardhatRuntimeEnvironment;
@@ -228,7 +224,7 @@ makeSuite('Pool: Edge cases', (testEnv: TestEnv) => {
 
     const freshPool = Pool__factory.connect(NEW_POOL_IMPL_ARTIFACT.address, deployer.signer);
 
-    await expect(freshPool.initialize(deployer.address)).to.be.revertedWith(
+    await expect(freshPool.initialize(deployer.address)).to.be.revertedWithProtocolError(
       INVALID_ADDRESSES_PROVIDER
     );
   });
@@ -257,7 +253,7 @@ makeSuite('Pool: Edge cases', (testEnv: TestEnv) => {
           config.variableDebtTokenAddress,
           ZERO_ADDRESS
         )
-    ).to.be.revertedWith(CALLER_NOT_POOL_CONFIGURATOR);
+    ).to.be.revertedWithProtocolError(CALLER_NOT_POOL_CONFIGURATOR);
   });
 
   it('Call `setUserUseReserveAsCollateral()` to use an asset as collateral when the asset is already set as collateral', async () => {
@@ -344,7 +340,7 @@ makeSuite('Pool: Edge cases', (testEnv: TestEnv) => {
       pool
         .connect(users[0].signer)
         .finalizeTransfer(dai.address, users[0].address, users[1].address, 0, 0, 0)
-    ).to.be.revertedWith(CALLER_NOT_ATOKEN);
+    ).to.be.revertedWithProtocolError(CALLER_NOT_ATOKEN);
   });
 
   it('Tries to call `initReserve()` with an EOA as reserve (revert expected)', async () => {
@@ -359,7 +355,7 @@ makeSuite('Pool: Edge cases', (testEnv: TestEnv) => {
       pool
         .connect(configSigner)
         .initReserve(users[0].address, ZERO_ADDRESS, ZERO_ADDRESS, ZERO_ADDRESS, ZERO_ADDRESS)
-    ).to.be.revertedWith(NOT_CONTRACT);
+    ).to.be.revertedWithProtocolError(NOT_CONTRACT);
   });
 
   it('PoolConfigurator updates the ReserveInterestRateStrategy address', async () => {
@@ -390,7 +386,7 @@ makeSuite('Pool: Edge cases', (testEnv: TestEnv) => {
 
     await expect(
       pool.connect(configSigner).setReserveInterestRateStrategyAddress(ZERO_ADDRESS, ZERO_ADDRESS)
-    ).to.be.revertedWith(ZERO_ADDRESS_NOT_VALID);
+    ).to.be.revertedWithProtocolError(ZERO_ADDRESS_NOT_VALID);
   });
 
   it('PoolConfigurator updates the ReserveInterestRateStrategy address for an unlisted asset (revert expected)', async () => {
@@ -405,14 +401,14 @@ makeSuite('Pool: Edge cases', (testEnv: TestEnv) => {
       pool
         .connect(configSigner)
         .setReserveInterestRateStrategyAddress(users[5].address, ZERO_ADDRESS)
-    ).to.be.revertedWith(ASSET_NOT_LISTED);
+    ).to.be.revertedWithProtocolError(ASSET_NOT_LISTED);
   });
 
   it('Activates the zero address reserve for borrowing via pool admin (expect revert)', async () => {
     const { configurator } = testEnv;
-    await expect(configurator.setReserveBorrowing(ZERO_ADDRESS, true)).to.be.revertedWith(
-      ZERO_ADDRESS_NOT_VALID
-    );
+    await expect(
+      configurator.setReserveBorrowing(ZERO_ADDRESS, true)
+    ).to.be.revertedWithProtocolError(ZERO_ADDRESS_NOT_VALID);
   });
 
   it('Initialize an already initialized reserve. ReserveLogic `init` where aTokenAddress != ZERO_ADDRESS (revert expected)', async () => {
@@ -433,7 +429,7 @@ makeSuite('Pool: Edge cases', (testEnv: TestEnv) => {
         config.variableDebtTokenAddress,
         ZERO_ADDRESS
       )
-    ).to.be.revertedWith(RESERVE_ALREADY_INITIALIZED);
+    ).to.be.revertedWithProtocolError(RESERVE_ALREADY_INITIALIZED);
   });
 
   it('Init reserve with ZERO_ADDRESS as aToken twice, to enter `_addReserveToList()` already added (revert expected)', async () => {
@@ -478,7 +474,7 @@ makeSuite('Pool: Edge cases', (testEnv: TestEnv) => {
           config.variableDebtTokenAddress,
           ZERO_ADDRESS
         )
-    ).to.be.revertedWith(RESERVE_ALREADY_ADDED);
+    ).to.be.revertedWithProtocolError(RESERVE_ALREADY_ADDED);
     const poolListAfter = await pool.getReservesList();
     expect(poolListAfter.length).to.be.eq(poolListMid.length);
   });
@@ -544,7 +540,7 @@ makeSuite('Pool: Edge cases', (testEnv: TestEnv) => {
         config.variableDebtTokenAddress,
         ZERO_ADDRESS
       )
-    ).to.be.revertedWith(NO_MORE_RESERVES_ALLOWED);
+    ).to.be.revertedWithProtocolError(NO_MORE_RESERVES_ALLOWED);
   });
 
   it('Add asset after multiple drops', async () => {
@@ -782,7 +778,7 @@ makeSuite('Pool: Edge cases', (testEnv: TestEnv) => {
 
     await expect(
       pool.connect(configSigner).resetIsolationModeTotalDebt(dai.address)
-    ).to.be.revertedWith(DEBT_CEILING_NOT_ZERO);
+    ).to.be.revertedWithProtocolError(DEBT_CEILING_NOT_ZERO);
   });
 
   it('Tries to initialize a reserve with an AToken, StableDebtToken, and VariableDebt each deployed with the wrong pool address (revert expected)', async () => {
@@ -914,7 +910,7 @@ makeSuite('Pool: Edge cases', (testEnv: TestEnv) => {
     await expect(
       configurator.dropReserve(weth.address),
       'dropReserve() should not be possible as there are funds'
-    ).to.be.revertedWith(UNDERLYING_CLAIMABLE_RIGHTS_NOT_ZERO);
+    ).to.be.revertedWithProtocolError(UNDERLYING_CLAIMABLE_RIGHTS_NOT_ZERO);
 
     await pool.mintToTreasury([weth.address]);
 
@@ -976,7 +972,7 @@ makeSuite('Pool: Edge cases', (testEnv: TestEnv) => {
 
     await expect(
       pool.deposit(weth.address, ethers.utils.parseEther('30'), userAddress, '0')
-    ).to.be.revertedWith(SUPPLY_CAP_EXCEEDED);
+    ).to.be.revertedWithProtocolError(SUPPLY_CAP_EXCEEDED);
 
     await pool.deposit(weth.address, ethers.utils.parseEther('5'), userAddress, '0');
   });
@@ -1022,9 +1018,9 @@ makeSuite('Pool: Edge cases', (testEnv: TestEnv) => {
 
     await pool.connect(user0.signer).withdraw(weth.address, MAX_UINT_AMOUNT, userAddress);
 
-    await expect(configurator.setReserveActive(weth.address, false)).to.be.revertedWith(
-      RESERVE_LIQUIDITY_NOT_ZERO
-    );
+    await expect(
+      configurator.setReserveActive(weth.address, false)
+    ).to.be.revertedWithProtocolError(RESERVE_LIQUIDITY_NOT_ZERO);
 
     await pool.mintToTreasury([weth.address]);
 
@@ -1153,9 +1149,6 @@ makeSuite('Pool: Edge cases', (testEnv: TestEnv) => {
       users: [user1, user2, user3, bridge],
     } = testEnv;
 
-    // Set configuration of reserve params
-    calculationsConfiguration.reservesParams = AaveConfig.ReservesConfig;
-
     // User 3 supplies 1M DAI and borrows 0.25M DAI
     const daiAmount = await convertToCurrencyDecimals(dai.address, '1000000');
     expect(await dai.connect(user3.signer)['mint(uint256)'](daiAmount));
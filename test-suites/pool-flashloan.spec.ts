@@ -303,7 +303,7 @@ makeSuite('Pool: FlashLoan', (testEnv: TestEnv) => {
         '0x10',
         '0'
       )
-    ).to.be.revertedWith(FLASHLOAN_DISABLED);
+    ).to.be.revertedWithProtocolError(FLASHLOAN_DISABLED);
 
     await expect(configurator.setReserveFlashLoaning(weth.address, true))
       .to.emit(configurator, 'ReserveFlashLoaning')
@@ -351,7 +351,7 @@ makeSuite('Pool: FlashLoan', (testEnv: TestEnv) => {
           '0x10',
           '0'
         )
-    ).to.be.revertedWith(INVALID_FLASHLOAN_EXECUTOR_RETURN);
+    ).to.be.revertedWithProtocolError(INVALID_FLASHLOAN_EXECUTOR_RETURN);
   });
 
   it('Takes a WETH flashloan with an invalid mode (revert expected)', async () => {
@@ -574,7 +574,7 @@ makeSuite('Pool: FlashLoan', (testEnv: TestEnv) => {
           '0x10',
           '0'
         )
-    ).to.be.revertedWith(COLLATERAL_BALANCE_IS_ZERO);
+    ).to.be.revertedWithProtocolError(COLLATERAL_BALANCE_IS_ZERO);
   });
 
   it('Caller deposits 5 WETH as collateral, Takes a USDC flashloan with mode = 2, does not return the funds. A loan for caller is created, premium should be 0', async () => {
@@ -658,7 +658,7 @@ makeSuite('Pool: FlashLoan', (testEnv: TestEnv) => {
           '0x10',
           '0'
         )
-    ).to.be.revertedWith(BORROWING_NOT_ENABLED);
+    ).to.be.revertedWithProtocolError(BORROWING_NOT_ENABLED);
   });
 
   it('Caller deposits 1000 DAI as collateral, Takes a WETH flashloan with mode = 0, does not approve the transfer of the funds', async () => {
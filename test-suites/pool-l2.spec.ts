@@ -31,6 +31,24 @@ import { MAX_UINT_AMOUNT } from '../helpers/constants';
 import { parseUnits } from 'ethers/lib/utils';
 import { getReserveData, getUserData } from './helpers/utils/helpers';
 import { calcExpectedStableDebtTokenBalance } from './helpers/utils/calculations';
+import {
+  decodeLiquidationCall,
+  decodeRepayWithPermitParams,
+  decodeSupplyParams,
+  decodeWithdrawParams,
+  encodeBorrowParams,
+  encodeLiquidationCall,
+  encodeRebalanceStableBorrowRate,
+  encodeRepayParams,
+  encodeRepayWithATokensParams,
+  encodeRepayWithPermitParams,
+  encodeSetUserUseReserveAsCollateral,
+  encodeSupplyParams,
+  encodeSupplyWithPermitParams,
+  encodeSwapBorrowRateMode,
+  encodeWithdrawParams,
+  getReserveId,
+} from '../helpers/l2-encoder';
 
 declare var hre: HardhatRuntimeEnvironment;
 
@@ -113,6 +131,12 @@ makeSuite('Pool: L2 functions', (testEnv: TestEnv) => {
     await dai.connect(user0.signer).approve(l2Pool.address, amount);
 
     const encoded = await encoder.encodeSupplyParams(dai.address, amount, referralCode);
+    expect(
+      encodeSupplyParams(await getReserveId(testEnv.pool, dai.address), amount, referralCode)
+    ).to.be.deep.eq(encoded);
+    const decoded = decodeSupplyParams(encoded);
+    expect(decoded.amount).to.be.eq(amount);
+    expect(decoded.referralCode).to.be.eq(referralCode);
 
     await expect(l2Pool.connect(user0.signer)['supply(bytes32)'](encoded))
       .to.emit(l2Pool, 'Supply')
@@ -156,6 +180,17 @@ makeSuite('Pool: L2 functions', (testEnv: TestEnv) => {
       r,
       s
     );
+    expect(
+      encodeSupplyWithPermitParams(
+        await getReserveId(testEnv.pool, dai.address),
+        amount,
+        referralCode,
+        highDeadline,
+        v,
+        r,
+        s
+      )
+    ).to.be.deep.eq([...encoded]);
 
     await expect(
       l2Pool.connect(deployer.signer)['supplyWithPermit(bytes32,bytes32,bytes32)'](encoded[0], r, s)
@@ -176,6 +211,9 @@ makeSuite('Pool: L2 functions', (testEnv: TestEnv) => {
     } = testEnv;
 
     const encoded = await encoder.encodeSetUserUseReserveAsCollateral(dai.address, false);
+    expect(
+      encodeSetUserUseReserveAsCollateral(await getReserveId(testEnv.pool, dai.address), false)
+    ).to.be.deep.eq(encoded);
     await expect(l2Pool.connect(user0.signer)['setUserUseReserveAsCollateral(bytes32)'](encoded))
       .to.emit(l2Pool, 'ReserveUsedAsCollateralDisabled')
       .withArgs(dai.address, user0.address);
@@ -192,6 +230,9 @@ makeSuite('Pool: L2 functions', (testEnv: TestEnv) => {
     } = testEnv;
 
     const encoded = await encoder.encodeSetUserUseReserveAsCollateral(dai.address, true);
+    expect(
+      encodeSetUserUseReserveAsCollateral(await getReserveId(testEnv.pool, dai.address), true)
+    ).to.be.deep.eq(encoded);
     expect(await l2Pool.connect(user0.signer)['setUserUseReserveAsCollateral(bytes32)'](encoded))
       .to.emit(l2Pool, 'ReserveUsedAsCollateralEnabled')
       .withArgs(dai.address, user0.address);
@@ -231,6 +272,14 @@ makeSuite('Pool: L2 functions', (testEnv: TestEnv) => {
       RateMode.Variable,
       referralCode
     );
+    expect(
+      encodeBorrowParams(
+        await getReserveId(testEnv.pool, usdc.address),
+        borrowAmount,
+        RateMode.Variable,
+        referralCode
+      )
+    ).to.be.deep.eq(encoded);
 
     const data = await l2Pool.getReserveData(usdc.address);
     const strat = await DefaultReserveInterestRateStrategy__factory.connect(
@@ -271,6 +320,12 @@ makeSuite('Pool: L2 functions', (testEnv: TestEnv) => {
     const { deployer, dai, usdc, helpersContract } = testEnv;
     const currentInterestRateMode = RateMode.Variable;
     const encoded = await encoder.encodeSwapBorrowRateMode(usdc.address, currentInterestRateMode);
+    expect(
+      encodeSwapBorrowRateMode(
+        await getReserveId(testEnv.pool, usdc.address),
+        currentInterestRateMode
+      )
+    ).to.be.deep.eq(encoded);
     const userDataBefore = await helpersContract.getUserReserveData(usdc.address, deployer.address);
     expect(userDataBefore.currentStableDebt).to.be.eq(0);
     expect(userDataBefore.currentVariableDebt).to.be.gt(0);
@@ -290,15 +345,27 @@ makeSuite('Pool: L2 functions', (testEnv: TestEnv) => {
     // see other rebalance tests for that
     const { deployer, usdc } = testEnv;
     const encoded = await encoder.encodeRebalanceStableBorrowRate(usdc.address, deployer.address);
+    expect(
+      encodeRebalanceStableBorrowRate(
+        await getReserveId(testEnv.pool, usdc.address),
+        deployer.address
+      )
+    ).to.be.deep.eq(encoded);
     await expect(
       l2Pool.connect(deployer.signer)['rebalanceStableBorrowRate(bytes32)'](encoded)
-    ).to.be.revertedWith(ProtocolErrors.INTEREST_RATE_REBALANCE_CONDITIONS_NOT_MET);
+    ).to.be.revertedWithProtocolError(ProtocolErrors.INTEREST_RATE_REBALANCE_CONDITIONS_NOT_MET);
   });
 
   it('swapBorrowRateMode to variable', async () => {
     const { deployer, dai, usdc, helpersContract } = testEnv;
     const currentInterestRateMode = RateMode.Stable;
     const encoded = await encoder.encodeSwapBorrowRateMode(usdc.address, currentInterestRateMode);
+    expect(
+      encodeSwapBorrowRateMode(
+        await getReserveId(testEnv.pool, usdc.address),
+        currentInterestRateMode
+      )
+    ).to.be.deep.eq(encoded);
     const userDataBefore = await helpersContract.getUserReserveData(usdc.address, deployer.address);
     expect(userDataBefore.currentStableDebt).to.be.gt(0);
     expect(userDataBefore.currentVariableDebt).to.be.eq(0);
@@ -328,6 +395,13 @@ makeSuite('Pool: L2 functions', (testEnv: TestEnv) => {
     const repayAmount = parseUnits('50', 6);
 
     const encoded = await encoder.encodeRepayParams(usdc.address, repayAmount, RateMode.Variable);
+    expect(
+      encodeRepayParams(
+        await getReserveId(testEnv.pool, usdc.address),
+        repayAmount,
+        RateMode.Variable
+      )
+    ).to.be.deep.eq(encoded);
 
     expect(await l2Pool.connect(deployer.signer)['repay(bytes32)'](encoded))
       .to.emit(l2Pool, 'Repay')
@@ -366,6 +440,13 @@ makeSuite('Pool: L2 functions', (testEnv: TestEnv) => {
       repayAmount,
       RateMode.Variable
     );
+    expect(
+      encodeRepayWithATokensParams(
+        await getReserveId(testEnv.pool, usdc.address),
+        repayAmount,
+        RateMode.Variable
+      )
+    ).to.be.deep.eq(encoded);
 
     expect(await l2Pool.connect(deployer.signer)['repayWithATokens(bytes32)'](encoded))
       .to.emit(l2Pool, 'Repay')
@@ -421,6 +502,21 @@ makeSuite('Pool: L2 functions', (testEnv: TestEnv) => {
       r,
       s
     );
+    expect(
+      encodeRepayWithPermitParams(
+        await getReserveId(testEnv.pool, usdc.address),
+        amount,
+        RateMode.Variable,
+        highDeadline,
+        v,
+        r,
+        s
+      )
+    ).to.be.deep.eq([...encoded]);
+    const decoded = decodeRepayWithPermitParams(encoded[0]);
+    expect(decoded.amount).to.be.eq(MAX_UINT_AMOUNT);
+    expect(decoded.deadline).to.be.eq(highDeadline);
+    expect(decoded.permitV).to.be.eq(v);
 
     expect(
       await l2Pool
@@ -443,6 +539,9 @@ makeSuite('Pool: L2 functions', (testEnv: TestEnv) => {
 
     const amount = utils.parseEther('0.5');
     const encoded = await encoder.encodeWithdrawParams(dai.address, amount);
+    expect(
+      encodeWithdrawParams(await getReserveId(testEnv.pool, dai.address), amount)
+    ).to.be.deep.eq(encoded);
     const balanceBefore = await aDai.balanceOf(user0.address);
 
     expect(await l2Pool.connect(user0.signer)['withdraw(bytes32)'](encoded))
@@ -462,6 +561,10 @@ makeSuite('Pool: L2 functions', (testEnv: TestEnv) => {
 
     const amount = MAX_UINT_AMOUNT;
     const encoded = await encoder.encodeWithdrawParams(dai.address, amount);
+    expect(
+      encodeWithdrawParams(await getReserveId(testEnv.pool, dai.address), amount)
+    ).to.be.deep.eq(encoded);
+    expect(decodeWithdrawParams(encoded).amount).to.be.eq(MAX_UINT_AMOUNT);
     const balanceBefore = await aDai.balanceOf(user0.address);
 
     expect(await l2Pool.connect(user0.signer)['withdraw(bytes32)'](encoded))
@@ -546,6 +649,15 @@ makeSuite('Pool: L2 functions', (testEnv: TestEnv) => {
       amountToLiquidate,
       false
     );
+    expect(
+      encodeLiquidationCall(
+        await getReserveId(testEnv.pool, usdc.address),
+        await getReserveId(testEnv.pool, dai.address),
+        borrower.address,
+        amountToLiquidate,
+        false
+      )
+    ).to.be.deep.eq([...encoded]);
 
     const tx = await l2Pool
       .connect(liquidator.signer)
@@ -702,6 +814,19 @@ makeSuite('Pool: L2 functions', (testEnv: TestEnv) => {
       MAX_UINT_AMOUNT,
       true
     );
+    expect(
+      encodeLiquidationCall(
+        await getReserveId(testEnv.pool, usdc.address),
+        await getReserveId(testEnv.pool, dai.address),
+        borrower.address,
+        MAX_UINT_AMOUNT,
+        true
+      )
+    ).to.be.deep.eq([...encoded]);
+    const decoded = decodeLiquidationCall(encoded[0], encoded[1]);
+    expect(decoded.user).to.be.eq(borrower.address);
+    expect(decoded.debtToCover).to.be.eq(MAX_UINT_AMOUNT);
+    expect(decoded.receiveAToken).to.be.true;
 
     const liquidatorAUSDCBefore = await aUsdc.balanceOf(liquidator.address);
 
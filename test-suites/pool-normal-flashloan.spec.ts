@@ -191,7 +191,7 @@ makeSuite('Pool: FlashLoan for gas comparison', (testEnv: TestEnv) => {
           '0x10',
           '0'
         )
-    ).to.be.revertedWith(INVALID_FLASHLOAN_EXECUTOR_RETURN);
+    ).to.be.revertedWithProtocolError(INVALID_FLASHLOAN_EXECUTOR_RETURN);
   });
 
   it('Tries to take a flashloan that is bigger than the available liquidity (revert expected)', async () => {
@@ -310,7 +310,7 @@ makeSuite('Pool: FlashLoan for gas comparison', (testEnv: TestEnv) => {
           '0x10',
           '0'
         )
-    ).to.be.revertedWith(INVALID_FLASHLOAN_EXECUTOR_RETURN);
+    ).to.be.revertedWithProtocolError(INVALID_FLASHLOAN_EXECUTOR_RETURN);
   });
 
   it('Caller deposits 1000 DAI as collateral, Takes a WETH flashloan with mode = 0, does not approve the transfer of the funds', async () => {
@@ -198,7 +198,7 @@ makeSuite('Pool: Simple FlashLoan', (testEnv: TestEnv) => {
         '0x10',
         '0'
       )
-    ).to.be.revertedWith(FLASHLOAN_DISABLED);
+    ).to.be.revertedWithProtocolError(FLASHLOAN_DISABLED);
 
     expect(await configurator.setReserveFlashLoaning(weth.address, true));
     wethFlashLoanEnabled = await helpersContract.getFlashLoanEnabled(weth.address);
@@ -239,7 +239,7 @@ makeSuite('Pool: Simple FlashLoan', (testEnv: TestEnv) => {
           '0x10',
           '0'
         )
-    ).to.be.revertedWith(INVALID_FLASHLOAN_EXECUTOR_RETURN);
+    ).to.be.revertedWithProtocolError(INVALID_FLASHLOAN_EXECUTOR_RETURN);
   });
 
   it('Tries to take a flashloan that is bigger than the available liquidity (revert expected)', async () => {
@@ -344,7 +344,7 @@ makeSuite('Pool: Simple FlashLoan', (testEnv: TestEnv) => {
           '0x10',
           '0'
         )
-    ).to.be.revertedWith(INVALID_FLASHLOAN_EXECUTOR_RETURN);
+    ).to.be.revertedWithProtocolError(INVALID_FLASHLOAN_EXECUTOR_RETURN);
   });
 
   it('Caller deposits 1000 DAI as collateral, Takes a WETH flashloan with mode = 0, does not approve the transfer of the funds', async () => {
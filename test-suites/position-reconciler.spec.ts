@@ -0,0 +1,129 @@
+import { expect } from 'chai';
+import { utils } from 'ethers';
+import { evmRevert, evmSnapshot, increaseTime, waitForTx } from '@aave/deploy-v3';
+import { MAX_UINT_AMOUNT } from '../helpers/constants';
+import { createEventIndexer, EventIndexer } from '../helpers/event-indexer';
+import { reconcilePositions } from '../helpers/position-reconciler';
+import { RateMode } from '../helpers/types';
+import { mintAndSupply } from './helpers/actions';
+import { makeSuite, TestEnv } from './helpers/make-suite';
+
+makeSuite('Position reconciliation between events and contract state', (testEnv: TestEnv) => {
+  let snapId: string;
+  let indexer: EventIndexer;
+  let transferTx: string;
+  let disableCollateralTx: string;
+
+  before('Supplies, borrows with both rate modes, repays and transfers aTokens', async () => {
+    const { addressesProvider, pool, dai, aDai, users } = testEnv;
+    const [depositor, borrower, receiver] = users;
+
+    await mintAndSupply(testEnv, 0, 'dai', '10000');
+    await mintAndSupply(testEnv, 1, 'weth', '10');
+    await waitForTx(
+      await pool
+        .connect(borrower.signer)
+        .borrow(dai.address, utils.parseUnits('1000', 18), RateMode.Variable, '0', borrower.address)
+    );
+    await waitForTx(
+      await pool
+        .connect(borrower.signer)
+        .borrow(dai.address, utils.parseUnits('500', 18), RateMode.Stable, '0', borrower.address)
+    );
+    await increaseTime(60 * 60 * 24 * 30);
+
+    // Accrued interest makes the repayment and the transfer emit Mint events along the way
+    await waitForTx(await dai.connect(borrower.signer).approve(pool.address, MAX_UINT_AMOUNT));
+    await waitForTx(
+      await pool
+        .connect(borrower.signer)
+        .repay(dai.address, utils.parseUnits('200', 18), RateMode.Variable, borrower.address)
+    );
+    await waitForTx(
+      await pool
+        .connect(borrower.signer)
+        .repay(dai.address, utils.parseUnits('100', 18), RateMode.Stable, borrower.address)
+    );
+    transferTx = (
+      await waitForTx(
+        await aDai
+          .connect(depositor.signer)
+          .transfer(receiver.address, utils.parseUnits('3000', 18))
+      )
+    ).transactionHash;
+    disableCollateralTx = (
+      await waitForTx(
+        await pool.connect(depositor.signer).setUserUseReserveAsCollateral(dai.address, false)
+      )
+    ).transactionHash;
+
+    indexer = createEventIndexer(addressesProvider);
+    await indexer.sync();
+  });
+
+  beforeEach(async () => {
+    snapId = await evmSnapshot();
+  });
+  afterEach(async () => {
+    await evmRevert(snapId);
+  });
+
+  it('Rebuilds the positions matching the contracts', async () => {
+    const { pool, dai, aDai, variableDebtDai, stableDebtDai, users } = testEnv;
+    const [depositor, borrower, receiver] = users;
+
+    const { positions, mismatches } = await reconcilePositions(pool, indexer.state.events);
+    expect(mismatches).to.be.empty;
+
+    expect(positions[receiver.address][dai.address].scaledATokenBalance).to.be.eq(
+      await aDai.scaledBalanceOf(receiver.address)
+    );
+    expect(positions[depositor.address][dai.address].usageAsCollateralEnabled).to.be.false;
+    expect(positions[borrower.address][dai.address].scaledVariableDebt).to.be.eq(
+      await variableDebtDai.scaledBalanceOf(borrower.address)
+    );
+    expect(positions[borrower.address][dai.address].principalStableDebt).to.be.eq(
+      await stableDebtDai.principalBalanceOf(borrower.address)
+    );
+  });
+
+  it('Reports the balances of a missing BalanceTransfer', async () => {
+    const { pool, dai, aDai, users } = testEnv;
+    const [depositor, , receiver] = users;
+
+    const events = indexer.state.events.filter(
+      ({ key, transactionHash }) =>
+        key !== 'AToken.BalanceTransfer' || transactionHash !== transferTx
+    );
+    const { mismatches } = await reconcilePositions(pool, events);
+    expect(
+      mismatches.map(({ user, asset, field }) => ({ user, asset, field }))
+    ).to.have.deep.members([
+      { user: depositor.address, asset: dai.address, field: 'scaledATokenBalance' },
+      { user: receiver.address, asset: dai.address, field: 'scaledATokenBalance' },
+    ]);
+    expect(mismatches.find(({ user }) => user === receiver.address)?.actual).to.be.eq(
+      (await aDai.scaledBalanceOf(receiver.address)).toString()
+    );
+  });
+
+  it('Reports a missing collateral flag change', async () => {
+    const { pool, dai, users } = testEnv;
+    const [depositor] = users;
+
+    const events = indexer.state.events.filter(
+      ({ transactionHash }) => transactionHash !== disableCollateralTx
+    );
+    const { mismatches } = await reconcilePositions(pool, events);
+    expect(mismatches).to.be.deep.eq([
+      {
+        user: depositor.address,
+        asset: dai.address,
+        field: 'usageAsCollateralEnabled',
+        expected: true,
+        actual: false,
+        message: `usageAsCollateralEnabled of ${depositor.address} in ${dai.address}: true from the events, false on-chain`,
+      },
+    ]);
+  });
+});
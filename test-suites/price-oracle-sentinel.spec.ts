@@ -103,9 +103,9 @@ makeSuite('PriceOracleSentinel', (testEnv: TestEnv) => {
     } = testEnv;
 
     expect(await priceOracleSentinel.getGracePeriod()).to.be.eq(GRACE_PERIOD);
-    await expect(priceOracleSentinel.connect(user.signer).setGracePeriod(0)).to.be.revertedWith(
-      CALLER_NOT_RISK_OR_POOL_ADMIN
-    );
+    await expect(
+      priceOracleSentinel.connect(user.signer).setGracePeriod(0)
+    ).to.be.revertedWithProtocolError(CALLER_NOT_RISK_OR_POOL_ADMIN);
     expect(await priceOracleSentinel.getGracePeriod()).to.not.be.eq(0);
   });
 
@@ -139,7 +139,7 @@ makeSuite('PriceOracleSentinel', (testEnv: TestEnv) => {
     expect(await priceOracleSentinel.getSequencerOracle()).to.be.eq(sequencerOracle.address);
     await expect(
       priceOracleSentinel.connect(user.signer).setSequencerOracle(newSequencerOracle)
-    ).to.be.revertedWith(CALLER_NOT_POOL_ADMIN);
+    ).to.be.revertedWithProtocolError(CALLER_NOT_POOL_ADMIN);
     expect(await priceOracleSentinel.getSequencerOracle()).to.be.eq(sequencerOracle.address);
   });
 
@@ -238,7 +238,7 @@ makeSuite('PriceOracleSentinel', (testEnv: TestEnv) => {
     const amountToLiquidate = userReserveDataBefore.currentVariableDebt.div(2);
     await expect(
       pool.liquidationCall(weth.address, dai.address, borrower.address, amountToLiquidate, true)
-    ).to.be.revertedWith(PRICE_ORACLE_SENTINEL_CHECK_FAILED);
+    ).to.be.revertedWithProtocolError(PRICE_ORACLE_SENTINEL_CHECK_FAILED);
   });
 
   it('Drop health factor lower', async () => {
@@ -404,7 +404,7 @@ makeSuite('PriceOracleSentinel', (testEnv: TestEnv) => {
       pool
         .connect(user.signer)
         .borrow(dai.address, utils.parseUnits('100', 18), RateMode.Variable, 0, user.address)
-    ).to.be.revertedWith(PRICE_ORACLE_SENTINEL_CHECK_FAILED);
+    ).to.be.revertedWithProtocolError(PRICE_ORACLE_SENTINEL_CHECK_FAILED);
   });
 
   it('Turn on sequencer', async () => {
@@ -431,7 +431,7 @@ makeSuite('PriceOracleSentinel', (testEnv: TestEnv) => {
       pool
         .connect(user.signer)
         .borrow(dai.address, utils.parseUnits('100', 18), RateMode.Variable, 0, user.address)
-    ).to.be.revertedWith(PRICE_ORACLE_SENTINEL_CHECK_FAILED);
+    ).to.be.revertedWithProtocolError(PRICE_ORACLE_SENTINEL_CHECK_FAILED);
   });
 
   it('Turn off sequencer + increase time more than grace period', async () => {
@@ -460,7 +460,7 @@ makeSuite('PriceOracleSentinel', (testEnv: TestEnv) => {
       pool
         .connect(user.signer)
         .borrow(dai.address, utils.parseUnits('100', 18), RateMode.Variable, 0, user.address)
-    ).to.be.revertedWith(PRICE_ORACLE_SENTINEL_CHECK_FAILED);
+    ).to.be.revertedWithProtocolError(PRICE_ORACLE_SENTINEL_CHECK_FAILED);
   });
 
   it('Turn on sequencer + increase time past grace period', async () => {
@@ -0,0 +1,67 @@
+import fs from 'fs';
+import { expect } from 'chai';
+import {
+  diffProtocolErrors,
+  ERRORS_LIBRARY_PATH,
+  parseErrorsLibrary,
+  parseGeneratedProtocolErrors,
+  PROTOCOL_ERRORS_PATH,
+  renderProtocolErrors,
+} from '../scripts/generate-protocol-errors';
+import { ProtocolErrorDescriptions, ProtocolErrors } from '../helpers/types';
+
+describe('ProtocolErrors code generation', () => {
+  const errorsSource = fs.readFileSync(ERRORS_LIBRARY_PATH, 'utf8');
+  const typesSource = fs.readFileSync(PROTOCOL_ERRORS_PATH, 'utf8');
+
+  it('Parses the error constants and descriptions of Errors.sol', () => {
+    const definitions = parseErrorsLibrary(`
+library Errors {
+  string public constant CALLER_NOT_POOL_ADMIN = '1'; // 'The caller of the function is not a pool admin'
+  string public constant RESERVE_DEBT_NOT_ZERO = '90'; // the total debt of the reserve needs to be 0
+  string public constant NO_COMMENT = '92';
+}`);
+
+    expect(definitions).to.be.deep.eq([
+      {
+        name: 'CALLER_NOT_POOL_ADMIN',
+        code: '1',
+        description: 'The caller of the function is not a pool admin',
+      },
+      {
+        name: 'RESERVE_DEBT_NOT_ZERO',
+        code: '90',
+        description: 'The total debt of the reserve needs to be 0',
+      },
+      { name: 'NO_COMMENT', code: '92', description: '' },
+    ]);
+  });
+
+  it('ProtocolErrors and its descriptions are in sync with Errors.sol', () => {
+    const definitions = parseErrorsLibrary(errorsSource);
+
+    expect(definitions.length).to.be.gt(0);
+    expect(diffProtocolErrors(definitions, parseGeneratedProtocolErrors(typesSource))).to.be.empty;
+    for (const { name, code, description } of definitions) {
+      expect(ProtocolErrors[name as keyof typeof ProtocolErrors]).to.be.eq(code, name);
+      expect(ProtocolErrorDescriptions[name as keyof typeof ProtocolErrors]).to.be.eq(
+        description,
+        name
+      );
+    }
+  });
+
+  it('Reports missing, changed and removed errors', () => {
+    const definitions = parseErrorsLibrary(errorsSource);
+    const generated = renderProtocolErrors(typesSource, [
+      ...definitions.filter(({ name }) => name !== 'FORCED_LIQUIDATION_CALLER_NOT_AUTHORIZED'),
+      { name: 'REMOVED_ERROR', code: '200', description: 'Removed error' },
+    ]).replace(`FLASHLOAN_DISABLED = '91'`, `FLASHLOAN_DISABLED = '92'`);
+
+    expect(diffProtocolErrors(definitions, parseGeneratedProtocolErrors(generated))).to.be.deep.eq([
+      `FLASHLOAN_DISABLED is '92' in ProtocolErrors, but '91' in Errors.sol`,
+      `FORCED_LIQUIDATION_CALLER_NOT_AUTHORIZED ('128') is missing from ProtocolErrors`,
+      `REMOVED_ERROR ('200') is not defined in Errors.sol`,
+    ]);
+  });
+});
@@ -0,0 +1,116 @@
+import { expect } from 'chai';
+import { defaultAbiCoder } from 'ethers/lib/utils';
+import { MAX_UINT_AMOUNT } from '../helpers/constants';
+import {
+  decodeProtocolError,
+  decodeRevertData,
+  ERROR_STRING_SELECTOR,
+  findProtocolError,
+  PANIC_CODE_SELECTOR,
+} from '../helpers/protocol-errors';
+import { ProtocolErrors } from '../helpers/types';
+import { makeSuite, TestEnv } from './helpers/make-suite';
+
+const encodeReason = (reason: string) =>
+  `${ERROR_STRING_SELECTOR}${defaultAbiCoder.encode(['string'], [reason]).slice(2)}`;
+
+makeSuite('ProtocolErrors decoder', (testEnv: TestEnv) => {
+  const { INVALID_AMOUNT, CALLER_NOT_RISK_OR_POOL_ADMIN, OWNABLE_ONLY_OWNER, RESERVE_FROZEN } =
+    ProtocolErrors;
+
+  it('Decodes an Error(string) revert data into the ProtocolErrors member', async () => {
+    const decoded = decodeRevertData(encodeReason('35'));
+
+    expect(decoded.kind).to.be.eq('Error');
+    expect(decoded.reason).to.be.eq('35');
+    expect(decoded.protocolError).to.be.eq(
+      ProtocolErrors.HEALTH_FACTOR_LOWER_THAN_LIQUIDATION_THRESHOLD
+    );
+    expect(decoded.name).to.be.eq('HEALTH_FACTOR_LOWER_THAN_LIQUIDATION_THRESHOLD');
+    expect(decoded.description).to.be.eq('Health factor is lesser than the liquidation threshold');
+  });
+
+  it('Decodes OpenZeppelin string errors', async () => {
+    const decoded = decodeRevertData(encodeReason(OWNABLE_ONLY_OWNER));
+
+    expect(decoded.protocolError).to.be.eq(OWNABLE_ONLY_OWNER);
+    expect(decoded.name).to.be.eq('OWNABLE_ONLY_OWNER');
+    expect(decoded.description).to.be.eq(OWNABLE_ONLY_OWNER);
+  });
+
+  it('Decodes unknown reasons, panic codes, custom errors and empty reverts', async () => {
+    const unknown = decodeRevertData(encodeReason('Unknown reason'));
+    expect(unknown.kind).to.be.eq('Error');
+    expect(unknown.protocolError).to.be.undefined;
+    expect(unknown.description).to.be.eq('Unknown reason');
+
+    const panic = decodeRevertData(
+      `${PANIC_CODE_SELECTOR}${defaultAbiCoder.encode(['uint256'], [0x11]).slice(2)}`
+    );
+    expect(panic.kind).to.be.eq('Panic');
+    expect(panic.panicCode).to.be.eq(0x11);
+    expect(panic.description).to.contain('underflowed or overflowed');
+
+    const custom = decodeRevertData('0x12345678');
+    expect(custom.kind).to.be.eq('Custom');
+    expect(custom.selector).to.be.eq('0x12345678');
+
+    expect(decodeRevertData('0x').kind).to.be.eq('Empty');
+  });
+
+  it('Finds the ProtocolErrors member of an error code or description', async () => {
+    expect(findProtocolError('26')).to.be.eq(INVALID_AMOUNT);
+    expect(findProtocolError('Amount must be greater than 0')).to.be.eq(INVALID_AMOUNT);
+    expect(findProtocolError(OWNABLE_ONLY_OWNER)).to.be.eq(OWNABLE_ONLY_OWNER);
+    expect(findProtocolError('Unknown reason')).to.be.undefined;
+  });
+
+  it('Decodes the error thrown by a reverted call', async () => {
+    const { pool, dai, users } = testEnv;
+
+    const error = await pool
+      .connect(users[0].signer)
+      .supply(dai.address, 0, users[0].address, 0)
+      .catch((e) => e);
+
+    const decoded = decodeProtocolError(error);
+    expect(decoded?.protocolError).to.be.eq(INVALID_AMOUNT);
+    expect(decoded?.description).to.be.eq('Amount must be greater than 0');
+  });
+
+  it('Ignores errors that are not reverts', async () => {
+    expect(decodeProtocolError(new Error('network error'))).to.be.undefined;
+  });
+
+  it('revertedWithProtocolError() matches the expected error only', async () => {
+    const { pool, configurator, dai, users } = testEnv;
+
+    await expect(
+      pool.connect(users[0].signer).supply(dai.address, 0, users[0].address, 0)
+    ).to.be.revertedWithProtocolError(INVALID_AMOUNT);
+    await expect(
+      pool.connect(users[0].signer).supply(dai.address, 0, users[0].address, 0)
+    ).to.not.be.revertedWithProtocolError(RESERVE_FROZEN);
+    await expect(
+      configurator.connect(users[0].signer).setReserveFreeze(dai.address, true)
+    ).to.be.revertedWithProtocolError(CALLER_NOT_RISK_OR_POOL_ADMIN);
+
+    const mismatch = await expect(
+      pool.connect(users[0].signer).supply(dai.address, 0, users[0].address, 0)
+    )
+      .to.be.revertedWithProtocolError(RESERVE_FROZEN)
+      .catch((e) => e);
+    expect(mismatch.message).to.be.eq(
+      `Expected transaction to be reverted with RESERVE_FROZEN ('28'), but it reverted with INVALID_AMOUNT ('26')`
+    );
+
+    const noRevert = await expect(
+      dai.connect(users[0].signer).approve(pool.address, MAX_UINT_AMOUNT)
+    )
+      .to.be.revertedWithProtocolError(INVALID_AMOUNT)
+      .catch((e) => e);
+    expect(noRevert.message).to.be.eq(
+      `Expected transaction to be reverted with INVALID_AMOUNT ('26'), but it didn't revert`
+    );
+  });
+});
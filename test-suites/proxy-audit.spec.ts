@@ -0,0 +1,172 @@
+import { expect } from 'chai';
+import { evmRevert, evmSnapshot, getAToken, waitForTx } from '@aave/deploy-v3';
+import { deployMockAToken } from '@aave/deploy-v3/dist/helpers/contract-deployments';
+import { ZERO_ADDRESS } from '../helpers/constants';
+import { getProxyImplementation } from '../helpers/contracts-helpers';
+import { auditMarketProxies, getProxyImplementationFromSlot } from '../helpers/proxy-audit';
+import { makeSuite, TestEnv } from './helpers/make-suite';
+
+makeSuite('Market proxy audit', (testEnv: TestEnv) => {
+  let snapId: string;
+
+  beforeEach(async () => {
+    snapId = await evmSnapshot();
+  });
+  afterEach(async () => {
+    await evmRevert(snapId);
+  });
+
+  it('Reads the implementation slot without impersonating the admin', async () => {
+    const { addressesProvider, pool } = testEnv;
+
+    expect(await getProxyImplementationFromSlot(pool.provider, pool.address)).to.be.eq(
+      await getProxyImplementation(addressesProvider.address, pool.address)
+    );
+  });
+
+  it('Audits every proxy of the market', async () => {
+    const { addressesProvider, pool, configurator, aDai, variableDebtDai, stableDebtDai, dai } =
+      testEnv;
+    const reservesCount = (await pool.getReservesList()).length;
+
+    const { proxies, majorityImplementations, issues } = await auditMarketProxies(
+      addressesProvider
+    );
+    expect(issues).to.be.empty;
+    expect(proxies.length).to.be.eq(2 + 3 * reservesCount);
+
+    const [poolProxy, configuratorProxy] = proxies;
+    expect(poolProxy).to.be.deep.eq({
+      kind: 'Pool',
+      proxy: pool.address,
+      implementation: await getProxyImplementation(addressesProvider.address, pool.address),
+      adminSlot: ZERO_ADDRESS,
+      admin: addressesProvider.address,
+      revision: 2,
+      implementationRevision: 2,
+    });
+    expect(configuratorProxy).to.deep.include({
+      kind: 'PoolConfigurator',
+      proxy: configurator.address,
+      admin: addressesProvider.address,
+      revision: 2,
+      implementationRevision: 2,
+    });
+
+    const daiTokens = proxies.filter(({ asset }) => asset === dai.address);
+    expect(daiTokens.map(({ kind, proxy, symbol }) => ({ kind, proxy, symbol }))).to.be.deep.eq([
+      { kind: 'AToken', proxy: aDai.address, symbol: 'DAI' },
+      { kind: 'StableDebtToken', proxy: stableDebtDai.address, symbol: 'DAI' },
+      { kind: 'VariableDebtToken', proxy: variableDebtDai.address, symbol: 'DAI' },
+    ]);
+    for (const token of daiTokens) {
+      expect(token.admin).to.be.eq(configurator.address);
+      expect(token.implementation).to.be.eq(majorityImplementations[token.kind]);
+    }
+  });
+
+  it('Flags a reserve whose aToken implementation differs from the majority', async () => {
+    const { addressesProvider, pool, configurator, dai, aDai } = testEnv;
+
+    // MockAToken is initialized with revision 3, while still exposing ATOKEN_REVISION = 2
+    const newImplementation = await deployMockAToken([
+      pool.address,
+      dai.address,
+      ZERO_ADDRESS,
+      ZERO_ADDRESS,
+      'Aave Interest bearing DAI updated',
+      'aDAI',
+      '0x10',
+    ]);
+    await waitForTx(
+      await configurator.updateAToken({
+        asset: dai.address,
+        treasury: ZERO_ADDRESS,
+        incentivesController: ZERO_ADDRESS,
+        name: await aDai.name(),
+        symbol: await aDai.symbol(),
+        implementation: newImplementation.address,
+        params: '0x10',
+      })
+    );
+
+    const { proxies, majorityImplementations, issues } = await auditMarketProxies(
+      addressesProvider
+    );
+    expect(majorityImplementations.AToken).to.not.be.eq(newImplementation.address);
+    expect(proxies.find(({ proxy }) => proxy === aDai.address)).to.deep.include({
+      implementation: newImplementation.address,
+      revision: 3,
+      implementationRevision: 2,
+    });
+    expect(issues).to.be.deep.eq([
+      {
+        kind: 'AToken',
+        proxy: aDai.address,
+        asset: dai.address,
+        symbol: 'DAI',
+        message: 'Implementation revision 2 differs from the initialized revision 3',
+      },
+      {
+        kind: 'AToken',
+        proxy: aDai.address,
+        asset: dai.address,
+        symbol: 'DAI',
+        message: `AToken implementation ${newImplementation.address} differs from the majority ${majorityImplementations.AToken}`,
+      },
+    ]);
+  });
+
+  it('Flags every reserve when aToken implementations tie for the majority', async () => {
+    const { addressesProvider, pool, configurator, helpersContract, dai } = testEnv;
+    const reserves = await pool.getReservesList();
+    const initialImplementation = (await auditMarketProxies(addressesProvider))
+      .majorityImplementations.AToken;
+
+    // Half of the reserves move to a new implementation, and with an odd count one more reserve
+    // moves to another one
+    const tied = Math.floor(reserves.length / 2);
+    const deployImplementation = (name: string) =>
+      deployMockAToken([pool.address, dai.address, ZERO_ADDRESS, ZERO_ADDRESS, name, name, '0x10']);
+    const newImplementation = await deployImplementation('aToken A');
+    const otherImplementation = await deployImplementation('aToken B');
+    const upgrades = reserves
+      .slice(0, tied)
+      .map((asset) => ({ asset, implementation: newImplementation.address }));
+    if (reserves.length % 2) {
+      upgrades.push({ asset: reserves[tied], implementation: otherImplementation.address });
+    }
+    for (const { asset, implementation } of upgrades) {
+      const aToken = await getAToken(
+        (
+          await helpersContract.getReserveTokensAddresses(asset)
+        ).aTokenAddress
+      );
+      await waitForTx(
+        await configurator.updateAToken({
+          asset,
+          treasury: ZERO_ADDRESS,
+          incentivesController: ZERO_ADDRESS,
+          name: await aToken.name(),
+          symbol: await aToken.symbol(),
+          implementation,
+          params: '0x10',
+        })
+      );
+    }
+
+    const { proxies, majorityImplementations, issues } = await auditMarketProxies(
+      addressesProvider
+    );
+    expect(majorityImplementations.AToken).to.be.undefined;
+    expect(majorityImplementations.VariableDebtToken).to.not.be.undefined;
+
+    const aTokens = proxies.filter(({ kind }) => kind === 'AToken');
+    const ambiguity = `are shared by as many reserves`;
+    const tieIssues = issues.filter(({ message }) => message.endsWith(ambiguity));
+    expect(tieIssues.map(({ proxy }) => proxy)).to.be.deep.eq(aTokens.map(({ proxy }) => proxy));
+    expect(tieIssues[0].message).to.be.eq(
+      `AToken implementation ${aTokens[0].implementation} is ambiguous, ${newImplementation.address} and ${initialImplementation} ${ambiguity}`
+    );
+  });
+});
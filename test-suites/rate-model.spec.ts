@@ -0,0 +1,172 @@
+import { expect } from 'chai';
+import { BigNumber } from 'ethers';
+import { deployDefaultReserveInterestRateStrategy } from '@aave/deploy-v3/dist/helpers/contract-deployments';
+import { strategyDAI } from '@aave/deploy-v3/dist/markets/test/reservesConfigs';
+import { rateStrategyStableTwo } from '@aave/deploy-v3/dist/markets/test/rateStrategies';
+import { RAY } from '../helpers/constants';
+import {
+  calculateInterestRates,
+  getInterestRatesAtUsage,
+  getRateCurve,
+  getReserveAmountsAtUsage,
+  rateCurveToCSV,
+  rateCurveToJSON,
+} from '../helpers/rate-model';
+import { ProtocolErrors } from '../helpers/types';
+import { DefaultReserveInterestRateStrategy } from '../types';
+import { TestEnv, makeSuite } from './helpers/make-suite';
+
+const toRay = (bps: number) => BigNumber.from(RAY).mul(bps).div(10000);
+
+makeSuite('Interest rate model', (testEnv: TestEnv) => {
+  let strategyInstance: DefaultReserveInterestRateStrategy;
+
+  const { INVALID_OPTIMAL_USAGE_RATIO, INVALID_OPTIMAL_STABLE_TO_TOTAL_DEBT_RATIO } =
+    ProtocolErrors;
+
+  before(async () => {
+    const { addressesProvider } = testEnv;
+
+    strategyInstance = await deployDefaultReserveInterestRateStrategy([
+      addressesProvider.address,
+      rateStrategyStableTwo.optimalUsageRatio,
+      rateStrategyStableTwo.baseVariableBorrowRate,
+      rateStrategyStableTwo.variableRateSlope1,
+      rateStrategyStableTwo.variableRateSlope2,
+      rateStrategyStableTwo.stableRateSlope1,
+      rateStrategyStableTwo.stableRateSlope2,
+      rateStrategyStableTwo.baseStableRateOffset,
+      rateStrategyStableTwo.stableRateExcessOffset,
+      rateStrategyStableTwo.optimalStableToTotalDebtRatio,
+    ]);
+  });
+
+  it('Matches the on-chain strategy over a grid of usage and stable debt ratios', async () => {
+    const { dai, aDai } = testEnv;
+
+    // The aToken holds no liquidity, so the available liquidity is the liquidity added
+    expect(await dai.balanceOf(aDai.address)).to.be.eq(0);
+
+    for (const usageBps of [0, 1, 2500, 5000, 7999, 8000, 8001, 9000, 9999, 10000]) {
+      for (const stableBps of [0, 1000, 2000, 2001, 5000, 10000]) {
+        const averageStableBorrowRate = toRay(700);
+        const amounts = getReserveAmountsAtUsage(toRay(usageBps), toRay(stableBps));
+        const expected = getInterestRatesAtUsage(rateStrategyStableTwo, toRay(usageBps), {
+          reserveFactor: strategyDAI.reserveFactor,
+          stableToTotalDebtRatio: toRay(stableBps),
+          averageStableBorrowRate,
+        });
+
+        const {
+          0: currentLiquidityRate,
+          1: currentStableBorrowRate,
+          2: currentVariableBorrowRate,
+        } = await strategyInstance.calculateInterestRates({
+          unbacked: 0,
+          liquidityAdded: amounts.availableLiquidity,
+          liquidityTaken: 0,
+          totalStableDebt: amounts.totalStableDebt,
+          totalVariableDebt: amounts.totalVariableDebt,
+          averageStableBorrowRate,
+          reserveFactor: strategyDAI.reserveFactor,
+          reserve: dai.address,
+          aToken: aDai.address,
+        });
+
+        const message = `at ${usageBps} bps usage and ${stableBps} bps stable debt`;
+        expect(expected.borrowUsageRatio).to.be.eq(toRay(usageBps), message);
+        expect(expected.liquidityRate).to.be.eq(currentLiquidityRate, message);
+        expect(expected.stableBorrowRate).to.be.eq(currentStableBorrowRate, message);
+        expect(expected.variableBorrowRate).to.be.eq(currentVariableBorrowRate, message);
+      }
+    }
+  });
+
+  it('Matches the on-chain strategy with unbacked liquidity', async () => {
+    const { dai, aDai } = testEnv;
+
+    const params = {
+      unbacked: '300000000000000000',
+      liquidityAdded: '250000000000000000',
+      liquidityTaken: '50000000000000000',
+      totalStableDebt: '200000000000000000',
+      totalVariableDebt: '600000000000000000',
+      averageStableBorrowRate: toRay(650),
+      reserveFactor: strategyDAI.reserveFactor,
+    };
+
+    const expected = calculateInterestRates(rateStrategyStableTwo, {
+      ...params,
+      availableLiquidity: BigNumber.from(params.liquidityAdded).sub(params.liquidityTaken),
+    });
+    const {
+      0: currentLiquidityRate,
+      1: currentStableBorrowRate,
+      2: currentVariableBorrowRate,
+    } = await strategyInstance.calculateInterestRates({
+      ...params,
+      reserve: dai.address,
+      aToken: aDai.address,
+    });
+
+    expect(expected.supplyUsageRatio).to.be.lt(expected.borrowUsageRatio);
+    expect(expected.liquidityRate).to.be.eq(currentLiquidityRate);
+    expect(expected.stableBorrowRate).to.be.eq(currentStableBorrowRate);
+    expect(expected.variableBorrowRate).to.be.eq(currentVariableBorrowRate);
+  });
+
+  it('Builds the whole curve and exports it as JSON and CSV', async () => {
+    const curve = getRateCurve(rateStrategyStableTwo, {
+      reserveFactor: strategyDAI.reserveFactor,
+      stepBps: 1000,
+    });
+
+    expect(curve.points.length).to.be.eq(11);
+    expect(curve.points[0].borrowUsageRatio).to.be.eq(0);
+    expect(curve.points[10].borrowUsageRatio).to.be.eq(RAY);
+    expect(curve.points[8].variableBorrowRate).to.be.eq(
+      BigNumber.from(rateStrategyStableTwo.baseVariableBorrowRate).add(
+        rateStrategyStableTwo.variableRateSlope1
+      )
+    );
+    expect(curve.points[10].variableBorrowRate).to.be.eq(
+      await strategyInstance.getMaxVariableBorrowRate()
+    );
+
+    const json = JSON.parse(rateCurveToJSON(curve));
+    expect(json.strategy.name).to.be.eq(rateStrategyStableTwo.name);
+    expect(json.reserveFactor).to.be.eq(strategyDAI.reserveFactor);
+    expect(json.points.length).to.be.eq(11);
+    expect(json.points[10].variableBorrowRate).to.be.eq(
+      curve.points[10].variableBorrowRate.toString()
+    );
+
+    const csv = rateCurveToCSV(curve).split('\n');
+    expect(csv.length).to.be.eq(12);
+    expect(csv[0]).to.be.eq(
+      'borrowUsageRatio,supplyUsageRatio,stableToTotalDebtRatio,variableBorrowRate,stableBorrowRate,liquidityRate'
+    );
+    expect(csv[11].split(',')[0]).to.be.eq('100.0');
+  });
+
+  it('Rejects strategies with invalid optimal ratios (revert expected)', async () => {
+    const amounts = getReserveAmountsAtUsage(toRay(5000), 0);
+    const params = { ...amounts, averageStableBorrowRate: 0, reserveFactor: 0 };
+
+    expect(() =>
+      calculateInterestRates(
+        { ...rateStrategyStableTwo, optimalUsageRatio: BigNumber.from(RAY).add(1).toString() },
+        params
+      )
+    ).to.throw(INVALID_OPTIMAL_USAGE_RATIO);
+    expect(() =>
+      calculateInterestRates(
+        {
+          ...rateStrategyStableTwo,
+          optimalStableToTotalDebtRatio: BigNumber.from(RAY).add(1).toString(),
+        },
+        params
+      )
+    ).to.throw(INVALID_OPTIMAL_STABLE_TO_TOTAL_DEBT_RATIO);
+  });
+});
@@ -404,7 +404,7 @@ makeSuite('InterestRateStrategy', (testEnv: TestEnv) => {
         rateStrategyStableTwo.stableRateExcessOffset,
         rateStrategyStableTwo.optimalStableToTotalDebtRatio,
       ])
-    ).to.be.revertedWith(INVALID_OPTIMAL_USAGE_RATIO);
+    ).to.be.revertedWithProtocolError(INVALID_OPTIMAL_USAGE_RATIO);
   });
 
   it('Deploy an interest rate strategy with optimalStableToTotalDebtRatio out of range (expect revert)', async () => {
@@ -422,6 +422,6 @@ makeSuite('InterestRateStrategy', (testEnv: TestEnv) => {
         rateStrategyStableTwo.stableRateExcessOffset,
         utils.parseUnits('1.0', 28),
       ])
-    ).to.be.revertedWith(INVALID_OPTIMAL_STABLE_TO_TOTAL_DEBT_RATIO);
+    ).to.be.revertedWithProtocolError(INVALID_OPTIMAL_STABLE_TO_TOTAL_DEBT_RATIO);
   });
 });
@@ -30,7 +30,7 @@ makeSuite('Rescue tokens', (testEnv: TestEnv) => {
     const amount = 1;
     await expect(
       pool.connect(rescuer.signer).rescueTokens(usdc.address, rescuer.address, amount)
-    ).to.be.revertedWith(CALLER_NOT_POOL_ADMIN);
+    ).to.be.revertedWithProtocolError(CALLER_NOT_POOL_ADMIN);
   });
 
   it('PoolAdmin rescue tokens from Pool', async () => {
@@ -70,7 +70,7 @@ makeSuite('Rescue tokens', (testEnv: TestEnv) => {
     const amount = 1;
     await expect(
       aDai.connect(rescuer.signer).rescueTokens(usdc.address, rescuer.address, amount)
-    ).to.be.revertedWith(CALLER_NOT_POOL_ADMIN);
+    ).to.be.revertedWithProtocolError(CALLER_NOT_POOL_ADMIN);
   });
 
   it('User tries to rescue tokens of underlying from AToken (revert expected)', async () => {
@@ -83,7 +83,7 @@ makeSuite('Rescue tokens', (testEnv: TestEnv) => {
     const amount = 1;
     await expect(
       aDai.connect(rescuer.signer).rescueTokens(dai.address, rescuer.address, amount)
-    ).to.be.revertedWith(CALLER_NOT_POOL_ADMIN);
+    ).to.be.revertedWithProtocolError(CALLER_NOT_POOL_ADMIN);
   });
 
   it('PoolAdmin tries to rescue tokens of underlying from AToken (revert expected)', async () => {
@@ -97,7 +97,7 @@ makeSuite('Rescue tokens', (testEnv: TestEnv) => {
     const amount = 1;
     await expect(
       aDai.connect(poolAdmin.signer).rescueTokens(dai.address, rescuer.address, amount)
-    ).to.be.revertedWith(UNDERLYING_CANNOT_BE_RESCUED);
+    ).to.be.revertedWithProtocolError(UNDERLYING_CANNOT_BE_RESCUED);
   });
 
   it('PoolAdmin rescue tokens from AToken', async () => {
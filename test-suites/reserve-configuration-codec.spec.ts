@@ -0,0 +1,232 @@
+import { expect } from 'chai';
+import { BigNumber } from '@ethersproject/bignumber';
+import { deployMockReserveConfiguration } from '@aave/deploy-v3/dist/helpers/contract-deployments';
+import { ProtocolErrors } from '../helpers/types';
+import {
+  decodeReserveConfiguration,
+  encodeReserveConfiguration,
+  ReserveConfigurationData,
+  MAX_VALID_BORROW_CAP,
+  MAX_VALID_DEBT_CEILING,
+  MAX_VALID_DECIMALS,
+  MAX_VALID_EMODE_CATEGORY,
+  MAX_VALID_LIQUIDATION_BONUS,
+  MAX_VALID_LIQUIDATION_PROTOCOL_FEE,
+  MAX_VALID_LIQUIDATION_THRESHOLD,
+  MAX_VALID_LTV,
+  MAX_VALID_RESERVE_FACTOR,
+  MAX_VALID_SUPPLY_CAP,
+  MAX_VALID_UNBACKED_MINT_CAP,
+} from '../helpers/reserve-configuration';
+import { evmSnapshot, evmRevert, waitForTx } from '@aave/deploy-v3';
+import { MockReserveConfiguration } from '../types';
+
+describe('ReserveConfiguration codec', async () => {
+  let snap: string;
+
+  beforeEach(async () => {
+    snap = await evmSnapshot();
+  });
+  afterEach(async () => {
+    await evmRevert(snap);
+  });
+
+  let configMock: MockReserveConfiguration;
+
+  const EMPTY_CONFIG: ReserveConfigurationData = {
+    ltv: BigNumber.from(0),
+    liquidationThreshold: BigNumber.from(0),
+    liquidationBonus: BigNumber.from(0),
+    decimals: BigNumber.from(0),
+    isActive: false,
+    isFrozen: false,
+    borrowingEnabled: false,
+    stableBorrowRateEnabled: false,
+    isPaused: false,
+    borrowableInIsolation: false,
+    siloedBorrowing: false,
+    flashLoanEnabled: false,
+    reserveFactor: BigNumber.from(0),
+    borrowCap: BigNumber.from(0),
+    supplyCap: BigNumber.from(0),
+    liquidationProtocolFee: BigNumber.from(0),
+    eModeCategory: BigNumber.from(0),
+    unbackedMintCap: BigNumber.from(0),
+    debtCeiling: BigNumber.from(0),
+    isForcedLiquidationEnabled: false,
+  };
+
+  const MAX_CONFIG: ReserveConfigurationData = {
+    ltv: BigNumber.from(MAX_VALID_LTV),
+    liquidationThreshold: BigNumber.from(MAX_VALID_LIQUIDATION_THRESHOLD),
+    liquidationBonus: BigNumber.from(MAX_VALID_LIQUIDATION_BONUS),
+    decimals: BigNumber.from(MAX_VALID_DECIMALS),
+    isActive: true,
+    isFrozen: true,
+    borrowingEnabled: true,
+    stableBorrowRateEnabled: true,
+    isPaused: true,
+    borrowableInIsolation: true,
+    siloedBorrowing: true,
+    flashLoanEnabled: true,
+    reserveFactor: BigNumber.from(MAX_VALID_RESERVE_FACTOR),
+    borrowCap: BigNumber.from(MAX_VALID_BORROW_CAP),
+    supplyCap: BigNumber.from(MAX_VALID_SUPPLY_CAP),
+    liquidationProtocolFee: BigNumber.from(MAX_VALID_LIQUIDATION_PROTOCOL_FEE),
+    eModeCategory: BigNumber.from(MAX_VALID_EMODE_CATEGORY),
+    unbackedMintCap: BigNumber.from(MAX_VALID_UNBACKED_MINT_CAP),
+    debtCeiling: BigNumber.from(MAX_VALID_DEBT_CEILING),
+    isForcedLiquidationEnabled: true,
+  };
+
+  const SAMPLE_CONFIG: ReserveConfigurationData = {
+    ltv: BigNumber.from(8000),
+    liquidationThreshold: BigNumber.from(8500),
+    liquidationBonus: BigNumber.from(10500),
+    decimals: BigNumber.from(18),
+    isActive: true,
+    isFrozen: false,
+    borrowingEnabled: true,
+    stableBorrowRateEnabled: false,
+    isPaused: false,
+    borrowableInIsolation: true,
+    siloedBorrowing: false,
+    flashLoanEnabled: true,
+    reserveFactor: BigNumber.from(1000),
+    borrowCap: BigNumber.from(100),
+    supplyCap: BigNumber.from(200),
+    liquidationProtocolFee: BigNumber.from(1000),
+    eModeCategory: BigNumber.from(1),
+    unbackedMintCap: BigNumber.from(300),
+    debtCeiling: BigNumber.from(1000000),
+    isForcedLiquidationEnabled: true,
+  };
+
+  before(async () => {
+    configMock = await deployMockReserveConfiguration();
+  });
+
+  const writeConfiguration = async (config: ReserveConfigurationData) => {
+    await waitForTx(await configMock.setLtv(config.ltv));
+    await waitForTx(await configMock.setLiquidationThreshold(config.liquidationThreshold));
+    await waitForTx(await configMock.setLiquidationBonus(config.liquidationBonus));
+    await waitForTx(await configMock.setDecimals(config.decimals));
+    await waitForTx(await configMock.setActive(config.isActive));
+    await waitForTx(await configMock.setFrozen(config.isFrozen));
+    await waitForTx(await configMock.setBorrowingEnabled(config.borrowingEnabled));
+    await waitForTx(await configMock.setStableRateBorrowingEnabled(config.stableBorrowRateEnabled));
+    await waitForTx(await configMock.setPaused(config.isPaused));
+    await waitForTx(await configMock.setBorrowableInIsolation(config.borrowableInIsolation));
+    await waitForTx(await configMock.setSiloedBorrowing(config.siloedBorrowing));
+    await waitForTx(await configMock.setFlashLoanEnabled(config.flashLoanEnabled));
+    await waitForTx(await configMock.setReserveFactor(config.reserveFactor));
+    await waitForTx(await configMock.setBorrowCap(config.borrowCap));
+    await waitForTx(await configMock.setSupplyCap(config.supplyCap));
+    await waitForTx(await configMock.setLiquidationProtocolFee(config.liquidationProtocolFee));
+    await waitForTx(await configMock.setEModeCategory(config.eModeCategory));
+    await waitForTx(await configMock.setUnbackedMintCap(config.unbackedMintCap));
+    await waitForTx(await configMock.setDebtCeiling(config.debtCeiling));
+    await waitForTx(
+      await configMock.setIsForcedLiquidationEnabled(config.isForcedLiquidationEnabled)
+    );
+  };
+
+  const expectDecodedMatchesMock = async (decoded: ReserveConfigurationData) => {
+    expect(decoded.ltv).to.be.eq(await configMock.getLtv());
+    expect(decoded.liquidationThreshold).to.be.eq(await configMock.getLiquidationThreshold());
+    expect(decoded.liquidationBonus).to.be.eq(await configMock.getLiquidationBonus());
+    expect(decoded.decimals).to.be.eq(await configMock.getDecimals());
+    expect(decoded.isActive).to.be.eq(await configMock.getActive());
+    expect(decoded.isFrozen).to.be.eq(await configMock.getFrozen());
+    expect(decoded.borrowingEnabled).to.be.eq(await configMock.getBorrowingEnabled());
+    expect(decoded.stableBorrowRateEnabled).to.be.eq(
+      await configMock.getStableRateBorrowingEnabled()
+    );
+    expect(decoded.isPaused).to.be.eq(await configMock.getPaused());
+    expect(decoded.borrowableInIsolation).to.be.eq(await configMock.getBorrowableInIsolation());
+    expect(decoded.siloedBorrowing).to.be.eq(await configMock.getSiloedBorrowing());
+    expect(decoded.flashLoanEnabled).to.be.eq(await configMock.getFlashLoanEnabled());
+    expect(decoded.reserveFactor).to.be.eq(await configMock.getReserveFactor());
+    expect(decoded.borrowCap).to.be.eq(await configMock.getBorrowCap());
+    expect(decoded.supplyCap).to.be.eq(await configMock.getSupplyCap());
+    expect(decoded.liquidationProtocolFee).to.be.eq(await configMock.getLiquidationProtocolFee());
+    expect(decoded.eModeCategory).to.be.eq(await configMock.getEModeCategory());
+    expect(decoded.unbackedMintCap).to.be.eq(await configMock.getUnbackedMintCap());
+    expect(decoded.debtCeiling).to.be.eq(await configMock.getDebtCeiling());
+    expect(decoded.isForcedLiquidationEnabled).to.be.eq(
+      await configMock.getIsForcedLiquidationEnabled()
+    );
+  };
+
+  it('decodeReserveConfiguration() of an empty configuration', async () => {
+    const data = await configMock.configuration();
+    expect(data).to.be.eq(0);
+
+    const decoded = decodeReserveConfiguration(data);
+    expect(decoded).to.be.deep.eq(EMPTY_CONFIG);
+    await expectDecodedMatchesMock(decoded);
+    expect(encodeReserveConfiguration(decoded)).to.be.eq(data);
+  });
+
+  it('decodeReserveConfiguration() and encodeReserveConfiguration() of a sample configuration', async () => {
+    await writeConfiguration(SAMPLE_CONFIG);
+
+    const data = await configMock.configuration();
+    const decoded = decodeReserveConfiguration(data);
+
+    expect(decoded).to.be.deep.eq(SAMPLE_CONFIG);
+    await expectDecodedMatchesMock(decoded);
+    expect(encodeReserveConfiguration(SAMPLE_CONFIG)).to.be.eq(data);
+  });
+
+  it('decodeReserveConfiguration() and encodeReserveConfiguration() with every field at its max', async () => {
+    await writeConfiguration(MAX_CONFIG);
+
+    const data = await configMock.configuration();
+    const decoded = decodeReserveConfiguration(data);
+
+    expect(decoded).to.be.deep.eq(MAX_CONFIG);
+    await expectDecodedMatchesMock(decoded);
+    expect(encodeReserveConfiguration(MAX_CONFIG)).to.be.eq(data);
+  });
+
+  it('Every field is decoded independently of its neighbours', async () => {
+    for (const field of Object.keys(SAMPLE_CONFIG) as (keyof ReserveConfigurationData)[]) {
+      const config = { ...EMPTY_CONFIG, [field]: MAX_CONFIG[field] };
+      await writeConfiguration(config);
+
+      const data = await configMock.configuration();
+      expect(encodeReserveConfiguration(config)).to.be.eq(data, `Mismatch on field ${field}`);
+      expect(decodeReserveConfiguration(data)).to.be.deep.eq(config);
+    }
+  });
+
+  it('encodeReserveConfiguration() with out of range fields (revert expected)', async () => {
+    const outOfRange: [keyof ReserveConfigurationData, string, ProtocolErrors][] = [
+      ['ltv', MAX_VALID_LTV, ProtocolErrors.INVALID_LTV],
+      [
+        'liquidationThreshold',
+        MAX_VALID_LIQUIDATION_THRESHOLD,
+        ProtocolErrors.INVALID_LIQ_THRESHOLD,
+      ],
+      ['liquidationBonus', MAX_VALID_LIQUIDATION_BONUS, ProtocolErrors.INVALID_LIQ_BONUS],
+      ['decimals', MAX_VALID_DECIMALS, ProtocolErrors.INVALID_DECIMALS],
+      ['reserveFactor', MAX_VALID_RESERVE_FACTOR, ProtocolErrors.INVALID_RESERVE_FACTOR],
+      ['borrowCap', MAX_VALID_BORROW_CAP, ProtocolErrors.INVALID_BORROW_CAP],
+      ['supplyCap', MAX_VALID_SUPPLY_CAP, ProtocolErrors.INVALID_SUPPLY_CAP],
+      [
+        'liquidationProtocolFee',
+        MAX_VALID_LIQUIDATION_PROTOCOL_FEE,
+        ProtocolErrors.INVALID_LIQUIDATION_PROTOCOL_FEE,
+      ],
+      ['eModeCategory', MAX_VALID_EMODE_CATEGORY, ProtocolErrors.INVALID_EMODE_CATEGORY],
+      ['unbackedMintCap', MAX_VALID_UNBACKED_MINT_CAP, ProtocolErrors.INVALID_UNBACKED_MINT_CAP],
+      ['debtCeiling', MAX_VALID_DEBT_CEILING, ProtocolErrors.INVALID_DEBT_CEILING],
+    ];
+
+    for (const [field, maxValue, error] of outOfRange) {
+      const config = { ...SAMPLE_CONFIG, [field]: BigNumber.from(maxValue).add(1) };
+      expect(() => encodeReserveConfiguration(config)).to.throw(error);
+    }
+  });
+});
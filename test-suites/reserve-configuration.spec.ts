@@ -4,6 +4,7 @@ import { deployMockReserveConfiguration } from '@aave/deploy-v3/dist/helpers/con
 import { ProtocolErrors } from '../helpers/types';
 import { evmSnapshot, evmRevert } from '@aave/deploy-v3';
 import { MockReserveConfiguration } from '../types';
+import './helpers/utils/protocol-errors-matcher';
 
 describe('ReserveConfiguration', async () => {
   let snap: string;
@@ -180,9 +181,9 @@ describe('ReserveConfiguration', async () => {
     expect(bigNumbersToArrayString(await configMock.getParams())).to.be.eql(
       bigNumbersToArrayString([ZERO, ZERO, ZERO, ZERO, ZERO, ZERO])
     );
-    await expect(configMock.setReserveFactor(MAX_VALID_RESERVE_FACTOR.add(1))).to.be.revertedWith(
-      ProtocolErrors.INVALID_RESERVE_FACTOR
-    );
+    await expect(
+      configMock.setReserveFactor(MAX_VALID_RESERVE_FACTOR.add(1))
+    ).to.be.revertedWithProtocolError(ProtocolErrors.INVALID_RESERVE_FACTOR);
     expect(bigNumbersToArrayString(await configMock.getParams())).to.be.eql(
       bigNumbersToArrayString([ZERO, ZERO, ZERO, ZERO, ZERO, ZERO])
     );
@@ -263,7 +264,9 @@ describe('ReserveConfiguration', async () => {
     const { INVALID_LTV } = ProtocolErrors;
 
     // setLTV to MAX_VALID_LTV + 1
-    await expect(configMock.setLtv(MAX_VALID_LTV.add(1))).to.be.revertedWith(INVALID_LTV);
+    await expect(configMock.setLtv(MAX_VALID_LTV.add(1))).to.be.revertedWithProtocolError(
+      INVALID_LTV
+    );
     expect(await configMock.getLtv()).to.be.eq(ZERO);
   });
 
@@ -293,7 +296,7 @@ describe('ReserveConfiguration', async () => {
     // setLiquidationThreshold to MAX_VALID_LIQUIDATION_THRESHOLD + 1
     await expect(
       configMock.setLiquidationThreshold(MAX_VALID_LIQUIDATION_THRESHOLD.add(1))
-    ).to.be.revertedWith(INVALID_LIQ_THRESHOLD);
+    ).to.be.revertedWithProtocolError(INVALID_LIQ_THRESHOLD);
     expect(await configMock.getLiquidationThreshold()).to.be.eq(ZERO);
   });
 
@@ -321,7 +324,7 @@ describe('ReserveConfiguration', async () => {
     const { INVALID_DECIMALS } = ProtocolErrors;
 
     // setDecimals to MAX_VALID_DECIMALS + 1
-    await expect(configMock.setDecimals(MAX_VALID_DECIMALS.add(1))).to.be.revertedWith(
+    await expect(configMock.setDecimals(MAX_VALID_DECIMALS.add(1))).to.be.revertedWithProtocolError(
       INVALID_DECIMALS
     );
     expect(await configMock.getDecimals()).to.be.eq(ZERO);
@@ -340,9 +343,9 @@ describe('ReserveConfiguration', async () => {
 
     const { INVALID_EMODE_CATEGORY } = ProtocolErrors;
 
-    await expect(configMock.setEModeCategory(MAX_VALID_EMODE_CATEGORY.add(1))).to.be.revertedWith(
-      INVALID_EMODE_CATEGORY
-    );
+    await expect(
+      configMock.setEModeCategory(MAX_VALID_EMODE_CATEGORY.add(1))
+    ).to.be.revertedWithProtocolError(INVALID_EMODE_CATEGORY);
     expect(await configMock.getEModeCategory()).to.be.eq(ZERO);
   });
 
@@ -358,7 +361,7 @@ describe('ReserveConfiguration', async () => {
     expect(await configMock.getLiquidationProtocolFee()).to.be.eq(ZERO);
     await expect(
       configMock.setLiquidationProtocolFee(MAX_VALID_LIQUIDATION_PROTOCOL_FEE.add(1))
-    ).to.be.revertedWith(ProtocolErrors.INVALID_LIQUIDATION_PROTOCOL_FEE);
+    ).to.be.revertedWithProtocolError(ProtocolErrors.INVALID_LIQUIDATION_PROTOCOL_FEE);
     expect(await configMock.getLiquidationProtocolFee()).to.be.eq(ZERO);
   });
 });
@@ -0,0 +1,96 @@
+import { expect } from 'chai';
+import { ProtocolErrors } from '../helpers/types';
+import { configuration as actionsConfiguration } from './helpers/actions';
+import { makeSuite, TestEnv } from './helpers/make-suite';
+import { story } from './helpers/scenario-builder';
+
+makeSuite('Scenario builder', (testEnv: TestEnv) => {
+  const [alice, bob] = [0, 1];
+
+  before('Initializing configuration', async () => {
+    actionsConfiguration.skipIntegrityCheck = false;
+  });
+
+  it('Compiles to the story of the JSON scenarios', () => {
+    const { stories } = require('./helpers/scenarios/borrow-repay-variable.json');
+
+    expect(
+      story(
+        'User 0 deposits 14760.147 DAI, user 1 deposits 1 WETH as collateral and borrows 1476.01 DAI at variable rate'
+      )
+        .as(alice)
+        .mint('DAI', '14760.147')
+        .approve('DAI')
+        .deposit('DAI', '14760.147')
+        .as(bob)
+        .mint('WETH', '1')
+        .approve('WETH')
+        .deposit('WETH', '1')
+        .borrow('DAI', '1476.01', { rate: 'variable', timeTravel: 365 })
+        .build()
+    ).to.be.deep.eq(stories[1]);
+  });
+
+  it('Rejects user steps called by an admin and reverts of steps moving the chain', () => {
+    expect(() => story('Admin deposit').as('poolAdmin').deposit('DAI', '1')).to.throw(
+      'deposit must be called by a user, not by the poolAdmin'
+    );
+    expect(() => story('No actor').mint('DAI', '1')).to.throw('An actor must be selected');
+    expect(() => story('Reverting time').advanceTime({ seconds: 60 }).expectRevert()).to.throw(
+      'The advanceTime step can not revert'
+    );
+
+    expect(
+      story('Admin steps')
+        .as('riskAdmin')
+        .configurator('setReserveFactor', { reserve: 'DAI', params: ['2000'] })
+        .as(bob)
+        .aclManager('addPoolAdmin', ['2'])
+        .expectRevert()
+        .build().actions
+    ).to.be.deep.eq([
+      {
+        name: 'configurator',
+        args: { method: 'setReserveFactor', reserve: 'DAI', params: ['2000'], admin: 'riskAdmin' },
+        expected: 'success',
+      },
+      {
+        name: 'aclManager',
+        args: { method: 'addPoolAdmin', params: ['2'], user: '1' },
+        expected: 'revert',
+      },
+    ]);
+  });
+
+  it('Runs the story through the scenario engine', async () => {
+    await story(
+      'User 0 deposits 14760.147 DAI, user 1 deposits 1 WETH, borrows 1476.01 DAI then tries to borrow the rest of the DAI liquidity'
+    )
+      .as(alice)
+      .mint('DAI', '14760.147')
+      .approve('DAI')
+      .deposit('DAI', '14760.147')
+      .as(bob)
+      .mint('WETH', '1')
+      .approve('WETH')
+      .deposit('WETH', '1')
+      .borrow('DAI', '1476.01', { rate: 'variable' })
+      .borrow('DAI', '13284.132', { rate: 'variable' })
+      .expectRevert(ProtocolErrors.COLLATERAL_CANNOT_COVER_NEW_BORROW)
+      .run(testEnv);
+  });
+
+  it('Fails the story when the step reverts with another error', async () => {
+    const mismatch = await story(
+      'User 0 tries to deposit 0 DAI, expecting the reserve to be frozen'
+    )
+      .as(alice)
+      .deposit('DAI', '0')
+      .expectRevert(ProtocolErrors.RESERVE_FROZEN)
+      .run(testEnv)
+      .catch((e) => e);
+    expect(mismatch?.message).to.be.eq(
+      `Expected transaction to be reverted with RESERVE_FROZEN ('28'), but it reverted with INVALID_AMOUNT ('26')`
+    );
+  });
+});
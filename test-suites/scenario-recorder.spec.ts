@@ -0,0 +1,180 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import prettier from 'prettier';
+import { expect } from 'chai';
+import { utils } from 'ethers';
+import { evmRevert, evmSnapshot, waitForTx } from '@aave/deploy-v3';
+import { MAX_UINT_AMOUNT } from '../helpers/constants';
+import { ProtocolErrors, RateMode } from '../helpers/types';
+import { MockFlashLoanSimpleReceiver__factory } from '../types';
+import { configuration as actionsConfiguration } from './helpers/actions';
+import { makeSuite, TestEnv } from './helpers/make-suite';
+import { executeStory } from './helpers/scenario-engine';
+import { recordScenario, ScenarioRecorder } from './helpers/scenario-recorder';
+
+makeSuite('Scenario recorder', (testEnv: TestEnv) => {
+  let recorder: ScenarioRecorder;
+  let recordingSnapId: string;
+  const lines: string[] = [];
+  let originalPool: TestEnv['pool'];
+
+  before('Records a session of a depositor and a borrower', async () => {
+    actionsConfiguration.skipIntegrityCheck = false;
+
+    recordingSnapId = await evmSnapshot();
+    originalPool = testEnv.pool;
+    recorder = recordScenario(testEnv, (line) => lines.push(line));
+    // Taken after starting the recorder, as it replaces the contracts of the TestEnv
+    const { pool, dai, weth, users } = testEnv;
+    const [depositor, borrower] = users;
+
+    try {
+      await waitForTx(
+        await dai
+          .connect(depositor.signer)
+          ['mint(address,uint256)'](depositor.address, utils.parseUnits('1000', 18))
+      );
+      await waitForTx(await dai.connect(depositor.signer).approve(pool.address, MAX_UINT_AMOUNT));
+      await waitForTx(
+        await pool
+          .connect(depositor.signer)
+          .supply(dai.address, utils.parseUnits('1000', 18), depositor.address, '0')
+      );
+      await waitForTx(
+        await weth
+          .connect(borrower.signer)
+          ['mint(address,uint256)'](borrower.address, utils.parseUnits('1', 18))
+      );
+      await waitForTx(await weth.connect(borrower.signer).approve(pool.address, MAX_UINT_AMOUNT));
+      await waitForTx(
+        await pool
+          .connect(borrower.signer)
+          .supply(weth.address, utils.parseUnits('1', 18), borrower.address, '0')
+      );
+      await waitForTx(
+        await pool
+          .connect(borrower.signer)
+          .borrow(
+            dai.address,
+            utils.parseUnits('100.5', 18),
+            RateMode.Variable,
+            '0',
+            borrower.address
+          )
+      );
+      await expect(
+        pool.connect(borrower.signer).withdraw(weth.address, MAX_UINT_AMOUNT, borrower.address)
+      ).to.be.revertedWithProtocolError(
+        ProtocolErrors.HEALTH_FACTOR_LOWER_THAN_LIQUIDATION_THRESHOLD
+      );
+    } finally {
+      recorder.stop();
+    }
+  });
+
+  it('Logs the calls with their actor, reserve, amount and outcome', async () => {
+    expect(lines).to.be.deep.eq([
+      'user 0 mint 1000 DAI -> success',
+      'user 0 approve DAI -> success',
+      'user 0 supply 1000 DAI -> success',
+      'user 1 mint 1 WETH -> success',
+      'user 1 approve WETH -> success',
+      'user 1 supply 1 WETH -> success',
+      'user 1 borrow 100.5 DAI -> success',
+      `user 1 withdraw -1 WETH -> revert (${ProtocolErrors.HEALTH_FACTOR_LOWER_THAN_LIQUIDATION_THRESHOLD})`,
+    ]);
+    expect(testEnv.pool).to.be.eq(originalPool);
+  });
+
+  it('Compiles the calls into the actions of the scenario engine', async () => {
+    const { stories } = recorder.toScenario('Recorded session');
+
+    expect(stories[0].actions.slice(5)).to.be.deep.eq([
+      {
+        name: 'deposit',
+        args: { reserve: 'WETH', amount: '1', user: '1', onBehalfOf: '1' },
+        expected: 'success',
+      },
+      {
+        name: 'borrow',
+        args: {
+          reserve: 'DAI',
+          amount: '100.5',
+          borrowRateMode: 'variable',
+          user: '1',
+          onBehalfOf: '1',
+        },
+        expected: 'success',
+      },
+      {
+        name: 'withdraw',
+        args: { reserve: 'WETH', amount: '-1', user: '1' },
+        expected: 'revert',
+        revertMessage: ProtocolErrors.HEALTH_FACTOR_LOWER_THAN_LIQUIDATION_THRESHOLD,
+      },
+    ]);
+  });
+
+  it('Writes the scenario formatted like the files of the scenarios folder', async () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'recorder-')), 'recorded.json');
+
+    recorder.write(file, 'Recorded session', 'Deposit and borrow reproduced in the console');
+    expect(JSON.parse(fs.readFileSync(file, 'utf8'))).to.be.deep.eq(
+      recorder.toScenario('Recorded session', 'Deposit and borrow reproduced in the console')
+    );
+    expect(
+      prettier.check(fs.readFileSync(file, 'utf8'), {
+        ...prettier.resolveConfig.sync(file),
+        parser: 'json',
+      })
+    ).to.be.true;
+    fs.rmdirSync(path.dirname(file), { recursive: true });
+  });
+
+  it('Records the flash loans and rejects the calls it can not replay', async () => {
+    const flashLoanRecorder = recordScenario(testEnv);
+    const { pool, dai, users, deployer, addressesProvider } = testEnv;
+    const [depositor, , receiver] = users;
+
+    try {
+      const flashLoanReceiver = await new MockFlashLoanSimpleReceiver__factory(
+        deployer.signer
+      ).deploy(addressesProvider.address);
+      await waitForTx(
+        await pool
+          .connect(depositor.signer)
+          .flashLoanSimple(
+            flashLoanReceiver.address,
+            dai.address,
+            utils.parseUnits('10', 18),
+            '0x10',
+            '0'
+          )
+      );
+      await waitForTx(
+        await pool
+          .connect(depositor.signer)
+          .withdraw(dai.address, utils.parseUnits('1', 18), receiver.address)
+      );
+    } finally {
+      flashLoanRecorder.stop();
+    }
+
+    expect(flashLoanRecorder.calls[0].action).to.be.deep.eq({
+      name: 'flashLoanSimple',
+      args: { reserve: 'DAI', amount: '10', user: '0' },
+      expected: 'success',
+    });
+    expect(() => flashLoanRecorder.toScenario('Flash loan')).to.throw(
+      'The recorded calls withdraw of user 0 can not be replayed by the scenario engine'
+    );
+  });
+
+  it('Replays the recorded scenario through the scenario engine', async () => {
+    const { stories } = recorder.toScenario('Recorded session');
+
+    await evmRevert(recordingSnapId);
+    await executeStory(stories[0], testEnv);
+  });
+});
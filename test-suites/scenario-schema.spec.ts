@@ -0,0 +1,196 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { expect } from 'chai';
+import { loadScenarios, resolveScenario, validateScenario } from './helpers/scenario-schema';
+
+const SCENARIO = {
+  title: 'Deposit',
+  description: 'Test cases for the deposit function.',
+  stories: [
+    {
+      description: 'User 0 deposits 1000 DAI',
+      actions: [
+        { name: 'mint', args: { reserve: 'DAI', amount: '1000', user: '0' }, expected: 'success' },
+        {
+          name: 'deposit',
+          args: { reserve: 'DAI', amount: '1000', user: '0' },
+          expected: 'success',
+        },
+      ],
+    },
+    {
+      description: 'User 1 borrows 100 DAI after a week',
+      actions: [
+        { name: 'advanceTime', args: { seconds: '604800' } },
+        {
+          name: 'borrow',
+          args: { reserve: 'DAI', amount: '100', borrowRateMode: 'variable', user: '1' },
+          expected: 'revert',
+          revertMessage: '34',
+        },
+      ],
+    },
+  ],
+};
+
+describe('Scenario schema', () => {
+  const update = (changes: (scenario: any) => void) => {
+    const scenario = JSON.parse(JSON.stringify(SCENARIO));
+    changes(scenario);
+    return scenario;
+  };
+
+  it('Accepts a valid scenario', () => {
+    expect(validateScenario(SCENARIO, 'deposit.json')).to.be.empty;
+  });
+
+  it('Reports unknown actions and arguments with their story and action', () => {
+    const scenario = update((scenario) => {
+      scenario.stories[0].actions[0].name = 'mintt';
+      scenario.stories[1].actions[1].args.onBehalfOff = '2';
+    });
+    expect(
+      validateScenario(scenario, 'deposit.json').map(({ story, action, path }) => ({
+        story,
+        action,
+        path,
+      }))
+    ).to.be.deep.eq([
+      { story: 0, action: 0, path: '$.stories[0].actions[0].name' },
+      { story: 1, action: 1, path: '$.stories[1].actions[1].args' },
+    ]);
+  });
+
+  it('Reports values outside of the allowed enums', () => {
+    const scenario = update((scenario) => {
+      scenario.stories[0].actions[1].expected = 'fail';
+      scenario.stories[1].actions[1].args.borrowRateMode = 'fixed';
+    });
+    expect(validateScenario(scenario, 'deposit.json')).to.be.deep.eq([
+      {
+        file: 'deposit.json',
+        story: 0,
+        action: 1,
+        path: '$.stories[0].actions[1].expected',
+        message: 'should be equal to one of the allowed values success, revert',
+      },
+      {
+        file: 'deposit.json',
+        story: 1,
+        action: 1,
+        path: '$.stories[1].actions[1].args.borrowRateMode',
+        message: 'should be equal to one of the allowed values none, stable, variable, invalid',
+      },
+    ]);
+  });
+
+  it('Reports missing arguments and expected results', () => {
+    const scenario = update((scenario) => {
+      delete scenario.stories[0].actions[1].args.amount;
+      delete scenario.stories[0].actions[1].expected;
+    });
+    expect(
+      validateScenario(scenario, 'deposit.json').map(({ message }) => message)
+    ).to.have.members([
+      "should have required property 'expected'",
+      "should have required property 'amount'",
+    ]);
+  });
+
+  it('Resolves the actors and the reserve aliases', () => {
+    const scenario = update((scenario) => {
+      scenario.actors = { alice: '0', bob: '1', governance: 'poolAdmin' };
+      scenario.reserves = { stablecoin: 'DAI' };
+      scenario.stories[0].actions[1].args = {
+        reserve: 'stablecoin',
+        amount: '1000',
+        user: 'alice',
+        onBehalfOf: 'bob',
+      };
+      scenario.stories[1].actions[0] = {
+        name: 'configurator',
+        args: {
+          method: 'setReserveFreeze',
+          reserve: 'stablecoin',
+          params: ['true'],
+          user: 'governance',
+        },
+        expected: 'success',
+      };
+      scenario.stories[1].actions[1] = {
+        name: 'aclManager',
+        args: { method: 'addFlashBorrower', params: ['bob'], user: 'governance' },
+        expected: 'success',
+      };
+    });
+    expect(validateScenario(scenario, 'deposit.json')).to.be.empty;
+
+    const { stories } = resolveScenario(scenario);
+    expect(stories[0].actions[0].args).to.be.deep.eq(SCENARIO.stories[0].actions[0].args);
+    expect(stories[0].actions[1].args).to.be.deep.eq({
+      reserve: 'DAI',
+      amount: '1000',
+      user: '0',
+      onBehalfOf: '1',
+    });
+    expect(stories[1].actions[0].args).to.be.deep.eq({
+      method: 'setReserveFreeze',
+      reserve: 'DAI',
+      params: ['true'],
+      admin: 'poolAdmin',
+    });
+    expect(stories[1].actions[1].args).to.be.deep.eq({
+      method: 'addFlashBorrower',
+      params: ['1'],
+      admin: 'poolAdmin',
+    });
+  });
+
+  it('Reports unknown actors and admins outside of the admin steps', () => {
+    const scenario = update((scenario) => {
+      scenario.actors = { alice: '0', governance: 'poolAdmin' };
+      scenario.stories[0].actions[1].args.user = 'alice';
+      scenario.stories[0].actions[1].args.onBehalfOf = 'bob';
+      scenario.stories[1].actions[1].args.user = 'governance';
+    });
+    expect(validateScenario(scenario, 'deposit.json')).to.be.deep.eq([
+      {
+        file: 'deposit.json',
+        story: 0,
+        action: 1,
+        path: '$.stories[0].actions[1].args.onBehalfOf',
+        message: "unknown actor 'bob'",
+      },
+      {
+        file: 'deposit.json',
+        story: 1,
+        action: 1,
+        path: '$.stories[1].actions[1].args.user',
+        message:
+          "actor 'governance' is the poolAdmin and can only call configurator, aclManager, configureEModeCategory",
+      },
+    ]);
+  });
+
+  it('Reports the errors of every file of a folder', () => {
+    const scenarioFolder = fs.mkdtempSync(path.join(os.tmpdir(), 'scenarios-'));
+    fs.writeFileSync(path.join(scenarioFolder, 'deposit.json'), JSON.stringify(SCENARIO));
+    fs.writeFileSync(
+      path.join(scenarioFolder, 'withdraw.json'),
+      JSON.stringify(update((scenario) => (scenario.stories[1].actions[0].args.blocks = '10')))
+    );
+
+    try {
+      expect(() => loadScenarios(scenarioFolder)).to.throw(
+        "withdraw.json, story 1, action 0, $.stories[1].actions[0].args: should NOT have additional properties 'blocks'"
+      );
+      fs.unlinkSync(path.join(scenarioFolder, 'withdraw.json'));
+      expect(loadScenarios(scenarioFolder)).to.be.deep.eq([
+        { file: 'deposit.json', scenario: SCENARIO },
+      ]);
+    } finally {
+      fs.rmdirSync(scenarioFolder, { recursive: true });
+    }
+  });
+});
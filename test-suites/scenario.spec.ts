@@ -1,24 +1,19 @@
-import fs from 'fs';
-import AaveConfig from '@aave/deploy-v3/dist/markets/test';
 import { configuration as actionsConfiguration } from './helpers/actions';
-import { configuration as calculationsConfiguration } from './helpers/utils/calculations';
 import { makeSuite } from './helpers/make-suite';
 import { executeStory } from './helpers/scenario-engine';
+import { loadScenarios } from './helpers/scenario-schema';
 
 const scenarioFolder = './test-suites/helpers/scenarios/';
 
 const selectedScenarios: string[] = []; //"borrow-repay-stable-edge.json", "borrow-repay-stable.json"];
 
-fs.readdirSync(scenarioFolder).forEach((file) => {
+// Every scenario is validated while loading the suites, before any test runs
+loadScenarios(scenarioFolder).forEach(({ file, scenario }) => {
   if (selectedScenarios.length > 0 && !selectedScenarios.includes(file)) return;
 
-  const scenario = require(`./helpers/scenarios/${file}`);
-
   makeSuite(scenario.title, async (testEnv) => {
     before('Initializing configuration', async () => {
       actionsConfiguration.skipIntegrityCheck = false; //set this to true to execute solidity-coverage
-
-      calculationsConfiguration.reservesParams = AaveConfig.ReservesConfig;
     });
 
     for (const story of scenario.stories) {
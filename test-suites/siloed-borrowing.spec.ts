@@ -79,7 +79,7 @@ makeSuite('Siloed borrowing', (testEnv: TestEnv) => {
       pool
         .connect(users[1].signer)
         .borrow(usdc.address, usdcBorrowAmount, RateMode.Variable, '0', users[1].address)
-    ).to.be.revertedWith(SILOED_BORROWING_VIOLATION);
+    ).to.be.revertedWithProtocolError(SILOED_BORROWING_VIOLATION);
   });
 
   it('User 1 repays DAI, borrows USDC', async () => {
@@ -108,7 +108,7 @@ makeSuite('Siloed borrowing', (testEnv: TestEnv) => {
       pool
         .connect(users[1].signer)
         .borrow(dai.address, daiBorrowAmount, RateMode.Variable, '0', users[1].address)
-    ).to.be.revertedWith(SILOED_BORROWING_VIOLATION);
+    ).to.be.revertedWithProtocolError(SILOED_BORROWING_VIOLATION);
   });
 
   it('User 1 borrows ETH, tries to borrow DAI (revert expected)', async () => {
@@ -125,7 +125,7 @@ makeSuite('Siloed borrowing', (testEnv: TestEnv) => {
       pool
         .connect(users[1].signer)
         .borrow(dai.address, daiBorrowAmount, RateMode.Variable, '0', users[1].address)
-    ).to.be.revertedWith(SILOED_BORROWING_VIOLATION);
+    ).to.be.revertedWithProtocolError(SILOED_BORROWING_VIOLATION);
   });
 
   it('User 1 Repays USDC and WETH debt, set USDC as siloed', async () => {
@@ -166,7 +166,7 @@ makeSuite('Siloed borrowing', (testEnv: TestEnv) => {
       pool
         .connect(users[1].signer)
         .borrow(usdc.address, usdcBorrowAmount, RateMode.Variable, '0', users[1].address)
-    ).to.be.revertedWith(SILOED_BORROWING_VIOLATION);
+    ).to.be.revertedWithProtocolError(SILOED_BORROWING_VIOLATION);
   });
 
   it('User 1 borrows more DAI', async () => {
@@ -95,7 +95,7 @@ makeSuite('StableDebtToken', (testEnv: TestEnv) => {
 
     await expect(
       stableDebtContract.mint(deployer.address, deployer.address, '1', '1')
-    ).to.be.revertedWith(CALLER_MUST_BE_POOL);
+    ).to.be.revertedWithProtocolError(CALLER_MUST_BE_POOL);
   });
 
   it('Tries to burn not being the Pool (revert expected)', async () => {
@@ -112,7 +112,7 @@ makeSuite('StableDebtToken', (testEnv: TestEnv) => {
     const name = await stableDebtContract.name();
 
     expect(name).to.be.equal('Aave Testnet Stable Debt DAI');
-    await expect(stableDebtContract.burn(deployer.address, '1')).to.be.revertedWith(
+    await expect(stableDebtContract.burn(deployer.address, '1')).to.be.revertedWithProtocolError(
       CALLER_MUST_BE_POOL
     );
   });
@@ -128,7 +128,7 @@ makeSuite('StableDebtToken', (testEnv: TestEnv) => {
 
     await expect(
       stableDebtContract.connect(users[0].signer).transfer(users[1].address, 500)
-    ).to.be.revertedWith(ProtocolErrors.OPERATION_NOT_SUPPORTED);
+    ).to.be.revertedWithProtocolError(ProtocolErrors.OPERATION_NOT_SUPPORTED);
   });
 
   it('Check Mint and Transfer events when borrowing on behalf', async () => {
@@ -223,10 +223,10 @@ makeSuite('StableDebtToken', (testEnv: TestEnv) => {
 
     await expect(
       stableDebtContract.connect(users[0].signer).approve(users[1].address, 500)
-    ).to.be.revertedWith(ProtocolErrors.OPERATION_NOT_SUPPORTED);
+    ).to.be.revertedWithProtocolError(ProtocolErrors.OPERATION_NOT_SUPPORTED);
     await expect(
       stableDebtContract.allowance(users[0].address, users[1].address)
-    ).to.be.revertedWith(ProtocolErrors.OPERATION_NOT_SUPPORTED);
+    ).to.be.revertedWithProtocolError(ProtocolErrors.OPERATION_NOT_SUPPORTED);
   });
 
   it('Tries to increase allowance of debt tokens (revert expected)', async () => {
@@ -240,7 +240,7 @@ makeSuite('StableDebtToken', (testEnv: TestEnv) => {
 
     await expect(
       stableDebtContract.connect(users[0].signer).increaseAllowance(users[1].address, 500)
-    ).to.be.revertedWith(ProtocolErrors.OPERATION_NOT_SUPPORTED);
+    ).to.be.revertedWithProtocolError(ProtocolErrors.OPERATION_NOT_SUPPORTED);
   });
 
   it('Tries to decrease allowance of debt tokens (revert expected)', async () => {
@@ -254,7 +254,7 @@ makeSuite('StableDebtToken', (testEnv: TestEnv) => {
 
     await expect(
       stableDebtContract.connect(users[0].signer).decreaseAllowance(users[1].address, 500)
-    ).to.be.revertedWith(ProtocolErrors.OPERATION_NOT_SUPPORTED);
+    ).to.be.revertedWithProtocolError(ProtocolErrors.OPERATION_NOT_SUPPORTED);
   });
 
   it('Tries to transferFrom (revert expected)', async () => {
@@ -270,7 +270,7 @@ makeSuite('StableDebtToken', (testEnv: TestEnv) => {
       stableDebtContract
         .connect(users[0].signer)
         .transferFrom(users[0].address, users[1].address, 500)
-    ).to.be.revertedWith(ProtocolErrors.OPERATION_NOT_SUPPORTED);
+    ).to.be.revertedWithProtocolError(ProtocolErrors.OPERATION_NOT_SUPPORTED);
   });
 
   it('Burn stable debt tokens such that `secondTerm >= firstTerm`', async () => {
@@ -348,7 +348,7 @@ makeSuite('StableDebtToken', (testEnv: TestEnv) => {
 
     await expect(
       stableDebt.connect(user.signer).setIncentivesController(ZERO_ADDRESS)
-    ).to.be.revertedWith(CALLER_NOT_POOL_ADMIN);
+    ).to.be.revertedWithProtocolError(CALLER_NOT_POOL_ADMIN);
   });
 
   it('User borrows and repays in same block with zero fees', async () => {
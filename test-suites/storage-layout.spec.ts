@@ -0,0 +1,285 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { expect } from 'chai';
+import {
+  checkStorageLayouts,
+  compareStorageLayouts,
+  normalizeStorageLayout,
+  readStorageLayout,
+  SolcStorageLayout,
+  StorageVariable,
+} from '../scripts/storage-layout';
+
+// Trimmed down compiler output of the Pool, with the Yei `_forcedLiquidationWhitelist`
+const POOL_LAYOUT: SolcStorageLayout = {
+  storage: [
+    {
+      contract: 'contracts/protocol/pool/Pool.sol:Pool',
+      label: 'lastInitializedRevision',
+      offset: 0,
+      slot: '0',
+      type: 't_uint256',
+    },
+    {
+      contract: 'contracts/protocol/pool/Pool.sol:Pool',
+      label: 'initializing',
+      offset: 0,
+      slot: '1',
+      type: 't_bool',
+    },
+    {
+      contract: 'contracts/protocol/pool/Pool.sol:Pool',
+      label: '_reserves',
+      offset: 0,
+      slot: '52',
+      type: 't_mapping(t_address,t_struct(ReserveData)4321_storage)',
+    },
+    {
+      contract: 'contracts/protocol/pool/Pool.sol:Pool',
+      label: '_flashLoanPremiumTotal',
+      offset: 0,
+      slot: '58',
+      type: 't_uint128',
+    },
+    {
+      contract: 'contracts/protocol/pool/Pool.sol:Pool',
+      label: '_flashLoanPremiumToProtocol',
+      offset: 16,
+      slot: '58',
+      type: 't_uint128',
+    },
+    {
+      contract: 'contracts/protocol/pool/Pool.sol:Pool',
+      label: '_forcedLiquidationWhitelist',
+      offset: 0,
+      slot: '60',
+      type: 't_mapping(t_address,t_bool)',
+    },
+  ],
+  types: {
+    t_address: { encoding: 'inplace', label: 'address', numberOfBytes: '20' },
+    t_bool: { encoding: 'inplace', label: 'bool', numberOfBytes: '1' },
+    t_uint128: { encoding: 'inplace', label: 'uint128', numberOfBytes: '16' },
+    t_uint256: { encoding: 'inplace', label: 'uint256', numberOfBytes: '32' },
+    't_mapping(t_address,t_bool)': {
+      encoding: 'mapping',
+      key: 't_address',
+      label: 'mapping(address => bool)',
+      numberOfBytes: '32',
+      value: 't_bool',
+    },
+    't_mapping(t_address,t_struct(ReserveData)4321_storage)': {
+      encoding: 'mapping',
+      key: 't_address',
+      label: 'mapping(address => struct DataTypes.ReserveData)',
+      numberOfBytes: '32',
+      value: 't_struct(ReserveData)4321_storage',
+    },
+    't_struct(ReserveData)4321_storage': {
+      encoding: 'inplace',
+      label: 'struct DataTypes.ReserveData',
+      numberOfBytes: '64',
+      members: [
+        {
+          contract: 'contracts/protocol/libraries/types/DataTypes.sol:DataTypes',
+          label: 'liquidityIndex',
+          offset: 0,
+          slot: '0',
+          type: 't_uint128',
+        },
+        {
+          contract: 'contracts/protocol/libraries/types/DataTypes.sol:DataTypes',
+          label: 'currentLiquidityRate',
+          offset: 16,
+          slot: '0',
+          type: 't_uint128',
+        },
+        {
+          contract: 'contracts/protocol/libraries/types/DataTypes.sol:DataTypes',
+          label: 'aTokenAddress',
+          offset: 0,
+          slot: '1',
+          type: 't_address',
+        },
+      ],
+    },
+  },
+};
+
+describe('Storage layout checker', () => {
+  const baseline = normalizeStorageLayout(POOL_LAYOUT);
+  const update = (changes: (layout: StorageVariable[]) => StorageVariable[]) =>
+    changes(baseline.map((variable) => ({ ...variable })));
+
+  it('Normalizes the compiler layout without AST ids', () => {
+    expect(baseline[2]).to.be.deep.eq({
+      contract: 'Pool',
+      label: '_reserves',
+      slot: '52',
+      offset: 0,
+      numberOfBytes: '32',
+      type: 'mapping(address => struct DataTypes.ReserveData { uint128 liquidityIndex; uint128 currentLiquidityRate; address aTokenAddress })',
+    });
+  });
+
+  it('Accepts an identical layout and variables appended at the end', () => {
+    expect(compareStorageLayouts('Pool', baseline, baseline)).to.be.empty;
+    expect(
+      compareStorageLayouts('Pool', baseline, [
+        ...baseline,
+        { ...baseline[5], label: '_newVariable', slot: '61' },
+      ])
+    ).to.be.empty;
+  });
+
+  it('Accepts members appended to a struct', () => {
+    const current = update((layout) => {
+      layout[2].type = layout[2].type.replace(
+        'address aTokenAddress }',
+        'address aTokenAddress; uint8 newMember }'
+      );
+      return layout;
+    });
+    expect(compareStorageLayouts('Pool', baseline, current)).to.be.empty;
+  });
+
+  it('Reports reordered variables', () => {
+    const current = update((layout) => {
+      [layout[3].label, layout[4].label] = [layout[4].label, layout[3].label];
+      return layout;
+    });
+    expect(
+      compareStorageLayouts('Pool', baseline, current).map(({ kind, label }) => ({ kind, label }))
+    ).to.be.deep.eq([
+      { kind: 'reordered', label: '_flashLoanPremiumTotal' },
+      { kind: 'reordered', label: '_flashLoanPremiumToProtocol' },
+    ]);
+  });
+
+  it('Reports retyped variables and struct members', () => {
+    const current = update((layout) => {
+      layout[1].type = 'uint8';
+      layout[2].type = layout[2].type.replace('uint128 currentLiquidityRate', 'uint64 rate');
+      return layout;
+    });
+    expect(
+      compareStorageLayouts('Pool', baseline, current).map(({ kind, label, severity }) => ({
+        kind,
+        label,
+        severity,
+      }))
+    ).to.be.deep.eq([
+      { kind: 'retyped', label: 'initializing', severity: 'error' },
+      { kind: 'retyped', label: '_reserves', severity: 'error' },
+    ]);
+  });
+
+  it('Reports deleted variables', () => {
+    const current = update((layout) => layout.filter(({ label }) => label !== '_reserves'));
+    expect(compareStorageLayouts('Pool', baseline, current)).to.be.deep.eq([
+      {
+        contract: 'Pool',
+        kind: 'deleted',
+        label: '_reserves',
+        slot: '52',
+        offset: 0,
+        severity: 'error',
+        message: 'Pool._reserves at slot 52 was deleted',
+      },
+    ]);
+  });
+
+  it('Reports variables inserted before existing slots', () => {
+    // `_forcedLiquidationWhitelist` declared before `_reserves` shifts every following slot
+    const current = update((layout) => [
+      ...layout.slice(0, 2),
+      { ...layout[5], slot: '52' },
+      { ...layout[2], slot: '53' },
+      { ...layout[3], slot: '59' },
+      { ...layout[4], slot: '59' },
+    ]);
+    const changes = compareStorageLayouts('Pool', baseline, current);
+    expect(changes.map(({ kind, label }) => ({ kind, label }))).to.be.deep.eq([
+      { kind: 'reordered', label: '_reserves' },
+      { kind: 'reordered', label: '_flashLoanPremiumTotal' },
+      { kind: 'reordered', label: '_flashLoanPremiumToProtocol' },
+      { kind: 'reordered', label: '_forcedLiquidationWhitelist' },
+    ]);
+
+    const inserted = update((layout) => [
+      ...layout.slice(0, 2),
+      { ...layout[5], label: '_newWhitelist', slot: '52' },
+      { ...layout[2], slot: '53' },
+      ...layout.slice(3),
+    ]);
+    expect(
+      compareStorageLayouts('Pool', baseline, inserted).map(({ kind, label }) => ({ kind, label }))
+    ).to.be.deep.eq([
+      { kind: 'reordered', label: '_reserves' },
+      { kind: 'inserted', label: '_newWhitelist' },
+    ]);
+  });
+
+  it('Warns about renamed variables', () => {
+    const current = update((layout) => {
+      layout[5].label = '_liquidatorsWhitelist';
+      return layout;
+    });
+    expect(
+      compareStorageLayouts('Pool', baseline, current).map(({ kind, severity, message }) => ({
+        kind,
+        severity,
+        message,
+      }))
+    ).to.be.deep.eq([
+      {
+        kind: 'renamed',
+        severity: 'warning',
+        message: 'Pool._forcedLiquidationWhitelist at slot 60 was renamed to _liquidatorsWhitelist',
+      },
+    ]);
+  });
+
+  it('Reports contracts missing from the current build', () => {
+    expect(
+      checkStorageLayouts({ Pool: baseline, AToken: baseline }, { Pool: baseline })
+    ).to.be.deep.eq([
+      {
+        contract: 'AToken',
+        kind: 'deleted',
+        label: 'AToken',
+        slot: '0',
+        offset: 0,
+        severity: 'error',
+        message: 'AToken is missing from the current build',
+      },
+    ]);
+  });
+
+  it('Reads the layout from the Hardhat build info', () => {
+    const artifactsPath = fs.mkdtempSync(path.join(os.tmpdir(), 'storage-layout-'));
+    const source = 'contracts/protocol/pool/Pool.sol';
+    fs.mkdirSync(path.join(artifactsPath, source), { recursive: true });
+    fs.mkdirSync(path.join(artifactsPath, 'build-info'));
+    fs.writeFileSync(
+      path.join(artifactsPath, 'build-info', 'abc.json'),
+      JSON.stringify({
+        output: { contracts: { [source]: { Pool: { storageLayout: POOL_LAYOUT } } } },
+      })
+    );
+    fs.writeFileSync(
+      path.join(artifactsPath, source, 'Pool.dbg.json'),
+      JSON.stringify({ buildInfo: '../../../../build-info/abc.json' })
+    );
+
+    try {
+      expect(readStorageLayout(`${source}:Pool`, artifactsPath)).to.be.deep.eq(baseline);
+      expect(() => readStorageLayout(`${source}:PoolConfigurator`, artifactsPath)).to.throw(
+        'Missing artifact'
+      );
+    } finally {
+      fs.rmdirSync(artifactsPath, { recursive: true });
+    }
+  });
+});
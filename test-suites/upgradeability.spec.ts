@@ -401,7 +401,7 @@ makeSuite('Upgradeability', (testEnv: TestEnv) => {
       };
       await expect(
         configurator.connect(users[1].signer).updateAToken(updateATokenInputParams)
-      ).to.be.revertedWith(CALLER_NOT_POOL_ADMIN);
+      ).to.be.revertedWithProtocolError(CALLER_NOT_POOL_ADMIN);
     });
 
     it('Upgrades the DAI Atoken implementation ', async () => {
@@ -458,7 +458,7 @@ makeSuite('Upgradeability', (testEnv: TestEnv) => {
 
       await expect(
         configurator.connect(users[1].signer).updateStableDebtToken(updateDebtTokenInput)
-      ).to.be.revertedWith(CALLER_NOT_POOL_ADMIN);
+      ).to.be.revertedWithProtocolError(CALLER_NOT_POOL_ADMIN);
     });
 
     it('Upgrades the DAI stable debt token implementation ', async () => {
@@ -520,7 +520,7 @@ makeSuite('Upgradeability', (testEnv: TestEnv) => {
 
       await expect(
         configurator.connect(users[1].signer).updateVariableDebtToken(updateDebtTokenInput)
-      ).to.be.revertedWith(CALLER_NOT_POOL_ADMIN);
+      ).to.be.revertedWithProtocolError(CALLER_NOT_POOL_ADMIN);
     });
 
     it('Upgrades the DAI variable debt token implementation ', async () => {
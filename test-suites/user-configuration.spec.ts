@@ -0,0 +1,104 @@
+import { expect } from 'chai';
+import { utils } from 'ethers';
+import { ZERO_ADDRESS } from '../helpers/constants';
+import { RateMode } from '../helpers/types';
+import {
+  decodeUserConfiguration,
+  getUserConfigurationState,
+  USER_BORROWING_MASK,
+} from '../helpers/user-configuration';
+import { mintAndSupply } from './helpers/actions';
+import { makeSuite, TestEnv } from './helpers/make-suite';
+import { evmSnapshot, evmRevert, waitForTx } from '@aave/deploy-v3';
+
+makeSuite('UserConfiguration decoder', (testEnv: TestEnv) => {
+  let snap: string;
+
+  beforeEach(async () => {
+    snap = await evmSnapshot();
+  });
+  afterEach(async () => {
+    await evmRevert(snap);
+  });
+
+  it('decodeUserConfiguration() of raw bitmaps', async () => {
+    const reserves = ['0x01', '0x02', '0x03'].map((x) => utils.hexZeroPad(x, 20));
+
+    const empty = decodeUserConfiguration(0, reserves);
+    expect(empty.isEmpty).to.be.eq(true);
+    expect(empty.reserves).to.be.empty;
+
+    // Reserve 0 as collateral, reserve 2 borrowed
+    const decoded = decodeUserConfiguration('0x12', reserves);
+    expect(decoded.isEmpty).to.be.eq(false);
+    expect(decoded.collateralAssets).to.be.deep.eq([reserves[0]]);
+    expect(decoded.borrowedAssets).to.be.deep.eq([reserves[2]]);
+    expect(decoded.isUsingAsCollateralOne).to.be.eq(true);
+    expect(decoded.isBorrowingOne).to.be.eq(true);
+
+    const allBorrowed = decodeUserConfiguration(USER_BORROWING_MASK, reserves);
+    expect(allBorrowed.isBorrowingAny).to.be.eq(true);
+    expect(allBorrowed.isBorrowingOne).to.be.eq(false);
+    expect(allBorrowed.isUsingAsCollateralAny).to.be.eq(false);
+    expect(allBorrowed.reserves.length).to.be.eq(128);
+    expect(allBorrowed.reserves[127].asset).to.be.eq(ZERO_ADDRESS);
+  });
+
+  it('Decoded flags match the Pool state of each reserve', async () => {
+    const { users, pool, dai, weth, helpersContract } = testEnv;
+
+    const emptyState = await getUserConfigurationState(pool, users[1].address);
+    expect(emptyState.isEmpty).to.be.eq(true);
+
+    await mintAndSupply(testEnv, 0, 'dai', '1000');
+    await mintAndSupply(testEnv, 1, 'weth', '10');
+    await waitForTx(
+      await pool
+        .connect(users[1].signer)
+        .borrow(dai.address, utils.parseEther('100'), RateMode.Variable, '0', users[1].address)
+    );
+
+    const state = await getUserConfigurationState(pool, users[1].address);
+    expect(state.collateralAssets).to.be.deep.eq([weth.address]);
+    expect(state.borrowedAssets).to.be.deep.eq([dai.address]);
+    expect(state.isBorrowingOne).to.be.eq(true);
+    expect(state.isUsingAsCollateralOne).to.be.eq(true);
+    expect(state.isolationMode.isInIsolationMode).to.be.eq(false);
+    expect(state.siloedBorrowing.isSiloed).to.be.eq(false);
+
+    for (const { asset, isUsingAsCollateral, isBorrowing } of state.reserves) {
+      const userReserveData = await helpersContract.getUserReserveData(asset, users[1].address);
+      expect(isUsingAsCollateral).to.be.eq(userReserveData.usageAsCollateralEnabled);
+      expect(isBorrowing).to.be.eq(
+        userReserveData.currentVariableDebt.add(userReserveData.currentStableDebt).gt(0)
+      );
+    }
+  });
+
+  it('Reports isolation mode and siloed borrowing states', async () => {
+    const { users, pool, configurator, dai, aave } = testEnv;
+    const ceiling = '10000';
+
+    await waitForTx(await configurator.setDebtCeiling(aave.address, ceiling));
+    await waitForTx(await configurator.setBorrowableInIsolation(dai.address, true));
+    await waitForTx(await configurator.setSiloedBorrowing(dai.address, true));
+
+    await mintAndSupply(testEnv, 0, 'dai', '1000');
+    await mintAndSupply(testEnv, 1, 'aave', '10');
+    await waitForTx(
+      await pool.connect(users[1].signer).setUserUseReserveAsCollateral(aave.address, true)
+    );
+    await waitForTx(
+      await pool
+        .connect(users[1].signer)
+        .borrow(dai.address, utils.parseEther('10'), RateMode.Variable, '0', users[1].address)
+    );
+
+    const state = await getUserConfigurationState(pool, users[1].address);
+    expect(state.isolationMode.isInIsolationMode).to.be.eq(true);
+    expect(state.isolationMode.isolatedAsset).to.be.eq(aave.address);
+    expect(state.isolationMode.debtCeiling).to.be.eq(ceiling);
+    expect(state.siloedBorrowing.isSiloed).to.be.eq(true);
+    expect(state.siloedBorrowing.siloedAsset).to.be.eq(dai.address);
+  });
+});
@@ -69,7 +69,7 @@ makeSuite('ValidationLogic: Edge cases', (testEnv: TestEnv) => {
     await dai.connect(user.signer).approve(pool.address, MAX_UINT_AMOUNT);
     await expect(
       pool.connect(user.signer).deposit(dai.address, utils.parseEther('1000'), user.address, 0)
-    ).to.be.revertedWith(RESERVE_INACTIVE);
+    ).to.be.revertedWithProtocolError(RESERVE_INACTIVE);
   });
 
   it('validateDeposit() when reserve is frozen (revert expected)', async () => {
@@ -90,7 +90,7 @@ makeSuite('ValidationLogic: Edge cases', (testEnv: TestEnv) => {
     await dai.connect(user.signer).approve(pool.address, MAX_UINT_AMOUNT);
     await expect(
       pool.connect(user.signer).deposit(dai.address, utils.parseEther('1000'), user.address, 0)
-    ).to.be.revertedWith(RESERVE_FROZEN);
+    ).to.be.revertedWithProtocolError(RESERVE_FROZEN);
   });
 
   it('validateBorrow() when reserve is not active (revert expected)', async () => {
@@ -127,7 +127,7 @@ makeSuite('ValidationLogic: Edge cases', (testEnv: TestEnv) => {
       pool
         .connect(user.signer)
         .borrow(dai.address, utils.parseEther('1000'), RateMode.Variable, 0, user.address)
-    ).to.be.revertedWith(RESERVE_INACTIVE);
+    ).to.be.revertedWithProtocolError(RESERVE_INACTIVE);
   });
 
   it('validateBorrow() when reserve is frozen (revert expected)', async () => {
@@ -158,7 +158,7 @@ makeSuite('ValidationLogic: Edge cases', (testEnv: TestEnv) => {
       pool
         .connect(user.signer)
         .borrow(dai.address, utils.parseEther('1000'), RateMode.Variable, 0, user.address)
-    ).to.be.revertedWith(RESERVE_FROZEN);
+    ).to.be.revertedWithProtocolError(RESERVE_FROZEN);
   });
 
   it('validateBorrow() when amount == 0 (revert expected)', async () => {
@@ -167,7 +167,7 @@ makeSuite('ValidationLogic: Edge cases', (testEnv: TestEnv) => {
 
     await expect(
       pool.connect(user.signer).borrow(dai.address, 0, RateMode.Variable, 0, user.address)
-    ).to.be.revertedWith(INVALID_AMOUNT);
+    ).to.be.revertedWithProtocolError(INVALID_AMOUNT);
   });
 
   it('validateBorrow() when borrowing is not enabled (revert expected)', async () => {
@@ -198,7 +198,7 @@ makeSuite('ValidationLogic: Edge cases', (testEnv: TestEnv) => {
       pool
         .connect(user.signer)
         .borrow(dai.address, utils.parseEther('1000'), RateMode.Variable, 0, user.address)
-    ).to.be.revertedWith(BORROWING_NOT_ENABLED);
+    ).to.be.revertedWithProtocolError(BORROWING_NOT_ENABLED);
   });
 
   it('validateBorrow() when stableRateBorrowing is not enabled', async () => {
@@ -222,7 +222,7 @@ makeSuite('ValidationLogic: Edge cases', (testEnv: TestEnv) => {
       pool
         .connect(user.signer)
         .borrow(dai.address, utils.parseEther('500'), RateMode.Stable, 0, user.address)
-    ).to.be.revertedWith(STABLE_BORROWING_NOT_ENABLED);
+    ).to.be.revertedWithProtocolError(STABLE_BORROWING_NOT_ENABLED);
   });
 
   it('validateBorrow() borrowing when user has already a HF < threshold', async () => {
@@ -280,7 +280,7 @@ makeSuite('ValidationLogic: Edge cases', (testEnv: TestEnv) => {
           0,
           user.address
         )
-    ).to.be.revertedWith(HEALTH_FACTOR_LOWER_THAN_LIQUIDATION_THRESHOLD);
+    ).to.be.revertedWithProtocolError(HEALTH_FACTOR_LOWER_THAN_LIQUIDATION_THRESHOLD);
   });
 
   it('validateBorrow() stable borrowing where collateral is mostly the same currency is borrowing (revert expected)', async () => {
@@ -307,7 +307,7 @@ makeSuite('ValidationLogic: Edge cases', (testEnv: TestEnv) => {
       pool
         .connect(user.signer)
         .borrow(dai.address, utils.parseEther('500'), RateMode.Stable, 0, user.address)
-    ).to.be.revertedWith(COLLATERAL_SAME_AS_BORROWING_CURRENCY);
+    ).to.be.revertedWithProtocolError(COLLATERAL_SAME_AS_BORROWING_CURRENCY);
   });
 
   it('validateBorrow() stable borrowing when amount > maxLoanSizeStable (revert expected)', async () => {
@@ -329,7 +329,7 @@ makeSuite('ValidationLogic: Edge cases', (testEnv: TestEnv) => {
       pool
         .connect(user.signer)
         .borrow(dai.address, utils.parseEther('1500'), RateMode.Stable, 0, user.address)
-    ).to.be.revertedWith(AMOUNT_BIGGER_THAN_MAX_LOAN_SIZE_STABLE);
+    ).to.be.revertedWithProtocolError(AMOUNT_BIGGER_THAN_MAX_LOAN_SIZE_STABLE);
   });
 
   it('validateLiquidationCall() when healthFactor > threshold (revert expected)', async () => {
@@ -378,7 +378,7 @@ makeSuite('ValidationLogic: Edge cases', (testEnv: TestEnv) => {
       pool
         .connect(depositor.signer)
         .liquidationCall(usdc.address, dai.address, borrower.address, 0, false)
-    ).to.be.revertedWith(HEALTH_FACTOR_NOT_BELOW_THRESHOLD);
+    ).to.be.revertedWithProtocolError(HEALTH_FACTOR_NOT_BELOW_THRESHOLD);
   });
 
   it('validateRepay() when reserve is not active (revert expected)', async () => {
@@ -400,7 +400,7 @@ makeSuite('ValidationLogic: Edge cases', (testEnv: TestEnv) => {
       pool
         .connect(user.signer)
         .repay(dai.address, utils.parseEther('1'), RateMode.Variable, user.address)
-    ).to.be.revertedWith(RESERVE_INACTIVE);
+    ).to.be.revertedWithProtocolError(RESERVE_INACTIVE);
   });
 
   it('validateRepay() the variable debt when is 0 (stableDebt > 0) (revert expected)', async () => {
@@ -427,7 +427,7 @@ makeSuite('ValidationLogic: Edge cases', (testEnv: TestEnv) => {
       pool
         .connect(user.signer)
         .repay(dai.address, utils.parseEther('250'), RateMode.Variable, user.address)
-    ).to.be.revertedWith(NO_DEBT_OF_SELECTED_TYPE);
+    ).to.be.revertedWithProtocolError(NO_DEBT_OF_SELECTED_TYPE);
   });
 
   it('validateRepay() the stable debt when is 0 (variableDebt > 0) (revert expected)', async () => {
@@ -450,7 +450,7 @@ makeSuite('ValidationLogic: Edge cases', (testEnv: TestEnv) => {
       pool
         .connect(user.signer)
         .repay(dai.address, utils.parseEther('250'), RateMode.Stable, user.address)
-    ).to.be.revertedWith(NO_DEBT_OF_SELECTED_TYPE);
+    ).to.be.revertedWithProtocolError(NO_DEBT_OF_SELECTED_TYPE);
   });
 
   it('validateSwapRateMode() when reserve is not active', async () => {
@@ -470,13 +470,13 @@ makeSuite('ValidationLogic: Edge cases', (testEnv: TestEnv) => {
 
     await expect(
       pool.connect(user.signer).swapBorrowRateMode(dai.address, RateMode.Stable)
-    ).to.be.revertedWith(RESERVE_INACTIVE);
+    ).to.be.revertedWithProtocolError(RESERVE_INACTIVE);
     await expect(
       pool.connect(user.signer).swapBorrowRateMode(dai.address, RateMode.Variable)
-    ).to.be.revertedWith(RESERVE_INACTIVE);
+    ).to.be.revertedWithProtocolError(RESERVE_INACTIVE);
     await expect(
       pool.connect(user.signer).swapBorrowRateMode(dai.address, RateMode.None)
-    ).to.be.revertedWith(RESERVE_INACTIVE);
+    ).to.be.revertedWithProtocolError(RESERVE_INACTIVE);
   });
 
   it('validateSwapRateMode() when reserve is frozen', async () => {
@@ -496,13 +496,13 @@ makeSuite('ValidationLogic: Edge cases', (testEnv: TestEnv) => {
 
     await expect(
       pool.connect(user.signer).swapBorrowRateMode(dai.address, RateMode.Stable)
-    ).to.be.revertedWith(RESERVE_FROZEN);
+    ).to.be.revertedWithProtocolError(RESERVE_FROZEN);
     await expect(
       pool.connect(user.signer).swapBorrowRateMode(dai.address, RateMode.Variable)
-    ).to.be.revertedWith(RESERVE_FROZEN);
+    ).to.be.revertedWithProtocolError(RESERVE_FROZEN);
     await expect(
       pool.connect(user.signer).swapBorrowRateMode(dai.address, RateMode.None)
-    ).to.be.revertedWith(RESERVE_FROZEN);
+    ).to.be.revertedWithProtocolError(RESERVE_FROZEN);
   });
 
   it('validateSwapRateMode() with currentRateMode not equal to stable or variable, (revert expected)', async () => {
@@ -515,7 +515,7 @@ makeSuite('ValidationLogic: Edge cases', (testEnv: TestEnv) => {
 
     await expect(
       pool.connect(user.signer).swapBorrowRateMode(dai.address, RateMode.None)
-    ).to.be.revertedWith(INVALID_INTEREST_RATE_MODE_SELECTED);
+    ).to.be.revertedWithProtocolError(INVALID_INTEREST_RATE_MODE_SELECTED);
   });
 
   it('validateSwapRateMode() from variable to stable with stableBorrowing disabled (revert expected)', async () => {
@@ -557,7 +557,7 @@ makeSuite('ValidationLogic: Edge cases', (testEnv: TestEnv) => {
 
     await expect(
       pool.connect(user.signer).swapBorrowRateMode(dai.address, RateMode.Variable)
-    ).to.be.revertedWith(STABLE_BORROWING_NOT_ENABLED);
+    ).to.be.revertedWithProtocolError(STABLE_BORROWING_NOT_ENABLED);
   });
 
   it('validateSwapRateMode() where collateral is mostly the same currency is borrowing (revert expected)', async () => {
@@ -586,7 +586,7 @@ makeSuite('ValidationLogic: Edge cases', (testEnv: TestEnv) => {
 
     await expect(
       pool.connect(user.signer).swapBorrowRateMode(dai.address, RateMode.Variable)
-    ).to.be.revertedWith(COLLATERAL_SAME_AS_BORROWING_CURRENCY);
+    ).to.be.revertedWithProtocolError(COLLATERAL_SAME_AS_BORROWING_CURRENCY);
   });
 
   it('validateRebalanceStableBorrowRate() when reserve is not active (revert expected)', async () => {
@@ -605,7 +605,7 @@ makeSuite('ValidationLogic: Edge cases', (testEnv: TestEnv) => {
 
     await expect(
       pool.connect(user.signer).rebalanceStableBorrowRate(dai.address, user.address)
-    ).to.be.revertedWith(RESERVE_INACTIVE);
+    ).to.be.revertedWithProtocolError(RESERVE_INACTIVE);
   });
 
   it('validateSetUseReserveAsCollateral() when reserve is not active (revert expected)', async () => {
@@ -634,11 +634,11 @@ makeSuite('ValidationLogic: Edge cases', (testEnv: TestEnv) => {
 
     await expect(
       pool.connect(user.signer).setUserUseReserveAsCollateral(dai.address, true)
-    ).to.be.revertedWith(RESERVE_INACTIVE);
+    ).to.be.revertedWithProtocolError(RESERVE_INACTIVE);
 
     await expect(
       pool.connect(user.signer).setUserUseReserveAsCollateral(dai.address, false)
-    ).to.be.revertedWith(RESERVE_INACTIVE);
+    ).to.be.revertedWithProtocolError(RESERVE_INACTIVE);
   });
 
   it('validateSetUseReserveAsCollateral() with userBalance == 0 (revert expected)', async () => {
@@ -647,11 +647,11 @@ makeSuite('ValidationLogic: Edge cases', (testEnv: TestEnv) => {
 
     await expect(
       pool.connect(user.signer).setUserUseReserveAsCollateral(dai.address, true)
-    ).to.be.revertedWith(UNDERLYING_BALANCE_ZERO);
+    ).to.be.revertedWithProtocolError(UNDERLYING_BALANCE_ZERO);
 
     await expect(
       pool.connect(user.signer).setUserUseReserveAsCollateral(dai.address, false)
-    ).to.be.revertedWith(UNDERLYING_BALANCE_ZERO);
+    ).to.be.revertedWithProtocolError(UNDERLYING_BALANCE_ZERO);
   });
 
   it('validateFlashloan() with inconsistent params (revert expected)', async () => {
@@ -670,7 +670,7 @@ makeSuite('ValidationLogic: Edge cases', (testEnv: TestEnv) => {
           '0x00',
           0
         )
-    ).to.be.revertedWith(INCONSISTENT_FLASHLOAN_PARAMS);
+    ).to.be.revertedWithProtocolError(INCONSISTENT_FLASHLOAN_PARAMS);
   });
 
   it('validateFlashloan() with inactive reserve (revert expected)', async () => {
@@ -698,7 +698,7 @@ makeSuite('ValidationLogic: Edge cases', (testEnv: TestEnv) => {
           '0x00',
           0
         )
-    ).to.be.revertedWith(RESERVE_INACTIVE);
+    ).to.be.revertedWithProtocolError(RESERVE_INACTIVE);
   });
 
   it('validateFlashLoanSimple() with paused reserve (revert expected)', async () => {
@@ -714,7 +714,7 @@ makeSuite('ValidationLogic: Edge cases', (testEnv: TestEnv) => {
 
     await expect(
       pool.connect(user.signer).flashLoanSimple(user.address, weth.address, 0, '0x10', 0)
-    ).to.be.revertedWith(RESERVE_PAUSED);
+    ).to.be.revertedWithProtocolError(RESERVE_PAUSED);
   });
 
   it('validateFlashLoanSimple() with inactive reserve (revert expected)', async () => {
@@ -730,7 +730,7 @@ makeSuite('ValidationLogic: Edge cases', (testEnv: TestEnv) => {
 
     await expect(
       pool.connect(user.signer).flashLoanSimple(user.address, weth.address, 0, '0x10', 0)
-    ).to.be.revertedWith(RESERVE_INACTIVE);
+    ).to.be.revertedWithProtocolError(RESERVE_INACTIVE);
   });
 
   it('validateSetUserEMode() to undefined emode category (revert expected)', async () => {
@@ -739,7 +739,7 @@ makeSuite('ValidationLogic: Edge cases', (testEnv: TestEnv) => {
       users: [user],
     } = testEnv;
 
-    await expect(pool.connect(user.signer).setUserEMode(101)).to.be.revertedWith(
+    await expect(pool.connect(user.signer).setUserEMode(101)).to.be.revertedWithProtocolError(
       INCONSISTENT_EMODE_CATEGORY
     );
   });
@@ -808,7 +808,7 @@ makeSuite('ValidationLogic: Edge cases', (testEnv: TestEnv) => {
       pool
         .connect(user.signer)
         .borrow(usdc.address, parseUnits('100', 6), RateMode.Variable, 0, user.address)
-    ).to.be.revertedWith(INCONSISTENT_EMODE_CATEGORY);
+    ).to.be.revertedWithProtocolError(INCONSISTENT_EMODE_CATEGORY);
   });
 
   it('validateHFAndLtv() with HF < 1 (revert expected)', async () => {
@@ -844,7 +844,7 @@ makeSuite('ValidationLogic: Edge cases', (testEnv: TestEnv) => {
 
     await expect(
       pool.connect(user.signer).withdraw(dai.address, parseUnits('500', 18), user.address)
-    ).to.be.revertedWith(HEALTH_FACTOR_LOWER_THAN_LIQUIDATION_THRESHOLD);
+    ).to.be.revertedWithProtocolError(HEALTH_FACTOR_LOWER_THAN_LIQUIDATION_THRESHOLD);
   });
 
   it('validateHFAndLtv() with HF < 1 for 0 LTV asset (revert expected)', async () => {
@@ -891,6 +891,6 @@ makeSuite('ValidationLogic: Edge cases', (testEnv: TestEnv) => {
     // Withdraw all my dai
     await expect(
       pool.connect(user.signer).withdraw(dai.address, parseUnits('500', 18), user.address)
-    ).to.be.revertedWith(HEALTH_FACTOR_LOWER_THAN_LIQUIDATION_THRESHOLD);
+    ).to.be.revertedWithProtocolError(HEALTH_FACTOR_LOWER_THAN_LIQUIDATION_THRESHOLD);
   });
 });
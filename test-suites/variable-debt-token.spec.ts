@@ -112,7 +112,7 @@ makeSuite('VariableDebtToken', (testEnv: TestEnv) => {
 
     await expect(
       variableDebtContract.mint(deployer.address, deployer.address, '1', '1')
-    ).to.be.revertedWith(CALLER_MUST_BE_POOL);
+    ).to.be.revertedWithProtocolError(CALLER_MUST_BE_POOL);
   });
 
   it('Tries to burn not being the Pool (revert expected)', async () => {
@@ -127,9 +127,9 @@ makeSuite('VariableDebtToken', (testEnv: TestEnv) => {
       deployer.signer
     );
 
-    await expect(variableDebtContract.burn(deployer.address, '1', '1')).to.be.revertedWith(
-      CALLER_MUST_BE_POOL
-    );
+    await expect(
+      variableDebtContract.burn(deployer.address, '1', '1')
+    ).to.be.revertedWithProtocolError(CALLER_MUST_BE_POOL);
   });
 
   it('Tries to mint with amountScaled == 0 (revert expected)', async () => {
@@ -153,7 +153,7 @@ makeSuite('VariableDebtToken', (testEnv: TestEnv) => {
       variableDebtContract
         .connect(poolSigner)
         .mint(users[0].address, users[0].address, 0, utils.parseUnits('1', 27))
-    ).to.be.revertedWith(INVALID_MINT_AMOUNT);
+    ).to.be.revertedWithProtocolError(INVALID_MINT_AMOUNT);
   });
 
   it('Tries to burn with amountScaled == 0 (revert expected)', async () => {
@@ -175,7 +175,7 @@ makeSuite('VariableDebtToken', (testEnv: TestEnv) => {
 
     await expect(
       variableDebtContract.connect(poolSigner).burn(users[0].address, 0, utils.parseUnits('1', 27))
-    ).to.be.revertedWith(INVALID_BURN_AMOUNT);
+    ).to.be.revertedWithProtocolError(INVALID_BURN_AMOUNT);
   });
 
   it('Tries to transfer debt tokens (revert expected)', async () => {
@@ -190,7 +190,7 @@ makeSuite('VariableDebtToken', (testEnv: TestEnv) => {
 
     await expect(
       variableDebtContract.connect(users[0].signer).transfer(users[1].address, 500)
-    ).to.be.revertedWith(ProtocolErrors.OPERATION_NOT_SUPPORTED);
+    ).to.be.revertedWithProtocolError(ProtocolErrors.OPERATION_NOT_SUPPORTED);
   });
 
   it('Tries to approve debt tokens (revert expected)', async () => {
@@ -205,10 +205,10 @@ makeSuite('VariableDebtToken', (testEnv: TestEnv) => {
 
     await expect(
       variableDebtContract.connect(users[0].signer).approve(users[1].address, 500)
-    ).to.be.revertedWith(ProtocolErrors.OPERATION_NOT_SUPPORTED);
+    ).to.be.revertedWithProtocolError(ProtocolErrors.OPERATION_NOT_SUPPORTED);
     await expect(
       variableDebtContract.allowance(users[0].address, users[1].address)
-    ).to.be.revertedWith(ProtocolErrors.OPERATION_NOT_SUPPORTED);
+    ).to.be.revertedWithProtocolError(ProtocolErrors.OPERATION_NOT_SUPPORTED);
   });
 
   it('Tries to increaseAllowance (revert expected)', async () => {
@@ -223,7 +223,7 @@ makeSuite('VariableDebtToken', (testEnv: TestEnv) => {
 
     await expect(
       variableDebtContract.connect(users[0].signer).increaseAllowance(users[1].address, 500)
-    ).to.be.revertedWith(ProtocolErrors.OPERATION_NOT_SUPPORTED);
+    ).to.be.revertedWithProtocolError(ProtocolErrors.OPERATION_NOT_SUPPORTED);
   });
 
   it('Tries to decreaseAllowance (revert expected)', async () => {
@@ -238,7 +238,7 @@ makeSuite('VariableDebtToken', (testEnv: TestEnv) => {
 
     await expect(
       variableDebtContract.connect(users[0].signer).decreaseAllowance(users[1].address, 500)
-    ).to.be.revertedWith(ProtocolErrors.OPERATION_NOT_SUPPORTED);
+    ).to.be.revertedWithProtocolError(ProtocolErrors.OPERATION_NOT_SUPPORTED);
   });
 
   it('Tries to transferFrom debt tokens (revert expected)', async () => {
@@ -255,7 +255,7 @@ makeSuite('VariableDebtToken', (testEnv: TestEnv) => {
       variableDebtContract
         .connect(users[0].signer)
         .transferFrom(users[0].address, users[1].address, 500)
-    ).to.be.revertedWith(ProtocolErrors.OPERATION_NOT_SUPPORTED);
+    ).to.be.revertedWithProtocolError(ProtocolErrors.OPERATION_NOT_SUPPORTED);
   });
 
   it('setIncentivesController() ', async () => {
@@ -295,7 +295,7 @@ makeSuite('VariableDebtToken', (testEnv: TestEnv) => {
 
     await expect(
       variableDebtContract.connect(user.signer).setIncentivesController(ZERO_ADDRESS)
-    ).to.be.revertedWith(CALLER_NOT_POOL_ADMIN);
+    ).to.be.revertedWithProtocolError(CALLER_NOT_POOL_ADMIN);
   });
 
   it('Check Mint and Transfer events when borrowing on behalf', async () => {